@@ -0,0 +1,222 @@
+/**
+ * Command-line runner - runs an exported collection headlessly, for CI
+ *
+ * Sends the requests through the same services as POST /api/runs and reports the
+ * results on the console, as JSON or as JUnit XML. Exits with 0 when every request
+ * passes, 1 when any fails and 2 when the command or its files are invalid.
+ *
+ * @module cli
+ */
+
+import { parseArgs } from '@std/cli/parse-args';
+import type { ZodError } from 'zod';
+import { RunCollectionRequestSchema } from './models/schema.ts';
+import type { RunReport } from './models/schema.ts';
+import { runCollection } from './services/runner.service.ts';
+import {
+  formatConsoleResult,
+  formatConsoleSummary,
+  formatJsonReport,
+  formatJUnitReport,
+  REPORTERS,
+  type ReporterName,
+} from './services/report.service.ts';
+
+/** Every request passed */
+const EXIT_PASSED = 0;
+
+/** At least one request failed */
+const EXIT_FAILED = 1;
+
+/** Invalid command, unreadable file or invalid export */
+const EXIT_USAGE = 2;
+
+/** Report files written when no path is given */
+const DEFAULT_EXPORTS: Record<Exclude<ReporterName, 'console'>, string> = {
+  json: 'neo-postman-report.json',
+  junit: 'neo-postman-report.xml',
+};
+
+const USAGE = `Usage: neo-postman run <collection.json> [options]
+
+Runs every request of a Neo-Postman collection export and checks its assertions.
+
+Options:
+  -e, --environment <file>  Environment export to resolve {{variables}} with
+  -n, --iterations <count>  Times the whole collection is run (default 1)
+      --delay <ms>          Wait between two requests (default 0)
+      --bail                Stop at the first request that fails
+  -r, --reporters <list>    Comma-separated: ${REPORTERS.join(', ')} (default console)
+      --json-export <file>  JSON report path (default ${DEFAULT_EXPORTS.json})
+      --junit-export <file> JUnit XML report path (default ${DEFAULT_EXPORTS.junit})
+  -h, --help                Show this help
+
+Exit codes: ${EXIT_PASSED} all passed, ${EXIT_FAILED} a request failed, ${EXIT_USAGE} invalid command or files`;
+
+/**
+ * Error in the command line or its input files, reported without a stack trace
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Run the command line
+ *
+ * @param args - Arguments after the program name
+ * @returns Promise resolving to the exit code
+ *
+ * @example
+ * ```bash
+ * neo-postman run collection.json -e staging.json -r console,junit
+ * ```
+ */
+export async function main(args: string[]): Promise<number> {
+  try {
+    const flags = parseArgs(args, {
+      string: ['environment', 'iterations', 'delay', 'reporters', 'json-export', 'junit-export'],
+      boolean: ['bail', 'help'],
+      alias: { e: 'environment', n: 'iterations', r: 'reporters', h: 'help' },
+      default: { reporters: 'console' },
+      unknown: (arg) => {
+        if (arg.startsWith('-')) throw new UsageError(`Unknown option ${arg}`);
+        return true;
+      },
+    });
+    if (flags.help) {
+      console.log(USAGE);
+      return EXIT_PASSED;
+    }
+
+    const [command, collectionPath, ...extra] = flags._.map(String);
+    if (command !== 'run' || !collectionPath || extra.length > 0) {
+      throw new UsageError('Expected: neo-postman run <collection.json> [options]');
+    }
+    const reporters = parseReporters(flags.reporters);
+
+    const parseResult = RunCollectionRequestSchema.safeParse({
+      collection: await readJson(collectionPath),
+      environment: flags.environment ? await readJson(flags.environment) : null,
+      iterations: flags.iterations === undefined ? undefined : Number(flags.iterations),
+      delay: flags.delay === undefined ? undefined : Number(flags.delay),
+      stopOnFailure: flags.bail,
+    });
+    if (!parseResult.success) {
+      throw new UsageError(`Invalid input:\n${formatIssues(parseResult.error)}`);
+    }
+
+    const input = parseResult.data;
+    const toConsole = reporters.includes('console');
+    if (toConsole) {
+      const environment = input.environment ? ` (${input.environment.environment.name})` : '';
+      console.log(`Running ${input.collection.collection.name}${environment}\n`);
+    }
+
+    let iteration = 0;
+    const report = await runCollection(input, (result) => {
+      if (!toConsole) return;
+      if (input.iterations > 1 && result.iteration !== iteration) {
+        iteration = result.iteration;
+        console.log(`${iteration > 1 ? '\n' : ''}Iteration ${iteration}`);
+      }
+      console.log(formatConsoleResult(result));
+    });
+
+    if (toConsole) {
+      console.log(`\n${formatConsoleSummary(report)}`);
+    }
+    await writeReports(report, reporters, {
+      json: flags['json-export'] ?? DEFAULT_EXPORTS.json,
+      junit: flags['junit-export'] ?? DEFAULT_EXPORTS.junit,
+    });
+
+    return report.status === 'passed' ? EXIT_PASSED : EXIT_FAILED;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\nRun neo-postman --help for usage.`);
+      return EXIT_USAGE;
+    }
+    console.error('Run error:', error);
+    return EXIT_FAILED;
+  }
+}
+
+/**
+ * Parse the comma-separated reporter list
+ */
+function parseReporters(list: string): ReporterName[] {
+  const names = list
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  for (const name of names) {
+    if (!REPORTERS.includes(name as ReporterName)) {
+      throw new UsageError(`Unknown reporter "${name}"; expected ${REPORTERS.join(', ')}`);
+    }
+  }
+  return names as ReporterName[];
+}
+
+/**
+ * Read and parse a JSON file
+ */
+async function readJson(path: string): Promise<unknown> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (error) {
+    throw new UsageError(`Cannot read ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new UsageError(`${path} is not valid JSON`);
+  }
+}
+
+/**
+ * One line per validation issue, prefixed with where it is (e.g. collection.requests.0.url)
+ */
+function formatIssues(error: ZodError): string {
+  return error.issues
+    .map((issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('\n');
+}
+
+/**
+ * Write the JSON and JUnit reports the run asked for
+ */
+async function writeReports(
+  report: RunReport,
+  reporters: ReporterName[],
+  paths: Record<Exclude<ReporterName, 'console'>, string>
+): Promise<void> {
+  const files = [
+    { reporter: 'json' as const, content: () => formatJsonReport(report) },
+    { reporter: 'junit' as const, content: () => formatJUnitReport(report) },
+  ];
+
+  for (const { reporter, content } of files) {
+    if (!reporters.includes(reporter)) continue;
+
+    const path = paths[reporter];
+    try {
+      await Deno.writeTextFile(path, content());
+    } catch (error) {
+      throw new UsageError(
+        `Cannot write ${path}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    if (reporters.includes('console')) {
+      console.log(`${reporter === 'json' ? 'JSON' : 'JUnit'} report written to ${path}`);
+    }
+  }
+}
+
+if (import.meta.main) {
+  Deno.exit(await main(Deno.args));
+}
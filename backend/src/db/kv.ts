@@ -0,0 +1,72 @@
+/**
+ * Deno KV connection and key layout for the sync server
+ *
+ * @module db/kv
+ */
+
+import type { SyncEntityType } from '../models/schema.ts';
+
+/** Lazily opened KV handle shared by all services */
+let kvPromise: Promise<Deno.Kv> | null = null;
+
+/**
+ * Get the shared Deno KV instance, opening it on first use
+ *
+ * Uses `SYNC_KV_PATH` when set, otherwise Deno's default location
+ * (or the managed store when running on Deno Deploy).
+ *
+ * @returns Promise resolving to the KV instance
+ */
+export function getKv(): Promise<Deno.Kv> {
+  if (!kvPromise) {
+    kvPromise = Deno.openKv(Deno.env.get('SYNC_KV_PATH') || undefined);
+  }
+  return kvPromise;
+}
+
+/**
+ * Key builders for every record stored in KV
+ *
+ * Changes are keyed by a per-project sequence number so a prefix scan returns them in sync order.
+ */
+export const kvKeys = {
+  /** SyncProject record by id */
+  project: (projectId: string): Deno.KvKey => ['sync_projects', projectId],
+
+  /** Project id lookup by (case-insensitive) name */
+  projectByName: (name: string): Deno.KvKey => ['sync_project_names', name.toLowerCase()],
+
+  /** All changes of a project, ordered by sequence */
+  changes: (projectId: string): Deno.KvKey => ['sync_changes', projectId],
+
+  /** Single change record at its position in the log */
+  change: (projectId: string, sequence: number): Deno.KvKey => [
+    'sync_changes',
+    projectId,
+    sequence,
+  ],
+
+  /** Sequence number of the last change appended to a project's log */
+  lastSequence: (projectId: string): Deno.KvKey => ['sync_sequences', projectId],
+
+  /** Marker recording that a change id was already accepted (idempotent push) */
+  changeId: (projectId: string, changeId: string): Deno.KvKey => [
+    'sync_change_ids',
+    projectId,
+    changeId,
+  ],
+
+  /** All current entity states of a project */
+  entities: (projectId: string): Deno.KvKey => ['sync_entities', projectId],
+
+  /** Current state of a single entity */
+  entity: (projectId: string, entityType: SyncEntityType, entityId: string): Deno.KvKey => [
+    'sync_entities',
+    projectId,
+    entityType,
+    entityId,
+  ],
+
+  /** Persisted token signing secret (used when SYNC_JWT_SECRET is not set) */
+  jwtSecret: (): Deno.KvKey => ['sync_config', 'jwt_secret'],
+};
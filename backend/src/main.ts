@@ -3,6 +3,9 @@ import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import { serveStatic } from 'hono/deno';
 import { proxy } from './routes/proxy.ts';
+import { oauth } from './routes/oauth.ts';
+import { sync } from './routes/sync.ts';
+import { runs } from './routes/runs.ts';
 
 const app = new Hono();
 
@@ -27,6 +30,9 @@ app.get('/health', (c) => {
 
 // API routes
 app.route('/api/proxy', proxy);
+app.route('/api/oauth', oauth);
+app.route('/api/sync', sync);
+app.route('/api/runs', runs);
 
 // Serve static frontend files (production)
 app.use('/*', serveStatic({ root: './static' }));
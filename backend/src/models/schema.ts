@@ -29,8 +29,19 @@ export type HttpMethod = z.infer<typeof HttpMethodSchema>;
 // Proxy Schemas
 // ============================================================================
 
+/**
+ * Username/password credentials for Digest auth
+ */
+export const CredentialsSchema = z.object({
+  username: z.string(),
+  password: z.string(),
+});
+
+export type Credentials = z.infer<typeof CredentialsSchema>;
+
 /**
  * Proxy request schema - validated input from frontend
+ * With digest credentials the proxy answers a 401 Digest challenge and retries.
  */
 export const ProxyRequestSchema = z.object({
   method: HttpMethodSchema,
@@ -38,6 +49,7 @@ export const ProxyRequestSchema = z.object({
   headers: z.record(z.string(), z.string()).optional().default({}),
   body: z.string().nullable().optional(),
   timeout: z.number().int().min(0).max(300000).default(30000),
+  digest: CredentialsSchema.optional(),
 });
 
 export type ProxyRequest = z.infer<typeof ProxyRequestSchema>;
@@ -84,6 +96,56 @@ export const ProxyResponseSchema = z.object({
 
 export type ProxyResponse = z.infer<typeof ProxyResponseSchema>;
 
+// ============================================================================
+// OAuth Schemas
+// ============================================================================
+
+/**
+ * OAuth 2.0 grant types the token exchange supports
+ */
+export const OAuthGrantTypeSchema = z.enum([
+  'client_credentials',
+  'password',
+  'authorization_code',
+  'refresh_token',
+]);
+
+export type OAuthGrantType = z.infer<typeof OAuthGrantTypeSchema>;
+
+/**
+ * OAuth token request - the frontend asks the proxy to exchange a grant for a token
+ * Fields beyond the client's are only read for the grant type that needs them.
+ */
+export const OAuthTokenRequestSchema = z.object({
+  grantType: OAuthGrantTypeSchema,
+  tokenUrl: z.string().url(),
+  clientId: z.string(),
+  clientSecret: z.string().optional(),
+  clientAuth: z.enum(['body', 'header']).default('body'),
+  scope: z.string().optional(),
+  username: z.string().optional(), // password
+  password: z.string().optional(), // password
+  code: z.string().optional(), // authorization_code
+  redirectUri: z.string().optional(), // authorization_code
+  codeVerifier: z.string().optional(), // authorization_code with PKCE
+  refreshToken: z.string().optional(), // refresh_token
+});
+
+export type OAuthTokenRequest = z.infer<typeof OAuthTokenRequestSchema>;
+
+/**
+ * OAuth token response - normalized from the provider's token endpoint
+ */
+export const OAuthTokenResponseSchema = z.object({
+  accessToken: z.string(),
+  tokenType: z.string(),
+  expiresIn: z.number().nullable(),
+  refreshToken: z.string().nullable(),
+  scope: z.string().nullable(),
+});
+
+export type OAuthTokenResponse = z.infer<typeof OAuthTokenResponseSchema>;
+
 // ============================================================================
 // Sync Schemas
 // ============================================================================
@@ -136,6 +198,11 @@ export type SyncOperation = z.infer<typeof SyncOperationSchema>;
 
 /**
  * Sync change record
+ *
+ * `data` is always the full entity after the change (null for delete).
+ * Updates list the top-level fields they modified in `changedFields` so
+ * concurrent edits to different fields of the same entity merge instead of
+ * overwriting each other; when absent the whole entity is replaced.
  */
 export const SyncChangeSchema = z.object({
   id: z.string().uuid(),
@@ -143,6 +210,7 @@ export const SyncChangeSchema = z.object({
   entityId: z.string().uuid(),
   operation: SyncOperationSchema,
   data: z.unknown().nullable(),
+  changedFields: z.array(z.string()).optional(),
   timestamp: z.string().datetime(),
   clientId: z.string(),
 });
@@ -158,6 +226,424 @@ export const PushChangesSchema = z.object({
 
 export type PushChangesRequest = z.infer<typeof PushChangesSchema>;
 
+/**
+ * Query parameters for fetching changes
+ */
+export const ChangesQuerySchema = z.object({
+  since: z.coerce.number().int().nonnegative().optional(),
+});
+
+export type ChangesQuery = z.infer<typeof ChangesQuerySchema>;
+
+/**
+ * Sync project as persisted by the server (never returned to clients)
+ */
+export const SyncProjectRecordSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  passwordHash: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export type SyncProjectRecord = z.infer<typeof SyncProjectRecordSchema>;
+
+/**
+ * Sync change as stored and served, stamped with the server receive time
+ * and its position in the project's log (the pull cursor)
+ */
+export const StoredSyncChangeSchema = SyncChangeSchema.extend({
+  serverTime: z.string().datetime(),
+  sequence: z.number().int().positive(),
+});
+
+export type StoredSyncChange = z.infer<typeof StoredSyncChangeSchema>;
+
+/**
+ * Latest known state of a synced entity (tombstoned on delete)
+ */
+export const SyncEntityStateSchema = z.object({
+  data: z.unknown().nullable(),
+  timestamp: z.string().datetime(),
+  deleted: z.boolean(),
+});
+
+export type SyncEntityState = z.infer<typeof SyncEntityStateSchema>;
+
+/**
+ * Get changes response
+ */
+export const ChangesResponseSchema = z.object({
+  changes: z.array(StoredSyncChangeSchema),
+  cursor: z.number().int().nonnegative(),
+});
+
+export type ChangesResponse = z.infer<typeof ChangesResponseSchema>;
+
+/**
+ * Push changes response
+ */
+export const PushResultSchema = z.object({
+  accepted: z.number().int().nonnegative(),
+  serverTime: z.string().datetime(),
+});
+
+export type PushResult = z.infer<typeof PushResultSchema>;
+
+/**
+ * Full project snapshot for initial sync
+ */
+export const ProjectSnapshotSchema = z.object({
+  environments: z.array(z.unknown()),
+  collections: z.array(z.unknown()),
+  folders: z.array(z.unknown()),
+  requests: z.array(z.unknown()),
+  cursor: z.number().int().nonnegative(),
+});
+
+export type ProjectSnapshot = z.infer<typeof ProjectSnapshotSchema>;
+
+/**
+ * Query parameters for opening a project's live channel
+ */
+export const LiveQuerySchema = z.object({
+  clientId: z.string().min(1).max(100),
+});
+
+export type LiveQuery = z.infer<typeof LiveQuerySchema>;
+
+/**
+ * Client currently connected to a project's live channel
+ */
+export const SyncPresenceSchema = z.object({
+  clientId: z.string(),
+  connectedAt: z.string().datetime(),
+});
+
+export type SyncPresence = z.infer<typeof SyncPresenceSchema>;
+
+/**
+ * Message sent to clients over the live channel
+ *
+ * `changes` carries a batch accepted from another client; `presence` lists
+ * every client currently connected to the project.
+ */
+export const LiveMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('changes'),
+    changes: z.array(StoredSyncChangeSchema),
+    cursor: z.number().int().nonnegative(),
+  }),
+  z.object({
+    type: z.literal('presence'),
+    clients: z.array(SyncPresenceSchema),
+  }),
+]);
+
+export type LiveMessage = z.infer<typeof LiveMessageSchema>;
+
+// ============================================================================
+// Runner Schemas
+// ============================================================================
+
+/**
+ * Variable - key-value pair for {{variable}} substitution
+ * Secret values are redacted from run reports.
+ */
+export const VariableSchema = z.object({
+  key: z
+    .string()
+    .min(1)
+    .max(50)
+    .regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Variable key must be alphanumeric with underscores'),
+  value: z.string().max(10000),
+  enabled: z.boolean().default(true),
+  secret: z.boolean().optional(),
+});
+
+export type Variable = z.infer<typeof VariableSchema>;
+
+/**
+ * Request header
+ */
+export const HeaderSchema = z.object({
+  key: z.string().min(1).max(100),
+  value: z.string().max(8000),
+  enabled: z.boolean().default(true),
+});
+
+export type Header = z.infer<typeof HeaderSchema>;
+
+/**
+ * Request body (null = none)
+ */
+export const RequestBodySchema = z
+  .object({
+    type: z.enum(['json', 'form-data', 'x-www-form-urlencoded', 'raw', 'binary']),
+    content: z.string().max(5000000),
+    binaryFileName: z.string().optional(),
+  })
+  .nullable();
+
+export type RequestBody = z.infer<typeof RequestBodySchema>;
+
+/**
+ * Where a signature or token is added to the request
+ */
+export const SignaturePlacementSchema = z.object({
+  in: z.enum(['header', 'query']),
+  name: z.string(),
+  prefix: z.string(),
+});
+
+/**
+ * Authentication configuration, as the app stores it
+ * The runner applies every type but AWS Signature v4, HMAC and JWT, and OAuth 2.0
+ * only with grants that need no browser (client credentials and password).
+ */
+export const AuthConfigSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('none') }),
+  z.object({
+    type: z.literal('bearer'),
+    bearer: z.object({ token: z.string() }),
+  }),
+  z.object({
+    type: z.literal('api-key'),
+    apiKey: z.object({
+      key: z.string().min(1),
+      value: z.string(),
+      in: z.enum(['header', 'query']),
+    }),
+  }),
+  z.object({
+    type: z.literal('basic'),
+    basic: CredentialsSchema,
+  }),
+  z.object({
+    type: z.literal('digest'),
+    digest: CredentialsSchema,
+  }),
+  z.object({
+    type: z.literal('oauth2'),
+    oauth2: z.object({
+      grantType: z.enum(['client_credentials', 'password', 'authorization_code']),
+      tokenUrl: z.string(),
+      authUrl: z.string(),
+      redirectUri: z.string(),
+      clientId: z.string(),
+      clientSecret: z.string(),
+      scope: z.string(),
+      username: z.string(),
+      password: z.string(),
+      clientAuth: z.enum(['body', 'header']),
+      usePkce: z.boolean(),
+      headerPrefix: z.string(),
+    }),
+  }),
+  z.object({
+    type: z.literal('aws-sigv4'),
+    awsSigV4: z.object({
+      accessKeyId: z.string(),
+      secretAccessKey: z.string(),
+      sessionToken: z.string(),
+      region: z.string(),
+      service: z.string(),
+    }),
+  }),
+  z.object({
+    type: z.literal('hmac'),
+    hmac: z.object({
+      algorithm: z.enum(['SHA-1', 'SHA-256', 'SHA-384', 'SHA-512']),
+      secret: z.string(),
+      message: z.string(),
+      encoding: z.enum(['hex', 'base64']),
+      timestampHeader: z.string(),
+      placement: SignaturePlacementSchema,
+    }),
+  }),
+  z.object({
+    type: z.literal('jwt'),
+    jwt: z.object({
+      algorithm: z.enum(['HS256', 'HS384', 'HS512', 'RS256', 'RS384', 'RS512', 'ES256', 'ES384']),
+      secret: z.string(),
+      header: z.string(),
+      payload: z.string(),
+      expiresIn: z.number().int().nonnegative(),
+      placement: SignaturePlacementSchema,
+    }),
+  }),
+]);
+
+export type AuthConfig = z.infer<typeof AuthConfigSchema>;
+
+/**
+ * No-code check of a response
+ */
+export const AssertionSchema = z.object({
+  source: z.enum(['status', 'header', 'jsonPath', 'responseTime', 'bodySize']),
+  property: z.string().max(1000),
+  operator: z.enum(['equals', 'notEquals', 'contains', 'exists', 'matches', 'below', 'above']),
+  value: z.string().max(10000),
+  enabled: z.boolean().default(true),
+});
+
+export type Assertion = z.infer<typeof AssertionSchema>;
+
+/**
+ * Response value saved into a variable for the next requests
+ */
+export const CaptureSchema = z.object({
+  variable: z.string().max(50),
+  source: z.enum(['jsonPath', 'header', 'regex', 'cookie']),
+  expression: z.string().max(1000),
+  scope: z.enum(['environment', 'collection', 'runtime']),
+  enabled: z.boolean().default(true),
+});
+
+export type Capture = z.infer<typeof CaptureSchema>;
+
+/**
+ * Folder of an exported collection (nested by parentFolderId)
+ */
+export const FolderExportSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(100),
+  parentFolderId: z.string().nullable().default(null),
+  auth: AuthConfigSchema.nullable().default(null), // null = inherit
+  preRequestScript: z.string().max(100000).default(''),
+  sortOrder: z.number().int().nonnegative().default(0),
+});
+
+export type FolderExport = z.infer<typeof FolderExportSchema>;
+
+/**
+ * Saved request of an exported collection
+ */
+export const RequestExportSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(200),
+  method: HttpMethodSchema,
+  url: z.string().min(1).max(2000),
+  headers: z.array(HeaderSchema).default([]),
+  body: RequestBodySchema.default(null),
+  auth: AuthConfigSchema.nullable().default(null), // null = inherit
+  variables: z.array(VariableSchema).default([]),
+  preRequestScript: z.string().max(100000).default(''),
+  testScript: z.string().max(100000).default(''),
+  assertions: z.array(AssertionSchema).default([]),
+  captures: z.array(CaptureSchema).default([]),
+  timeout: z.number().int().min(0).max(300000).default(30000),
+  folderId: z.string().nullable().default(null), // null = collection root
+  sortOrder: z.number().int().nonnegative().default(0),
+});
+
+export type RequestExport = z.infer<typeof RequestExportSchema>;
+
+/**
+ * Collection in the Neo-Postman export format, with its folders and requests
+ */
+export const CollectionExportSchema = z.object({
+  format: z.literal('neo-postman'),
+  version: z.literal(1),
+  type: z.literal('collection'),
+  collection: z.object({
+    name: z.string().min(1).max(100),
+    description: z.string().max(1000).default(''),
+    auth: AuthConfigSchema.nullable().default(null),
+    variables: z.array(VariableSchema).default([]),
+    preRequestScript: z.string().max(100000).default(''),
+  }),
+  folders: z.array(FolderExportSchema).default([]),
+  requests: z.array(RequestExportSchema).default([]),
+});
+
+export type CollectionExport = z.infer<typeof CollectionExportSchema>;
+
+/**
+ * Environment in the Neo-Postman export format
+ */
+export const EnvironmentExportSchema = z.object({
+  format: z.literal('neo-postman'),
+  version: z.literal(1),
+  type: z.literal('environment'),
+  environment: z.object({
+    name: z.string().min(1).max(100),
+    variables: z.array(VariableSchema).default([]),
+  }),
+});
+
+export type EnvironmentExport = z.infer<typeof EnvironmentExportSchema>;
+
+/**
+ * Headless run request - an exported collection, optionally an environment and data rows
+ * Each data row is one iteration; iterations past the last row reuse it.
+ */
+export const RunCollectionRequestSchema = z.object({
+  collection: CollectionExportSchema,
+  environment: EnvironmentExportSchema.nullable().default(null),
+  globals: z.array(VariableSchema).default([]),
+  iterations: z.number().int().min(1).max(1000).default(1),
+  delay: z.number().int().min(0).max(60000).default(0), // ms between requests
+  stopOnFailure: z.boolean().default(false),
+  data: z.array(z.record(z.string(), z.string())).min(1).max(1000).nullable().default(null),
+});
+
+export type RunCollectionRequest = z.infer<typeof RunCollectionRequestSchema>;
+
+/**
+ * Outcome of one assertion
+ */
+export const CheckResultSchema = z.object({
+  name: z.string(),
+  passed: z.boolean(),
+  error: z.string().nullable(),
+});
+
+export type CheckResult = z.infer<typeof CheckResultSchema>;
+
+/**
+ * Outcome of one request of a headless run
+ */
+export const RunResultSchema = z.object({
+  requestId: z.string(),
+  name: z.string(),
+  folder: z.string(), // Folder path, e.g. 'Users / Admin' ('' = collection root)
+  iteration: z.number().int().min(1),
+  method: HttpMethodSchema,
+  url: z.string(), // Resolved URL, secret values put back as their {{references}}
+  status: z.number().int(), // 0 = no response
+  statusText: z.string(),
+  time: z.number().nonnegative(),
+  size: z.number().int().nonnegative(),
+  error: z.string().nullable(),
+  assertions: z.array(CheckResultSchema),
+  passed: z.boolean(),
+});
+
+export type RunResult = z.infer<typeof RunResultSchema>;
+
+/**
+ * Machine-readable report of a headless run
+ * `warnings` lists what the run could not do, such as scripts it skipped.
+ */
+export const RunReportSchema = z.object({
+  collectionName: z.string(),
+  environmentName: z.string().nullable(),
+  status: z.enum(['passed', 'failed']),
+  iterations: z.number().int().min(1),
+  summary: z.object({
+    total: z.number().int().nonnegative(),
+    passed: z.number().int().nonnegative(),
+    failed: z.number().int().nonnegative(),
+  }),
+  results: z.array(RunResultSchema),
+  warnings: z.array(z.string()),
+  startedAt: z.string().datetime(),
+  finishedAt: z.string().datetime(),
+});
+
+export type RunReport = z.infer<typeof RunReportSchema>;
+
 // ============================================================================
 // Error Response
 // ============================================================================
@@ -0,0 +1,54 @@
+/**
+ * OAuth route handlers - token exchange on behalf of the frontend
+ *
+ * @module routes/oauth
+ */
+
+import { Hono } from 'hono';
+import { OAuthTokenRequestSchema } from '../models/schema.ts';
+import { OAuthError, requestOAuthToken } from '../services/oauth.service.ts';
+
+const oauth = new Hono();
+
+/**
+ * POST /api/oauth/token
+ * Exchange an OAuth 2.0 grant for an access token
+ *
+ * @body OAuthTokenRequest - Grant type, token URL, client and grant parameters
+ * @returns OAuthTokenResponse - The normalized access token
+ */
+oauth.post('/token', async (c) => {
+  try {
+    const parseResult = OAuthTokenRequestSchema.safeParse(await c.req.json());
+
+    if (!parseResult.success) {
+      return c.json(
+        {
+          error: 'validation_error',
+          message: 'Invalid request body',
+          details: parseResult.error.flatten(),
+        },
+        400
+      );
+    }
+
+    const token = await requestOAuthToken(parseResult.data);
+    return c.json(token);
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      return c.json({ error: error.code, message: error.message }, error.status);
+    }
+
+    console.error('OAuth error:', error);
+
+    return c.json(
+      {
+        error: 'oauth_error',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      },
+      500
+    );
+  }
+});
+
+export { oauth };
@@ -0,0 +1,52 @@
+/**
+ * Runs route handler - headless collection runs for CI smoke tests
+ *
+ * @module routes/runs
+ */
+
+import { Hono } from 'hono';
+import { RunCollectionRequestSchema } from '../models/schema.ts';
+import { runCollection } from '../services/runner.service.ts';
+
+const runs = new Hono();
+
+/**
+ * POST /api/runs
+ * Run every request of an exported collection and report the results
+ * The run finishes before the response is sent; a failed run still answers 200,
+ * with `status: 'failed'` in the report.
+ *
+ * @body RunCollectionRequest - Exported collection, environment, data rows and settings
+ * @returns RunReport - Result of every request and the pass/fail summary
+ */
+runs.post('/', async (c) => {
+  try {
+    const parseResult = RunCollectionRequestSchema.safeParse(await c.req.json());
+
+    if (!parseResult.success) {
+      return c.json(
+        {
+          error: 'validation_error',
+          message: 'Invalid request body',
+          details: parseResult.error.flatten(),
+        },
+        400
+      );
+    }
+
+    const report = await runCollection(parseResult.data);
+    return c.json(report);
+  } catch (error) {
+    console.error('Run error:', error);
+
+    return c.json(
+      {
+        error: 'run_error',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      },
+      500
+    );
+  }
+});
+
+export { runs };
@@ -0,0 +1,255 @@
+/**
+ * Sync route handlers - team project creation, joining and change exchange
+ *
+ * @module routes/sync
+ */
+
+import { Hono, type Context } from 'hono';
+import { upgradeWebSocket } from 'hono/deno';
+import type { ZodError } from 'zod';
+import {
+  ChangesQuerySchema,
+  CreateProjectSchema,
+  JoinProjectSchema,
+  LiveQuerySchema,
+  PushChangesSchema,
+} from '../models/schema.ts';
+import { verifyProjectToken } from '../services/auth.service.ts';
+import {
+  addLiveConnection,
+  type LiveConnection,
+  removeLiveConnection,
+} from '../services/live.service.ts';
+import {
+  createProject,
+  getChangesSince,
+  getSnapshot,
+  joinProject,
+  pushChanges,
+  refreshProjectToken,
+  SyncError,
+} from '../services/sync.service.ts';
+
+const sync = new Hono();
+
+/**
+ * Require a valid bearer token scoped to the project in the path
+ */
+sync.use('/projects/:projectId/*', async (c, next) => {
+  const token = getBearerToken(c);
+  const tokenProjectId = token ? await verifyProjectToken(token) : null;
+
+  if (!tokenProjectId || tokenProjectId !== c.req.param('projectId')) {
+    return c.json(
+      {
+        error: 'unauthorized',
+        message: 'Missing or invalid project token',
+      },
+      401
+    );
+  }
+
+  await next();
+});
+
+/**
+ * POST /api/sync/projects
+ * Create a new sync project
+ *
+ * @body CreateProjectRequest - Project name and password
+ * @returns ProjectInfo - The created project with a bearer token
+ */
+sync.post('/projects', async (c) => {
+  try {
+    const parseResult = CreateProjectSchema.safeParse(await c.req.json());
+    if (!parseResult.success) {
+      return validationError(c, parseResult.error);
+    }
+
+    const project = await createProject(parseResult.data);
+    return c.json(project, 201);
+  } catch (error) {
+    return syncError(c, error);
+  }
+});
+
+/**
+ * POST /api/sync/join
+ * Join an existing sync project
+ *
+ * @body JoinProjectRequest - Project name and password
+ * @returns ProjectInfo - The project with a bearer token
+ */
+sync.post('/join', async (c) => {
+  try {
+    const parseResult = JoinProjectSchema.safeParse(await c.req.json());
+    if (!parseResult.success) {
+      return validationError(c, parseResult.error);
+    }
+
+    const project = await joinProject(parseResult.data);
+    return c.json(project);
+  } catch (error) {
+    return syncError(c, error);
+  }
+});
+
+/**
+ * POST /api/sync/projects/:projectId/token
+ * Exchange a valid project token for a fresh one
+ *
+ * @returns ProjectInfo - The project with a new bearer token
+ */
+sync.post('/projects/:projectId/token', async (c) => {
+  try {
+    const project = await refreshProjectToken(c.req.param('projectId'));
+    return c.json(project);
+  } catch (error) {
+    return syncError(c, error);
+  }
+});
+
+/**
+ * GET /api/sync/projects/:projectId/changes?since=<cursor>
+ * Get changes appended after the given cursor
+ *
+ * @returns ChangesResponse - Changes and the cursor for the next poll
+ */
+sync.get('/projects/:projectId/changes', async (c) => {
+  try {
+    const parseResult = ChangesQuerySchema.safeParse(c.req.query());
+    if (!parseResult.success) {
+      return validationError(c, parseResult.error, 'Invalid query parameters');
+    }
+
+    const changes = await getChangesSince(c.req.param('projectId'), parseResult.data.since);
+    return c.json(changes);
+  } catch (error) {
+    return syncError(c, error);
+  }
+});
+
+/**
+ * POST /api/sync/projects/:projectId/changes
+ * Push local changes to the project
+ *
+ * @body PushChangesRequest - Changes recorded by the client
+ * @returns PushResult - Number of accepted changes and server time
+ */
+sync.post('/projects/:projectId/changes', async (c) => {
+  try {
+    const parseResult = PushChangesSchema.safeParse(await c.req.json());
+    if (!parseResult.success) {
+      return validationError(c, parseResult.error);
+    }
+
+    const result = await pushChanges(c.req.param('projectId'), parseResult.data.changes);
+    return c.json(result);
+  } catch (error) {
+    return syncError(c, error);
+  }
+});
+
+/**
+ * GET /api/sync/projects/:projectId/snapshot
+ * Get the current state of every entity in the project
+ *
+ * @returns ProjectSnapshot - Entities grouped by type and the cursor for polling
+ */
+sync.get('/projects/:projectId/snapshot', async (c) => {
+  try {
+    const snapshot = await getSnapshot(c.req.param('projectId'));
+    return c.json(snapshot);
+  } catch (error) {
+    return syncError(c, error);
+  }
+});
+
+/**
+ * GET /api/sync/projects/:projectId/live?clientId=<id>&token=<token>
+ * Open the live channel (WebSocket) for a project
+ *
+ * Sends LiveMessage JSON: change batches accepted from other clients and
+ * presence updates whenever a client connects or disconnects.
+ */
+sync.get(
+  '/projects/:projectId/live',
+  async (c, next) => {
+    const parseResult = LiveQuerySchema.safeParse(c.req.query());
+    if (!parseResult.success) {
+      return validationError(c, parseResult.error, 'Invalid query parameters');
+    }
+
+    await next();
+  },
+  upgradeWebSocket((c) => {
+    const projectId = c.req.param('projectId');
+    const clientId = c.req.query('clientId') ?? '';
+    let connection: LiveConnection | null = null;
+
+    return {
+      onOpen: (_event, ws) => {
+        connection = addLiveConnection(projectId, clientId, ws);
+      },
+      onClose: () => {
+        if (connection) {
+          removeLiveConnection(projectId, connection);
+        }
+      },
+    };
+  })
+);
+
+/**
+ * Read the project token from the Authorization header
+ *
+ * Browsers cannot set headers on a WebSocket handshake, so upgrade requests
+ * may pass it as a `token` query parameter instead.
+ */
+function getBearerToken(c: Context): string {
+  const authorization = c.req.header('Authorization') ?? '';
+  if (authorization.startsWith('Bearer ')) {
+    return authorization.slice(7);
+  }
+
+  if (c.req.header('Upgrade')?.toLowerCase() === 'websocket') {
+    return c.req.query('token') ?? '';
+  }
+
+  return '';
+}
+
+/**
+ * Respond with a 400 validation error
+ */
+function validationError(c: Context, error: ZodError, message = 'Invalid request body') {
+  return c.json(
+    {
+      error: 'validation_error',
+      message,
+      details: error.flatten(),
+    },
+    400
+  );
+}
+
+/**
+ * Map a thrown error to an error response
+ */
+function syncError(c: Context, error: unknown) {
+  if (error instanceof SyncError) {
+    return c.json({ error: error.code, message: error.message }, error.status);
+  }
+
+  console.error('Sync error:', error);
+
+  return c.json(
+    {
+      error: 'sync_error',
+      message: error instanceof Error ? error.message : 'An unexpected error occurred',
+    },
+    500
+  );
+}
+
+export { sync };
@@ -0,0 +1,321 @@
+/**
+ * Assertion service - checks responses and captures their values for the headless runner
+ * Mirrors the app's services/assertions and services/captures, so a run gives the
+ * same results on the server as in the browser.
+ *
+ * @module services/assertion.service
+ */
+
+import { VariableSchema } from '../models/schema.ts';
+import type { Assertion, Capture, CheckResult, ProxyResponse } from '../models/schema.ts';
+import { resolveString, type VariableMap } from './variable.service.ts';
+import { queryJsonPath } from './json-path.service.ts';
+
+/**
+ * Values captured from one response, by scope (later captures of a name win)
+ */
+export type CapturedValues = Record<Capture['scope'], Record<string, string>>;
+
+/** Operators each source supports */
+const ASSERTION_OPERATORS: Record<Assertion['source'], Assertion['operator'][]> = {
+  status: ['equals', 'notEquals', 'below', 'above'],
+  header: ['exists', 'equals', 'notEquals', 'contains', 'matches'],
+  jsonPath: ['exists', 'equals', 'notEquals', 'contains', 'matches', 'below', 'above'],
+  responseTime: ['below', 'above'],
+  bodySize: ['below', 'above'],
+};
+
+/** Display names of the sources */
+const SOURCE_LABELS: Record<Assertion['source'], string> = {
+  status: 'Status',
+  header: 'Header',
+  jsonPath: 'JSONPath',
+  responseTime: 'Response time',
+  bodySize: 'Body size',
+};
+
+/** Display names of the operators */
+const OPERATOR_LABELS: Record<Assertion['operator'], string> = {
+  equals: 'equals',
+  notEquals: 'does not equal',
+  contains: 'contains',
+  exists: 'exists',
+  matches: 'matches regex',
+  below: 'is below',
+  above: 'is above',
+};
+
+/** Unit of the limit of numeric sources */
+const SOURCE_UNITS: Partial<Record<Assertion['source'], string>> = {
+  responseTime: 'ms',
+  bodySize: 'bytes',
+};
+
+/**
+ * Evaluate the enabled assertions of a request on its response
+ * {{variables}} in the property and value are resolved first.
+ *
+ * @param assertions - Assertions of the request
+ * @param response - Response received
+ * @param variables - Variable values for {{references}}
+ * @returns One result per enabled assertion, in order
+ *
+ * @example
+ * ```typescript
+ * evaluateAssertions(
+ *   [{ source: 'status', property: '', operator: 'equals', value: '200', enabled: true }],
+ *   response,
+ *   variables
+ * );
+ * // => [{ name: 'Status equals 200', passed: true, error: null }]
+ * ```
+ */
+export function evaluateAssertions(
+  assertions: Assertion[],
+  response: ProxyResponse,
+  variables: VariableMap
+): CheckResult[] {
+  // The body is parsed once, and only if a JSONPath assertion needs it
+  let json: { value: unknown } | null | undefined;
+  const parseBody = () => {
+    if (json === undefined) {
+      try {
+        json = { value: JSON.parse(response.body) as unknown };
+      } catch {
+        json = null;
+      }
+    }
+    return json;
+  };
+
+  return assertions
+    .filter((assertion) => assertion.enabled)
+    .map((template) => {
+      const assertion: Assertion = {
+        ...template,
+        property: resolveString(template.property, variables),
+        value: resolveString(template.value, variables),
+      };
+      const name = describeAssertion(assertion);
+
+      try {
+        const error = check(assertion, response, parseBody);
+        return { name, passed: error === null, error };
+      } catch (error) {
+        return {
+          name,
+          passed: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
+}
+
+/**
+ * Extract the values of the enabled captures of a request from its response
+ * Captures that find nothing leave their variable as it was.
+ *
+ * @param captures - Captures of the request
+ * @param response - Response received
+ * @param variables - Variable values for {{references}} in the expressions
+ * @returns Captured values by scope
+ */
+export function extractCaptures(
+  captures: Capture[],
+  response: ProxyResponse,
+  variables: VariableMap
+): CapturedValues {
+  const values: CapturedValues = { environment: {}, collection: {}, runtime: {} };
+
+  for (const capture of captures) {
+    const variable = capture.variable.trim();
+    if (!capture.enabled || !VariableSchema.shape.key.safeParse(variable).success) continue;
+
+    try {
+      const value = extractValue(capture, resolveString(capture.expression, variables), response);
+      if (value !== null) {
+        values[capture.scope][variable] = value;
+      }
+    } catch {
+      // An invalid expression or a body that is not JSON captures nothing
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Readable form of an assertion, e.g. "Header Content-Type contains json"
+ */
+function describeAssertion(assertion: Assertion): string {
+  const { source, property, operator, value } = assertion;
+  const subject =
+    source === 'header' || source === 'jsonPath'
+      ? `${SOURCE_LABELS[source]} ${property}`
+      : SOURCE_LABELS[source];
+  if (operator === 'exists') {
+    return `${subject} exists`;
+  }
+
+  const unit = SOURCE_UNITS[source];
+  return `${subject} ${OPERATOR_LABELS[operator]} ${value}${unit ? ` ${unit}` : ''}`;
+}
+
+/**
+ * Check one resolved assertion
+ *
+ * @returns null if it holds, otherwise why it does not
+ * @throws Error if the assertion itself is invalid (operator, number, regex or JSONPath)
+ */
+function check(
+  assertion: Assertion,
+  response: ProxyResponse,
+  parseBody: () => { value: unknown } | null
+): string | null {
+  const { source, property, operator } = assertion;
+  if (!ASSERTION_OPERATORS[source].includes(operator)) {
+    throw new Error(`${SOURCE_LABELS[source]} does not support "${operator}"`);
+  }
+
+  switch (source) {
+    case 'status':
+      return compare(response.status, assertion);
+    case 'responseTime':
+      return compare(response.timing.total, assertion);
+    case 'bodySize':
+      return compare(response.size, assertion);
+    case 'header': {
+      const header = findHeader(response.headers, property);
+      if (header === null) return `Header ${property} is missing`;
+      return operator === 'exists' ? null : compare(header, assertion);
+    }
+    case 'jsonPath': {
+      const json = parseBody();
+      if (!json) return 'Response body is not JSON';
+      const matches = queryJsonPath(json.value, property);
+      if (matches.length === 0) return `Nothing matches ${property}`;
+      return operator === 'exists' ? null : compare(matches[0], assertion);
+    }
+  }
+}
+
+/**
+ * Compare an actual value with the assertion's expected value
+ *
+ * @returns null if the comparison holds, otherwise the actual value
+ */
+function compare(actual: unknown, assertion: Assertion): string | null {
+  const { operator, value } = assertion;
+  // Strings compare as-is, other JSON values in their JSON form
+  const text = typeof actual === 'string' ? actual : JSON.stringify(actual);
+
+  let passed: boolean;
+  switch (operator) {
+    case 'equals':
+      passed = text === value;
+      break;
+    case 'notEquals':
+      passed = text !== value;
+      break;
+    case 'contains':
+      passed = text.includes(value);
+      break;
+    case 'matches':
+      passed = toRegExp(value).test(text);
+      break;
+    case 'below':
+      passed = toNumber(actual) < toLimit(value);
+      break;
+    case 'above':
+      passed = toNumber(actual) > toLimit(value);
+      break;
+    case 'exists':
+      passed = true;
+      break;
+  }
+
+  return passed ? null : `Got ${text}`;
+}
+
+/**
+ * Read one captured value from the response
+ *
+ * @returns The value, or null if the response does not have it
+ * @throws Error if the body is not JSON for a JSONPath, or the expression is invalid
+ */
+function extractValue(
+  capture: Capture,
+  expression: string,
+  response: ProxyResponse
+): string | null {
+  switch (capture.source) {
+    case 'jsonPath': {
+      const matches = queryJsonPath(JSON.parse(response.body), expression);
+      if (matches.length === 0) return null;
+      // Strings are captured as-is, other JSON values in their JSON form
+      return typeof matches[0] === 'string' ? matches[0] : JSON.stringify(matches[0]);
+    }
+    case 'header':
+      return findHeader(response.headers, expression);
+    case 'regex': {
+      // The first group if the pattern has one, otherwise the whole match
+      const match = toRegExp(expression).exec(response.body);
+      return match ? (match[1] ?? match[0]) : null;
+    }
+    case 'cookie':
+      return findCookie(response.headers, expression.trim());
+  }
+}
+
+/**
+ * Case-insensitive header lookup
+ */
+function findHeader(headers: Record<string, string>, name: string): string | null {
+  const key = name.trim().toLowerCase();
+  const header = Object.entries(headers).find(([headerName]) => headerName.toLowerCase() === key);
+  return header ? header[1] : null;
+}
+
+/**
+ * Value of a cookie set by the response (the proxy puts one Set-Cookie per line)
+ */
+function findCookie(headers: Record<string, string>, name: string): string | null {
+  for (const line of (findHeader(headers, 'set-cookie') ?? '').split('\n')) {
+    const [pair = ''] = line.split(';');
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === name) {
+      return pair.slice(separator + 1).trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * Numeric form of an actual value (NaN for anything but numbers and numeric strings)
+ */
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  return typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+}
+
+/**
+ * Parse the limit of a below/above assertion
+ */
+function toLimit(value: string): number {
+  const limit = Number(value);
+  if (value.trim() === '' || Number.isNaN(limit)) {
+    throw new Error(`"${value}" is not a number`);
+  }
+  return limit;
+}
+
+/**
+ * Compile a regex of an assertion or capture
+ */
+function toRegExp(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    throw new Error(`Invalid regex "${pattern}"`);
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Auth service - project password hashing and bearer token handling
+ *
+ * @module services/auth.service
+ */
+
+import { compareSync, hashSync } from 'bcrypt';
+import { create, getNumericDate, verify } from 'djwt';
+import { getKv, kvKeys } from '../db/kv.ts';
+
+/** Project tokens stay valid for 30 days; clients renew them before then */
+const TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** Lazily created HMAC key used to sign project tokens */
+let signingKeyPromise: Promise<CryptoKey> | null = null;
+
+/**
+ * Hash a project password with bcrypt
+ *
+ * The sync variants are used because the async ones need Web Workers,
+ * which are not available on Deno Deploy.
+ *
+ * @param password - Plaintext password
+ * @returns The bcrypt hash
+ */
+export function hashPassword(password: string): string {
+  return hashSync(password);
+}
+
+/**
+ * Check a plaintext password against a stored bcrypt hash
+ *
+ * @param password - Plaintext password
+ * @param passwordHash - Stored bcrypt hash
+ * @returns True if the password matches
+ */
+export function verifyPassword(password: string, passwordHash: string): boolean {
+  return compareSync(password, passwordHash);
+}
+
+/**
+ * Issue a bearer token granting access to a sync project
+ *
+ * @param projectId - Project the token is scoped to
+ * @returns Signed JWT
+ */
+export async function issueProjectToken(projectId: string): Promise<string> {
+  const key = await getSigningKey();
+  return create(
+    { alg: 'HS512', typ: 'JWT' },
+    { sub: projectId, exp: getNumericDate(TOKEN_TTL_SECONDS) },
+    key
+  );
+}
+
+/**
+ * Verify a project bearer token
+ *
+ * @param token - JWT from the Authorization header
+ * @returns The project id the token grants access to, or null if invalid or expired
+ */
+export async function verifyProjectToken(token: string): Promise<string | null> {
+  try {
+    const key = await getSigningKey();
+    const payload = await verify(token, key);
+    return typeof payload.sub === 'string' ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the token signing key
+ *
+ * Uses `SYNC_JWT_SECRET` when set; otherwise a random secret is generated once
+ * and persisted in KV so tokens survive server restarts.
+ */
+function getSigningKey(): Promise<CryptoKey> {
+  if (!signingKeyPromise) {
+    signingKeyPromise = loadSecret().then((secret) =>
+      crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(secret),
+        { name: 'HMAC', hash: 'SHA-512' },
+        false,
+        ['sign', 'verify']
+      )
+    );
+  }
+  return signingKeyPromise;
+}
+
+/**
+ * Load (or create and persist) the signing secret
+ */
+async function loadSecret(): Promise<string> {
+  const fromEnv = Deno.env.get('SYNC_JWT_SECRET');
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  const kv = await getKv();
+  const existing = await kv.get<string>(kvKeys.jwtSecret());
+  if (existing.value) {
+    return existing.value;
+  }
+
+  const bytes = crypto.getRandomValues(new Uint8Array(64));
+  const secret = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+  // Only the first writer wins; concurrent starters re-read the stored secret
+  const result = await kv.atomic().check(existing).set(kvKeys.jwtSecret(), secret).commit();
+  if (result.ok) {
+    return secret;
+  }
+
+  const stored = await kv.get<string>(kvKeys.jwtSecret());
+  return stored.value ?? secret;
+}
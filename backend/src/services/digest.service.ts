@@ -0,0 +1,169 @@
+/**
+ * Digest service - HTTP Digest authentication (RFC 7616)
+ * Parses a server's `WWW-Authenticate: Digest` challenge and builds the
+ * `Authorization` header answering it.
+ *
+ * @module services/digest.service
+ */
+
+import { crypto as stdCrypto } from '@std/crypto';
+import type { Credentials } from '../models/schema.ts';
+
+/** Hash functions of the supported Digest algorithms (upper-cased), by their WebCrypto names */
+const DIGEST_HASHES: Record<string, 'MD5' | 'SHA-256'> = {
+  MD5: 'MD5',
+  'MD5-SESS': 'MD5',
+  'SHA-256': 'SHA-256',
+  'SHA-256-SESS': 'SHA-256',
+};
+
+/** Start of a Digest challenge among the schemes of a WWW-Authenticate header */
+const DIGEST_SCHEME_PATTERN = /(?:^|,)\s*Digest\s+/i;
+
+/** One `name=value` or `name="quoted value"` challenge parameter */
+const PARAM_PATTERN_SOURCE = String.raw`\s*,?\s*([\w-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s,]*))`;
+
+/**
+ * Parameters of a Digest challenge
+ */
+export interface DigestChallenge {
+  realm: string;
+  nonce: string;
+  opaque?: string;
+  /** Algorithm as named by the server (echoed back in the response) */
+  algorithm: string;
+  /** Quality of protection the server offers ('auth', 'auth-int'), empty for legacy RFC 2069 */
+  qop: string[];
+}
+
+/**
+ * Request being answered
+ */
+export interface DigestRequest {
+  method: string;
+  url: string;
+  body?: string | null;
+}
+
+/**
+ * Extract the Digest challenge from a `WWW-Authenticate` header
+ * Other schemes offered in the same header (e.g. Basic) are ignored.
+ *
+ * @param header - Value of the WWW-Authenticate header
+ * @returns The challenge, or null if there is no supported Digest challenge
+ */
+export function parseDigestChallenge(header: string): DigestChallenge | null {
+  const scheme = DIGEST_SCHEME_PATTERN.exec(header);
+  if (!scheme) return null;
+
+  const params = new Map<string, string>();
+  const pattern = new RegExp(PARAM_PATTERN_SOURCE, 'y');
+  pattern.lastIndex = scheme.index + scheme[0].length;
+
+  // Sticky matching stops at the next scheme name, which is not followed by '='
+  for (let match = pattern.exec(header); match; match = pattern.exec(header)) {
+    const [, name = '', quoted, token] = match;
+    params.set(name.toLowerCase(), quoted?.replace(/\\(.)/g, '$1') ?? token ?? '');
+  }
+
+  const realm = params.get('realm');
+  const nonce = params.get('nonce');
+  const algorithm = params.get('algorithm') ?? 'MD5';
+  if (realm === undefined || !nonce || !(algorithm.toUpperCase() in DIGEST_HASHES)) {
+    return null;
+  }
+
+  return {
+    realm,
+    nonce,
+    opaque: params.get('opaque'),
+    algorithm,
+    qop: (params.get('qop') ?? '')
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Build the Authorization header answering a Digest challenge
+ * Prefers qop=auth; auth-int (which also hashes the body) is used only when it is
+ * the sole option.
+ *
+ * @param challenge - Parsed challenge from the 401 response
+ * @param credentials - Username and password
+ * @param request - Method, URL and body of the request being retried
+ * @returns Value for the Authorization header
+ *
+ * @example
+ * ```typescript
+ * const challenge = parseDigestChallenge(response.headers.get('www-authenticate') ?? '');
+ * if (challenge) {
+ *   headers['Authorization'] = await buildDigestAuthorization(challenge, credentials, request);
+ * }
+ * ```
+ */
+export async function buildDigestAuthorization(
+  challenge: DigestChallenge,
+  credentials: Credentials,
+  request: DigestRequest
+): Promise<string> {
+  const algorithm = challenge.algorithm.toUpperCase();
+  const hash = (value: string) => hexDigest(DIGEST_HASHES[algorithm] ?? 'MD5', value);
+  const { pathname, search } = new URL(request.url);
+  const uri = `${pathname}${search}`;
+
+  const qop = challenge.qop.includes('auth')
+    ? 'auth'
+    : challenge.qop.includes('auth-int')
+      ? 'auth-int'
+      : null;
+  const cnonce = crypto.randomUUID().replaceAll('-', '');
+  const nc = '00000001';
+
+  let ha1 = await hash(`${credentials.username}:${challenge.realm}:${credentials.password}`);
+  if (algorithm.endsWith('-SESS')) {
+    ha1 = await hash(`${ha1}:${challenge.nonce}:${cnonce}`);
+  }
+
+  const ha2 =
+    qop === 'auth-int'
+      ? await hash(`${request.method}:${uri}:${await hash(request.body ?? '')}`)
+      : await hash(`${request.method}:${uri}`);
+
+  const response = qop
+    ? await hash(`${ha1}:${challenge.nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+    : await hash(`${ha1}:${challenge.nonce}:${ha2}`);
+
+  const fields = [
+    `username="${quote(credentials.username)}"`,
+    `realm="${quote(challenge.realm)}"`,
+    `nonce="${quote(challenge.nonce)}"`,
+    `uri="${quote(uri)}"`,
+    `algorithm=${challenge.algorithm}`,
+    `response="${response}"`,
+  ];
+  if (qop) {
+    fields.push(`qop=${qop}`, `nc=${nc}`, `cnonce="${cnonce}"`);
+  }
+  if (challenge.opaque !== undefined) {
+    fields.push(`opaque="${quote(challenge.opaque)}"`);
+  }
+
+  return `Digest ${fields.join(', ')}`;
+}
+
+/**
+ * Hash a UTF-8 string and return lowercase hex
+ */
+async function hexDigest(algorithm: 'MD5' | 'SHA-256', value: string): Promise<string> {
+  const digest = await stdCrypto.subtle.digest(algorithm, new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Escape a value for a quoted-string header parameter
+ */
+function quote(value: string): string {
+  return value.replace(/["\\]/g, '\\$&');
+}
@@ -0,0 +1,115 @@
+import { assertEquals, assertThrows } from '@std/assert';
+import fixtures from '../../../specs/001-postman-core/contracts/evaluation-fixtures.json' with { type: 'json' };
+import { queryJsonPath } from './json-path.service.ts';
+import { type CapturedValues, evaluateAssertions, extractCaptures } from './assertion.service.ts';
+import {
+  mergeVariableScopes,
+  redactSecrets,
+  resolveString,
+  type VariableScopes,
+} from './variable.service.ts';
+import type { Assertion, Capture, CheckResult, ProxyResponse, Variable } from '../models/schema.ts';
+
+/**
+ * Cases shared with the app's tests (frontend/src/services/evaluation.test.ts)
+ */
+interface EvaluationFixtures {
+  jsonPath: {
+    document: unknown;
+    cases: { name: string; path: string; expected?: unknown[]; error?: string }[];
+  };
+  response: ProxyResponse;
+  assertions: {
+    name: string;
+    response?: Partial<ProxyResponse>;
+    variables: Record<string, string>;
+    assertions: Assertion[];
+    expected: CheckResult[];
+  }[];
+  captures: {
+    name: string;
+    response?: Partial<ProxyResponse>;
+    variables: Record<string, string>;
+    captures: Capture[];
+    expected: CapturedValues;
+  }[];
+  variables: {
+    merge: {
+      name: string;
+      scopes: Record<keyof VariableScopes, Variable[]>;
+      expected: Record<string, string>;
+    }[];
+    resolve: {
+      name: string;
+      variables: Record<string, string>;
+      template: string;
+      expected: string;
+    }[];
+    redact: {
+      name: string;
+      secrets: { reference: string; value: string }[];
+      text: string;
+      expected: string;
+    }[];
+  };
+}
+
+const { jsonPath, response, assertions, captures, variables } =
+  fixtures as unknown as EvaluationFixtures;
+
+for (const { name, path, expected, error } of jsonPath.cases) {
+  Deno.test(`queryJsonPath: ${name}`, () => {
+    if (error) {
+      assertThrows(() => queryJsonPath(jsonPath.document, path), Error, error);
+    } else {
+      assertEquals(queryJsonPath(jsonPath.document, path), expected);
+    }
+  });
+}
+
+for (const fixture of assertions) {
+  Deno.test(`evaluateAssertions: ${fixture.name}`, () => {
+    const results = evaluateAssertions(
+      fixture.assertions,
+      { ...response, ...fixture.response },
+      new Map(Object.entries(fixture.variables))
+    );
+
+    assertEquals(results, fixture.expected);
+  });
+}
+
+for (const fixture of captures) {
+  Deno.test(`extractCaptures: ${fixture.name}`, () => {
+    const values = extractCaptures(
+      fixture.captures,
+      { ...response, ...fixture.response },
+      new Map(Object.entries(fixture.variables))
+    );
+
+    assertEquals(values, fixture.expected);
+  });
+}
+
+for (const { name, scopes, expected } of variables.merge) {
+  Deno.test(`mergeVariableScopes: ${name}`, () => {
+    // Data file rows have no enabled flag
+    const data = Object.fromEntries(
+      scopes.data.filter((variable) => variable.enabled).map(({ key, value }) => [key, value])
+    );
+
+    assertEquals(Object.fromEntries(mergeVariableScopes({ ...scopes, data })), expected);
+  });
+}
+
+for (const { name, variables: values, template, expected } of variables.resolve) {
+  Deno.test(`resolveString: ${name}`, () => {
+    assertEquals(resolveString(template, new Map(Object.entries(values))), expected);
+  });
+}
+
+for (const { name, secrets, text, expected } of variables.redact) {
+  Deno.test(`redactSecrets: ${name}`, () => {
+    assertEquals(redactSecrets(text, secrets), expected);
+  });
+}
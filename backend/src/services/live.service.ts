@@ -0,0 +1,125 @@
+/**
+ * Live service - pushes accepted changes and presence to connected clients
+ *
+ * Connections are held in memory, so clients only hear about pushes handled
+ * by the same server instance; they keep a slow poll to catch anything else.
+ *
+ * @module services/live.service
+ */
+
+import type { WSContext } from 'hono/ws';
+import type { LiveMessage, StoredSyncChange, SyncPresence } from '../models/schema.ts';
+
+/**
+ * An open live channel socket
+ */
+export interface LiveConnection {
+  socket: WSContext;
+  presence: SyncPresence;
+}
+
+/** Open connections by project id */
+const channels = new Map<string, Set<LiveConnection>>();
+
+/**
+ * Register a socket on a project's channel and announce it to the others
+ *
+ * @param projectId - Project id
+ * @param clientId - Sync client id of the connecting device
+ * @param socket - Open WebSocket
+ * @returns Handle to pass to removeLiveConnection when the socket closes
+ */
+export function addLiveConnection(
+  projectId: string,
+  clientId: string,
+  socket: WSContext
+): LiveConnection {
+  const connection: LiveConnection = {
+    socket,
+    presence: { clientId, connectedAt: new Date().toISOString() },
+  };
+
+  let channel = channels.get(projectId);
+  if (!channel) {
+    channel = new Set();
+    channels.set(projectId, channel);
+  }
+  channel.add(connection);
+
+  publishPresence(projectId);
+  return connection;
+}
+
+/**
+ * Unregister a closed socket and announce the new presence list
+ *
+ * @param projectId - Project id
+ * @param connection - Handle returned by addLiveConnection
+ */
+export function removeLiveConnection(projectId: string, connection: LiveConnection): void {
+  const channel = channels.get(projectId);
+  if (!channel) return;
+
+  channel.delete(connection);
+  if (channel.size === 0) {
+    channels.delete(projectId);
+    return;
+  }
+
+  publishPresence(projectId);
+}
+
+/**
+ * Broadcast a batch of accepted changes to every client except its author
+ *
+ * @param projectId - Project id
+ * @param changes - Changes accepted by a single push, in log order
+ */
+export function publishChanges(projectId: string, changes: StoredSyncChange[]): void {
+  const channel = channels.get(projectId);
+  if (!channel || changes.length === 0) return;
+
+  // A push only ever carries changes recorded by one client
+  const authorId = changes[0].clientId;
+  const cursor = changes[changes.length - 1].sequence;
+  const message: LiveMessage = { type: 'changes', changes, cursor };
+
+  for (const connection of channel) {
+    if (connection.presence.clientId !== authorId) {
+      send(connection, message);
+    }
+  }
+}
+
+/**
+ * Send the current presence list to every client on a project's channel
+ */
+function publishPresence(projectId: string): void {
+  const channel = channels.get(projectId);
+  if (!channel) return;
+
+  // Several tabs of one browser share a client id; list each client once
+  const clients = new Map<string, SyncPresence>();
+  for (const { presence } of channel) {
+    const existing = clients.get(presence.clientId);
+    if (!existing || presence.connectedAt < existing.connectedAt) {
+      clients.set(presence.clientId, presence);
+    }
+  }
+
+  const message: LiveMessage = { type: 'presence', clients: [...clients.values()] };
+  for (const connection of channel) {
+    send(connection, message);
+  }
+}
+
+/**
+ * Send a message, ignoring sockets that closed mid-broadcast
+ */
+function send(connection: LiveConnection, message: LiveMessage): void {
+  try {
+    connection.socket.send(JSON.stringify(message));
+  } catch (error) {
+    console.warn('Failed to send live message:', error);
+  }
+}
@@ -0,0 +1,293 @@
+import { assertEquals, assertRejects } from '@std/assert';
+import { OAuthError, requestOAuthToken } from './oauth.service.ts';
+
+/**
+ * Form parameters and Authorization header a token endpoint received
+ */
+interface TokenRequest {
+  params: Record<string, string>;
+  authorization: string | null;
+}
+
+/**
+ * Run a test against a local token endpoint answering with the given response
+ *
+ * @param respond - Builds the token endpoint's response
+ * @param test - Runs with the endpoint URL and the requests it received
+ */
+async function withTokenEndpoint(
+  respond: () => Response,
+  test: (tokenUrl: string, received: TokenRequest[]) => Promise<void>
+): Promise<void> {
+  const received: TokenRequest[] = [];
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, async (req) => {
+    received.push({
+      params: Object.fromEntries(new URLSearchParams(await req.text())),
+      authorization: req.headers.get('Authorization'),
+    });
+    return respond();
+  });
+
+  try {
+    await test(`http://127.0.0.1:${server.addr.port}/oauth/token`, received);
+  } finally {
+    await server.shutdown();
+  }
+}
+
+const TOKEN = {
+  access_token: 'at-123',
+  token_type: 'Bearer',
+  expires_in: 3600,
+  refresh_token: 'rt-456',
+  scope: 'read write',
+};
+
+Deno.test('client_credentials sends the client credentials in the body', async () => {
+  await withTokenEndpoint(
+    () => Response.json(TOKEN),
+    async (tokenUrl, received) => {
+      const token = await requestOAuthToken({
+        grantType: 'client_credentials',
+        tokenUrl,
+        clientId: 'my-client',
+        clientSecret: 'secret',
+        clientAuth: 'body',
+        scope: 'read write',
+      });
+
+      assertEquals(received, [
+        {
+          params: {
+            grant_type: 'client_credentials',
+            scope: 'read write',
+            client_id: 'my-client',
+            client_secret: 'secret',
+          },
+          authorization: null,
+        },
+      ]);
+      assertEquals(token, {
+        accessToken: 'at-123',
+        tokenType: 'Bearer',
+        expiresIn: 3600,
+        refreshToken: 'rt-456',
+        scope: 'read write',
+      });
+    }
+  );
+});
+
+Deno.test('client_credentials sends form-encoded credentials as a Basic header', async () => {
+  await withTokenEndpoint(
+    () => Response.json(TOKEN),
+    async (tokenUrl, received) => {
+      await requestOAuthToken({
+        grantType: 'client_credentials',
+        tokenUrl,
+        clientId: 'my client',
+        clientSecret: 's3cr:t',
+        clientAuth: 'header',
+      });
+
+      assertEquals(received, [
+        {
+          params: { grant_type: 'client_credentials' },
+          authorization: `Basic ${btoa('my%20client:s3cr%3At')}`,
+        },
+      ]);
+    }
+  );
+});
+
+Deno.test('password sends the resource owner credentials', async () => {
+  await withTokenEndpoint(
+    () => Response.json(TOKEN),
+    async (tokenUrl, received) => {
+      await requestOAuthToken({
+        grantType: 'password',
+        tokenUrl,
+        clientId: 'my-client',
+        clientAuth: 'body',
+        username: 'ada',
+        password: 'lovelace',
+      });
+
+      assertEquals(received[0].params, {
+        grant_type: 'password',
+        username: 'ada',
+        password: 'lovelace',
+        client_id: 'my-client',
+      });
+    }
+  );
+});
+
+Deno.test('authorization_code forwards the redirect URI and PKCE code verifier', async () => {
+  await withTokenEndpoint(
+    () => Response.json(TOKEN),
+    async (tokenUrl, received) => {
+      await requestOAuthToken({
+        grantType: 'authorization_code',
+        tokenUrl,
+        clientId: 'my-client',
+        clientAuth: 'body',
+        code: 'auth-code',
+        redirectUri: 'http://localhost:5173/oauth/callback',
+        codeVerifier: 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk',
+      });
+
+      assertEquals(received[0].params, {
+        grant_type: 'authorization_code',
+        code: 'auth-code',
+        redirect_uri: 'http://localhost:5173/oauth/callback',
+        code_verifier: 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk',
+        client_id: 'my-client',
+      });
+    }
+  );
+});
+
+Deno.test('refresh_token sends the refresh token', async () => {
+  await withTokenEndpoint(
+    () => Response.json({ access_token: 'at-789' }),
+    async (tokenUrl, received) => {
+      const token = await requestOAuthToken({
+        grantType: 'refresh_token',
+        tokenUrl,
+        clientId: 'my-client',
+        clientSecret: 'secret',
+        clientAuth: 'header',
+        refreshToken: 'rt-456',
+      });
+
+      assertEquals(received[0].params, { grant_type: 'refresh_token', refresh_token: 'rt-456' });
+      assertEquals(token, {
+        accessToken: 'at-789',
+        tokenType: 'Bearer',
+        expiresIn: null,
+        refreshToken: null,
+        scope: null,
+      });
+    }
+  );
+});
+
+Deno.test('reads form-encoded token responses', async () => {
+  await withTokenEndpoint(
+    () =>
+      new Response('access_token=gho_abc&token_type=bearer&scope=repo%2Cgist', {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      }),
+    async (tokenUrl) => {
+      const token = await requestOAuthToken({
+        grantType: 'authorization_code',
+        tokenUrl,
+        clientId: 'my-client',
+        clientAuth: 'body',
+        code: 'auth-code',
+      });
+
+      assertEquals(token, {
+        accessToken: 'gho_abc',
+        tokenType: 'bearer',
+        expiresIn: null,
+        refreshToken: null,
+        scope: 'repo,gist',
+      });
+    }
+  );
+});
+
+Deno.test('rejected grants fail with 400 and the provider error', async () => {
+  await withTokenEndpoint(
+    () =>
+      Response.json(
+        { error: 'invalid_grant', error_description: 'Authorization code expired' },
+        { status: 400 }
+      ),
+    async (tokenUrl) => {
+      const error = await assertRejects(
+        () =>
+          requestOAuthToken({
+            grantType: 'authorization_code',
+            tokenUrl,
+            clientId: 'my-client',
+            clientAuth: 'body',
+            code: 'expired',
+          }),
+        OAuthError,
+        'Authorization code expired'
+      );
+
+      assertEquals([error.status, error.code], [400, 'invalid_grant']);
+    }
+  );
+});
+
+Deno.test('error responses without an OAuth error fail with 400 and the status', async () => {
+  await withTokenEndpoint(
+    () => new Response('Forbidden', { status: 403, statusText: 'Forbidden' }),
+    async (tokenUrl) => {
+      const error = await assertRejects(
+        () =>
+          requestOAuthToken({
+            grantType: 'client_credentials',
+            tokenUrl,
+            clientId: 'my-client',
+            clientAuth: 'body',
+          }),
+        OAuthError,
+        'Token endpoint responded with 403 Forbidden'
+      );
+
+      assertEquals([error.status, error.code], [400, 'token_request_failed']);
+    }
+  );
+});
+
+Deno.test('responses without an access token fail with 502', async () => {
+  await withTokenEndpoint(
+    () => new Response('<html>Sign in</html>', { headers: { 'Content-Type': 'text/html' } }),
+    async (tokenUrl) => {
+      const error = await assertRejects(
+        () =>
+          requestOAuthToken({
+            grantType: 'client_credentials',
+            tokenUrl,
+            clientId: 'my-client',
+            clientAuth: 'body',
+          }),
+        OAuthError,
+        'Token endpoint returned no access_token'
+      );
+
+      assertEquals([error.status, error.code], [502, 'invalid_token_response']);
+    }
+  );
+});
+
+Deno.test('unreachable token endpoints fail with 502', async () => {
+  let closedUrl = '';
+  await withTokenEndpoint(
+    () => Response.json(TOKEN),
+    (tokenUrl) => {
+      closedUrl = tokenUrl;
+      return Promise.resolve();
+    }
+  );
+
+  const error = await assertRejects(
+    () =>
+      requestOAuthToken({
+        grantType: 'client_credentials',
+        tokenUrl: closedUrl,
+        clientId: 'my-client',
+        clientAuth: 'body',
+      }),
+    OAuthError,
+    'Token endpoint could not be reached'
+  );
+
+  assertEquals([error.status, error.code], [502, 'token_endpoint_unreachable']);
+});
@@ -0,0 +1,154 @@
+/**
+ * OAuth service - exchanges OAuth 2.0 grants for access tokens
+ * Token endpoints rarely allow CORS, so the exchange runs here instead of the browser.
+ *
+ * @module services/oauth.service
+ */
+
+import type { OAuthTokenRequest, OAuthTokenResponse } from '../models/schema.ts';
+
+/** Time allowed for the token endpoint to respond */
+const TOKEN_REQUEST_TIMEOUT = 30000;
+
+/**
+ * Error raised by a token exchange, carrying the HTTP status to respond with
+ * 400 means the provider rejected the grant; 502 means it could not be reached
+ * or answered with something that is not a token.
+ */
+export class OAuthError extends Error {
+  status: 400 | 502;
+  code: string;
+
+  constructor(status: 400 | 502, code: string, message: string) {
+    super(message);
+    this.name = 'OAuthError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Exchange a grant for an access token at the provider's token endpoint
+ *
+ * @param request - Grant type, token URL, client and grant parameters
+ * @returns Promise resolving to the normalized token
+ * @throws OAuthError (400) if the provider rejects the grant, (502) if it cannot be reached
+ *
+ * @example
+ * ```typescript
+ * const token = await requestOAuthToken({
+ *   grantType: 'client_credentials',
+ *   tokenUrl: 'https://auth.example.com/oauth/token',
+ *   clientId: 'my-client',
+ *   clientSecret: 'secret',
+ *   clientAuth: 'body',
+ * });
+ * ```
+ */
+export async function requestOAuthToken(request: OAuthTokenRequest): Promise<OAuthTokenResponse> {
+  const params = new URLSearchParams({ grant_type: request.grantType });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+
+  switch (request.grantType) {
+    case 'client_credentials':
+      break;
+
+    case 'password':
+      params.set('username', request.username ?? '');
+      params.set('password', request.password ?? '');
+      break;
+
+    case 'authorization_code':
+      params.set('code', request.code ?? '');
+      if (request.redirectUri) params.set('redirect_uri', request.redirectUri);
+      if (request.codeVerifier) params.set('code_verifier', request.codeVerifier);
+      break;
+
+    case 'refresh_token':
+      params.set('refresh_token', request.refreshToken ?? '');
+      break;
+  }
+
+  if (request.scope) {
+    params.set('scope', request.scope);
+  }
+
+  // RFC 6749 section 2.3.1: credentials are form-encoded before Basic encoding
+  if (request.clientAuth === 'header' && request.clientSecret) {
+    const credentials = `${encodeURIComponent(request.clientId)}:${encodeURIComponent(
+      request.clientSecret
+    )}`;
+    headers['Authorization'] = `Basic ${btoa(credentials)}`;
+  } else {
+    params.set('client_id', request.clientId);
+    if (request.clientSecret) params.set('client_secret', request.clientSecret);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(request.tokenUrl, {
+      method: 'POST',
+      headers,
+      body: params,
+      signal: AbortSignal.timeout(TOKEN_REQUEST_TIMEOUT),
+    });
+  } catch (error) {
+    throw new OAuthError(
+      502,
+      'token_endpoint_unreachable',
+      `Token endpoint could not be reached: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const data = await readTokenResponse(response);
+
+  if (!response.ok || typeof data.error === 'string') {
+    throw new OAuthError(
+      400,
+      typeof data.error === 'string' ? data.error : 'token_request_failed',
+      typeof data.error_description === 'string'
+        ? data.error_description
+        : `Token endpoint responded with ${response.status} ${response.statusText}`
+    );
+  }
+
+  if (typeof data.access_token !== 'string' || data.access_token === '') {
+    throw new OAuthError(502, 'invalid_token_response', 'Token endpoint returned no access_token');
+  }
+
+  const expiresIn = Number(data.expires_in);
+
+  return {
+    accessToken: data.access_token,
+    tokenType: typeof data.token_type === 'string' ? data.token_type : 'Bearer',
+    expiresIn: Number.isFinite(expiresIn) && expiresIn > 0 ? expiresIn : null,
+    refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : null,
+    scope: typeof data.scope === 'string' ? data.scope : null,
+  };
+}
+
+/**
+ * Parse a token endpoint response
+ * Most providers answer JSON; some (e.g. older GitHub endpoints) answer form-encoded.
+ */
+async function readTokenResponse(response: Response): Promise<Record<string, unknown>> {
+  const text = await response.text();
+
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Not JSON, try form encoding below
+  }
+
+  if (text.includes('=')) {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+
+  return {};
+}
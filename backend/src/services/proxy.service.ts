@@ -6,12 +6,15 @@
  */
 
 import type { ProxyRequest, ProxyResponse, RequestError, Timing } from '../models/schema.ts';
+import { buildDigestAuthorization, parseDigestChallenge } from './digest.service.ts';
 
 /** Maximum response body size (10MB) */
 const MAX_BODY_SIZE = 10 * 1024 * 1024;
 
 /**
  * Execute a proxied HTTP request
+ * With digest credentials, a 401 carrying a Digest challenge is answered and the
+ * request retried once; timing covers both round trips.
  *
  * @param request - The proxy request configuration
  * @returns Promise resolving to the proxy response
@@ -52,7 +55,21 @@ export async function executeProxyRequest(request: ProxyRequest): Promise<ProxyR
     }
 
     // Execute the request
-    const response = await fetch(request.url, fetchOptions);
+    let response = await fetch(request.url, fetchOptions);
+
+    // Answer a Digest challenge and retry
+    if (response.status === 401 && request.digest) {
+      const challenge = parseDigestChallenge(response.headers.get('www-authenticate') ?? '');
+      if (challenge) {
+        await response.body?.cancel();
+        const headers = new Headers(request.headers);
+        headers.set(
+          'Authorization',
+          await buildDigestAuthorization(challenge, request.digest, request)
+        );
+        response = await fetch(request.url, { ...fetchOptions, headers });
+      }
+    }
 
     // Clear timeout
     if (timeoutId) {
@@ -78,6 +95,11 @@ export async function executeProxyRequest(request: ProxyRequest): Promise<ProxyR
     response.headers.forEach((value, key) => {
       headers[key] = value;
     });
+    // forEach lists Set-Cookie once per cookie; keep every one, one per line
+    const cookies = response.headers.getSetCookie();
+    if (cookies.length > 0) {
+      headers['set-cookie'] = cookies.join('\n');
+    }
 
     return {
       status: response.status,
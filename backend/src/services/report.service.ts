@@ -0,0 +1,193 @@
+/**
+ * Report service - formats headless run reports for the console, JSON and JUnit XML
+ *
+ * @module services/report.service
+ */
+
+import type { RunReport, RunResult } from '../models/schema.ts';
+
+/**
+ * Report formats the command-line runner can produce
+ */
+export type ReporterName = 'console' | 'json' | 'junit';
+
+/** Every reporter, in the order their output is written */
+export const REPORTERS: ReporterName[] = ['console', 'json', 'junit'];
+
+/**
+ * One console line for a request's result, followed by its failed assertions
+ *
+ * @param result - Result of one request
+ * @returns Lines without a trailing newline
+ *
+ * @example
+ * ```typescript
+ * formatConsoleResult(result);
+ * // => '  ✓ Users / Get user  GET https://api.example.com/users/1  200 OK  84 ms'
+ * ```
+ */
+export function formatConsoleResult(result: RunResult): string {
+  const name = result.folder ? `${result.folder} / ${result.name}` : result.name;
+  const status = result.status > 0 ? `${result.status} ${result.statusText}`.trim() : 'no response';
+  const mark = result.passed ? '✓' : '✗';
+  const lines = [
+    `  ${mark} ${name}  ${result.method} ${result.url}  ${status}  ${Math.round(result.time)} ms`,
+  ];
+
+  if (result.error) {
+    lines.push(`      ${result.error}`);
+  }
+  for (const assertion of result.assertions) {
+    if (!assertion.passed) {
+      lines.push(`      ✗ ${assertion.name}: ${assertion.error}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Console summary of a finished run: warnings, then the request and assertion counts
+ *
+ * @param report - Report of the run
+ * @returns Lines without a trailing newline
+ */
+export function formatConsoleSummary(report: RunReport): string {
+  const assertions = report.results.flatMap((result) => result.assertions);
+  const failedAssertions = assertions.filter((assertion) => !assertion.passed).length;
+  const lines = report.warnings.map((warning) => `  ! ${warning}`);
+  if (lines.length > 0) lines.push('');
+
+  lines.push(
+    `Requests:   ${report.summary.total} run, ${report.summary.passed} passed, ${report.summary.failed} failed`,
+    `Assertions: ${assertions.length} run, ${assertions.length - failedAssertions} passed, ${failedAssertions} failed`,
+    `Duration:   ${Date.parse(report.finishedAt) - Date.parse(report.startedAt)} ms`,
+    '',
+    report.status === 'passed' ? 'Run passed' : 'Run failed'
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Report as indented JSON, as answered by POST /api/runs
+ *
+ * @param report - Report of the run
+ * @returns JSON text with a trailing newline
+ */
+export function formatJsonReport(report: RunReport): string {
+  return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+/**
+ * Report as JUnit XML, for CI test result views
+ * Each request of each iteration is a test suite whose test cases are its assertions;
+ * a request without assertions has a single case for the request itself. Requests
+ * that could not be sent or got no response are errors, failed assertions failures.
+ *
+ * @param report - Report of the run
+ * @returns XML document with a trailing newline
+ */
+export function formatJUnitReport(report: RunReport): string {
+  const suites = report.results.map((result) => formatTestSuite(report, result));
+  const failures = report.results.reduce((count, result) => count + countFailures(result), 0);
+  const errors = report.results.filter((result) => result.error).length;
+  const tests = report.results.reduce((count, result) => count + countTests(result), 0);
+  const time = (Date.parse(report.finishedAt) - Date.parse(report.startedAt)) / 1000;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(report.collectionName)}" tests="${tests}" failures="${failures}" errors="${errors}" time="${time}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Test suite of one request of one iteration
+ */
+function formatTestSuite(report: RunReport, result: RunResult): string {
+  const path = [report.collectionName, result.folder, result.name].filter(Boolean);
+  const iteration = report.iterations > 1 ? ` (iteration ${result.iteration})` : '';
+  const name = escapeXml(`${path.slice(1).join(' / ')}${iteration}`);
+  const className = escapeXml(path.join('.').replace(/\s*\/\s*/g, '.'));
+  const time = result.time / 1000;
+
+  const requestCase = escapeXml(`${result.method} ${result.url}`);
+  const cases = result.error
+    ? [
+        formatTestCase(requestCase, className, time, {
+          element: 'error',
+          type: 'RequestError',
+          message: result.error,
+        }),
+      ]
+    : result.assertions.length === 0
+      ? [formatTestCase(requestCase, className, time)]
+      : result.assertions.map((assertion) =>
+          assertion.passed
+            ? formatTestCase(escapeXml(assertion.name), className, 0)
+            : formatTestCase(escapeXml(assertion.name), className, 0, {
+                element: 'failure',
+                type: 'AssertionFailure',
+                message: assertion.error ?? 'Failed',
+              })
+        );
+
+  return [
+    `  <testsuite name="${name}" tests="${countTests(result)}" failures="${countFailures(result)}" errors="${result.error ? 1 : 0}" time="${time}">`,
+    ...cases,
+    '  </testsuite>',
+  ].join('\n');
+}
+
+/**
+ * One test case, with its failure or error if any (name and class already escaped)
+ */
+function formatTestCase(
+  name: string,
+  className: string,
+  time: number,
+  problem?: { element: 'failure' | 'error'; type: string; message: string }
+): string {
+  const open = `    <testcase name="${name}" classname="${className}" time="${time}"`;
+  if (!problem) return `${open}/>`;
+  return [
+    `${open}>`,
+    `      <${problem.element} message="${escapeXml(problem.message)}" type="${problem.type}"/>`,
+    '    </testcase>',
+  ].join('\n');
+}
+
+/**
+ * Test cases of a request's suite
+ */
+function countTests(result: RunResult): number {
+  return result.error ? 1 : Math.max(result.assertions.length, 1);
+}
+
+/**
+ * Failed test cases of a request's suite (errors are counted apart)
+ */
+function countFailures(result: RunResult): number {
+  return result.error ? 0 : result.assertions.filter((assertion) => !assertion.passed).length;
+}
+
+/**
+ * Escape text for an XML attribute, dropping characters XML 1.0 does not allow
+ */
+function escapeXml(text: string): string {
+  return Array.from(text)
+    .filter((char) => {
+      const code = char.charCodeAt(0);
+      return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+    })
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .replace(/\r?\n/g, '&#10;');
+}
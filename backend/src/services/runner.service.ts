@@ -0,0 +1,420 @@
+/**
+ * Runner service - runs an exported collection headlessly, for CI smoke tests
+ *
+ * Requests run in the same order as in the app: the collection root, then each
+ * folder's requests followed by its subfolders, by sortOrder. Each one has its
+ * inherited auth applied and its {{variables}} resolved, goes through the proxy,
+ * then has its captures saved and its assertions checked. Scripts need the app's
+ * sandbox, so they are skipped and reported as warnings.
+ *
+ * @module services/runner.service
+ */
+
+import { OAuthTokenRequestSchema, ProxyRequestSchema } from '../models/schema.ts';
+import type {
+  AuthConfig,
+  CollectionExport,
+  Credentials,
+  FolderExport,
+  ProxyResponse,
+  RequestExport,
+  RunCollectionRequest,
+  RunReport,
+  RunResult,
+  Variable,
+} from '../models/schema.ts';
+import { executeProxyRequest } from './proxy.service.ts';
+import { requestOAuthToken } from './oauth.service.ts';
+import { evaluateAssertions, extractCaptures } from './assertion.service.ts';
+import {
+  getSecretValues,
+  mergeVariableScopes,
+  redactSecrets,
+  resolveString,
+  setVariableValues,
+} from './variable.service.ts';
+
+/**
+ * Saved request with the folders it sits in, outermost first
+ */
+interface RunItem {
+  request: RequestExport;
+  folders: FolderExport[];
+}
+
+/**
+ * State carried from one request of a run to the next
+ */
+interface RunState {
+  collection: CollectionExport;
+  global: Variable[];
+  collectionVariables: Variable[];
+  environment: Variable[] | null;
+  /** Row of the current iteration */
+  data: Record<string, string>;
+  runtime: Variable[];
+  /** OAuth 2.0 access tokens by resolved config, fetched once per run */
+  tokens: Map<string, string>;
+}
+
+/** Names of the auth types headless runs cannot sign with */
+const UNSUPPORTED_AUTH_LABELS: Record<'aws-sigv4' | 'hmac' | 'jwt', string> = {
+  'aws-sigv4': 'AWS Signature v4',
+  hmac: 'HMAC',
+  jwt: 'JWT',
+};
+
+/**
+ * Run every request of an exported collection
+ *
+ * @param input - Collection, environment, globals, data rows and run settings
+ * @param onResult - Optional callback with each request's result as soon as it has run
+ * @returns Promise resolving to the report of the finished run
+ *
+ * @example
+ * ```typescript
+ * const report = await runCollection(RunCollectionRequestSchema.parse(body));
+ * report.status; // => 'passed'
+ * ```
+ */
+export async function runCollection(
+  input: RunCollectionRequest,
+  onResult?: (result: RunResult) => void
+): Promise<RunReport> {
+  const { collection, environment } = input;
+  const startedAt = new Date().toISOString();
+  const { items, warnings } = planRun(collection);
+  const state: RunState = {
+    collection,
+    global: input.globals,
+    collectionVariables: collection.collection.variables,
+    environment: environment?.environment.variables ?? null,
+    data: {},
+    runtime: [],
+    tokens: new Map(),
+  };
+
+  const results: RunResult[] = [];
+  let stopped = false;
+  for (let iteration = 1; iteration <= input.iterations && !stopped; iteration++) {
+    // Iterations past the last data row reuse it
+    state.data = input.data?.[Math.min(iteration, input.data.length) - 1] ?? {};
+    for (const item of items) {
+      // The delay goes between requests, not before the first one
+      if (results.length > 0 && input.delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, input.delay));
+      }
+
+      const result = await runRequest(item, iteration, state);
+      results.push(result);
+      onResult?.(result);
+      if (!result.passed && input.stopOnFailure) {
+        stopped = true;
+        break;
+      }
+    }
+  }
+
+  const passed = results.filter((result) => result.passed).length;
+  return {
+    collectionName: collection.collection.name,
+    environmentName: environment?.environment.name ?? null,
+    status: passed === results.length ? 'passed' : 'failed',
+    iterations: input.iterations,
+    summary: { total: results.length, passed, failed: results.length - passed },
+    results,
+    warnings,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * List the requests of a collection in run order, and what the run will skip
+ * Requests in a folder missing from the export are never reached.
+ */
+function planRun(collection: CollectionExport): { items: RunItem[]; warnings: string[] } {
+  const bySortOrder = (a: { sortOrder: number }, b: { sortOrder: number }) =>
+    a.sortOrder - b.sortOrder;
+  const folders = [...collection.folders].sort(bySortOrder);
+  const requests = [...collection.requests].sort(bySortOrder);
+  const items: RunItem[] = [];
+  const warnings: string[] = [];
+
+  const skipScript = (source: string, owner: string) => {
+    if (source.trim()) {
+      warnings.push(`${owner} was skipped: scripts only run in the app`);
+    }
+  };
+  skipScript(
+    collection.collection.preRequestScript,
+    `Pre-request script of collection "${collection.collection.name}"`
+  );
+
+  const visit = (folderId: string | null, chain: FolderExport[]) => {
+    for (const request of requests.filter((r) => r.folderId === folderId)) {
+      items.push({ request, folders: chain });
+      skipScript(request.preRequestScript, `Pre-request script of "${request.name}"`);
+      skipScript(request.testScript, `Test script of "${request.name}"`);
+    }
+    for (const folder of folders.filter((f) => f.parentFolderId === folderId)) {
+      skipScript(folder.preRequestScript, `Pre-request script of folder "${folder.name}"`);
+      visit(folder.id, [...chain, folder]);
+    }
+  };
+  visit(null, []);
+
+  for (const request of requests) {
+    if (!items.some((item) => item.request === request)) {
+      warnings.push(`Request "${request.name}" was skipped: its folder is not in the collection`);
+    }
+  }
+
+  return { items, warnings };
+}
+
+/**
+ * Send one request of the run and check its response
+ * Updates the run's variables with what its captures found.
+ */
+async function runRequest(
+  { request, folders }: RunItem,
+  iteration: number,
+  state: RunState
+): Promise<RunResult> {
+  const base = {
+    requestId: request.id,
+    name: request.name,
+    folder: folders.map((folder) => folder.name).join(' / '),
+    iteration,
+    method: request.method,
+    url: request.url,
+    status: 0,
+    statusText: '',
+    time: 0,
+    size: 0,
+  };
+  const fail = (error: string): RunResult => ({ ...base, error, assertions: [], passed: false });
+
+  // Substitute {{variables}}; undefined variables are left as-is
+  const variables = mergeVariableScopes({
+    global: state.global,
+    collection: state.collectionVariables,
+    environment: state.environment ?? [],
+    data: state.data,
+    request: request.variables,
+    runtime: state.runtime,
+  });
+  const resolve = (value: string) => resolveString(value, variables);
+  const secrets = getSecretValues(
+    [
+      ...state.global,
+      ...state.collectionVariables,
+      ...(state.environment ?? []),
+      ...request.variables,
+    ],
+    variables
+  );
+
+  let url = resolve(request.url).trim();
+  if (!url.startsWith('http://') && !url.startsWith('https://')) {
+    url = `https://${url}`;
+  }
+  const headers: Record<string, string> = {};
+  for (const header of request.headers) {
+    if (header.enabled && header.key.trim()) {
+      headers[resolve(header.key)] = resolve(header.value);
+    }
+  }
+
+  // Request auth, else the nearest folder's, else the collection's
+  const auth =
+    [request.auth, ...[...folders].reverse().map((folder) => folder.auth)].find(
+      (config) => config !== null
+    ) ??
+    state.collection.collection.auth ??
+    ({ type: 'none' } as const);
+  let digest: Credentials | undefined;
+  try {
+    const applied = await applyAuth(resolveAuth(auth, resolve), url, headers, state);
+    url = applied.url;
+    digest = applied.digest;
+  } catch (error) {
+    base.url = redactSecrets(url, secrets);
+    return fail(error instanceof Error ? error.message : 'Auth failed');
+  }
+  base.url = redactSecrets(url, secrets);
+
+  const parsed = ProxyRequestSchema.safeParse({
+    method: request.method,
+    url,
+    headers,
+    body: request.body ? resolve(request.body.content) : null,
+    timeout: request.timeout,
+    digest,
+  });
+  if (!parsed.success) {
+    return fail(`Invalid URL: ${base.url}`);
+  }
+
+  const response: ProxyResponse = await executeProxyRequest(parsed.data);
+  base.status = response.status;
+  base.statusText = response.statusText;
+  base.time = response.timing.total;
+  base.size = response.size;
+  if (response.error) {
+    return fail(response.error.message);
+  }
+
+  // Captured values carry over to the next requests; environment captures need an environment
+  if (response.status >= 200 && response.status < 300) {
+    const captured = extractCaptures(request.captures, response, variables);
+    state.runtime = setVariableValues(state.runtime, captured.runtime);
+    state.collectionVariables = setVariableValues(state.collectionVariables, captured.collection);
+    if (state.environment) {
+      state.environment = setVariableValues(state.environment, captured.environment);
+    }
+  }
+
+  const assertions = evaluateAssertions(request.assertions, response, variables);
+  return {
+    ...base,
+    error: null,
+    assertions,
+    passed: assertions.every((assertion) => assertion.passed),
+  };
+}
+
+/**
+ * Substitute variables in every string field of an auth config
+ */
+function resolveAuth(auth: AuthConfig, resolve: (value: string) => string): AuthConfig {
+  const visit = (value: unknown): unknown => {
+    if (typeof value === 'string') return resolve(value);
+    if (typeof value !== 'object' || value === null) return value;
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, visit(field)]));
+  };
+  return visit(auth) as AuthConfig;
+}
+
+/**
+ * Add a resolved auth config to the request's headers or URL
+ * Headers set explicitly on the request take precedence over the added one.
+ *
+ * @returns URL with any API key added, and the credentials the proxy answers a Digest challenge with
+ * @throws Error if the auth type cannot run headlessly or its token cannot be obtained
+ */
+async function applyAuth(
+  auth: AuthConfig,
+  url: string,
+  headers: Record<string, string>,
+  state: RunState
+): Promise<{ url: string; digest?: Credentials }> {
+  switch (auth.type) {
+    case 'none':
+      return { url };
+
+    case 'bearer':
+      if (auth.bearer.token) setHeader(headers, 'Authorization', `Bearer ${auth.bearer.token}`);
+      return { url };
+
+    case 'api-key':
+      if (auth.apiKey.in === 'query') {
+        return { url: withQueryParam(url, auth.apiKey.key, auth.apiKey.value) };
+      }
+      setHeader(headers, auth.apiKey.key, auth.apiKey.value);
+      return { url };
+
+    case 'basic': {
+      const { username, password } = auth.basic;
+      if (username || password) {
+        setHeader(headers, 'Authorization', `Basic ${encodeBase64(`${username}:${password}`)}`);
+      }
+      return { url };
+    }
+
+    case 'digest':
+      return { url, digest: auth.digest };
+
+    case 'oauth2': {
+      const token = await getAccessToken(auth.oauth2, state);
+      setHeader(headers, 'Authorization', `${auth.oauth2.headerPrefix} ${token}`.trim());
+      return { url };
+    }
+
+    case 'aws-sigv4':
+    case 'hmac':
+    case 'jwt':
+      throw new Error(
+        `${UNSUPPORTED_AUTH_LABELS[auth.type]} auth is not supported in headless runs`
+      );
+  }
+}
+
+/**
+ * Access token of an OAuth 2.0 config, fetched once per run
+ * The authorization code grant needs a browser, so only the other grants work here.
+ */
+async function getAccessToken(
+  config: Extract<AuthConfig, { type: 'oauth2' }>['oauth2'],
+  state: RunState
+): Promise<string> {
+  if (config.grantType === 'authorization_code') {
+    throw new Error('OAuth 2.0 authorization code grant needs a browser and cannot run headlessly');
+  }
+
+  const key = JSON.stringify(config);
+  const cached = state.tokens.get(key);
+  if (cached) return cached;
+
+  const parsed = OAuthTokenRequestSchema.safeParse({
+    grantType: config.grantType,
+    tokenUrl: config.tokenUrl,
+    clientId: config.clientId,
+    clientSecret: config.clientSecret || undefined,
+    clientAuth: config.clientAuth,
+    scope: config.scope || undefined,
+    username: config.username,
+    password: config.password,
+  });
+  if (!parsed.success) {
+    throw new Error(`Invalid OAuth 2.0 token URL: ${config.tokenUrl}`);
+  }
+
+  const token = await requestOAuthToken(parsed.data);
+  state.tokens.set(key, token.accessToken);
+  return token.accessToken;
+}
+
+/**
+ * Set a header unless the request already sets it (case-insensitive)
+ */
+function setHeader(headers: Record<string, string>, key: string, value: string): void {
+  const lowerKey = key.toLowerCase();
+  if (!Object.keys(headers).some((name) => name.trim().toLowerCase() === lowerKey)) {
+    headers[key] = value;
+  }
+}
+
+/**
+ * Append a query parameter, keeping the fragment at the end
+ */
+function withQueryParam(url: string, key: string, value: string): string {
+  const param = `${encodeURIComponent(key)}=${encodeURIComponent(value)}`;
+  const hashIndex = url.indexOf('#');
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+  const separator = !base.includes('?') ? '?' : /[?&]$/.test(base) ? '' : '&';
+  return `${base}${separator}${param}${hash}`;
+}
+
+/**
+ * UTF-8 safe Base64
+ */
+function encodeBase64(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,345 @@
+/**
+ * Sync service - stores shared projects and their change logs
+ *
+ * @module services/sync.service
+ */
+
+import type {
+  ChangesResponse,
+  CreateProjectRequest,
+  JoinProjectRequest,
+  ProjectInfo,
+  ProjectSnapshot,
+  PushResult,
+  StoredSyncChange,
+  SyncChange,
+  SyncEntityState,
+  SyncEntityType,
+  SyncProjectRecord,
+} from '../models/schema.ts';
+import { getKv, kvKeys } from '../db/kv.ts';
+import { hashPassword, issueProjectToken, verifyPassword } from './auth.service.ts';
+import { publishChanges } from './live.service.ts';
+
+/** Deno KV rejects values above 64 KiB; keep headroom for the change envelope */
+const MAX_CHANGE_SIZE = 60 * 1024;
+
+/** Attempts per change when a concurrent push appends to the same log */
+const MAX_COMMIT_ATTEMPTS = 10;
+
+/**
+ * Error raised by sync operations, carrying the HTTP status to respond with
+ */
+export class SyncError extends Error {
+  status: 400 | 401 | 404 | 409 | 413;
+  code: string;
+
+  constructor(status: 400 | 401 | 404 | 409 | 413, code: string, message: string) {
+    super(message);
+    this.name = 'SyncError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Create a new sync project
+ *
+ * @param input - Project name and password
+ * @returns Project info including a bearer token
+ * @throws SyncError (409) if a project with the same name exists
+ */
+export async function createProject(input: CreateProjectRequest): Promise<ProjectInfo> {
+  const kv = await getKv();
+  const now = new Date().toISOString();
+
+  const project: SyncProjectRecord = {
+    id: crypto.randomUUID(),
+    name: input.name,
+    passwordHash: hashPassword(input.password),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const nameKey = kvKeys.projectByName(input.name);
+  const result = await kv
+    .atomic()
+    .check({ key: nameKey, versionstamp: null })
+    .set(nameKey, project.id)
+    .set(kvKeys.project(project.id), project)
+    .commit();
+
+  if (!result.ok) {
+    throw new SyncError(409, 'project_exists', `Project "${input.name}" already exists`);
+  }
+
+  return toProjectInfo(project);
+}
+
+/**
+ * Join an existing sync project
+ *
+ * @param input - Project name and password
+ * @returns Project info including a bearer token
+ * @throws SyncError (404) if the project does not exist, (401) if the password is wrong
+ */
+export async function joinProject(input: JoinProjectRequest): Promise<ProjectInfo> {
+  const kv = await getKv();
+
+  const idEntry = await kv.get<string>(kvKeys.projectByName(input.name));
+  const project = idEntry.value
+    ? (await kv.get<SyncProjectRecord>(kvKeys.project(idEntry.value))).value
+    : null;
+
+  if (!project) {
+    throw new SyncError(404, 'project_not_found', `Project "${input.name}" not found`);
+  }
+
+  if (!verifyPassword(input.password, project.passwordHash)) {
+    throw new SyncError(401, 'invalid_password', 'Invalid project password');
+  }
+
+  return toProjectInfo(project);
+}
+
+/**
+ * Issue a fresh token for a project the caller already holds a valid token for
+ *
+ * Clients renew their token before it expires, so a project stays joined
+ * without keeping its password around.
+ *
+ * @param projectId - Project id
+ * @returns Project info including a new bearer token
+ * @throws SyncError (404) if the project no longer exists
+ */
+export async function refreshProjectToken(projectId: string): Promise<ProjectInfo> {
+  return toProjectInfo(await requireProject(projectId));
+}
+
+/**
+ * Get all changes appended after a cursor
+ *
+ * Sequence numbers are assigned in commit order, so a change can never appear
+ * behind a cursor a client has already moved past.
+ *
+ * @param projectId - Project id
+ * @param since - Sequence cursor from a previous call (omit for the full log)
+ * @returns Changes in log order and the cursor to use for the next call
+ */
+export async function getChangesSince(projectId: string, since?: number): Promise<ChangesResponse> {
+  await requireProject(projectId);
+  const kv = await getKv();
+
+  const prefix = kvKeys.changes(projectId);
+  const selector: Deno.KvListSelector = since
+    ? { prefix, start: kvKeys.change(projectId, since + 1) }
+    : { prefix };
+
+  const changes: StoredSyncChange[] = [];
+  for await (const entry of kv.list<StoredSyncChange>(selector)) {
+    changes.push(entry.value);
+  }
+
+  const last = changes[changes.length - 1];
+  return {
+    changes,
+    cursor: last?.sequence ?? since ?? 0,
+  };
+}
+
+/**
+ * Append changes to a project's log and update the entity states
+ *
+ * Pushing is idempotent: changes whose id was already accepted are skipped,
+ * so clients can safely retry after a dropped connection. Entity state follows
+ * the log order, with updates merged field by field (see nextEntityState).
+ * Newly accepted changes are broadcast to the project's other live clients.
+ *
+ * @param projectId - Project id
+ * @param changes - Changes recorded by the client
+ * @returns Number of newly accepted changes and the server time they were received at
+ * @throws SyncError (413) if a change is too large to store
+ */
+export async function pushChanges(projectId: string, changes: SyncChange[]): Promise<PushResult> {
+  await requireProject(projectId);
+  const kv = await getKv();
+
+  for (const change of changes) {
+    const size = new TextEncoder().encode(JSON.stringify(change)).length;
+    if (size > MAX_CHANGE_SIZE) {
+      throw new SyncError(
+        413,
+        'change_too_large',
+        `Change ${change.id} exceeds the ${MAX_CHANGE_SIZE / 1024}KB sync limit`
+      );
+    }
+  }
+
+  const serverTime = new Date().toISOString();
+  const accepted: StoredSyncChange[] = [];
+
+  for (const change of changes) {
+    const stored = await commitChange(kv, projectId, change, serverTime);
+    if (stored) {
+      accepted.push(stored);
+    }
+  }
+
+  publishChanges(projectId, accepted);
+
+  return { accepted: accepted.length, serverTime };
+}
+
+/**
+ * Get the current state of every entity in a project
+ *
+ * @param projectId - Project id
+ * @returns Live entities grouped by type, plus a cursor for subsequent change polling
+ */
+export async function getSnapshot(projectId: string): Promise<ProjectSnapshot> {
+  await requireProject(projectId);
+  const kv = await getKv();
+
+  // Read the cursor first so changes arriving during the scan are picked up by the next poll
+  const cursor = (await kv.get<number>(kvKeys.lastSequence(projectId))).value ?? 0;
+
+  const snapshot: ProjectSnapshot = {
+    environments: [],
+    collections: [],
+    folders: [],
+    requests: [],
+    cursor,
+  };
+
+  const groups: Record<SyncEntityType, unknown[]> = {
+    environment: snapshot.environments,
+    collection: snapshot.collections,
+    folder: snapshot.folders,
+    request: snapshot.requests,
+  };
+
+  for await (const entry of kv.list<SyncEntityState>({ prefix: kvKeys.entities(projectId) })) {
+    const entityType = entry.key[2] as SyncEntityType;
+    if (!entry.value.deleted && groups[entityType]) {
+      groups[entityType].push(entry.value.data);
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * Atomically append a single change to the log, retrying on concurrent commits
+ *
+ * The change takes the next sequence number in the same commit that stores it,
+ * so the log has no gaps and sequence order is commit order.
+ *
+ * @returns The stored change if it was newly accepted, null if it was a duplicate
+ */
+async function commitChange(
+  kv: Deno.Kv,
+  projectId: string,
+  change: SyncChange,
+  serverTime: string
+): Promise<StoredSyncChange | null> {
+  const idKey = kvKeys.changeId(projectId, change.id);
+  const entityKey = kvKeys.entity(projectId, change.entityType, change.entityId);
+  const sequenceKey = kvKeys.lastSequence(projectId);
+
+  for (let attempt = 0; attempt < MAX_COMMIT_ATTEMPTS; attempt++) {
+    const [idEntry, entityEntry, sequenceEntry] = await kv.getMany<
+      [number, SyncEntityState, number]
+    >([idKey, entityKey, sequenceKey]);
+
+    if (idEntry.value !== null) {
+      return null;
+    }
+
+    const sequence = (sequenceEntry.value ?? 0) + 1;
+    const stored: StoredSyncChange = { ...change, serverTime, sequence };
+    const result = await kv
+      .atomic()
+      .check(idEntry)
+      .check(entityEntry)
+      .check(sequenceEntry)
+      .set(idKey, sequence)
+      .set(sequenceKey, sequence)
+      .set(kvKeys.change(projectId, sequence), stored)
+      .set(entityKey, nextEntityState(entityEntry.value, change))
+      .commit();
+
+    if (result.ok) {
+      return stored;
+    }
+  }
+
+  throw new Error(`Failed to store change ${change.id} after ${MAX_COMMIT_ATTEMPTS} attempts`);
+}
+
+/**
+ * Compute an entity's state after applying a change
+ *
+ * Clients replay the log in the same order, so applying it here in receive
+ * order keeps the snapshot identical to what every client converges to.
+ * Updates with `changedFields` only overwrite those fields of a live entity.
+ */
+function nextEntityState(current: SyncEntityState | null, change: SyncChange): SyncEntityState {
+  if (change.operation === 'delete') {
+    return { data: null, timestamp: change.timestamp, deleted: true };
+  }
+
+  const canMerge =
+    change.operation === 'update' &&
+    change.changedFields !== undefined &&
+    current !== null &&
+    !current.deleted &&
+    isRecord(current.data) &&
+    isRecord(change.data);
+
+  if (!canMerge) {
+    return { data: change.data, timestamp: change.timestamp, deleted: false };
+  }
+
+  const merged: Record<string, unknown> = { ...(current.data as Record<string, unknown>) };
+  const incoming = change.data as Record<string, unknown>;
+  for (const field of change.changedFields ?? []) {
+    merged[field] = incoming[field];
+  }
+
+  return { data: merged, timestamp: change.timestamp, deleted: false };
+}
+
+/**
+ * Check whether a value is a plain JSON object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Ensure a project exists
+ *
+ * @throws SyncError (404) if it does not
+ */
+async function requireProject(projectId: string): Promise<SyncProjectRecord> {
+  const kv = await getKv();
+  const project = (await kv.get<SyncProjectRecord>(kvKeys.project(projectId))).value;
+
+  if (!project) {
+    throw new SyncError(404, 'project_not_found', 'Project not found');
+  }
+
+  return project;
+}
+
+/**
+ * Build the public project info (with a fresh token) from a stored project
+ */
+async function toProjectInfo(project: SyncProjectRecord): Promise<ProjectInfo> {
+  return {
+    id: project.id,
+    name: project.name,
+    token: await issueProjectToken(project.id),
+    createdAt: project.createdAt,
+  };
+}
@@ -0,0 +1,211 @@
+/**
+ * Variable service - {{variable}} substitution for the headless runner
+ * Mirrors the app's variable resolver: scopes merge from globals to runtime values,
+ * nested references resolve in further passes and {{$dynamic}} values are generated
+ * at send time.
+ *
+ * @module services/variable.service
+ */
+
+import type { Variable } from '../models/schema.ts';
+
+/**
+ * Variable values by name
+ */
+export type VariableMap = Map<string, string>;
+
+/**
+ * Variables of each scope, in increasing precedence
+ */
+export interface VariableScopes {
+  global: Variable[];
+  collection: Variable[];
+  environment: Variable[];
+  data: Record<string, string>;
+  request: Variable[];
+  runtime: Variable[];
+}
+
+/**
+ * Secret value and the reference it is redacted to
+ */
+export interface SecretValue {
+  reference: string;
+  value: string;
+}
+
+/** Matches {{name}} references */
+const VARIABLE_PATTERN = /\{\{([^{}]+)\}\}/g;
+
+/** Maximum substitution passes for nested variables (guards against cycles) */
+const MAX_RESOLVE_DEPTH = 10;
+
+/** Secret values shorter than this are not redacted (they would mask unrelated text) */
+const MIN_REDACTED_LENGTH = 4;
+
+/** Letters used for random email local parts */
+const EMAIL_ALPHABET = 'abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * Dynamic variable generators by name; the argument is the text after the name
+ */
+const DYNAMIC_VARIABLES: Record<string, (argument: string) => string> = {
+  $guid: () => crypto.randomUUID(),
+  $randomUUID: () => crypto.randomUUID(),
+  $timestamp: () => String(Math.floor(Date.now() / 1000)),
+  $isoTimestamp: () => new Date().toISOString(),
+  $randomInt: (argument) => {
+    const [min = 0, max = 1000] = argument
+      .split(/\s+/)
+      .filter(Boolean)
+      .map(Number)
+      .filter(Number.isFinite);
+    return String(randomInt(Math.min(min, max), Math.max(min, max)));
+  },
+  $randomEmail: () => {
+    const local = Array.from(
+      { length: 8 },
+      () => EMAIL_ALPHABET[randomInt(0, EMAIL_ALPHABET.length - 1)]
+    ).join('');
+    return `${local}.${randomInt(10, 99)}@example.com`;
+  },
+  $base64: (argument) => {
+    let binary = '';
+    for (const byte of new TextEncoder().encode(argument)) {
+      binary += String.fromCharCode(byte);
+    }
+    return btoa(binary);
+  },
+  $urlEncode: (argument) => encodeURIComponent(argument),
+};
+
+/**
+ * Merge the enabled variables of every scope; later scopes override earlier ones
+ *
+ * @param scopes - Variables of each scope
+ * @returns Effective values by name
+ */
+export function mergeVariableScopes(scopes: VariableScopes): VariableMap {
+  const values: VariableMap = new Map();
+
+  for (const variables of [scopes.global, scopes.collection, scopes.environment]) {
+    for (const variable of variables) {
+      if (variable.enabled) values.set(variable.key, variable.value);
+    }
+  }
+  for (const [key, value] of Object.entries(scopes.data)) {
+    values.set(key, value);
+  }
+  for (const variables of [scopes.request, scopes.runtime]) {
+    for (const variable of variables) {
+      if (variable.enabled) values.set(variable.key, variable.value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Substitute variables and dynamic variables in a string
+ * Unknown names are left as-is.
+ *
+ * @param template - String that may contain {{variable}} references
+ * @param variables - Variable values by name
+ * @returns Resolved string
+ *
+ * @example
+ * ```typescript
+ * resolveString('{{baseUrl}}/users', new Map([['baseUrl', 'https://api.example.com']]));
+ * // => 'https://api.example.com/users'
+ * ```
+ */
+export function resolveString(template: string, variables: VariableMap): string {
+  let result = template;
+
+  for (let depth = 0; depth < MAX_RESOLVE_DEPTH; depth++) {
+    let substituted = false;
+
+    result = result.replace(VARIABLE_PATTERN, (match, rawName: string) => {
+      const name = rawName.trim();
+      const value = variables.get(name) ?? generateDynamicValue(name);
+      if (value === undefined) return match;
+
+      substituted = true;
+      return value;
+    });
+
+    if (!substituted) break;
+  }
+
+  return result;
+}
+
+/**
+ * Resolved values of the secret variables of every scope, longest first
+ *
+ * @param variables - Secret variables, from any scope
+ * @param values - Effective values, to resolve references inside the secrets
+ * @returns Values to redact from reports
+ */
+export function getSecretValues(variables: Variable[], values: VariableMap): SecretValue[] {
+  return variables
+    .filter((variable) => variable.secret)
+    .map((variable) => ({
+      reference: `{{${variable.key}}}`,
+      value: resolveString(variable.value, values),
+    }))
+    .filter((secret) => secret.value.length >= MIN_REDACTED_LENGTH)
+    .sort((a, b) => b.value.length - a.value.length);
+}
+
+/**
+ * Replace every occurrence of a secret value with its reference
+ *
+ * @param text - Text that may contain secret values
+ * @param secrets - Secret values and their references
+ * @returns Redacted text
+ */
+export function redactSecrets(text: string, secrets: SecretValue[]): string {
+  return secrets.reduce(
+    (result, secret) => result.split(secret.value).join(secret.reference),
+    text
+  );
+}
+
+/**
+ * Set variable values, adding the ones a list does not have yet
+ *
+ * @param variables - Current variables of a scope
+ * @param values - New values by name
+ * @returns Updated variables
+ */
+export function setVariableValues(
+  variables: Variable[],
+  values: Record<string, string>
+): Variable[] {
+  const updated = variables.map((variable) =>
+    Object.hasOwn(values, variable.key) ? { ...variable, value: values[variable.key] } : variable
+  );
+  for (const [key, value] of Object.entries(values)) {
+    if (!variables.some((variable) => variable.key === key)) {
+      updated.push({ key, value, enabled: true });
+    }
+  }
+  return updated;
+}
+
+/**
+ * Value of a {{$dynamic}} reference, or undefined if the name is not dynamic
+ */
+function generateDynamicValue(reference: string): string | undefined {
+  const [name = ''] = reference.split(/\s/, 1);
+  const generate = Object.hasOwn(DYNAMIC_VARIABLES, name) ? DYNAMIC_VARIABLES[name] : undefined;
+  return generate?.(reference.slice(name.length).trim());
+}
+
+/**
+ * Random integer between min and max inclusive
+ */
+function randomInt(min: number, max: number): number {
+  return min + Math.floor(Math.random() * (max - min + 1));
+}
@@ -4,13 +4,29 @@
  * @module App
  */
 
-import { useEffect } from 'react';
-import { useUIStore, useEnvironmentStore } from './stores';
+import { useEffect, useState } from 'react';
+import {
+  useUIStore,
+  useEnvironmentStore,
+  useRequestStore,
+  useSyncStore,
+  useVariableStore,
+  useAuthStore,
+  useScriptStore,
+  selectOnlineCount,
+} from './stores';
 import { Tabs, TabsList, TabsTrigger, TabsContent, Button } from './components/ui';
 import { RequestBuilder } from './components/request-builder';
 import { ResponseViewer } from './components/response-viewer';
 import { HistoryList } from './components/sidebar/HistoryList';
-import { useRequest } from './hooks';
+import { CollectionTree } from './components/sidebar/CollectionTree';
+import { ConflictResolver } from './components/sync';
+import { CollectionRunner } from './components/runner';
+import { ImportDialog } from './components/import';
+import { ExportDialog } from './components/export';
+import { ScriptConsole } from './components/console';
+import { useRequest, useSync } from './hooks';
+import type { SyncStatus } from './types';
 
 /**
  * Main application component
@@ -19,13 +35,55 @@ import { useRequest } from './hooks';
 function App() {
   const { sidebarTab, setSidebarTab, sidebarCollapsed, toggleSidebar } = useUIStore();
   const { loadEnvironments, activeEnvironment, environments } = useEnvironmentStore();
-  const { sendRequest, loading } = useRequest();
+  const loadGlobals = useVariableStore((state) => state.loadGlobals);
+  const loadCollection = useVariableStore((state) => state.loadCollection);
+  const loadAuthParents = useAuthStore((state) => state.loadParents);
+  const loadScriptParents = useScriptStore((state) => state.loadParents);
+  const collectionId = useRequestStore((state) => state.collectionId);
+  const folderId = useRequestStore((state) => state.folderId);
+  const { sendRequest, sendAnyway, missingVariables, dismissMissingVariables, loading } =
+    useRequest();
+  const { status: syncStatus, pendingChanges } = useSync();
+  const conflictCount = useSyncStore((state) => state.conflicts.length);
+  const isLive = useSyncStore((state) => state.liveProjects.length > 0);
+  const onlineCount = useSyncStore(selectOnlineCount);
+  const expiredProjects = useSyncStore((state) =>
+    state.projects
+      .filter((project) => project.needsRejoin)
+      .map((project) => project.name)
+      .join(', ')
+  );
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [showRunner, setShowRunner] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [collectionsVersion, setCollectionsVersion] = useState(0);
+  const [showExport, setShowExport] = useState(false);
 
   // Load environments on mount
   useEffect(() => {
     loadEnvironments();
   }, [loadEnvironments]);
 
+  // Load global variables on mount
+  useEffect(() => {
+    loadGlobals();
+  }, [loadGlobals]);
+
+  // Follow the collection of the request being edited for its variables
+  useEffect(() => {
+    loadCollection(collectionId);
+  }, [loadCollection, collectionId]);
+
+  // ...and for the folder and collection auth it inherits
+  useEffect(() => {
+    loadAuthParents(collectionId, folderId);
+  }, [loadAuthParents, collectionId, folderId]);
+
+  // ...and the pre-request scripts that run before its own
+  useEffect(() => {
+    loadScriptParents(collectionId, folderId);
+  }, [loadScriptParents, collectionId, folderId]);
+
   return (
     <div className="flex h-screen flex-col bg-bg-base text-foreground">
       {/* Header */}
@@ -34,6 +92,15 @@ function App() {
         environments={environments}
         onToggleSidebar={toggleSidebar}
         sidebarCollapsed={sidebarCollapsed}
+        syncStatus={syncStatus}
+        pendingChanges={pendingChanges}
+        conflictCount={conflictCount}
+        isLive={isLive}
+        onlineCount={onlineCount}
+        expiredProjects={expiredProjects}
+        onShowConflicts={() => setShowConflicts(true)}
+        onShowRunner={() => setShowRunner(true)}
+        onShowExport={() => setShowExport(true)}
       />
 
       {/* Main content area */}
@@ -55,7 +122,10 @@ function App() {
               </TabsList>
 
               <TabsContent value="collections" className="flex-1 overflow-auto p-3">
-                <CollectionsPlaceholder />
+                <CollectionTree
+                  onImport={() => setShowImport(true)}
+                  refreshKey={collectionsVersion}
+                />
               </TabsContent>
 
               <TabsContent value="history" className="flex-1 overflow-auto p-3">
@@ -69,15 +139,36 @@ function App() {
         <main className="flex flex-1 flex-col gap-4 overflow-auto p-4">
           {/* Request Builder Card */}
           <section className="rounded-2xl border border-border bg-gradient-card p-6 shadow-card">
-            <RequestBuilder onSend={sendRequest} loading={loading} />
+            <RequestBuilder
+              onSend={sendRequest}
+              loading={loading}
+              missingVariables={missingVariables}
+              onSendAnyway={sendAnyway}
+              onDismissMissing={dismissMissingVariables}
+            />
           </section>
 
           {/* Response Viewer Card */}
           <section className="flex-1 min-h-[300px] rounded-2xl border border-border bg-gradient-card p-6 shadow-card">
             <ResponseViewer />
           </section>
+
+          {/* Script console (hidden until a script logs something) */}
+          <ScriptConsole />
         </main>
       </div>
+
+      {showConflicts && <ConflictResolver onClose={() => setShowConflicts(false)} />}
+      {showRunner && <CollectionRunner onClose={() => setShowRunner(false)} />}
+      {showImport && (
+        <ImportDialog
+          onClose={() => {
+            setShowImport(false);
+            setCollectionsVersion((version) => version + 1);
+          }}
+        />
+      )}
+      {showExport && <ExportDialog onClose={() => setShowExport(false)} />}
     </div>
   );
 }
@@ -89,11 +180,30 @@ function Header({
   activeEnvironment,
   onToggleSidebar,
   sidebarCollapsed,
+  syncStatus,
+  pendingChanges,
+  conflictCount,
+  isLive,
+  onlineCount,
+  expiredProjects,
+  onShowConflicts,
+  onShowRunner,
+  onShowExport,
 }: {
   activeEnvironment: { name: string } | null;
   environments: { id: string; name: string }[];
   onToggleSidebar: () => void;
   sidebarCollapsed: boolean;
+  syncStatus: SyncStatus;
+  pendingChanges: number;
+  conflictCount: number;
+  isLive: boolean;
+  onlineCount: number;
+  /** Names of sync projects whose token expired, comma-separated ('' if none) */
+  expiredProjects: string;
+  onShowConflicts: () => void;
+  onShowRunner: () => void;
+  onShowExport: () => void;
 }) {
   return (
     <header className="flex h-12 items-center justify-between border-b border-border bg-bg-deep px-4">
@@ -124,37 +234,73 @@ function Header({
         </Button>
       </div>
 
-      {/* Right: Sync status */}
+      {/* Right: Runner, export and sync status */}
       <div className="flex items-center gap-2">
-        <div className="flex items-center gap-1.5 text-xs text-foreground-muted">
-          <div className="h-2 w-2 rounded-full bg-emerald-500" />
-          <span>Local</span>
-        </div>
+        <Button variant="ghost" size="sm" onClick={onShowRunner}>
+          Runner
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onShowExport}>
+          Export
+        </Button>
+        {conflictCount > 0 && (
+          <Button variant="danger" size="sm" onClick={onShowConflicts}>
+            {conflictCount} {conflictCount === 1 ? 'conflict' : 'conflicts'}
+          </Button>
+        )}
+        {expiredProjects && (
+          <span
+            className="text-xs text-red-400"
+            title="Project access expires after 30 days without syncing"
+          >
+            Re-join {expiredProjects}
+          </span>
+        )}
+        {isLive && <PresenceIndicator onlineCount={onlineCount} />}
+        <SyncIndicator status={syncStatus} pendingChanges={pendingChanges} />
       </div>
     </header>
   );
 }
 
-// ============================================================================
-// Placeholder Components (to be replaced in later phases)
-// ============================================================================
+/**
+ * Sync status dot with label and count of unpushed changes
+ */
+function SyncIndicator({ status, pendingChanges }: { status: SyncStatus; pendingChanges: number }) {
+  const { label, dotColor } = SYNC_STATUS_DISPLAY[status];
 
-function CollectionsPlaceholder() {
   return (
-    <div className="flex flex-col items-center justify-center gap-3 py-8 text-center">
-      <FolderIcon className="h-10 w-10 text-foreground-muted/50" />
-      <div>
-        <p className="text-sm font-medium text-foreground">No Collections</p>
-        <p className="text-xs text-foreground-muted">Create a collection to organize your requests</p>
-      </div>
-      <Button variant="secondary" size="sm">
-        New Collection
-      </Button>
+    <div className="flex items-center gap-1.5 text-xs text-foreground-muted">
+      <div className={`h-2 w-2 rounded-full ${dotColor}`} />
+      <span>{label}</span>
+      {pendingChanges > 0 && (
+        <span className="text-foreground-muted/70">({pendingChanges} pending)</span>
+      )}
     </div>
   );
 }
 
+/**
+ * Number of other devices connected to the joined sync projects
+ */
+function PresenceIndicator({ onlineCount }: { onlineCount: number }) {
+  return (
+    <div
+      className="flex items-center gap-1.5 text-xs text-foreground-muted"
+      title="Other devices connected to your sync projects"
+    >
+      <UsersIcon />
+      <span>{onlineCount === 0 ? 'Only you' : `${onlineCount} online`}</span>
+    </div>
+  );
+}
 
+const SYNC_STATUS_DISPLAY: Record<SyncStatus, { label: string; dotColor: string }> = {
+  local: { label: 'Local', dotColor: 'bg-emerald-500' },
+  idle: { label: 'Synced', dotColor: 'bg-emerald-500' },
+  syncing: { label: 'Syncing...', dotColor: 'bg-accent animate-pulse' },
+  offline: { label: 'Offline', dotColor: 'bg-amber-400' },
+  error: { label: 'Sync error', dotColor: 'bg-red-400' },
+};
 
 // ============================================================================
 // Icons
@@ -176,10 +322,22 @@ function ChevronDownIcon() {
   );
 }
 
-function FolderIcon({ className }: { className?: string }) {
+function UsersIcon() {
   return (
-    <svg className={className} viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-      <path d="M3 7V17C3 18.1046 3.89543 19 5 19H19C20.1046 19 21 18.1046 21 17V9C21 7.89543 20.1046 7 19 7H12L10 5H5C3.89543 5 3 5.89543 3 7Z" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
+    <svg width="14" height="14" viewBox="0 0 14 14" fill="none" xmlns="http://www.w3.org/2000/svg">
+      <circle cx="5" cy="4.5" r="2" stroke="currentColor" strokeWidth="1.25" />
+      <path
+        d="M1.5 11.5C1.5 9.567 3.067 8 5 8C6.933 8 8.5 9.567 8.5 11.5"
+        stroke="currentColor"
+        strokeWidth="1.25"
+        strokeLinecap="round"
+      />
+      <path
+        d="M9.5 3C10.328 3 11 3.672 11 4.5C11 5.328 10.328 6 9.5 6M10.5 8.2C11.668 8.6 12.5 9.7 12.5 11"
+        stroke="currentColor"
+        strokeWidth="1.25"
+        strokeLinecap="round"
+      />
     </svg>
   );
 }
@@ -0,0 +1,59 @@
+/**
+ * Script console - output of the last send's pre-request and test scripts
+ *
+ * @module components/console/ScriptConsole
+ */
+
+import { Button } from '../ui';
+import { useScriptStore } from '../../stores';
+import type { ScriptLogEntry } from '../../services/scripts';
+
+const LEVEL_COLORS: Record<ScriptLogEntry['level'], string> = {
+  log: 'text-foreground',
+  info: 'text-blue-400',
+  warn: 'text-amber-400',
+  error: 'text-red-400',
+};
+
+/**
+ * Console panel listing what scripts logged, and their errors
+ * Renders nothing until a script writes something.
+ *
+ * @example
+ * ```tsx
+ * <ScriptConsole />
+ * ```
+ */
+export function ScriptConsole() {
+  const logs = useScriptStore((state) => state.logs);
+  const clearLogs = useScriptStore((state) => state.clearLogs);
+
+  if (logs.length === 0) return null;
+
+  return (
+    <section className="space-y-2 rounded-2xl border border-border bg-gradient-card p-6 shadow-card">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+          Console
+        </h3>
+        <Button variant="ghost" size="sm" onClick={clearLogs}>
+          Clear
+        </Button>
+      </div>
+
+      <div className="max-h-48 overflow-auto rounded-lg bg-[#0a0a0c] py-2">
+        {logs.map((entry, index) => (
+          <div key={index} className="flex gap-3 px-4 py-0.5 font-mono text-xs">
+            <span className="shrink-0 text-foreground-muted/70">
+              {new Date(entry.timestamp).toLocaleTimeString()}
+            </span>
+            <span className="shrink-0 text-foreground-muted">{entry.source}</span>
+            <span className={`whitespace-pre-wrap break-words ${LEVEL_COLORS[entry.level]}`}>
+              {entry.message}
+            </span>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
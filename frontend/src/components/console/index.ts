@@ -0,0 +1,6 @@
+/**
+ * Console component exports
+ * @module components/console
+ */
+
+export { ScriptConsole } from './ScriptConsole';
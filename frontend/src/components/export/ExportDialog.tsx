@@ -0,0 +1,167 @@
+/**
+ * Export dialog - downloads a collection, an environment or the whole workspace
+ *
+ * @module components/export/ExportDialog
+ */
+
+import { useEffect, useState } from 'react';
+import { getAllCollections, getAllEnvironments } from '../../services/db';
+import {
+  downloadJson,
+  exportCollection,
+  exportEnvironment,
+  exportWorkspace,
+  getExportFileName,
+} from '../../services/exporter';
+import { toPostmanCollection, toPostmanEnvironment } from '../../services/postman';
+import { Button, Select } from '../ui';
+import type { Collection, Environment } from '../../types';
+
+interface ExportDialogProps {
+  /** Called when the overlay should close */
+  onClose: () => void;
+}
+
+/** File formats an export can be written in */
+type ExportFormat = 'neo-postman' | 'postman';
+
+/** Value of the workspace option in the source select */
+const WORKSPACE = 'workspace';
+
+/**
+ * Overlay to pick what to export and in which format
+ * Sources are 'workspace', 'collection:<id>' or 'environment:<id>'.
+ */
+export function ExportDialog({ onClose }: ExportDialogProps) {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [environments, setEnvironments] = useState<Environment[]>([]);
+  const [source, setSource] = useState(WORKSPACE);
+  const [format, setFormat] = useState<ExportFormat>('neo-postman');
+  const [exporting, setExporting] = useState(false);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([getAllCollections(), getAllEnvironments()])
+      .then(([loadedCollections, loadedEnvironments]) => {
+        setCollections(loadedCollections);
+        setEnvironments(loadedEnvironments);
+      })
+      .catch((loadError) => console.error('Failed to load collections:', loadError));
+  }, []);
+
+  // Postman has no workspace file
+  const exportFormat = source === WORKSPACE ? 'neo-postman' : format;
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    setWarnings([]);
+    try {
+      const [kind, id = ''] = source.split(':');
+      if (kind === 'collection') {
+        const exported = await exportCollection(id);
+        const name = exported.collection.name;
+        if (exportFormat === 'postman') {
+          const { collection, warnings: lost } = toPostmanCollection(exported);
+          downloadJson(getExportFileName(name, 'postman_collection'), collection);
+          setWarnings(lost);
+        } else {
+          downloadJson(getExportFileName(name, 'collection'), exported);
+        }
+      } else if (kind === 'environment') {
+        const exported = await exportEnvironment(id);
+        const name = exported.environment.name;
+        if (exportFormat === 'postman') {
+          downloadJson(
+            getExportFileName(name, 'postman_environment'),
+            toPostmanEnvironment(exported)
+          );
+        } else {
+          downloadJson(getExportFileName(name, 'environment'), exported);
+        }
+      } else {
+        downloadJson(getExportFileName('neo-postman', 'workspace'), await exportWorkspace());
+      }
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : 'Failed to export');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-6">
+      <div className="flex max-h-full w-full max-w-2xl flex-col rounded-2xl border border-border bg-bg-elevated shadow-card">
+        <div className="flex items-center justify-between border-b border-border px-5 py-3">
+          <h2 className="text-sm font-semibold text-foreground">Export</h2>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+
+        <div className="flex flex-col gap-4 overflow-auto p-5">
+          <div className="flex flex-wrap items-end gap-3">
+            <Select
+              label="Export"
+              options={[
+                { value: WORKSPACE, label: 'Whole workspace' },
+                ...collections.map((collection) => ({
+                  value: `collection:${collection.id}`,
+                  label: `Collection: ${collection.name}`,
+                })),
+                ...environments.map((environment) => ({
+                  value: `environment:${environment.id}`,
+                  label: `Environment: ${environment.name}`,
+                })),
+              ]}
+              value={source}
+              onChange={(event) => setSource(event.target.value)}
+              disabled={exporting}
+              className="h-9 w-64"
+            />
+            <Select
+              label="Format"
+              options={[
+                { value: 'neo-postman', label: 'Neo-Postman' },
+                { value: 'postman', label: 'Postman v2.1', disabled: source === WORKSPACE },
+              ]}
+              value={exportFormat}
+              onChange={(event) => setFormat(event.target.value as ExportFormat)}
+              disabled={exporting}
+              className="h-9 w-40"
+            />
+            <div className="ml-auto">
+              <Button variant="primary" size="sm" onClick={handleExport} loading={exporting}>
+                Export
+              </Button>
+            </div>
+          </div>
+
+          <p className="text-xs text-foreground-muted">
+            Secret variable values are left out of exports. Neo-Postman files can be imported back
+            and run with the neo-postman command-line runner.
+          </p>
+
+          {error && (
+            <div className="rounded-lg bg-red-500/10 px-3 py-2 text-sm text-red-400">{error}</div>
+          )}
+          {warnings.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+                Not exported to Postman ({warnings.length})
+              </h3>
+              <ul className="space-y-1">
+                {warnings.map((warning, index) => (
+                  <li key={index} className="text-xs text-amber-400">
+                    {warning}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
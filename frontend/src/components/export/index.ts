@@ -0,0 +1,6 @@
+/**
+ * Export component exports
+ * @module components/export
+ */
+
+export { ExportDialog } from './ExportDialog';
@@ -0,0 +1,152 @@
+/**
+ * Import dialog - imports a collection, environment or API spec file and lists what was left out
+ *
+ * @module components/import/ImportDialog
+ */
+
+import { useRef, useState, type ChangeEvent } from 'react';
+import { useEnvironmentStore } from '../../stores';
+import { importFile, type ImportResult, type ImportWarning } from '../../services/importer';
+import { Button } from '../ui';
+
+interface ImportDialogProps {
+  /** Called when the overlay should close */
+  onClose: () => void;
+}
+
+/**
+ * Overlay to pick an export file and see what each collection or environment imported
+ */
+export function ImportDialog({ onClose }: ImportDialogProps) {
+  const loadEnvironments = useEnvironmentStore((state) => state.loadEnvironments);
+  const [importing, setImporting] = useState(false);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    setError(null);
+    setResults([]);
+    try {
+      const imported = await importFile(file.name, await file.text());
+      if (imported.some((result) => result.type === 'environment')) {
+        await loadEnvironments();
+      }
+      setResults(imported);
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : 'Failed to import the file');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-6">
+      <div className="flex max-h-full w-full max-w-2xl flex-col rounded-2xl border border-border bg-bg-elevated shadow-card">
+        <div className="flex items-center justify-between border-b border-border px-5 py-3">
+          <h2 className="text-sm font-semibold text-foreground">Import</h2>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+
+        <div className="flex flex-col gap-4 overflow-auto p-5">
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-foreground-muted">
+              Neo-Postman export, OpenAPI 3.x or Swagger 2.0 spec (JSON or YAML), or Postman
+              collection (v2.1) or environment
+            </p>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,.yaml,.yml,application/json"
+              onChange={handleFile}
+              className="hidden"
+            />
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => fileInput.current?.click()}
+              loading={importing}
+            >
+              Choose file...
+            </Button>
+          </div>
+
+          {error && (
+            <div className="rounded-lg bg-red-500/10 px-3 py-2 text-sm text-red-400">{error}</div>
+          )}
+          {results.map((result) => (
+            <ImportSummary key={result.id} result={result} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+/**
+ * What was created, then the warnings grouped by item
+ */
+function ImportSummary({ result }: { result: ImportResult }) {
+  const counts =
+    result.type === 'collection'
+      ? `${result.folders} folders, ${result.requests} requests, ${result.variables} variables`
+      : `${result.variables} variables`;
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-lg bg-emerald-500/10 px-3 py-2 text-sm text-emerald-400">
+        {result.type === 'globals' ? (
+          <>Imported global variables: {counts}</>
+        ) : (
+          <>
+            Imported {result.type} <span className="font-medium">{result.name}</span>: {counts}
+          </>
+        )}
+      </div>
+
+      {result.warnings.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+            Not imported or changed ({result.warnings.length})
+          </h3>
+          <ul className="space-y-2">
+            {groupWarnings(result.warnings).map(([item, messages]) => (
+              <li key={item} className="rounded-lg border border-border px-3 py-2">
+                <p className="text-xs font-medium text-foreground">{item}</p>
+                <ul className="mt-1 space-y-0.5">
+                  {messages.map((message, index) => (
+                    <li key={index} className="text-xs text-amber-400">
+                      {message}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Warning messages per item, in the order the items were imported
+ */
+function groupWarnings(warnings: ImportWarning[]): [string, string[]][] {
+  const groups = new Map<string, string[]>();
+  for (const warning of warnings) {
+    groups.set(warning.item, [...(groups.get(warning.item) ?? []), warning.message]);
+  }
+  return [...groups];
+}
@@ -0,0 +1,6 @@
+/**
+ * Import component exports
+ * @module components/import
+ */
+
+export { ImportDialog } from './ImportDialog';
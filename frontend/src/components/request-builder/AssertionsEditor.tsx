@@ -0,0 +1,275 @@
+/**
+ * Assertions editor - add, edit, remove, and toggle no-code response checks
+ *
+ * @module components/request-builder/AssertionsEditor
+ */
+
+import { Button, Select } from '../ui';
+import { VariableInput } from './VariableInput';
+import {
+  ASSERTION_OPERATORS,
+  ASSERTION_OPERATOR_LABELS,
+  ASSERTION_SOURCE_LABELS,
+  createAssertion,
+} from '../../services/assertions';
+import { AssertionSourceSchema, type Assertion, type AssertionSource } from '../../types';
+
+interface AssertionsEditorProps {
+  /** Current assertions list */
+  assertions: Assertion[];
+  /** Callback when assertions change */
+  onChange: (assertions: Assertion[]) => void;
+  /** Disable editing */
+  disabled?: boolean;
+}
+
+const SOURCE_OPTIONS = AssertionSourceSchema.options.map((source) => ({
+  value: source,
+  label: ASSERTION_SOURCE_LABELS[source],
+}));
+
+/** Placeholder of the property input, for the sources that have one */
+const PROPERTY_PLACEHOLDERS: Partial<Record<AssertionSource, string>> = {
+  header: 'Header name',
+  jsonPath: '$.data.id',
+};
+
+/** Placeholder of the value input by source */
+const VALUE_PLACEHOLDERS: Record<AssertionSource, string> = {
+  status: '200',
+  header: 'Expected value',
+  jsonPath: 'Expected value',
+  responseTime: 'Milliseconds',
+  bodySize: 'Bytes',
+};
+
+/**
+ * Editable table of assertions with add/remove/toggle functionality
+ * Only the operators the selected source supports are offered.
+ *
+ * @example
+ * ```tsx
+ * <AssertionsEditor
+ *   assertions={assertions}
+ *   onChange={setAssertions}
+ * />
+ * ```
+ */
+export function AssertionsEditor({
+  assertions,
+  onChange,
+  disabled = false,
+}: AssertionsEditorProps) {
+  const updateAssertion = (index: number, updates: Partial<Assertion>) => {
+    onChange(assertions.map((a, i) => (i === index ? { ...a, ...updates } : a)));
+  };
+
+  const removeAssertion = (index: number) => {
+    onChange(assertions.filter((_, i) => i !== index));
+  };
+
+  const addAssertion = () => {
+    onChange([...assertions, createAssertion('status')]);
+  };
+
+  const toggleAssertion = (index: number) => {
+    const assertion = assertions[index];
+    if (assertion) {
+      updateAssertion(index, { enabled: !assertion.enabled });
+    }
+  };
+
+  const changeSource = (index: number, source: AssertionSource) => {
+    const assertion = assertions[index];
+    if (!assertion) return;
+
+    // Keep what still applies to the new source
+    const defaults = createAssertion(source);
+    updateAssertion(index, {
+      source,
+      property: PROPERTY_PLACEHOLDERS[source] ? assertion.property : '',
+      operator: ASSERTION_OPERATORS[source].includes(assertion.operator)
+        ? assertion.operator
+        : defaults.operator,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Assertions table */}
+      <div className="space-y-2">
+        {/* Header row */}
+        {assertions.length > 0 && (
+          <div className="grid grid-cols-[auto_9rem_1fr_9rem_1fr_auto] gap-2 px-1">
+            <div className="w-8" /> {/* Checkbox column */}
+            <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+              Check
+            </span>
+            <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+              Property
+            </span>
+            <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+              Operator
+            </span>
+            <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+              Value
+            </span>
+            <div className="w-8" /> {/* Actions column */}
+          </div>
+        )}
+
+        {/* Assertion rows */}
+        {assertions.map((assertion, index) => (
+          <div
+            key={index}
+            className={`
+              grid grid-cols-[auto_9rem_1fr_9rem_1fr_auto] gap-2 items-center
+              ${!assertion.enabled ? 'opacity-50' : ''}
+            `}
+          >
+            {/* Enable/disable checkbox */}
+            <button
+              type="button"
+              onClick={() => toggleAssertion(index)}
+              disabled={disabled}
+              className="
+                w-8 h-8 flex items-center justify-center
+                rounded-md
+                hover:bg-surface transition-colors
+                focus:outline-none focus:ring-2 focus:ring-accent/50
+                disabled:cursor-not-allowed
+              "
+              aria-label={assertion.enabled ? 'Disable assertion' : 'Enable assertion'}
+            >
+              <div
+                className={`
+                  w-4 h-4 rounded border-2 transition-colors
+                  ${
+                    assertion.enabled
+                      ? 'bg-accent border-accent'
+                      : 'bg-transparent border-foreground-muted'
+                  }
+                `}
+              >
+                {assertion.enabled && (
+                  <svg viewBox="0 0 16 16" fill="none" className="text-white">
+                    <path
+                      d="M4 8L7 11L12 5"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    />
+                  </svg>
+                )}
+              </div>
+            </button>
+
+            {/* Source select */}
+            <Select
+              options={SOURCE_OPTIONS}
+              value={assertion.source}
+              onChange={(e) => changeSource(index, e.target.value as AssertionSource)}
+              disabled={disabled || !assertion.enabled}
+              aria-label="Checked value"
+              className="h-9"
+            />
+
+            {/* Property input (header name or JSONPath) */}
+            {PROPERTY_PLACEHOLDERS[assertion.source] ? (
+              <VariableInput
+                value={assertion.property}
+                onValueChange={(property) => updateAssertion(index, { property })}
+                placeholder={PROPERTY_PLACEHOLDERS[assertion.source]}
+                disabled={disabled || !assertion.enabled}
+                className="h-9"
+              />
+            ) : (
+              <div />
+            )}
+
+            {/* Operator select */}
+            <Select
+              options={ASSERTION_OPERATORS[assertion.source].map((operator) => ({
+                value: operator,
+                label: ASSERTION_OPERATOR_LABELS[operator],
+              }))}
+              value={assertion.operator}
+              onChange={(e) =>
+                updateAssertion(index, { operator: e.target.value as Assertion['operator'] })
+              }
+              disabled={disabled || !assertion.enabled}
+              aria-label="Operator"
+              className="h-9"
+            />
+
+            {/* Value input */}
+            {assertion.operator === 'exists' ? (
+              <div />
+            ) : (
+              <VariableInput
+                value={assertion.value}
+                onValueChange={(value) => updateAssertion(index, { value })}
+                placeholder={VALUE_PLACEHOLDERS[assertion.source]}
+                disabled={disabled || !assertion.enabled}
+                className="h-9"
+              />
+            )}
+
+            {/* Remove button */}
+            <button
+              type="button"
+              onClick={() => removeAssertion(index)}
+              disabled={disabled}
+              className="
+                w-8 h-8 flex items-center justify-center
+                rounded-md
+                text-foreground-muted hover:text-red-400 hover:bg-red-500/10
+                transition-colors
+                focus:outline-none focus:ring-2 focus:ring-accent/50
+                disabled:cursor-not-allowed disabled:hover:text-foreground-muted disabled:hover:bg-transparent
+              "
+              aria-label="Remove assertion"
+            >
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+                <path
+                  d="M4 4L12 12M12 4L4 12"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                />
+              </svg>
+            </button>
+          </div>
+        ))}
+
+        {/* Empty state */}
+        {assertions.length === 0 && (
+          <div className="py-4 text-center text-sm text-foreground-muted">
+            No assertions added yet
+          </div>
+        )}
+      </div>
+
+      {/* Add assertion button */}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={addAssertion}
+        disabled={disabled}
+        leftIcon={
+          <svg width="14" height="14" viewBox="0 0 14 14" fill="none">
+            <path
+              d="M7 2V12M2 7H12"
+              stroke="currentColor"
+              strokeWidth="1.5"
+              strokeLinecap="round"
+            />
+          </svg>
+        }
+      >
+        Add Assertion
+      </Button>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@
  * @module components/request-builder/BodyEditor
  */
 
-import { Textarea } from '../ui';
+import { VariableInput, VariableTextarea } from './VariableInput';
 import type { RequestBody, BodyType } from '../../types';
 
 interface BodyEditorProps {
@@ -16,6 +16,10 @@ interface BodyEditorProps {
   disabled?: boolean;
 }
 
+/** A {{variable}} reference without nested references */
+const VARIABLE_REFERENCE = /\{\{[^{}]+\}\}/;
+const VARIABLE_REFERENCE_ALL = new RegExp(VARIABLE_REFERENCE, 'g');
+
 const BODY_TYPES: { value: BodyType; label: string }[] = [
   { value: 'json', label: 'JSON' },
   { value: 'raw', label: 'Raw' },
@@ -116,13 +120,12 @@ export function BodyEditor({ body, onChange, disabled = false }: BodyEditorProps
       )}
 
       {currentType === 'raw' && (
-        <Textarea
+        <VariableTextarea
           value={currentContent}
-          onChange={(e) => handleContentChange(e.target.value)}
+          onValueChange={handleContentChange}
           placeholder="Enter raw body content..."
           disabled={disabled}
           mono
-          fullWidth
           className="min-h-[200px]"
         />
       )}
@@ -164,7 +167,13 @@ function JsonEditor({
 
   if (value.trim()) {
     try {
-      JSON.parse(value);
+      // {{variables}} may stand in for any JSON value, so validate with a placeholder
+      // (innermost first, so nested references like {{$base64 {{token}}}} collapse too)
+      let template = value;
+      while (VARIABLE_REFERENCE.test(template)) {
+        template = template.replace(VARIABLE_REFERENCE_ALL, '0');
+      }
+      JSON.parse(template);
     } catch (e) {
       isValid = false;
       errorMessage = e instanceof Error ? e.message : 'Invalid JSON';
@@ -204,14 +213,14 @@ function JsonEditor({
         </button>
       </div>
 
-      <Textarea
+      <VariableTextarea
         value={value}
-        onChange={(e) => onChange(e.target.value)}
+        onValueChange={onChange}
         placeholder='{"key": "value"}'
         disabled={disabled}
         mono
-        fullWidth
-        className={`min-h-[200px] ${!isValid && value.trim() ? 'border-red-500/50' : ''}`}
+        invalid={!isValid && value.trim() !== ''}
+        className="min-h-[200px]"
       />
     </div>
   );
@@ -277,20 +286,12 @@ function FormDataEditor({
               disabled:opacity-50
             "
           />
-          <input
-            type="text"
+          <VariableInput
             value={field.value}
-            onChange={(e) => updateField(index, { value: e.target.value })}
+            onValueChange={(fieldValue) => updateField(index, { value: fieldValue })}
             placeholder="Value"
             disabled={disabled}
-            className="
-              flex-1 h-9 px-3
-              text-sm
-              bg-[#0F0F12] text-foreground
-              border border-border rounded-lg
-              focus:outline-none focus:border-accent
-              disabled:opacity-50
-            "
+            className="flex-1 h-9"
           />
           <button
             type="button"
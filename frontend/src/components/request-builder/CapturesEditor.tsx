@@ -0,0 +1,286 @@
+/**
+ * Captures editor - add, edit, remove, and toggle response values saved into variables
+ *
+ * @module components/request-builder/CapturesEditor
+ */
+
+import { Button, Input, Select } from '../ui';
+import { VariableInput } from './VariableInput';
+import {
+  CAPTURE_SCOPE_LABELS,
+  CAPTURE_SOURCE_LABELS,
+  createCapture,
+  type CaptureResult,
+} from '../../services/captures';
+import {
+  CaptureScopeSchema,
+  CaptureSourceSchema,
+  type Capture,
+  type CaptureScope,
+  type CaptureSource,
+} from '../../types';
+
+interface CapturesEditorProps {
+  /** Current captures list */
+  captures: Capture[];
+  /** Callback when captures change */
+  onChange: (captures: Capture[]) => void;
+  /** Values captured by the last successful send (null = none yet) */
+  results: CaptureResult[] | null;
+  /** Disable editing */
+  disabled?: boolean;
+}
+
+const SOURCE_OPTIONS = CaptureSourceSchema.options.map((source) => ({
+  value: source,
+  label: CAPTURE_SOURCE_LABELS[source],
+}));
+
+const SCOPE_OPTIONS = CaptureScopeSchema.options.map((scope) => ({
+  value: scope,
+  label: CAPTURE_SCOPE_LABELS[scope],
+}));
+
+/** Placeholder of the expression input by source */
+const EXPRESSION_PLACEHOLDERS: Record<CaptureSource, string> = {
+  jsonPath: '$.data.token',
+  header: 'Header name',
+  regex: 'id="(\\w+)"',
+  cookie: 'Cookie name',
+};
+
+/**
+ * Editable table of captures with add/remove/toggle functionality
+ * Each row shows what its variable was set to by the last successful send.
+ *
+ * @example
+ * ```tsx
+ * <CapturesEditor captures={captures} onChange={setCaptures} results={captureResults} />
+ * ```
+ */
+export function CapturesEditor({
+  captures,
+  onChange,
+  results,
+  disabled = false,
+}: CapturesEditorProps) {
+  const updateCapture = (index: number, updates: Partial<Capture>) => {
+    onChange(captures.map((c, i) => (i === index ? { ...c, ...updates } : c)));
+  };
+
+  const removeCapture = (index: number) => {
+    onChange(captures.filter((_, i) => i !== index));
+  };
+
+  const addCapture = () => {
+    onChange([...captures, createCapture()]);
+  };
+
+  const toggleCapture = (index: number) => {
+    const capture = captures[index];
+    if (capture) {
+      updateCapture(index, { enabled: !capture.enabled });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Captures table */}
+      <div className="space-y-2">
+        {/* Header row */}
+        {captures.length > 0 && (
+          <div className="grid grid-cols-[auto_1fr_8rem_1fr_8rem_1fr_auto] gap-2 px-1">
+            <div className="w-8" /> {/* Checkbox column */}
+            <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+              Variable
+            </span>
+            <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+              From
+            </span>
+            <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+              Expression
+            </span>
+            <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+              Save to
+            </span>
+            <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+              Last value
+            </span>
+            <div className="w-8" /> {/* Actions column */}
+          </div>
+        )}
+
+        {/* Capture rows */}
+        {captures.map((capture, index) => (
+          <div
+            key={index}
+            className={`
+              grid grid-cols-[auto_1fr_8rem_1fr_8rem_1fr_auto] gap-2 items-center
+              ${!capture.enabled ? 'opacity-50' : ''}
+            `}
+          >
+            {/* Enable/disable checkbox */}
+            <button
+              type="button"
+              onClick={() => toggleCapture(index)}
+              disabled={disabled}
+              className="
+                w-8 h-8 flex items-center justify-center
+                rounded-md
+                hover:bg-surface transition-colors
+                focus:outline-none focus:ring-2 focus:ring-accent/50
+                disabled:cursor-not-allowed
+              "
+              aria-label={capture.enabled ? 'Disable capture' : 'Enable capture'}
+            >
+              <div
+                className={`
+                  w-4 h-4 rounded border-2 transition-colors
+                  ${
+                    capture.enabled
+                      ? 'bg-accent border-accent'
+                      : 'bg-transparent border-foreground-muted'
+                  }
+                `}
+              >
+                {capture.enabled && (
+                  <svg viewBox="0 0 16 16" fill="none" className="text-white">
+                    <path
+                      d="M4 8L7 11L12 5"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    />
+                  </svg>
+                )}
+              </div>
+            </button>
+
+            {/* Variable name input */}
+            <Input
+              value={capture.variable}
+              onChange={(e) => updateCapture(index, { variable: e.target.value })}
+              placeholder="Variable name"
+              disabled={disabled || !capture.enabled}
+              className="h-9 font-mono"
+            />
+
+            {/* Source select */}
+            <Select
+              options={SOURCE_OPTIONS}
+              value={capture.source}
+              onChange={(e) => updateCapture(index, { source: e.target.value as CaptureSource })}
+              disabled={disabled || !capture.enabled}
+              aria-label="Capture from"
+              className="h-9"
+            />
+
+            {/* Expression input */}
+            <VariableInput
+              value={capture.expression}
+              onValueChange={(expression) => updateCapture(index, { expression })}
+              placeholder={EXPRESSION_PLACEHOLDERS[capture.source]}
+              disabled={disabled || !capture.enabled}
+              className="h-9"
+            />
+
+            {/* Scope select */}
+            <Select
+              options={SCOPE_OPTIONS}
+              value={capture.scope}
+              onChange={(e) => updateCapture(index, { scope: e.target.value as CaptureScope })}
+              disabled={disabled || !capture.enabled}
+              aria-label="Save to"
+              className="h-9"
+            />
+
+            {/* Last captured value */}
+            <LastValue
+              result={results?.find(
+                (result) =>
+                  result.variable === capture.variable.trim() && result.scope === capture.scope
+              )}
+            />
+
+            {/* Remove button */}
+            <button
+              type="button"
+              onClick={() => removeCapture(index)}
+              disabled={disabled}
+              className="
+                w-8 h-8 flex items-center justify-center
+                rounded-md
+                text-foreground-muted hover:text-red-400 hover:bg-red-500/10
+                transition-colors
+                focus:outline-none focus:ring-2 focus:ring-accent/50
+                disabled:cursor-not-allowed disabled:hover:text-foreground-muted disabled:hover:bg-transparent
+              "
+              aria-label="Remove capture"
+            >
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+                <path
+                  d="M4 4L12 12M12 4L4 12"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                />
+              </svg>
+            </button>
+          </div>
+        ))}
+
+        {/* Empty state */}
+        {captures.length === 0 && (
+          <div className="py-4 text-center text-sm text-foreground-muted">
+            No captures yet. They save response values, such as an id or a token, into variables for
+            the next requests.
+          </div>
+        )}
+      </div>
+
+      {/* Add capture button */}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={addCapture}
+        disabled={disabled}
+        leftIcon={
+          <svg width="14" height="14" viewBox="0 0 14 14" fill="none">
+            <path
+              d="M7 2V12M2 7H12"
+              stroke="currentColor"
+              strokeWidth="1.5"
+              strokeLinecap="round"
+            />
+          </svg>
+        }
+      >
+        Add Capture
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Value a capture saved on the last send, or why it saved nothing
+ */
+function LastValue({ result }: { result: CaptureResult | undefined }) {
+  if (!result) {
+    return <span className="text-xs text-foreground-muted/70">Not captured yet</span>;
+  }
+
+  if (result.value === null) {
+    return (
+      <span className="truncate text-xs text-red-400" title={result.error ?? undefined}>
+        {result.error}
+      </span>
+    );
+  }
+
+  return (
+    <span className="truncate font-mono text-xs text-foreground" title={result.value}>
+      {result.value}
+    </span>
+  );
+}
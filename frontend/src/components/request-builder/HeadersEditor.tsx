@@ -4,7 +4,8 @@
  * @module components/request-builder/HeadersEditor
  */
 
-import { Button, Input } from '../ui';
+import { Button } from '../ui';
+import { VariableInput } from './VariableInput';
 import type { Header } from '../../types';
 
 interface HeadersEditorProps {
@@ -112,18 +113,18 @@ export function HeadersEditor({ headers, onChange, disabled = false }: HeadersEd
             </button>
 
             {/* Key input */}
-            <Input
+            <VariableInput
               value={header.key}
-              onChange={(e) => updateHeader(index, { key: e.target.value })}
+              onValueChange={(key) => updateHeader(index, { key })}
               placeholder="Header name"
               disabled={disabled || !header.enabled}
               className="h-9"
             />
 
             {/* Value input */}
-            <Input
+            <VariableInput
               value={header.value}
-              onChange={(e) => updateHeader(index, { value: e.target.value })}
+              onValueChange={(value) => updateHeader(index, { value })}
               placeholder="Header value"
               disabled={disabled || !header.enabled}
               className="h-9"
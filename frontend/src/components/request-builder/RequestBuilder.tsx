@@ -4,38 +4,102 @@
  * @module components/request-builder/RequestBuilder
  */
 
-import { Tabs, TabsList, TabsTrigger, TabsContent } from '../ui';
+import { useEffect, useState } from 'react';
+import { Button, Tabs, TabsList, TabsTrigger, TabsContent } from '../ui';
 import { UrlBar } from './UrlBar';
 import { HeadersEditor } from './HeadersEditor';
 import { BodyEditor } from './BodyEditor';
-import { useRequestStore } from '../../stores';
+import { VariablesEditor } from './VariablesEditor';
+import { VariableInspector } from './VariableInspector';
+import { AuthEditor } from './AuthEditor';
+import { ScriptEditor } from './ScriptEditor';
+import { TestScriptEditor } from './TestScriptEditor';
+import { AssertionsEditor } from './AssertionsEditor';
+import { CapturesEditor } from './CapturesEditor';
+import {
+  useRequestStore,
+  useVariableStore,
+  useAuthStore,
+  useScriptStore,
+  selectCurrentRequest,
+} from '../../stores';
+import { getReferencedVariables } from '../../services/variable-resolver';
+import type { Variable } from '../../types';
 
 interface RequestBuilderProps {
   /** Callback when send is clicked */
   onSend: () => void;
   /** Loading state */
   loading?: boolean;
+  /** Variables that blocked the last send because they are not defined */
+  missingVariables?: string[];
+  /** Callback to send despite missing variables */
+  onSendAnyway?: () => void;
+  /** Callback to dismiss the missing variables warning */
+  onDismissMissing?: () => void;
 }
 
 /**
- * Complete request builder with URL bar, headers, body, and auth tabs
+ * Complete request builder with URL bar, headers, body, variables, auth, scripts,
+ * assertions, captures and tests tabs
  *
  * @example
  * ```tsx
  * <RequestBuilder onSend={handleSend} loading={isLoading} />
  * ```
  */
-export function RequestBuilder({ onSend, loading = false }: RequestBuilderProps) {
+export function RequestBuilder({
+  onSend,
+  loading = false,
+  missingVariables = [],
+  onSendAnyway,
+  onDismissMissing,
+}: RequestBuilderProps) {
   const {
     method,
     url,
     headers,
     body,
+    variables,
+    auth,
+    preRequestScript,
+    testScript,
+    assertions,
+    captures,
+    captureResults,
     setMethod,
     setUrl,
     setHeaders,
     setBody,
+    setVariables,
+    setAuth,
+    setPreRequestScript,
+    setTestScript,
+    setAssertions,
+    setCaptures,
+    savedRequestId,
+    isDirty,
+    saveError,
+    saveRequest,
   } = useRequestStore();
+  const authParents = useAuthStore((state) => state.parents);
+  const scriptParents = useScriptStore((state) => state.parents);
+  const references = useRequestStore((state) =>
+    getReferencedVariables(selectCurrentRequest(state)).join(',')
+  );
+
+  // Ctrl+S (Cmd+S on macOS) saves the request, instead of the page
+  useEffect(() => {
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
+        e.preventDefault();
+        const state = useRequestStore.getState();
+        if (state.isDirty) state.saveRequest();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   return (
     <div className="space-y-4">
@@ -47,8 +111,24 @@ export function RequestBuilder({ onSend, loading = false }: RequestBuilderProps)
         onMethodChange={setMethod}
         onUrlChange={setUrl}
         onSend={onSend}
+        onSave={savedRequestId ? saveRequest : undefined}
+        canSave={isDirty}
       />
 
+      {saveError && (
+        <p role="alert" className="text-xs text-red-400">
+          Could not save the request: {saveError}
+        </p>
+      )}
+
+      {missingVariables.length > 0 && (
+        <MissingVariablesWarning
+          names={missingVariables}
+          onSendAnyway={onSendAnyway}
+          onDismiss={onDismissMissing}
+        />
+      )}
+
       {/* Request configuration tabs */}
       <Tabs defaultValue="headers">
         <TabsList>
@@ -61,7 +141,33 @@ export function RequestBuilder({ onSend, loading = false }: RequestBuilderProps)
             <HeaderCount headers={headers} />
           </TabsTrigger>
           <TabsTrigger value="body">Body</TabsTrigger>
+          <TabsTrigger value="variables">
+            Variables
+            <CountBadge count={variables.filter((v) => v.enabled && v.key).length} />
+          </TabsTrigger>
           <TabsTrigger value="auth">Auth</TabsTrigger>
+          <TabsTrigger value="scripts">
+            Scripts
+            <CountBadge
+              count={
+                [...scriptParents.map((parent) => parent.source), preRequestScript].filter(
+                  (source) => source.trim() !== ''
+                ).length
+              }
+            />
+          </TabsTrigger>
+          <TabsTrigger value="assertions">
+            Assertions
+            <CountBadge count={assertions.filter((a) => a.enabled).length} />
+          </TabsTrigger>
+          <TabsTrigger value="captures">
+            Captures
+            <CountBadge count={captures.filter((c) => c.enabled && c.variable.trim()).length} />
+          </TabsTrigger>
+          <TabsTrigger value="tests">
+            Tests
+            <CountBadge count={testScript.trim() ? 1 : 0} />
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="params" className="pt-4">
@@ -76,14 +182,201 @@ export function RequestBuilder({ onSend, loading = false }: RequestBuilderProps)
           <BodyEditor body={body} onChange={setBody} disabled={loading} />
         </TabsContent>
 
+        <TabsContent value="variables" className="pt-4">
+          <VariablesPanel
+            requestVariables={variables}
+            onRequestVariablesChange={setVariables}
+            references={references ? references.split(',') : []}
+            disabled={loading}
+          />
+        </TabsContent>
+
         <TabsContent value="auth" className="pt-4">
-          <AuthPlaceholder />
+          <AuthEditor auth={auth} onChange={setAuth} parents={authParents} disabled={loading} />
+        </TabsContent>
+
+        <TabsContent value="scripts" className="pt-4">
+          <ScriptEditor
+            script={preRequestScript}
+            onChange={setPreRequestScript}
+            parents={scriptParents}
+            disabled={loading}
+          />
+        </TabsContent>
+
+        <TabsContent value="assertions" className="pt-4">
+          <AssertionsEditor assertions={assertions} onChange={setAssertions} disabled={loading} />
+        </TabsContent>
+
+        <TabsContent value="captures" className="pt-4">
+          <CapturesEditor
+            captures={captures}
+            onChange={setCaptures}
+            results={captureResults}
+            disabled={loading}
+          />
+        </TabsContent>
+
+        <TabsContent value="tests" className="pt-4">
+          <TestScriptEditor script={testScript} onChange={setTestScript} disabled={loading} />
         </TabsContent>
       </Tabs>
     </div>
   );
 }
 
+/**
+ * Warning listing undefined variables, with the option to send the request as-is
+ */
+function MissingVariablesWarning({
+  names,
+  onSendAnyway,
+  onDismiss,
+}: {
+  names: string[];
+  onSendAnyway?: () => void;
+  onDismiss?: () => void;
+}) {
+  return (
+    <div
+      role="alert"
+      className="flex items-center gap-3 px-4 py-3 rounded-lg border border-amber-500/30 bg-amber-500/10"
+    >
+      <div className="flex-1 min-w-0 text-sm">
+        <p className="text-amber-400">
+          {names.length === 1 ? 'This variable is' : 'These variables are'} not defined in any
+          scope:
+        </p>
+        <p className="mt-1 font-mono text-xs text-foreground truncate">
+          {names.map((name) => `{{${name}}}`).join(', ')}
+        </p>
+      </div>
+      {onDismiss && (
+        <Button variant="ghost" size="sm" onClick={onDismiss}>
+          Dismiss
+        </Button>
+      )}
+      {onSendAnyway && (
+        <Button variant="secondary" size="sm" onClick={onSendAnyway}>
+          Send anyway
+        </Button>
+      )}
+    </div>
+  );
+}
+
+/** Scopes editable from the request builder (environments have their own editor) */
+type EditableScope = 'request' | 'collection' | 'global' | 'runtime';
+
+const EDITABLE_SCOPES: { value: EditableScope; label: string }[] = [
+  { value: 'request', label: 'Request' },
+  { value: 'collection', label: 'Collection' },
+  { value: 'global', label: 'Globals' },
+  { value: 'runtime', label: 'Runtime' },
+];
+
+/**
+ * Variables tab - edit request, collection, global and runtime variables, and inspect
+ * which scope every value resolves from
+ */
+function VariablesPanel({
+  requestVariables,
+  onRequestVariablesChange,
+  references,
+  disabled,
+}: {
+  requestVariables: Variable[];
+  onRequestVariablesChange: (variables: Variable[]) => void;
+  references: string[];
+  disabled?: boolean;
+}) {
+  const [scope, setScope] = useState<EditableScope>('request');
+  const { globals, collection, runtime, setGlobals, setCollectionVariables, setRuntime } =
+    useVariableStore();
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        {/* Scope selector */}
+        <div className="flex items-center gap-1 p-1 bg-surface rounded-lg w-fit">
+          {EDITABLE_SCOPES.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setScope(option.value)}
+              disabled={option.value === 'collection' && !collection}
+              title={
+                option.value === 'collection' && !collection
+                  ? 'Open a saved request to edit its collection variables'
+                  : undefined
+              }
+              className={`
+                px-3 py-1.5
+                text-xs font-medium
+                rounded-md
+                transition-all duration-150
+                focus:outline-none focus:ring-2 focus:ring-accent/50
+                disabled:opacity-50 disabled:cursor-not-allowed
+                ${
+                  scope === option.value
+                    ? 'bg-accent text-white shadow-sm'
+                    : 'text-foreground-muted hover:text-foreground hover:bg-surface-hover'
+                }
+              `}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {scope === 'request' && (
+          <VariablesEditor
+            variables={requestVariables}
+            onChange={onRequestVariablesChange}
+            emptyMessage="No request variables. They override every scope but runtime values."
+            disabled={disabled}
+          />
+        )}
+
+        {scope === 'collection' && collection && (
+          <VariablesEditor
+            variables={collection.variables}
+            onChange={setCollectionVariables}
+            emptyMessage={`No variables in ${collection.name}`}
+            disabled={disabled}
+          />
+        )}
+
+        {scope === 'global' && (
+          <VariablesEditor
+            variables={globals}
+            onChange={setGlobals}
+            emptyMessage="No global variables. They apply to every request in this workspace."
+            disabled={disabled}
+          />
+        )}
+
+        {scope === 'runtime' && (
+          <VariablesEditor
+            variables={runtime}
+            onChange={setRuntime}
+            emptyMessage="No runtime values. Captures can save response values here for this session."
+            disabled={disabled}
+          />
+        )}
+      </div>
+
+      {/* Source inspector */}
+      <div className="space-y-2">
+        <h3 className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+          Resolved values
+        </h3>
+        <VariableInspector references={references} />
+      </div>
+    </div>
+  );
+}
+
 /**
  * Badge showing count of enabled items
  */
@@ -276,22 +569,6 @@ function QueryParamsEditor({
   );
 }
 
-/**
- * Auth placeholder - to be implemented in Phase 7
- */
-function AuthPlaceholder() {
-  return (
-    <div className="py-8 text-center">
-      <p className="text-sm text-foreground-muted">
-        Authentication options coming soon.
-      </p>
-      <p className="text-xs text-foreground-muted/70 mt-1">
-        Bearer Token, API Key, Basic Auth
-      </p>
-    </div>
-  );
-}
-
 export { UrlBar } from './UrlBar';
 export { MethodSelector } from './MethodSelector';
 export { HeadersEditor } from './HeadersEditor';
@@ -0,0 +1,101 @@
+/**
+ * Script editor - the request's pre-request script and the scripts it inherits
+ *
+ * @module components/request-builder/ScriptEditor
+ */
+
+import { Textarea } from '../ui';
+import { describeScript, type PreRequestScript } from '../../services/scripts';
+
+interface ScriptEditorProps {
+  /** Pre-request script of the request */
+  script: string;
+  /** Callback when the script changes */
+  onChange: (script: string) => void;
+  /** Collection and folder scripts that run before it, in run order */
+  parents: PreRequestScript[];
+  /** Disable editing */
+  disabled?: boolean;
+}
+
+/** What scripts can use, shown under the editor */
+const API_REFERENCE: { code: string; description: string }[] = [
+  { code: 'np.request.url / .method / .body', description: 'Read or replace' },
+  {
+    code: 'np.request.headers.get(key) / .set(key, value) / .remove(key)',
+    description: 'Names are case-insensitive',
+  },
+  { code: 'np.variables.get(name) / .set(name, value)', description: 'Set for this send only' },
+  {
+    code: 'np.environment / np.collectionVariables / np.globals',
+    description: '.get(name) / .set(name, value), saved',
+  },
+  { code: 'np.iterationData.get(name)', description: 'Data file row in collection runs' },
+  { code: 'console.log(...) / .warn / .error', description: 'Shown in the console' },
+];
+
+/**
+ * Pre-request script editor
+ * Inherited scripts are listed read-only above the request's own, in the order they run.
+ *
+ * @example
+ * ```tsx
+ * <ScriptEditor script={preRequestScript} onChange={setPreRequestScript} parents={parents} />
+ * ```
+ */
+export function ScriptEditor({ script, onChange, parents, disabled = false }: ScriptEditorProps) {
+  const inherited = parents.filter((parent) => parent.source.trim() !== '');
+
+  return (
+    <div className="space-y-4">
+      {inherited.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+            Runs first
+          </h3>
+          {inherited.map((parent, index) => (
+            <InheritedScript key={index} script={parent} />
+          ))}
+        </div>
+      )}
+
+      <Textarea
+        label="Pre-request script"
+        value={script}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={"np.request.headers.set('X-Request-Id', crypto.randomUUID());"}
+        disabled={disabled}
+        spellCheck={false}
+        rows={10}
+        mono
+        fullWidth
+        helperText="JavaScript run in a sandbox before the request is sent. await is supported; there is no DOM or network access."
+      />
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+        {API_REFERENCE.map(({ code, description }) => (
+          <div key={code} className="contents">
+            <dt className="font-mono text-foreground">{code}</dt>
+            <dd className="text-foreground-muted">{description}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+/**
+ * Read-only folder or collection script
+ */
+function InheritedScript({ script }: { script: PreRequestScript }) {
+  return (
+    <details className="rounded-lg border border-border bg-surface/50 px-4 py-2">
+      <summary className="cursor-pointer text-sm text-foreground-muted">
+        {describeScript(script)}
+      </summary>
+      <pre className="mt-2 max-h-48 overflow-auto text-xs font-mono text-foreground whitespace-pre-wrap break-words">
+        {script.source}
+      </pre>
+    </details>
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * Test script editor - the script run on the request's response
+ *
+ * @module components/request-builder/TestScriptEditor
+ */
+
+import { Textarea } from '../ui';
+
+interface TestScriptEditorProps {
+  /** Test script of the request */
+  script: string;
+  /** Callback when the script changes */
+  onChange: (script: string) => void;
+  /** Disable editing */
+  disabled?: boolean;
+}
+
+/** What test scripts can use, shown under the editor */
+const API_REFERENCE: { code: string; description: string }[] = [
+  { code: 'np.test(name, fn)', description: 'Passes unless fn throws; fn may be async' },
+  { code: 'expect(value).to.equal(x) / .eql / .include / .match', description: 'Chai-style' },
+  { code: '.above(n) / .below(n) / .a(type) / .property(name)', description: '.not negates' },
+  { code: 'np.response.status / .statusText / .body', description: 'Response as received' },
+  { code: 'np.response.json()', description: 'Body parsed as JSON' },
+  { code: 'np.response.headers.get(key)', description: 'Names are case-insensitive' },
+  { code: 'np.response.time / .timing / .size', description: 'Milliseconds and bytes' },
+  {
+    code: 'np.variables / np.environment / np.collectionVariables / np.globals / np.iterationData',
+    description: 'As in pre-request scripts',
+  },
+];
+
+/**
+ * Test script editor
+ *
+ * @example
+ * ```tsx
+ * <TestScriptEditor script={testScript} onChange={setTestScript} />
+ * ```
+ */
+export function TestScriptEditor({ script, onChange, disabled = false }: TestScriptEditorProps) {
+  return (
+    <div className="space-y-4">
+      <Textarea
+        label="Tests"
+        value={script}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={
+          "np.test('status is 200', () => {\n  expect(np.response.status).to.equal(200);\n});"
+        }
+        disabled={disabled}
+        spellCheck={false}
+        rows={10}
+        mono
+        fullWidth
+        helperText="JavaScript run in a sandbox once the response is in. Results show in the response's Tests tab."
+      />
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+        {API_REFERENCE.map(({ code, description }) => (
+          <div key={code} className="contents">
+            <dt className="font-mono text-foreground">{code}</dt>
+            <dd className="text-foreground-muted">{description}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
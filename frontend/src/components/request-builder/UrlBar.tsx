@@ -1,12 +1,13 @@
 /**
- * URL input bar with method selector and send button
+ * URL input bar with method selector, send and save buttons
  *
  * @module components/request-builder/UrlBar
  */
 
-import { useRef, type KeyboardEvent } from 'react';
+import { type KeyboardEvent } from 'react';
 import { Button } from '../ui';
 import { MethodSelector } from './MethodSelector';
+import { VariableInput } from './VariableInput';
 import type { HttpMethod } from '../../types';
 
 interface UrlBarProps {
@@ -22,6 +23,10 @@ interface UrlBarProps {
   onUrlChange: (url: string) => void;
   /** Callback when send is clicked or Enter is pressed */
   onSend: () => void;
+  /** Callback when save is clicked (no save button without it) */
+  onSave?: () => void;
+  /** Whether there are changes to save */
+  canSave?: boolean;
 }
 
 /**
@@ -45,9 +50,9 @@ export function UrlBar({
   onMethodChange,
   onUrlChange,
   onSend,
+  onSave,
+  canSave = false,
 }: UrlBarProps) {
-  const inputRef = useRef<HTMLInputElement>(null);
-
   const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
     // Send on Enter (or Ctrl+Enter)
     if (e.key === 'Enter' && !loading) {
@@ -61,39 +66,18 @@ export function UrlBar({
       {/* Method selector */}
       <MethodSelector value={method} onChange={onMethodChange} disabled={loading} />
 
-      {/* URL input */}
+      {/* URL input ({{variables}} highlighted, autocompleted on typing `{{`) */}
       <div className="relative flex-1">
-        <input
-          ref={inputRef}
-          type="text"
+        <VariableInput
           value={url}
-          onChange={(e) => onUrlChange(e.target.value)}
+          onValueChange={onUrlChange}
           onKeyDown={handleKeyDown}
           placeholder="Enter request URL..."
           disabled={loading}
-          className="
-            w-full h-10
-            px-4
-            font-mono text-sm
-            text-foreground
-            placeholder:text-foreground-muted/50
-            bg-[#0F0F12]
-            border border-border
-            rounded-lg
-            transition-all duration-200 ease-expo-out
-            shadow-inner-highlight
-            focus:outline-none focus:border-accent focus:ring-1 focus:ring-accent/30
-            disabled:opacity-50 disabled:cursor-not-allowed
-          "
+          mono
+          className="h-10 w-full"
           aria-label="Request URL"
         />
-
-        {/* Variable highlight preview (future enhancement) */}
-        {url.includes('{{') && (
-          <div className="absolute right-3 top-1/2 -translate-y-1/2">
-            <span className="text-xs text-accent">Has variables</span>
-          </div>
-        )}
       </div>
 
       {/* Send button */}
@@ -106,6 +90,13 @@ export function UrlBar({
       >
         {loading ? 'Sending...' : 'Send'}
       </Button>
+
+      {/* Save button, for requests saved in a collection */}
+      {onSave && (
+        <Button variant="secondary" onClick={onSave} disabled={!canSave} className="h-10 px-4">
+          Save
+        </Button>
+      )}
     </div>
   );
 }
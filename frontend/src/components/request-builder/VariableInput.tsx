@@ -0,0 +1,557 @@
+/**
+ * Variable-aware text fields - highlight {{variables}}, show their values on hover
+ * along with the scope they come from, and autocomplete names while typing `{{`
+ *
+ * The field's own text is transparent and a mirror layer behind it renders the
+ * same text with variable references coloured, so editing stays native.
+ *
+ * @module components/request-builder/VariableInput
+ */
+
+import {
+  useLayoutEffect,
+  useRef,
+  useState,
+  type InputHTMLAttributes,
+  type KeyboardEvent,
+  type MouseEvent,
+  type TextareaHTMLAttributes,
+} from 'react';
+import { useVariables } from '../../hooks';
+import { DYNAMIC_VARIABLES, getDynamicVariable } from '../../services/dynamic-variables';
+import {
+  getVariableCompletion,
+  resolveString,
+  SECRET_MASK,
+  tokenizeTemplate,
+  VARIABLE_SCOPE_LABELS,
+  type VariableCompletion,
+  type VariableMap,
+  type VariableSource,
+} from '../../services/variable-resolver';
+
+/** Maximum number of autocomplete suggestions shown */
+const MAX_SUGGESTIONS = 8;
+
+/** Keys handled by the autocomplete list while it is open */
+const COMPLETION_KEYS = ['ArrowDown', 'ArrowUp', 'Enter', 'Tab', 'Escape'];
+
+interface VariableFieldProps {
+  /** Field value (template) */
+  value: string;
+  /** Callback when the value changes */
+  onValueChange: (value: string) => void;
+  /** Use monospace font */
+  mono?: boolean;
+  /** Show the error border */
+  invalid?: boolean;
+  /** Extra classes for the outer box (sizing, border overrides) */
+  className?: string;
+}
+
+type VariableInputProps = VariableFieldProps &
+  Omit<InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange' | 'className'>;
+
+type VariableTextareaProps = VariableFieldProps &
+  Omit<TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange' | 'className'>;
+
+/** Box styles shared by both fields; focus styles apply to the wrapper */
+const BOX_CLASSES = `
+  relative
+  bg-[#0F0F12]
+  border
+  rounded-lg
+  transition-all duration-200 ease-expo-out
+  shadow-inner-highlight
+  focus-within:border-accent focus-within:ring-1 focus-within:ring-accent/30
+`;
+
+/**
+ * Single-line input with {{variable}} highlighting and autocomplete
+ *
+ * @example
+ * ```tsx
+ * <VariableInput value={url} onValueChange={setUrl} mono className="h-10" />
+ * ```
+ */
+export function VariableInput({
+  value,
+  onValueChange,
+  mono = false,
+  invalid = false,
+  className = '',
+  disabled,
+  onKeyDown,
+  ...props
+}: VariableInputProps) {
+  const {
+    variables,
+    sources,
+    fieldRef,
+    mirrorRef,
+    suggestions,
+    selectedIndex,
+    hovered,
+    syncScroll,
+    updateCompletion,
+    closeCompletion,
+    handleChange,
+    handleKeyDown,
+    handleKeyUp,
+    acceptSuggestion,
+    handleMouseMove,
+    clearHover,
+  } = useVariableEditor<HTMLInputElement>(value, onValueChange);
+  const font = mono ? 'font-mono' : '';
+
+  return (
+    <div
+      className={`${BOX_CLASSES} ${borderClass(invalid)} ${disabled ? 'opacity-50' : ''} ${className}`}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={clearHover}
+    >
+      <div
+        ref={mirrorRef}
+        aria-hidden="true"
+        className={`pointer-events-none absolute inset-0 flex items-center overflow-hidden whitespace-pre px-3 text-sm ${font}`}
+      >
+        <HighlightedText value={value} variables={variables} />
+      </div>
+
+      <input
+        ref={fieldRef}
+        type="text"
+        value={value}
+        disabled={disabled}
+        onChange={handleChange}
+        onKeyDown={(e) => {
+          if (!handleKeyDown(e)) onKeyDown?.(e);
+        }}
+        onKeyUp={handleKeyUp}
+        onClick={updateCompletion}
+        onScroll={syncScroll}
+        onBlur={closeCompletion}
+        spellCheck={false}
+        className={`
+          relative h-full w-full
+          bg-transparent
+          px-3
+          text-sm
+          text-transparent caret-foreground
+          placeholder:text-foreground-muted/50
+          focus:outline-none
+          disabled:cursor-not-allowed
+          ${font}
+        `}
+        {...props}
+      />
+
+      <VariableOverlays
+        variables={variables}
+        sources={sources}
+        hovered={hovered}
+        suggestions={suggestions}
+        selectedIndex={selectedIndex}
+        onAccept={acceptSuggestion}
+      />
+    </div>
+  );
+}
+
+/**
+ * Multi-line textarea with {{variable}} highlighting and autocomplete
+ *
+ * @example
+ * ```tsx
+ * <VariableTextarea value={body} onValueChange={setBody} mono className="min-h-[200px]" />
+ * ```
+ */
+export function VariableTextarea({
+  value,
+  onValueChange,
+  mono = false,
+  invalid = false,
+  className = '',
+  disabled,
+  onKeyDown,
+  ...props
+}: VariableTextareaProps) {
+  const {
+    variables,
+    sources,
+    fieldRef,
+    mirrorRef,
+    suggestions,
+    selectedIndex,
+    hovered,
+    syncScroll,
+    updateCompletion,
+    closeCompletion,
+    handleChange,
+    handleKeyDown,
+    handleKeyUp,
+    acceptSuggestion,
+    handleMouseMove,
+    clearHover,
+  } = useVariableEditor<HTMLTextAreaElement>(value, onValueChange);
+  const font = mono ? 'font-mono' : '';
+
+  return (
+    <div
+      className={`${BOX_CLASSES} ${borderClass(invalid)} flex w-full ${disabled ? 'opacity-50' : ''}`}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={clearHover}
+    >
+      <div
+        ref={mirrorRef}
+        aria-hidden="true"
+        className={`pointer-events-none absolute inset-0 overflow-hidden whitespace-pre-wrap break-words px-3 py-2 text-sm [scrollbar-gutter:stable] ${font}`}
+      >
+        <HighlightedText value={value} variables={variables} />
+        {/* Keeps a trailing newline visible so the mirror matches the textarea height */}
+        {value.endsWith('\n') && ' '}
+      </div>
+
+      <textarea
+        ref={fieldRef}
+        value={value}
+        disabled={disabled}
+        onChange={handleChange}
+        onKeyDown={(e) => {
+          if (!handleKeyDown(e)) onKeyDown?.(e);
+        }}
+        onKeyUp={handleKeyUp}
+        onClick={updateCompletion}
+        onScroll={syncScroll}
+        onBlur={closeCompletion}
+        spellCheck={false}
+        className={`
+          relative w-full
+          resize-y
+          bg-transparent
+          px-3 py-2
+          text-sm
+          text-transparent caret-foreground
+          placeholder:text-foreground-muted/50
+          [scrollbar-gutter:stable]
+          focus:outline-none
+          disabled:cursor-not-allowed
+          ${font}
+          ${className}
+        `}
+        {...props}
+      />
+
+      <VariableOverlays
+        variables={variables}
+        sources={sources}
+        hovered={hovered}
+        suggestions={suggestions}
+        selectedIndex={selectedIndex}
+        onAccept={acceptSuggestion}
+      />
+    </div>
+  );
+}
+
+// ============================================================================
+// Shared editor logic
+// ============================================================================
+
+/**
+ * Border colour of the field box
+ */
+function borderClass(invalid: boolean): string {
+  return invalid ? 'border-red-500/50' : 'border-border';
+}
+
+/**
+ * Variable under the mouse, positioned relative to the field box
+ */
+interface HoveredVariable {
+  name: string;
+  top: number;
+  left: number;
+}
+
+/**
+ * State and handlers shared by VariableInput and VariableTextarea
+ */
+function useVariableEditor<T extends HTMLInputElement | HTMLTextAreaElement>(
+  value: string,
+  onValueChange: (value: string) => void
+) {
+  const { values: variables, sources } = useVariables();
+  const fieldRef = useRef<T>(null);
+  const mirrorRef = useRef<HTMLDivElement>(null);
+  const pendingCaret = useRef<number | null>(null);
+
+  const [completion, setCompletion] = useState<VariableCompletion | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [hovered, setHovered] = useState<HoveredVariable | null>(null);
+
+  // Defined variables first, then the built-in dynamic ones
+  const suggestions = completion
+    ? [...variables.keys(), ...DYNAMIC_VARIABLES.map((variable) => variable.name)]
+        .filter((name) => name.toLowerCase().includes(completion.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const syncScroll = () => {
+    if (fieldRef.current && mirrorRef.current) {
+      mirrorRef.current.scrollTop = fieldRef.current.scrollTop;
+      mirrorRef.current.scrollLeft = fieldRef.current.scrollLeft;
+    }
+  };
+
+  // Restore the caret after inserting a completion, then keep the mirror aligned
+  useLayoutEffect(() => {
+    const field = fieldRef.current;
+    if (field && pendingCaret.current !== null) {
+      field.setSelectionRange(pendingCaret.current, pendingCaret.current);
+      pendingCaret.current = null;
+    }
+    syncScroll();
+  });
+
+  const updateCompletion = () => {
+    const field = fieldRef.current;
+    if (!field) return;
+
+    const next = getVariableCompletion(field.value, field.selectionStart ?? field.value.length);
+    setCompletion(next);
+    if (next?.query !== completion?.query) {
+      setSelectedIndex(0);
+    }
+  };
+
+  const closeCompletion = () => {
+    setCompletion(null);
+  };
+
+  const handleChange = (e: { target: { value: string } }) => {
+    onValueChange(e.target.value);
+    setHovered(null);
+    // Selection is only up to date after the change is applied
+    requestAnimationFrame(updateCompletion);
+  };
+
+  const acceptSuggestion = (name: string) => {
+    const field = fieldRef.current;
+    if (!field || !completion) return;
+
+    const caret = field.selectionStart ?? value.length;
+    const after = value.slice(caret).replace(/^\w*\s*\}\}/, '');
+    // Helpers need an argument, so leave the caret where it goes
+    const needsArgument = getDynamicVariable(name)?.argument !== undefined;
+    const inserted = needsArgument ? `{{${name} }}` : `{{${name}}}`;
+
+    pendingCaret.current = completion.start + inserted.length - (needsArgument ? 2 : 0);
+    onValueChange(value.slice(0, completion.start) + inserted + after);
+    setCompletion(null);
+  };
+
+  /**
+   * Handle completion navigation keys
+   * @returns True if the key was consumed
+   */
+  const handleKeyDown = (e: KeyboardEvent<T>): boolean => {
+    if (suggestions.length === 0) return false;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setSelectedIndex((i) => (i + 1) % suggestions.length);
+        return true;
+      case 'ArrowUp':
+        e.preventDefault();
+        setSelectedIndex((i) => (i - 1 + suggestions.length) % suggestions.length);
+        return true;
+      case 'Enter':
+      case 'Tab': {
+        e.preventDefault();
+        const name = suggestions[Math.min(selectedIndex, suggestions.length - 1)];
+        if (name) acceptSuggestion(name);
+        return true;
+      }
+      case 'Escape':
+        e.preventDefault();
+        setCompletion(null);
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  // Caret moves and deletions can open or close a completion; navigation keys must not
+  const handleKeyUp = (e: KeyboardEvent<T>) => {
+    if (!COMPLETION_KEYS.includes(e.key)) {
+      updateCompletion();
+    }
+  };
+
+  // The field sits above the mirror, so hit-test the mirror's variable spans by position
+  const handleMouseMove = (e: MouseEvent<HTMLDivElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    const spans = mirrorRef.current?.querySelectorAll<HTMLElement>('[data-variable]') ?? [];
+
+    for (const span of spans) {
+      const rect = span.getBoundingClientRect();
+      if (
+        e.clientX >= rect.left &&
+        e.clientX <= rect.right &&
+        e.clientY >= rect.top &&
+        e.clientY <= rect.bottom
+      ) {
+        setHovered({
+          name: span.dataset.variable ?? '',
+          top: rect.bottom - box.top + 4,
+          left: rect.left - box.left,
+        });
+        return;
+      }
+    }
+
+    setHovered(null);
+  };
+
+  const clearHover = () => {
+    setHovered(null);
+  };
+
+  return {
+    variables,
+    sources,
+    fieldRef,
+    mirrorRef,
+    suggestions,
+    selectedIndex,
+    hovered,
+    syncScroll,
+    updateCompletion,
+    closeCompletion,
+    handleChange,
+    handleKeyDown,
+    handleKeyUp,
+    acceptSuggestion,
+    handleMouseMove,
+    clearHover,
+  };
+}
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+/**
+ * Template text with variable references coloured by resolution state
+ */
+function HighlightedText({ value, variables }: { value: string; variables: VariableMap }) {
+  return (
+    <span className="text-foreground">
+      {tokenizeTemplate(value).map((token, index) =>
+        token.type === 'text' ? (
+          <span key={index}>{token.text}</span>
+        ) : (
+          <span
+            key={index}
+            data-variable={token.name}
+            className={`rounded-sm ${
+              variables.has(token.name) || getDynamicVariable(token.name)
+                ? 'bg-accent/20 text-accent-bright'
+                : 'bg-amber-400/15 text-amber-400'
+            }`}
+          >
+            {token.text}
+          </span>
+        )
+      )}
+    </span>
+  );
+}
+
+/**
+ * Hover tooltip and autocomplete dropdown, positioned over the field box
+ */
+function VariableOverlays({
+  variables,
+  sources,
+  hovered,
+  suggestions,
+  selectedIndex,
+  onAccept,
+}: {
+  variables: VariableMap;
+  sources: Map<string, VariableSource>;
+  hovered: HoveredVariable | null;
+  suggestions: string[];
+  selectedIndex: number;
+  onAccept: (name: string) => void;
+}) {
+  const source = hovered ? sources.get(hovered.name) : undefined;
+  const dynamic = hovered && !source ? getDynamicVariable(hovered.name) : undefined;
+
+  return (
+    <>
+      {hovered && suggestions.length === 0 && (
+        <div
+          className="pointer-events-none absolute z-20 max-w-sm rounded-md border border-border bg-bg-elevated px-2.5 py-1.5 text-xs shadow-card"
+          style={{ top: hovered.top, left: hovered.left }}
+        >
+          <div className="font-mono text-foreground-muted">{hovered.name}</div>
+          {source ? (
+            <>
+              <div className="mt-0.5 break-all font-mono text-foreground">
+                {source.secret ? SECRET_MASK : resolveString(source.value, variables) || '(empty)'}
+              </div>
+              <div className="mt-1 text-foreground-muted">
+                From {VARIABLE_SCOPE_LABELS[source.scope].toLowerCase()} scope
+                {source.secret && ' (secret)'}
+                {source.overridden.length > 0 &&
+                  `, overrides ${source.overridden
+                    .map((entry) => VARIABLE_SCOPE_LABELS[entry.scope].toLowerCase())
+                    .join(', ')}`}
+              </div>
+            </>
+          ) : dynamic ? (
+            <>
+              <div className="mt-0.5 text-foreground">{dynamic.description}</div>
+              <div className="mt-1 text-foreground-muted">Generated when the request is sent</div>
+            </>
+          ) : (
+            <div className="mt-0.5 text-amber-400">Not defined in any scope</div>
+          )}
+        </div>
+      )}
+
+      {suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute left-0 top-full z-30 mt-1 max-h-60 w-64 overflow-auto rounded-lg border border-border bg-bg-elevated py-1 shadow-card"
+        >
+          {suggestions.map((name, index) => (
+            <li
+              key={name}
+              role="option"
+              aria-selected={index === selectedIndex}
+              // Keep focus in the field so the caret position is still known
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onAccept(name);
+              }}
+              className={`
+                flex cursor-pointer items-center justify-between gap-3 px-3 py-1.5 text-xs
+                ${index === selectedIndex ? 'bg-accent/20 text-foreground' : 'text-foreground-muted hover:bg-surface'}
+              `}
+            >
+              <span className="font-mono">{name}</span>
+              <span className="truncate text-foreground-muted/70">
+                {variables.get(name) ?? getDynamicVariable(name)?.description}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
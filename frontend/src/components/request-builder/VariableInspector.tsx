@@ -0,0 +1,163 @@
+/**
+ * Variable inspector - shows where every variable's value comes from
+ *
+ * @module components/request-builder/VariableInspector
+ */
+
+import { useVariables } from '../../hooks';
+import {
+  resolveString,
+  SECRET_MASK,
+  VARIABLE_SCOPE_LABELS,
+  type VariableScope,
+  type VariableSource,
+} from '../../services/variable-resolver';
+
+interface VariableInspectorProps {
+  /** Variable names referenced by the current request */
+  references: string[];
+}
+
+/** Badge colour per scope */
+const SCOPE_STYLES: Record<VariableScope, string> = {
+  global: 'bg-surface text-foreground-muted',
+  collection: 'bg-blue-500/20 text-blue-400',
+  environment: 'bg-accent/20 text-accent',
+  data: 'bg-purple-500/20 text-purple-400',
+  request: 'bg-emerald-500/20 text-emerald-400',
+  runtime: 'bg-amber-500/20 text-amber-400',
+};
+
+/**
+ * Table of all variables in scope with their effective value, the scope it comes
+ * from and the definitions it overrides. Variables used by the request come first,
+ * including references that are not defined anywhere.
+ *
+ * @example
+ * ```tsx
+ * <VariableInspector references={getReferencedVariables(request)} />
+ * ```
+ */
+export function VariableInspector({ references }: VariableInspectorProps) {
+  const { values, sources } = useVariables();
+
+  const used = new Set(references);
+  const names = [...new Set([...references, ...sources.keys()])].sort(
+    (a, b) => Number(used.has(b)) - Number(used.has(a)) || a.localeCompare(b)
+  );
+
+  if (names.length === 0) {
+    return (
+      <div className="py-4 text-center text-sm text-foreground-muted">
+        No variables in scope. Define them on the request, its collection, the active environment or
+        as globals.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {/* Header row */}
+      <div className="grid grid-cols-[1fr_2fr_auto] gap-3 px-1">
+        <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+          Name
+        </span>
+        <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+          Current value
+        </span>
+        <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+          Source
+        </span>
+      </div>
+
+      {/* Variable rows */}
+      {names.map((name) => {
+        const source = sources.get(name);
+
+        return (
+          <div
+            key={name}
+            className="grid grid-cols-[1fr_2fr_auto] gap-3 items-start rounded-lg px-1 py-1.5 hover:bg-surface"
+          >
+            <span className="flex items-center gap-1.5 min-w-0 font-mono text-sm text-foreground">
+              {used.has(name) && (
+                <span
+                  className="h-1.5 w-1.5 flex-shrink-0 rounded-full bg-accent"
+                  title="Used by this request"
+                />
+              )}
+              <span className="truncate">{name}</span>
+            </span>
+
+            {source ? (
+              <SourceDetails source={source} resolved={resolveString(source.value, values)} />
+            ) : (
+              <span className="text-sm text-amber-400">Not defined</span>
+            )}
+
+            {source ? <ScopeBadge scope={source.scope} /> : <span />}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Effective value with the lower-precedence values it hides (secret values masked)
+ */
+function SourceDetails({ source, resolved }: { source: VariableSource; resolved: string }) {
+  if (source.secret) {
+    return (
+      <div className="min-w-0 space-y-0.5">
+        <div className="truncate font-mono text-sm text-foreground" title="Secret value">
+          {resolved ? SECRET_MASK : <span className="text-foreground-muted">(empty)</span>}
+        </div>
+        {source.overridden.map((entry) => (
+          <div key={entry.scope} className="truncate text-xs text-foreground-muted/70">
+            overrides {VARIABLE_SCOPE_LABELS[entry.scope].toLowerCase()}:{' '}
+            <span className="font-mono line-through">
+              {entry.secret ? SECRET_MASK : entry.value}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-w-0 space-y-0.5">
+      <div className="truncate font-mono text-sm text-foreground" title={resolved}>
+        {resolved || <span className="text-foreground-muted">(empty)</span>}
+      </div>
+      {resolved !== source.value && (
+        <div className="truncate font-mono text-xs text-foreground-muted" title={source.value}>
+          = {source.value}
+        </div>
+      )}
+      {source.overridden.map((entry) => (
+        <div
+          key={entry.scope}
+          className="truncate text-xs text-foreground-muted/70"
+          title={entry.secret ? undefined : entry.value}
+        >
+          overrides {VARIABLE_SCOPE_LABELS[entry.scope].toLowerCase()}:{' '}
+          <span className="font-mono line-through">{entry.secret ? SECRET_MASK : entry.value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Label of the scope a value comes from
+ */
+function ScopeBadge({ scope }: { scope: VariableScope }) {
+  return (
+    <span
+      className={`px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wider rounded ${SCOPE_STYLES[scope]}`}
+    >
+      {VARIABLE_SCOPE_LABELS[scope]}
+    </span>
+  );
+}
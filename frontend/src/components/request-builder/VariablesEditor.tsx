@@ -0,0 +1,309 @@
+/**
+ * Variables editor - add, edit, remove, and toggle variables of one scope
+ * Secret variables show a masked value that can be revealed per row.
+ *
+ * @module components/request-builder/VariablesEditor
+ */
+
+import { useState } from 'react';
+import { Button, Input } from '../ui';
+import { VariableInput } from './VariableInput';
+import { VariableSchema, type Variable } from '../../types';
+
+interface VariablesEditorProps {
+  /** Variables of the scope being edited */
+  variables: Variable[];
+  /** Callback when variables change */
+  onChange: (variables: Variable[]) => void;
+  /** Message shown when there are no variables */
+  emptyMessage?: string;
+  /** Disable editing */
+  disabled?: boolean;
+}
+
+/**
+ * Editable table of variables with add/remove/toggle functionality
+ * Values may reference other variables, so they get variable highlighting.
+ *
+ * @example
+ * ```tsx
+ * <VariablesEditor
+ *   variables={variables}
+ *   onChange={setVariables}
+ * />
+ * ```
+ */
+export function VariablesEditor({
+  variables,
+  onChange,
+  emptyMessage = 'No variables defined yet',
+  disabled = false,
+}: VariablesEditorProps) {
+  const [revealed, setRevealed] = useState<Set<number>>(new Set());
+
+  const updateVariable = (index: number, updates: Partial<Variable>) => {
+    onChange(variables.map((v, i) => (i === index ? { ...v, ...updates } : v)));
+  };
+
+  const removeVariable = (index: number) => {
+    onChange(variables.filter((_, i) => i !== index));
+  };
+
+  const addVariable = () => {
+    onChange([...variables, { key: '', value: '', enabled: true }]);
+  };
+
+  const toggleVariable = (index: number) => {
+    const variable = variables[index];
+    if (variable) {
+      updateVariable(index, { enabled: !variable.enabled });
+    }
+  };
+
+  const toggleSecret = (index: number) => {
+    const variable = variables[index];
+    if (variable) {
+      updateVariable(index, { secret: !variable.secret });
+    }
+  };
+
+  const toggleRevealed = (index: number) => {
+    setRevealed((current) => {
+      const next = new Set(current);
+      if (!next.delete(index)) next.add(index);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Variables table */}
+      <div className="space-y-2">
+        {/* Header row */}
+        {variables.length > 0 && (
+          <div className="grid grid-cols-[auto_1fr_1fr_auto_auto] gap-2 px-1">
+            <div className="w-8" /> {/* Checkbox column */}
+            <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+              Name
+            </span>
+            <span className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+              Value
+            </span>
+            <div className="w-8" /> {/* Secret column */}
+            <div className="w-8" /> {/* Actions column */}
+          </div>
+        )}
+
+        {/* Variable rows */}
+        {variables.map((variable, index) => (
+          <div
+            key={index}
+            className={`
+              grid grid-cols-[auto_1fr_1fr_auto_auto] gap-2 items-start
+              ${!variable.enabled ? 'opacity-50' : ''}
+            `}
+          >
+            {/* Enable/disable checkbox */}
+            <button
+              type="button"
+              onClick={() => toggleVariable(index)}
+              disabled={disabled}
+              className="
+                w-8 h-9 flex items-center justify-center
+                rounded-md
+                hover:bg-surface transition-colors
+                focus:outline-none focus:ring-2 focus:ring-accent/50
+                disabled:cursor-not-allowed
+              "
+              aria-label={variable.enabled ? 'Disable variable' : 'Enable variable'}
+            >
+              <div
+                className={`
+                  w-4 h-4 rounded border-2 transition-colors
+                  ${
+                    variable.enabled
+                      ? 'bg-accent border-accent'
+                      : 'bg-transparent border-foreground-muted'
+                  }
+                `}
+              >
+                {variable.enabled && (
+                  <svg viewBox="0 0 16 16" fill="none" className="text-white">
+                    <path
+                      d="M4 8L7 11L12 5"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    />
+                  </svg>
+                )}
+              </div>
+            </button>
+
+            {/* Name input */}
+            <Input
+              value={variable.key}
+              onChange={(e) => updateVariable(index, { key: e.target.value })}
+              placeholder="Variable name"
+              disabled={disabled || !variable.enabled}
+              error={keyError(variable.key)}
+              mono
+              className="h-9"
+            />
+
+            {/* Value input (masked for secrets) */}
+            {variable.secret ? (
+              <Input
+                type={revealed.has(index) ? 'text' : 'password'}
+                value={variable.value}
+                onChange={(e) => updateVariable(index, { value: e.target.value })}
+                placeholder="Secret value"
+                disabled={disabled || !variable.enabled}
+                autoComplete="off"
+                mono
+                className="h-9"
+                rightElement={
+                  <button
+                    type="button"
+                    onClick={() => toggleRevealed(index)}
+                    className="flex items-center hover:text-foreground transition-colors"
+                    aria-label={revealed.has(index) ? 'Hide value' : 'Show value'}
+                  >
+                    <svg width="14" height="14" viewBox="0 0 16 16" fill="none">
+                      <path
+                        d="M1.5 8C3 4.5 5.5 3 8 3C10.5 3 13 4.5 14.5 8C13 11.5 10.5 13 8 13C5.5 13 3 11.5 1.5 8Z"
+                        stroke="currentColor"
+                        strokeWidth="1.5"
+                        strokeLinejoin="round"
+                      />
+                      <circle cx="8" cy="8" r="2" stroke="currentColor" strokeWidth="1.5" />
+                      {revealed.has(index) && (
+                        <path
+                          d="M2.5 13.5L13.5 2.5"
+                          stroke="currentColor"
+                          strokeWidth="1.5"
+                          strokeLinecap="round"
+                        />
+                      )}
+                    </svg>
+                  </button>
+                }
+              />
+            ) : (
+              <VariableInput
+                value={variable.value}
+                onValueChange={(value) => updateVariable(index, { value })}
+                placeholder="Value"
+                disabled={disabled || !variable.enabled}
+                mono
+                className="h-9"
+              />
+            )}
+
+            {/* Secret toggle */}
+            <button
+              type="button"
+              onClick={() => toggleSecret(index)}
+              disabled={disabled}
+              className={`
+                w-8 h-9 flex items-center justify-center
+                rounded-md
+                hover:bg-surface transition-colors
+                focus:outline-none focus:ring-2 focus:ring-accent/50
+                disabled:cursor-not-allowed
+                ${variable.secret ? 'text-accent' : 'text-foreground-muted'}
+              `}
+              aria-label={variable.secret ? 'Mark as not secret' : 'Mark as secret'}
+              aria-pressed={variable.secret ?? false}
+              title={
+                variable.secret
+                  ? 'Secret: encrypted on this device, hidden from history and sync'
+                  : 'Mark as secret'
+              }
+            >
+              <svg width="14" height="14" viewBox="0 0 16 16" fill="none">
+                <rect
+                  x="3"
+                  y="7"
+                  width="10"
+                  height="7"
+                  rx="1.5"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                />
+                <path
+                  d={
+                    variable.secret ? 'M5.5 7V5a2.5 2.5 0 0 1 5 0v2' : 'M5.5 7V5a2.5 2.5 0 0 1 5-.5'
+                  }
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                />
+              </svg>
+            </button>
+
+            {/* Remove button */}
+            <button
+              type="button"
+              onClick={() => removeVariable(index)}
+              disabled={disabled}
+              className="
+                w-8 h-9 flex items-center justify-center
+                rounded-md
+                text-foreground-muted hover:text-red-400 hover:bg-red-500/10
+                transition-colors
+                focus:outline-none focus:ring-2 focus:ring-accent/50
+                disabled:cursor-not-allowed disabled:hover:text-foreground-muted disabled:hover:bg-transparent
+              "
+              aria-label="Remove variable"
+            >
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+                <path
+                  d="M4 4L12 12M12 4L4 12"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                />
+              </svg>
+            </button>
+          </div>
+        ))}
+
+        {/* Empty state */}
+        {variables.length === 0 && (
+          <div className="py-4 text-center text-sm text-foreground-muted">{emptyMessage}</div>
+        )}
+      </div>
+
+      {/* Add variable button */}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={addVariable}
+        disabled={disabled}
+        leftIcon={
+          <svg width="14" height="14" viewBox="0 0 14 14" fill="none">
+            <path
+              d="M7 2V12M2 7H12"
+              stroke="currentColor"
+              strokeWidth="1.5"
+              strokeLinecap="round"
+            />
+          </svg>
+        }
+      >
+        Add Variable
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Validation message for a variable name (blank rows are not flagged)
+ */
+function keyError(key: string): string | undefined {
+  if (key === '') return undefined;
+  const result = VariableSchema.shape.key.safeParse(key);
+  return result.success ? undefined : result.error.issues[0]?.message;
+}
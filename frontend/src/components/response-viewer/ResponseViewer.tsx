@@ -1,19 +1,22 @@
 /**
- * Response Viewer - displays HTTP response with status, headers, and body
+ * Response Viewer - displays HTTP response with status, headers, body and test results
  *
  * @module components/response-viewer/ResponseViewer
  */
 
-import { useState } from 'react';
+import { useState, type ReactNode } from 'react';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '../ui';
 import { useRequestStore } from '../../stores';
-import type { ResponseState, Header } from '../../types';
+import type { ResponseState, Header, TestResult } from '../../types';
 
 /**
  * Complete response viewer with status bar and tabbed content
  */
 export function ResponseViewer() {
   const { response, loading } = useRequestStore();
+  const testResults = useRequestStore((state) => state.testResults);
+  const testError = useRequestStore((state) => state.testError);
+  const assertionResults = useRequestStore((state) => state.assertionResults);
 
   if (loading) {
     return <LoadingState />;
@@ -47,6 +50,15 @@ export function ResponseViewer() {
             </span>
           </TabsTrigger>
           <TabsTrigger value="preview">Preview</TabsTrigger>
+          {(assertionResults || testResults) && (
+            <TabsTrigger value="tests">
+              Tests
+              <TestSummary
+                results={[...(assertionResults ?? []), ...(testResults ?? [])]}
+                failed={testError !== null}
+              />
+            </TabsTrigger>
+          )}
         </TabsList>
 
         <div className="flex-1 overflow-hidden mt-4">
@@ -61,6 +73,12 @@ export function ResponseViewer() {
           <TabsContent value="preview" className="h-full">
             <HtmlPreview body={response.body} headers={response.headers} />
           </TabsContent>
+
+          {(assertionResults || testResults) && (
+            <TabsContent value="tests" className="h-full overflow-auto">
+              <TestResults assertions={assertionResults} tests={testResults} error={testError} />
+            </TabsContent>
+          )}
         </div>
       </Tabs>
     </div>
@@ -338,6 +356,103 @@ function ResponseHeaders({ headers }: { headers: Header[] }) {
 }
 
 
+/**
+ * Passed/total count of the assertion and test results, red unless every one passed
+ */
+function TestSummary({ results, failed }: { results: TestResult[]; failed: boolean }) {
+  const passed = results.filter((result) => result.passed).length;
+  const allPassed = !failed && passed === results.length;
+
+  return (
+    <span
+      className={`ml-1.5 px-1.5 py-0.5 text-[10px] font-medium rounded ${
+        allPassed ? 'bg-emerald-500/10 text-emerald-400' : 'bg-red-500/10 text-red-400'
+      }`}
+    >
+      {passed}/{results.length}
+    </span>
+  );
+}
+
+/**
+ * Assertion and test script results, with the error that stopped the script if any
+ */
+function TestResults({
+  assertions,
+  tests,
+  error,
+}: {
+  assertions: TestResult[] | null;
+  tests: TestResult[] | null;
+  error: string | null;
+}) {
+  return (
+    <div className="space-y-4">
+      {assertions && (
+        <ResultList title="Assertions">
+          {assertions.map((result, index) => (
+            <ResultRow key={index} result={result} />
+          ))}
+        </ResultList>
+      )}
+
+      {tests && (
+        <ResultList title="Tests">
+          {error && (
+            <div className="mb-2 rounded-lg bg-red-500/10 px-3 py-2 text-sm text-red-400">
+              Test script failed: {error}
+            </div>
+          )}
+          {tests.length === 0 && !error && (
+            <div className="py-4 text-center text-sm text-foreground-muted">
+              The test script did not call np.test()
+            </div>
+          )}
+          {tests.map((result, index) => (
+            <ResultRow key={index} result={result} />
+          ))}
+        </ResultList>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Titled group of results
+ */
+function ResultList({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <h3 className="px-3 text-xs font-medium uppercase tracking-wider text-foreground-muted">
+        {title}
+      </h3>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * One assertion or test result with its pass/fail badge
+ */
+function ResultRow({ result }: { result: TestResult }) {
+  return (
+    <div className="flex gap-4 px-3 py-2 rounded-lg hover:bg-surface transition-colors">
+      <span
+        className={`w-10 shrink-0 rounded px-1.5 py-0.5 text-center text-[10px] font-semibold uppercase ${
+          result.passed ? 'bg-emerald-500/10 text-emerald-400' : 'bg-red-500/10 text-red-400'
+        }`}
+      >
+        {result.passed ? 'Pass' : 'Fail'}
+      </span>
+      <div className="min-w-0">
+        <p className="text-sm text-foreground">{result.name}</p>
+        {result.error && (
+          <p className="font-mono text-xs text-foreground-muted break-words">{result.error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
 
 /**
  * Loading state
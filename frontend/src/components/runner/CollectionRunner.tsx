@@ -0,0 +1,466 @@
+/**
+ * Collection runner - runs every request of a collection and shows the run report
+ *
+ * @module components/runner/CollectionRunner
+ */
+
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import { useRunnerStore } from '../../stores';
+import { getAllCollections } from '../../services/db';
+import { DEFAULT_RUN_OPTIONS, summarizeRun, type RunOptions } from '../../services/runner';
+import { getIterationRow, parseDataFile } from '../../services/data-file';
+import { getMethodColor } from '../request-builder/MethodSelector';
+import { Button, Input, Select } from '../ui';
+import type { Collection, CollectionRun, RunResult, RunStatus } from '../../types';
+
+interface CollectionRunnerProps {
+  /** Called when the overlay should close */
+  onClose: () => void;
+}
+
+/** Badge style and label of each run status */
+const RUN_STATUS_DISPLAY: Record<RunStatus, { label: string; className: string }> = {
+  running: { label: 'Running', className: 'bg-accent/10 text-accent' },
+  passed: { label: 'Passed', className: 'bg-emerald-500/10 text-emerald-400' },
+  failed: { label: 'Failed', className: 'bg-red-500/10 text-red-400' },
+  cancelled: { label: 'Cancelled', className: 'bg-amber-500/10 text-amber-400' },
+};
+
+/**
+ * Overlay to pick a collection and run settings, follow the run and browse past reports
+ * The run keeps going if the overlay is closed.
+ */
+export function CollectionRunner({ onClose }: CollectionRunnerProps) {
+  const run = useRunnerStore((state) => state.run);
+  const running = useRunnerStore((state) => state.running);
+  const error = useRunnerStore((state) => state.error);
+  const loadRuns = useRunnerStore((state) => state.loadRuns);
+  const [collections, setCollections] = useState<Collection[]>([]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  useEffect(() => {
+    getAllCollections()
+      .then(setCollections)
+      .catch((loadError) => console.error('Failed to load collections:', loadError));
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-6">
+      <div className="flex h-full max-h-[48rem] w-full max-w-5xl flex-col rounded-2xl border border-border bg-bg-elevated shadow-card">
+        <div className="flex items-center justify-between border-b border-border px-5 py-3">
+          <h2 className="text-sm font-semibold text-foreground">Collection runner</h2>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          <PastRuns />
+
+          <div className="flex flex-1 flex-col gap-4 overflow-auto p-5">
+            <RunSettings collections={collections} running={running} />
+            {error && (
+              <div className="rounded-lg bg-red-500/10 px-3 py-2 text-sm text-red-400">{error}</div>
+            )}
+            {run ? (
+              <RunReport run={run} />
+            ) : (
+              <p className="py-8 text-center text-sm text-foreground-muted">
+                Pick a collection and run it to see its report here
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+/**
+ * Collection, iterations, delay, stop-on-failure and data file, with the run/cancel button
+ */
+function RunSettings({ collections, running }: { collections: Collection[]; running: boolean }) {
+  const startRun = useRunnerStore((state) => state.startRun);
+  const cancelRun = useRunnerStore((state) => state.cancelRun);
+  const [collectionId, setCollectionId] = useState('');
+  const [options, setOptions] = useState<RunOptions>(DEFAULT_RUN_OPTIONS);
+  const [dataError, setDataError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const selectedId = collectionId || collections[0]?.id || '';
+
+  const handleDataFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      // One iteration per row by default
+      const data = parseDataFile(file.name, await file.text());
+      setOptions({ ...options, data, iterations: data.rows.length });
+      setDataError(null);
+    } catch (error) {
+      setDataError(error instanceof Error ? error.message : 'Failed to read the data file');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-end gap-3">
+        <Select
+          label="Collection"
+          options={collections.map((collection) => ({
+            value: collection.id,
+            label: collection.name,
+          }))}
+          placeholder={collections.length === 0 ? 'No collections' : undefined}
+          value={selectedId}
+          onChange={(event) => setCollectionId(event.target.value)}
+          disabled={running}
+          className="h-9 w-56"
+        />
+        <Input
+          label="Iterations"
+          type="number"
+          min={1}
+          max={1000}
+          value={options.iterations}
+          onChange={(event) =>
+            setOptions({
+              ...options,
+              iterations: Math.min(1000, Math.max(1, Math.floor(Number(event.target.value) || 1))),
+            })
+          }
+          disabled={running}
+          className="h-9 w-24"
+        />
+        <Input
+          label="Delay (ms)"
+          type="number"
+          min={0}
+          max={60000}
+          value={options.delay}
+          onChange={(event) =>
+            setOptions({
+              ...options,
+              delay: Math.min(60000, Math.max(0, Math.floor(Number(event.target.value) || 0))),
+            })
+          }
+          disabled={running}
+          className="h-9 w-28"
+        />
+        <label className="flex items-center gap-2 pb-2 text-sm text-foreground">
+          <input
+            type="checkbox"
+            checked={options.stopOnFailure}
+            onChange={(event) => setOptions({ ...options, stopOnFailure: event.target.checked })}
+            disabled={running}
+            className="accent-accent"
+          />
+          Stop on failure
+        </label>
+        <div className="flex items-center gap-2 pb-1">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleDataFile}
+            className="hidden"
+          />
+          {options.data ? (
+            <span className="text-xs text-foreground">
+              {options.data.fileName}{' '}
+              <span className="text-foreground-muted">({options.data.rows.length} rows)</span>
+              <button
+                type="button"
+                onClick={() => setOptions({ ...options, data: null })}
+                disabled={running}
+                className="ml-2 text-foreground-muted hover:text-red-400 transition-colors"
+              >
+                Remove
+              </button>
+            </span>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => fileInput.current?.click()}
+              disabled={running}
+            >
+              Data file...
+            </Button>
+          )}
+        </div>
+        <div className="ml-auto">
+          {running ? (
+            <Button variant="secondary" size="sm" onClick={cancelRun}>
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              variant="primary"
+              size="sm"
+              disabled={!selectedId}
+              onClick={() => startRun(selectedId, options)}
+            >
+              Run
+            </Button>
+          )}
+        </div>
+      </div>
+      {dataError && <p className="text-xs text-red-400">{dataError}</p>}
+    </div>
+  );
+}
+
+/**
+ * Summary of a run and the outcome of each request, in run order, grouped by
+ * iteration when there are several or a data file
+ */
+function RunReport({ run }: { run: CollectionRun }) {
+  const running = useRunnerStore((state) => state.running);
+  const repeatRun = useRunnerStore((state) => state.repeatRun);
+  const { passed, failed, total } = summarizeRun(run);
+  const duration = run.finishedAt
+    ? new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()
+    : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <h3 className="text-sm font-medium text-foreground">{run.collectionName}</h3>
+        <RunStatusBadge status={run.status} />
+        <span className="text-xs text-foreground-muted">
+          <span className="text-emerald-400">{passed} passed</span>
+          {' · '}
+          <span className={failed > 0 ? 'text-red-400' : ''}>{failed} failed</span>
+          {' · '}
+          {total} {total === 1 ? 'request' : 'requests'}
+          {duration !== null && ` · ${duration}ms`}
+          {run.data && ` · ${run.data.fileName}`}
+        </span>
+        {!running && run.status !== 'running' && (
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={() => repeatRun(run)}>
+            Run again
+          </Button>
+        )}
+      </div>
+
+      {run.results.length === 0 && run.status === 'passed' && (
+        <p className="py-4 text-center text-sm text-foreground-muted">
+          This collection has no requests to run
+        </p>
+      )}
+
+      {run.iterations > 1 || run.data ? (
+        groupByIteration(run.results).map(([iteration, results]) => (
+          <IterationGroup
+            key={iteration}
+            iteration={iteration}
+            row={getIterationRow(run.data, iteration)}
+            results={results}
+          />
+        ))
+      ) : (
+        <div className="space-y-1">
+          {run.results.map((result, index) => (
+            <RunResultRow key={index} result={result} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Results of one iteration, headed by its data file row
+ */
+function IterationGroup({
+  iteration,
+  row,
+  results,
+}: {
+  iteration: number;
+  row: Record<string, string>;
+  results: RunResult[];
+}) {
+  const passed = results.filter((result) => result.passed).length;
+  const values = Object.entries(row)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(', ');
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 px-3">
+        <h4 className="text-xs font-medium uppercase tracking-wider text-foreground-muted">
+          Iteration {iteration}
+        </h4>
+        <span
+          className={`text-xs ${passed === results.length ? 'text-emerald-400' : 'text-red-400'}`}
+        >
+          {passed}/{results.length} passed
+        </span>
+        {values && (
+          <span className="truncate font-mono text-xs text-foreground-muted" title={values}>
+            {values}
+          </span>
+        )}
+      </div>
+      {results.map((result, index) => (
+        <RunResultRow key={index} result={result} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * One request of a run: status, time and its failed checks
+ */
+function RunResultRow({ result }: { result: RunResult }) {
+  const checks = [...result.assertions, ...result.tests];
+  const passedChecks = checks.filter((check) => check.passed).length;
+  const failedChecks = checks.filter((check) => !check.passed);
+
+  return (
+    <div className="rounded-lg px-3 py-2 hover:bg-surface transition-colors">
+      <div className="flex items-center gap-3">
+        <span
+          className={`w-10 shrink-0 rounded px-1.5 py-0.5 text-center text-[10px] font-semibold uppercase ${
+            result.passed ? 'bg-emerald-500/10 text-emerald-400' : 'bg-red-500/10 text-red-400'
+          }`}
+        >
+          {result.passed ? 'Pass' : 'Fail'}
+        </span>
+        <span
+          className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${getMethodColor(result.method)}`}
+        >
+          {result.method}
+        </span>
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm text-foreground">
+            {result.folder && <span className="text-foreground-muted">{result.folder} / </span>}
+            {result.name}
+          </p>
+          <p className="truncate font-mono text-xs text-foreground-muted" title={result.url}>
+            {result.url}
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-3 text-xs text-foreground-muted">
+          {result.status > 0 && <span>{result.status}</span>}
+          <span>{result.time}ms</span>
+          {checks.length > 0 && (
+            <span className={passedChecks === checks.length ? 'text-emerald-400' : 'text-red-400'}>
+              {passedChecks}/{checks.length} passed
+            </span>
+          )}
+        </div>
+      </div>
+
+      {(result.error || failedChecks.length > 0) && (
+        <div className="mt-1 space-y-0.5 pl-[3.25rem]">
+          {result.error && <p className="font-mono text-xs text-red-400">{result.error}</p>}
+          {failedChecks.map((check, index) => (
+            <p key={index} className="text-xs text-foreground-muted">
+              <span className="text-red-400">{check.name}</span>
+              {check.error && <span className="font-mono"> - {check.error}</span>}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Past runs, most recent first; clicking one shows its report
+ */
+function PastRuns() {
+  const runs = useRunnerStore((state) => state.runs);
+  const run = useRunnerStore((state) => state.run);
+  const running = useRunnerStore((state) => state.running);
+  const viewRun = useRunnerStore((state) => state.viewRun);
+  const deleteRun = useRunnerStore((state) => state.deleteRun);
+
+  return (
+    <aside className="w-60 shrink-0 overflow-auto border-r border-border p-3">
+      <h3 className="mb-2 text-xs font-medium uppercase tracking-wider text-foreground-muted">
+        Past runs
+      </h3>
+      {runs.length === 0 && <p className="text-xs text-foreground-muted">No runs yet</p>}
+      <div className="space-y-1">
+        {runs.map((past) => {
+          const { passed, total } = summarizeRun(past);
+          return (
+            <div
+              key={past.id}
+              className={`group flex items-center gap-2 rounded-lg px-2 py-1.5 transition-colors ${
+                running ? 'cursor-not-allowed opacity-50' : 'cursor-pointer hover:bg-surface'
+              } ${past.id === run?.id ? 'bg-surface' : ''}`}
+              onClick={() => !running && viewRun(past)}
+            >
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm text-foreground">{past.collectionName}</p>
+                <div className="flex items-center gap-2 text-[10px] text-foreground-muted">
+                  <span className={passed === total ? 'text-emerald-400' : 'text-red-400'}>
+                    {passed}/{total} passed
+                  </span>
+                  <span>{new Date(past.startedAt).toLocaleString()}</span>
+                </div>
+              </div>
+              <button
+                onClick={(event) => {
+                  event.stopPropagation();
+                  deleteRun(past.id);
+                }}
+                disabled={running}
+                className="opacity-0 group-hover:opacity-100 p-1 text-foreground-muted hover:text-red-400 transition-all"
+                aria-label="Delete run"
+              >
+                <svg width="12" height="12" viewBox="0 0 12 12" fill="none">
+                  <path
+                    d="M3 3L9 9M9 3L3 9"
+                    stroke="currentColor"
+                    strokeWidth="1.5"
+                    strokeLinecap="round"
+                  />
+                </svg>
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+}
+
+/**
+ * Status of a run as a colored badge
+ */
+function RunStatusBadge({ status }: { status: RunStatus }) {
+  const { label, className } = RUN_STATUS_DISPLAY[status];
+
+  return (
+    <span className={`px-1.5 py-0.5 text-[10px] font-medium rounded ${className}`}>{label}</span>
+  );
+}
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+function groupByIteration(results: RunResult[]): [number, RunResult[]][] {
+  const groups = new Map<number, RunResult[]>();
+
+  for (const result of results) {
+    groups.set(result.iteration, [...(groups.get(result.iteration) ?? []), result]);
+  }
+
+  return [...groups];
+}
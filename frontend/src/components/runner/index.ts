@@ -0,0 +1,6 @@
+/**
+ * Runner component exports
+ * @module components/runner
+ */
+
+export { CollectionRunner } from './CollectionRunner';
@@ -0,0 +1,315 @@
+/**
+ * Collection tree component - browses collections, folders and saved requests
+ *
+ * @module components/sidebar/CollectionTree
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  getAllCollections,
+  getFoldersByCollection,
+  getRequestsByCollection,
+} from '../../services/db';
+import { useRequestStore, useSyncStore } from '../../stores';
+import { getMethodColor } from '../request-builder/MethodSelector';
+import { Button } from '../ui';
+import type { Collection, Folder, SavedRequest } from '../../types';
+
+interface CollectionTreeProps {
+  /** Called when the user asks to import a file */
+  onImport: () => void;
+  /** Changes whenever collections may have been added elsewhere (e.g. after an import) */
+  refreshKey?: number;
+}
+
+/**
+ * Collection with its folders and requests
+ */
+interface CollectionNode {
+  collection: Collection;
+  folders: Folder[];
+  requests: SavedRequest[];
+}
+
+/**
+ * Tree of every collection; clicking a request opens it in the builder with its
+ * collection and folder, so their variables, auth and scripts apply
+ */
+export function CollectionTree({ onImport, refreshKey = 0 }: CollectionTreeProps) {
+  const [nodes, setNodes] = useState<CollectionNode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const savedRequestId = useRequestStore((state) => state.savedRequestId);
+  const isDirty = useRequestStore((state) => state.isDirty);
+  const lastSyncedAt = useSyncStore((state) => state.lastSyncedAt);
+
+  // Reload after imports, saves (the request turns clean) and sync passes
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const collections = await getAllCollections();
+        const loaded = await Promise.all(
+          collections.map(async (collection) => ({
+            collection,
+            folders: await getFoldersByCollection(collection.id),
+            requests: await getRequestsByCollection(collection.id),
+          }))
+        );
+        if (!cancelled) setNodes(loaded);
+      } catch (error) {
+        console.error('Failed to load collections:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, isDirty, lastSyncedAt]);
+
+  const toggle = (id: string) => {
+    setExpanded((previous) => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="w-5 h-5 border-2 border-accent border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (nodes.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-3 py-8 text-center">
+        <FolderIcon className="h-10 w-10 text-foreground-muted/50" />
+        <div>
+          <p className="text-sm font-medium text-foreground">No Collections</p>
+          <p className="text-xs text-foreground-muted">
+            Create a collection to organize your requests
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" size="sm">
+            New Collection
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onImport}>
+            Import
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-end">
+        <button
+          onClick={onImport}
+          className="text-xs text-foreground-muted hover:text-foreground transition-colors"
+        >
+          Import
+        </button>
+      </div>
+
+      {nodes.map(({ collection, folders, requests }) => (
+        <div key={collection.id}>
+          <TreeToggle
+            label={collection.name}
+            open={expanded.has(collection.id)}
+            onToggle={() => toggle(collection.id)}
+          />
+          {expanded.has(collection.id) && (
+            <TreeLevel
+              parentId={null}
+              folders={folders}
+              requests={requests}
+              expanded={expanded}
+              onToggle={toggle}
+              savedRequestId={savedRequestId}
+              isDirty={isDirty}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+/**
+ * Folders, then requests, directly under a folder (or the collection root)
+ */
+function TreeLevel({
+  parentId,
+  folders,
+  requests,
+  expanded,
+  onToggle,
+  savedRequestId,
+  isDirty,
+}: {
+  parentId: string | null;
+  folders: Folder[];
+  requests: SavedRequest[];
+  expanded: Set<string>;
+  onToggle: (id: string) => void;
+  savedRequestId: string | null;
+  isDirty: boolean;
+}) {
+  const children = folders
+    .filter((folder) => folder.parentFolderId === parentId)
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+  const items = requests
+    .filter((request) => request.folderId === parentId)
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+
+  return (
+    <div className="ml-3 space-y-0.5 border-l border-border pl-2">
+      {children.map((folder) => (
+        <div key={folder.id}>
+          <TreeToggle
+            label={folder.name}
+            open={expanded.has(folder.id)}
+            onToggle={() => onToggle(folder.id)}
+          />
+          {expanded.has(folder.id) && (
+            <TreeLevel
+              parentId={folder.id}
+              folders={folders}
+              requests={requests}
+              expanded={expanded}
+              onToggle={onToggle}
+              savedRequestId={savedRequestId}
+              isDirty={isDirty}
+            />
+          )}
+        </div>
+      ))}
+      {items.map((request) => (
+        <RequestItem
+          key={request.id}
+          request={request}
+          active={request.id === savedRequestId}
+          dirty={request.id === savedRequestId && isDirty}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Expandable collection or folder row
+ */
+function TreeToggle({
+  label,
+  open,
+  onToggle,
+}: {
+  label: string;
+  open: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <button
+      onClick={onToggle}
+      className="flex w-full items-center gap-1.5 rounded-lg px-2 py-1.5 text-left text-sm text-foreground hover:bg-surface transition-colors"
+      aria-expanded={open}
+    >
+      <ChevronIcon
+        className={`h-3 w-3 flex-shrink-0 transition-transform ${open ? 'rotate-90' : ''}`}
+      />
+      <span className="truncate">{label}</span>
+    </button>
+  );
+}
+
+/**
+ * Saved request row; opens the request in the builder
+ */
+function RequestItem({
+  request,
+  active,
+  dirty,
+}: {
+  request: SavedRequest;
+  active: boolean;
+  dirty: boolean;
+}) {
+  const loadRequest = useRequestStore((state) => state.loadRequest);
+
+  const handleClick = () => {
+    if (active) return;
+    if (
+      useRequestStore.getState().isDirty &&
+      !confirm('Discard the unsaved changes of the current request?')
+    ) {
+      return;
+    }
+    loadRequest(request);
+  };
+
+  return (
+    <div
+      className={`flex items-center gap-2 px-2 py-1.5 rounded-lg cursor-pointer transition-colors ${
+        active ? 'bg-surface' : 'hover:bg-surface'
+      }`}
+      onClick={handleClick}
+    >
+      <span
+        className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${getMethodColor(request.method)}`}
+      >
+        {request.method}
+      </span>
+      <span className="flex-1 truncate text-sm text-foreground">{request.name}</span>
+      {dirty && <span className="h-1.5 w-1.5 rounded-full bg-accent" title="Unsaved changes" />}
+    </div>
+  );
+}
+
+// ============================================================================
+// Icons
+// ============================================================================
+
+function FolderIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+      <path
+        d="M3 7V17C3 18.1046 3.89543 19 5 19H19C20.1046 19 21 18.1046 21 17V9C21 7.89543 20.1046 7 19 7H12L10 5H5C3.89543 5 3 5.89543 3 7Z"
+        stroke="currentColor"
+        strokeWidth="1.5"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+}
+
+function ChevronIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 12 12" fill="none">
+      <path
+        d="M4.5 3L7.5 6L4.5 9"
+        stroke="currentColor"
+        strokeWidth="1.5"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+}
@@ -8,7 +8,7 @@ import { useEffect, useState } from 'react';
 import { getHistory, clearHistory, deleteHistoryEntry } from '../../services/db';
 import { useRequestStore } from '../../stores';
 import { getMethodColor } from '../request-builder/MethodSelector';
-import type { HistoryEntry, HttpMethod } from '../../types';
+import type { HistoryEntry, HttpMethod, TestResult } from '../../types';
 
 /**
  * History list showing past requests grouped by date
@@ -121,6 +121,8 @@ function HistoryItem({
 }) {
   const loadRequest = useRequestStore((state) => state.loadRequest);
   const setResponse = useRequestStore((state) => state.setResponse);
+  const setTestResults = useRequestStore((state) => state.setTestResults);
+  const setAssertionResults = useRequestStore((state) => state.setAssertionResults);
 
   const handleClick = () => {
     // Load request into builder
@@ -146,6 +148,8 @@ function HistoryItem({
         error: entry.error,
         loading: false,
       });
+      setAssertionResults(entry.assertions ?? null);
+      setTestResults(entry.tests ?? null);
     }
   };
 
@@ -174,6 +178,7 @@ function HistoryItem({
             <span className="text-red-400">Error</span>
           ) : null}
           <span>{entry.timing.total}ms</span>
+          <TestCount tests={[...(entry.assertions ?? []), ...(entry.tests ?? [])]} />
           <span>{time}</span>
         </div>
       </div>
@@ -195,6 +200,21 @@ function HistoryItem({
   );
 }
 
+/**
+ * Passed/total count of an entry's assertion and test results (nothing without any)
+ */
+function TestCount({ tests }: { tests: TestResult[] }) {
+  if (tests.length === 0) return null;
+
+  const passed = tests.filter((test) => test.passed).length;
+
+  return (
+    <span className={passed === tests.length ? 'text-emerald-400' : 'text-red-400'}>
+      {passed}/{tests.length} passed
+    </span>
+  );
+}
+
 // ============================================================================
 // Utilities
 // ============================================================================
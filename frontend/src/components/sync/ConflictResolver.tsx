@@ -0,0 +1,127 @@
+/**
+ * Conflict resolver - lets the user pick between local and remote values
+ * for fields edited concurrently on two clients
+ *
+ * @module components/sync/ConflictResolver
+ */
+
+import { useState } from 'react';
+import { useSyncStore } from '../../stores';
+import { Button } from '../ui';
+import type { SyncConflict } from '../../types';
+
+interface ConflictResolverProps {
+  /** Called when the overlay should close */
+  onClose: () => void;
+}
+
+/**
+ * Overlay listing unresolved sync conflicts with side-by-side values
+ */
+export function ConflictResolver({ onClose }: ConflictResolverProps) {
+  const conflicts = useSyncStore((state) => state.conflicts);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-6">
+      <div className="flex max-h-full w-full max-w-3xl flex-col rounded-2xl border border-border bg-bg-elevated shadow-card">
+        <div className="flex items-center justify-between border-b border-border px-5 py-3">
+          <h2 className="text-sm font-semibold text-foreground">Sync conflicts</h2>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-auto p-5">
+          {conflicts.length === 0 ? (
+            <p className="py-8 text-center text-sm text-foreground-muted">All conflicts resolved</p>
+          ) : (
+            conflicts.map((conflict) => <ConflictCard key={conflict.id} conflict={conflict} />)
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+/**
+ * Single conflict with mine/theirs values per field and resolve actions
+ */
+function ConflictCard({ conflict }: { conflict: SyncConflict }) {
+  const resolveConflict = useSyncStore((state) => state.resolveConflict);
+  const [resolving, setResolving] = useState(false);
+
+  const handleResolve = async (choice: 'mine' | 'theirs') => {
+    setResolving(true);
+    try {
+      await resolveConflict(conflict.id, choice);
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      setResolving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-surface p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <div>
+          <span className="text-xs uppercase tracking-wider text-foreground-muted">
+            {conflict.entityType}
+          </span>
+          <h3 className="text-sm font-medium text-foreground">{conflict.entityName}</h3>
+        </div>
+        <span className="text-xs text-foreground-muted">
+          Changed remotely {new Date(conflict.remoteTimestamp).toLocaleString()}
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {conflict.fields.map((field) => (
+          <div key={field}>
+            <div className="mb-1 font-mono text-xs text-foreground-muted">{field}</div>
+            <div className="grid grid-cols-2 gap-2">
+              <ConflictValue label="Mine" value={conflict.local[field]} />
+              <ConflictValue label="Theirs" value={conflict.remote[field]} />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex justify-end gap-2">
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={resolving}
+          onClick={() => handleResolve('mine')}
+        >
+          Keep mine
+        </Button>
+        <Button
+          variant="primary"
+          size="sm"
+          disabled={resolving}
+          onClick={() => handleResolve('theirs')}
+        >
+          Use theirs
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Pretty-printed field value
+ */
+function ConflictValue({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div className="min-w-0 rounded-lg border border-border bg-bg-deep">
+      <div className="border-b border-border px-2 py-1 text-xs text-foreground-muted">{label}</div>
+      <pre className="max-h-48 overflow-auto p-2 font-mono text-xs text-foreground">
+        {JSON.stringify(value, null, 2) ?? 'undefined'}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * Sync component exports
+ * @module components/sync
+ */
+
+export { ConflictResolver } from './ConflictResolver';
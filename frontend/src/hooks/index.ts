@@ -4,3 +4,5 @@
  */
 
 export { useRequest } from './useRequest';
+export { useSync } from './useSync';
+export { useVariables } from './useVariables';
@@ -4,20 +4,44 @@
  * @module hooks/useRequest
  */
 
-import { useCallback } from 'react';
-import { useRequestStore, selectCurrentRequest } from '../stores';
-import { api } from '../services/api';
+import { useCallback, useState } from 'react';
+import {
+  useRequestStore,
+  useEnvironmentStore,
+  useVariableStore,
+  useAuthStore,
+  useScriptStore,
+  selectCurrentRequest,
+} from '../stores';
 import { addHistoryEntry } from '../services/db';
-import type { ProxyRequest, Header } from '../types';
+import {
+  executeSavedRequest,
+  findUnresolvedVariables,
+  prepareSavedRequest,
+  type ExecutableRequest,
+  type ExecutionContext,
+  type ExecutionResult,
+  type PreparedRequest,
+  type VariableUpdates,
+} from '../services/request-executor';
+import { setVariableValues, toScriptValues, type ScriptVariables } from '../services/scripts';
+import type { Header, ProxyResponse, ResponseState } from '../types';
 
 /**
  * Hook for sending HTTP requests through the backend proxy
+ * The collection, folder and request pre-request scripts run first; a failing script
+ * stops the send. A successful response first has its captures saved into variables;
+ * the request's assertions and test script then run on it before it is added to the
+ * history, with their results (see services/request-executor). Requests referencing
+ * undefined {{variables}} are not sent; the missing names are returned instead so the
+ * UI can warn, and sendAnyway sends the request the scripts prepared with them left
+ * as-is, without running the scripts again.
  *
- * @returns Object with send function and loading state
+ * @returns Object with send functions, loading state and missing variable names
  *
  * @example
  * ```tsx
- * const { sendRequest, loading } = useRequest();
+ * const { sendRequest, sendAnyway, missingVariables, loading } = useRequest();
  *
  * const handleSend = () => {
  *   sendRequest();
@@ -25,162 +49,254 @@ import type { ProxyRequest, Header } from '../types';
  * ```
  */
 export function useRequest() {
-  const {
-    loading,
-    setLoading,
-    setResponse,
-  } = useRequestStore();
-
-  const sendRequest = useCallback(async () => {
-    const state = useRequestStore.getState();
-    const currentRequest = selectCurrentRequest(state);
-
-    // Validate and trim URL
-    let url = currentRequest.url.trim();
-    if (!url) {
-      return;
-    }
-
-    // Ensure URL has protocol
-    if (!url.startsWith('http://') && !url.startsWith('https://')) {
-      url = `https://${url}`;
-    }
+  const { loading, setLoading, setResponse } = useRequestStore();
+  const [missingVariables, setMissingVariables] = useState<string[]>([]);
+  const [heldRequest, setHeldRequest] = useState<PreparedRequest | null>(null);
 
+  const prepare = useCallback(async (): Promise<PreparedRequest | null> => {
     setLoading(true);
-    setResponse(null);
-
-    const startTime = Date.now();
-
     try {
-      // Build proxy request
-      const proxyRequest: ProxyRequest = {
-        method: currentRequest.method,
-        url,
-        headers: headersToRecord(currentRequest.headers),
-        body: currentRequest.body?.content ?? null,
-        timeout: currentRequest.timeout,
-      };
-
-      // Send through proxy
-      const response = await api.proxy(proxyRequest);
-
-      // Convert response headers to array format
-      const responseHeaders: Header[] = Object.entries(response.headers).map(
-        ([key, value]) => ({
-          key,
-          value,
-          enabled: true,
-        })
+      const { prepared, logs, error } = await prepareSavedRequest(
+        getEditedRequest(),
+        createExecutionContext()
       );
-
-      // Update response state
-      setResponse({
-        status: response.status,
-        statusText: response.statusText,
-        headers: responseHeaders,
-        body: response.body,
-        bodyTruncated: response.bodyTruncated,
-        size: response.size,
-        timing: response.timing,
-        error: response.error,
-        loading: false,
-      });
-
-      // Save to history
-      try {
-        await addHistoryEntry({
-          request: {
-            method: currentRequest.method,
-            url,
-            headers: currentRequest.headers.filter(h => h.key.trim() !== ''),
-            body: currentRequest.body?.content ?? null,
-            authType: currentRequest.auth?.type ?? 'none',
-          },
-          response: response.error
-            ? null
-            : {
-                status: response.status,
-                statusText: response.statusText,
-                headers: responseHeaders,
-                body: response.body,
-                bodyTruncated: response.bodyTruncated,
-                size: response.size,
-              },
-          timing: response.timing,
-          error: response.error,
-          environmentId: null,
-          savedRequestId: state.savedRequestId ?? null,
-        });
-      } catch (historyError) {
-        console.error('Failed to save to history:', historyError);
-      }
-    } catch (error) {
-      // Handle API client errors
-      const errorMessage = error instanceof Error ? error.message : 'Request failed';
-
-      setResponse({
-        status: 0,
-        statusText: '',
-        headers: [],
-        body: '',
-        bodyTruncated: false,
-        size: 0,
-        timing: {
-          total: Date.now() - startTime,
-        },
-        error: {
-          type: 'unknown',
-          message: errorMessage,
-        },
-        loading: false,
-      });
-
-      // Save failed request to history
-      try {
-        await addHistoryEntry({
-          request: {
-            method: currentRequest.method,
-            url,
-            headers: currentRequest.headers.filter(h => h.key.trim() !== ''),
-            body: currentRequest.body?.content ?? null,
-            authType: currentRequest.auth?.type ?? 'none',
-          },
-          response: null,
-          timing: {
-            total: Date.now() - startTime,
-          },
-          error: {
-            type: 'unknown',
-            message: errorMessage,
-          },
-          environmentId: null,
-          savedRequestId: state.savedRequestId ?? null,
-        });
-      } catch (historyError) {
-        console.error('Failed to save to history:', historyError);
+      useScriptStore.getState().setLogs(logs);
+      if (!prepared) {
+        setResponse(toErrorResponse(error ?? 'Pre-request script failed', 0));
       }
+      return prepared;
     } finally {
       setLoading(false);
     }
   }, [setLoading, setResponse]);
 
+  const send = useCallback(
+    async (prepared: PreparedRequest) => {
+      const state = useRequestStore.getState();
+      const { activeEnvironment } = useEnvironmentStore.getState();
+
+      setLoading(true);
+      setResponse(null);
+      state.setTestResults(null);
+      state.setAssertionResults(null);
+
+      try {
+        const result = await executeSavedRequest(
+          getEditedRequest(),
+          {
+            ...createExecutionContext(),
+            onResponse: (response) => setResponse(toResponseState(response)),
+          },
+          prepared
+        );
+
+        if (!result.response) {
+          setResponse(toErrorResponse(result.error ?? 'Request failed', result.time));
+        }
+        if (result.captures) {
+          state.setCaptureResults(result.captures);
+        }
+        state.setAssertionResults(result.assertions.length > 0 ? result.assertions : null);
+        if (result.tests) {
+          state.setTestResults(result.tests, result.testError);
+        }
+        useScriptStore.getState().appendLogs(result.logs);
+
+        // A request that was never sent has no history
+        if (result.request) {
+          try {
+            await saveToHistory(result, state.savedRequestId, activeEnvironment?.id ?? null);
+          } catch (historyError) {
+            console.error('Failed to save to history:', historyError);
+          }
+        }
+      } finally {
+        setLoading(false);
+      }
+    },
+    [setLoading, setResponse]
+  );
+
+  const sendRequest = useCallback(async () => {
+    const prepared = await prepare();
+    if (!prepared) return;
+
+    const unresolved = findUnresolvedVariables(prepared, createExecutionContext());
+
+    // Hold the request back until the user fixes or dismisses the missing variables
+    setMissingVariables(unresolved);
+    setHeldRequest(unresolved.length > 0 ? prepared : null);
+    if (unresolved.length === 0) {
+      await send(prepared);
+    }
+  }, [prepare, send]);
+
+  const sendAnyway = useCallback(async () => {
+    setMissingVariables([]);
+    setHeldRequest(null);
+    if (heldRequest) {
+      await send(heldRequest);
+    }
+  }, [heldRequest, send]);
+
+  const dismissMissingVariables = useCallback(() => {
+    setMissingVariables([]);
+    setHeldRequest(null);
+  }, []);
+
   return {
     sendRequest,
+    sendAnyway,
+    missingVariables,
+    dismissMissingVariables,
     loading,
   };
 }
 
 /**
- * Convert headers array to Record for proxy request
+ * Request being edited, with its effective auth
  */
-function headersToRecord(headers: Header[]): Record<string, string> {
-  const record: Record<string, string> = {};
+function getEditedRequest(): ExecutableRequest {
+  const state = useRequestStore.getState();
 
-  for (const header of headers) {
-    if (header.enabled && header.key.trim()) {
-      record[header.key] = header.value;
-    }
+  return {
+    ...selectCurrentRequest(state),
+    auth: useAuthStore.getState().getEffectiveAuth().auth,
+    testScript: state.testScript,
+    assertions: state.assertions,
+    captures: state.captures,
+  };
+}
+
+/**
+ * Scripts and variables of the request being edited, from the stores
+ */
+function createExecutionContext(): ExecutionContext {
+  return {
+    scripts: useScriptStore.getState().getScripts(),
+    getScopedVariables: () => useVariableStore.getState().getScopedVariables(),
+    getScriptVariables,
+    hasCollection: useVariableStore.getState().collection !== null,
+    hasEnvironment: useEnvironmentStore.getState().activeEnvironment !== null,
+    saveVariables: saveVariableUpdates,
+  };
+}
+
+/**
+ * Values of every scope, as scripts see them
+ */
+function getScriptVariables(): ScriptVariables {
+  const { globals, collection, runtime } = useVariableStore.getState();
+  const { activeEnvironment } = useEnvironmentStore.getState();
+
+  return {
+    global: toScriptValues(globals),
+    collection: collection && toScriptValues(collection.variables),
+    environment: activeEnvironment && toScriptValues(activeEnvironment.variables),
+    data: {},
+    request: toScriptValues(useRequestStore.getState().variables),
+    runtime: toScriptValues(runtime),
+  };
+}
+
+/**
+ * Persist the values set by scripts or captures in the globals, the collection and
+ * the active environment; runtime values are kept in memory
+ */
+async function saveVariableUpdates(updates: VariableUpdates): Promise<void> {
+  const { globals, collection, setGlobals, setCollectionVariables, setRuntimeValues } =
+    useVariableStore.getState();
+  const { activeEnvironment, updateEnvironment } = useEnvironmentStore.getState();
+
+  if (Object.keys(updates.runtime).length > 0) {
+    setRuntimeValues(updates.runtime);
   }
+  if (Object.keys(updates.global).length > 0) {
+    await setGlobals(setVariableValues(globals, updates.global));
+  }
+  if (collection && Object.keys(updates.collection).length > 0) {
+    await setCollectionVariables(setVariableValues(collection.variables, updates.collection));
+  }
+  if (activeEnvironment && Object.keys(updates.environment).length > 0) {
+    await updateEnvironment(activeEnvironment.id, {
+      variables: setVariableValues(activeEnvironment.variables, updates.environment),
+    });
+  }
+}
 
-  return record;
+/**
+ * Add a sent request to the history, with secret values redacted from its response
+ */
+async function saveToHistory(
+  result: ExecutionResult,
+  savedRequestId: string | null,
+  environmentId: string | null
+): Promise<void> {
+  const { request, response, redact } = result;
+  if (!request) return;
+
+  await addHistoryEntry({
+    request,
+    response:
+      response && !response.error
+        ? {
+            status: response.status,
+            statusText: response.statusText,
+            headers: toHeaders(response.headers).map((h) => ({ ...h, value: redact(h.value) })),
+            body: redact(response.body),
+            bodyTruncated: response.bodyTruncated,
+            size: response.size,
+          }
+        : null,
+    timing: response?.timing ?? { total: result.time },
+    error: response
+      ? response.error
+      : { type: 'unknown', message: result.error ?? 'Request failed' },
+    environmentId,
+    savedRequestId,
+    dynamicVariables: result.dynamicVariables,
+    assertions: result.assertions.length > 0 ? result.assertions : undefined,
+    tests: result.tests ?? undefined,
+  });
+}
+
+/**
+ * Response as shown in the response viewer
+ */
+function toResponseState(response: ProxyResponse): ResponseState {
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: toHeaders(response.headers),
+    body: response.body,
+    bodyTruncated: response.bodyTruncated,
+    size: response.size,
+    timing: response.timing,
+    error: response.error,
+    loading: false,
+  };
+}
+
+/**
+ * Response viewer state for a request that got no response
+ */
+function toErrorResponse(message: string, total: number): ResponseState {
+  return {
+    status: 0,
+    statusText: '',
+    headers: [],
+    body: '',
+    bodyTruncated: false,
+    size: 0,
+    timing: { total },
+    error: { type: 'unknown', message },
+    loading: false,
+  };
+}
+
+/**
+ * Convert response headers to array format
+ */
+function toHeaders(headers: Record<string, string>): Header[] {
+  return Object.entries(headers).map(([key, value]) => ({ key, value, enabled: true }));
 }
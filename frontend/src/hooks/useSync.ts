@@ -0,0 +1,106 @@
+/**
+ * useSync hook - runs the background sync loop
+ *
+ * @module hooks/useSync
+ */
+
+import { useEffect } from 'react';
+import { useSyncStore } from '../stores';
+import { countOutboxEntries } from '../services/db';
+import { subscribeToProject } from '../services/sync-live';
+
+/** Interval between sync ticks (push outbox + poll for changes) */
+const SYNC_INTERVAL_MS = 5000;
+
+/** Safety-net poll interval while every project's live channel is open */
+const LIVE_POLL_INTERVAL_MS = 60000;
+
+/**
+ * Hook that keeps joined sync projects in step with the server
+ * Each project subscribes to its live channel, which triggers a pull as soon as
+ * another client pushes. While all channels are open, ticks only push local edits
+ * and poll occasionally; when a channel drops, polling resumes at the normal rate.
+ * Also syncs on mount and immediately when the browser comes back online so changes
+ * queued while offline are replayed.
+ *
+ * @returns Current sync status and number of unpushed changes
+ *
+ * @example
+ * ```tsx
+ * const { status, pendingChanges } = useSync();
+ * ```
+ */
+export function useSync() {
+  const status = useSyncStore((state) => state.status);
+  const pendingChanges = useSyncStore((state) => state.pendingChanges);
+  // Projects to keep a live channel open for, keyed by token so a renewed one reconnects
+  const liveKeys = useSyncStore((state) =>
+    state.projects
+      .filter((p) => !p.needsRejoin)
+      .map((p) => `${p.id}:${p.token}`)
+      .join(',')
+  );
+
+  useEffect(() => {
+    const { loadProjects, loadConflicts, syncNow } = useSyncStore.getState();
+
+    loadConflicts();
+    loadProjects().then(syncNow);
+
+    const tick = async () => {
+      const { projects, liveProjects, lastSyncedAt } = useSyncStore.getState();
+      const allLive = projects.length > 0 && projects.every((p) => liveProjects.includes(p.id));
+      const pollDue =
+        !lastSyncedAt || Date.now() - Date.parse(lastSyncedAt) >= LIVE_POLL_INTERVAL_MS;
+
+      if (allLive && !pollDue && (await countOutboxEntries()) === 0) return;
+      syncNow();
+    };
+
+    const interval = window.setInterval(tick, SYNC_INTERVAL_MS);
+    const handleOnline = () => {
+      syncNow();
+    };
+    const handleOffline = () => {
+      useSyncStore.setState((state) => ({
+        status: state.projects.length > 0 ? 'offline' : state.status,
+      }));
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // (Re)subscribe to live channels whenever the set of joined projects changes
+  // Projects whose token expired are left out, so their channel stops reconnecting
+  useEffect(() => {
+    const { projects, syncNow, setLive, setPresence } = useSyncStore.getState();
+
+    const unsubscribers = projects
+      .filter((project) => !project.needsRejoin)
+      .map((project) =>
+        subscribeToProject(project, {
+          onChanges: () => {
+            syncNow();
+          },
+          onPresence: (clients) => setPresence(project.id, clients),
+          onStatusChange: (live) => setLive(project.id, live),
+        })
+      );
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [liveKeys]);
+
+  return {
+    status,
+    pendingChanges,
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * useVariables hook - variables available for {{variable}} substitution
+ *
+ * @module hooks/useVariables
+ */
+
+import { useMemo } from 'react';
+import { useEnvironmentStore, useRequestStore, useVariableStore } from '../stores';
+import { mergeVariableScopes, type ScopedVariables } from '../services/variable-resolver';
+
+/**
+ * Hook returning the variables of every scope merged by precedence
+ * (request > environment > collection > global), with the source of each value.
+ * Recomputed only when one of the scopes changes.
+ *
+ * @returns Effective values and their sources
+ *
+ * @example
+ * ```tsx
+ * const { values, sources } = useVariables();
+ * const baseUrl = values.get('baseUrl');
+ * const scope = sources.get('baseUrl')?.scope;
+ * ```
+ */
+export function useVariables(): ScopedVariables {
+  const globals = useVariableStore((state) => state.globals);
+  const collection = useVariableStore((state) => state.collection);
+  const activeEnvironment = useEnvironmentStore((state) => state.activeEnvironment);
+  const requestVariables = useRequestStore((state) => state.variables);
+
+  return useMemo(
+    () =>
+      mergeVariableScopes({
+        global: globals,
+        collection: collection?.variables ?? [],
+        environment: activeEnvironment?.variables ?? [],
+        request: requestVariables,
+      }),
+    [globals, collection, activeEnvironment, requestVariables]
+  );
+}
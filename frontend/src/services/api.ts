@@ -4,8 +4,24 @@
  * @module services/api
  */
 
-import type { ProxyRequest, ProxyResponse } from '../types';
-import { ProxyResponseSchema } from '../types/schemas';
+import type {
+  OAuthTokenRequest,
+  OAuthTokenResponse,
+  ProxyRequest,
+  ProxyResponse,
+  SyncChange,
+  SyncChangesResponse,
+  SyncProjectInfo,
+  SyncPushResult,
+  SyncSnapshot,
+} from '../types';
+import {
+  OAuthTokenResponseSchema,
+  ProxyResponseSchema,
+  SyncChangesResponseSchema,
+  SyncPushResultSchema,
+  SyncSnapshotSchema,
+} from '../types/schemas';
 
 /** Backend API base URL - empty string for same-origin (production), localhost for dev */
 const API_BASE_URL = import.meta.env.VITE_API_URL ?? '';
@@ -56,6 +72,47 @@ export const api = {
     return parsed.data;
   },
 
+  /**
+   * Exchange an OAuth 2.0 grant for an access token through the proxy
+   *
+   * @param request - Grant type, token URL, client and grant parameters
+   * @returns Promise resolving to the token
+   * @throws ApiError with the provider's error description if the grant is rejected
+   *
+   * @example
+   * ```typescript
+   * const token = await api.requestOAuthToken({
+   *   grantType: 'client_credentials',
+   *   tokenUrl: 'https://auth.example.com/oauth/token',
+   *   clientId: 'my-client',
+   *   clientSecret: 'secret',
+   *   clientAuth: 'body',
+   * });
+   * ```
+   */
+  async requestOAuthToken(request: OAuthTokenRequest): Promise<OAuthTokenResponse> {
+    const response = await fetch(`${API_BASE_URL}/api/oauth/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: 'Token request failed' }));
+      throw new ApiError(response.status, error.message ?? 'Token request failed');
+    }
+
+    const parsed = OAuthTokenResponseSchema.safeParse(await response.json());
+    if (!parsed.success) {
+      console.error('Invalid token response:', parsed.error);
+      throw new ApiError(500, 'Invalid response from proxy server');
+    }
+
+    return parsed.data;
+  },
+
   /**
    * Check if the backend server is healthy
    *
@@ -79,7 +136,7 @@ export const api = {
    * @param password - Project password
    * @returns Promise resolving to project info with token
    */
-  async createSyncProject(name: string, password: string): Promise<{ id: string; token: string }> {
+  async createSyncProject(name: string, password: string): Promise<SyncProjectInfo> {
     const response = await fetch(`${API_BASE_URL}/api/sync/projects`, {
       method: 'POST',
       headers: {
@@ -103,7 +160,7 @@ export const api = {
    * @param password - Project password
    * @returns Promise resolving to project info with token
    */
-  async joinSyncProject(name: string, password: string): Promise<{ id: string; token: string }> {
+  async joinSyncProject(name: string, password: string): Promise<SyncProjectInfo> {
     const response = await fetch(`${API_BASE_URL}/api/sync/join`, {
       method: 'POST',
       headers: {
@@ -120,18 +177,49 @@ export const api = {
     return response.json();
   },
 
+  /**
+   * Exchange a still-valid project token for a fresh one
+   *
+   * @param projectId - Project ID
+   * @param token - Current auth token
+   * @returns Promise resolving to project info with the new token
+   * @throws ApiError (401) if the token has already expired
+   */
+  async refreshSyncToken(projectId: string, token: string): Promise<SyncProjectInfo> {
+    const response = await fetch(`${API_BASE_URL}/api/sync/projects/${projectId}/token`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: 'Failed to renew token' }));
+      throw new ApiError(response.status, error.message);
+    }
+
+    return response.json();
+  },
+
   /**
    * Get changes from sync server
    *
    * @param projectId - Project ID
    * @param token - Auth token
-   * @param since - ISO timestamp to get changes since
-   * @returns Promise resolving to array of changes
+   * @param since - Cursor returned by a previous call
+   * @returns Promise resolving to the changes and the cursor for the next call
    */
-  async getSyncChanges(projectId: string, token: string, since?: string): Promise<unknown[]> {
-    const url = new URL(`${API_BASE_URL}/api/sync/projects/${projectId}/changes`);
-    if (since) {
-      url.searchParams.set('since', since);
+  async getSyncChanges(
+    projectId: string,
+    token: string,
+    since?: number
+  ): Promise<SyncChangesResponse> {
+    const url = new URL(
+      `${API_BASE_URL}/api/sync/projects/${projectId}/changes`,
+      window.location.origin
+    );
+    if (since !== undefined) {
+      url.searchParams.set('since', String(since));
     }
 
     const response = await fetch(url.toString(), {
@@ -146,7 +234,42 @@ export const api = {
       throw new ApiError(response.status, error.message);
     }
 
-    return response.json();
+    const parsed = SyncChangesResponseSchema.safeParse(await response.json());
+    if (!parsed.success) {
+      console.error('Invalid sync changes response:', parsed.error);
+      throw new ApiError(500, 'Invalid response from sync server');
+    }
+
+    return parsed.data;
+  },
+
+  /**
+   * Get a full snapshot of a sync project
+   *
+   * @param projectId - Project ID
+   * @param token - Auth token
+   * @returns Promise resolving to all live entities and the cursor for polling
+   */
+  async getSyncSnapshot(projectId: string, token: string): Promise<SyncSnapshot> {
+    const response = await fetch(`${API_BASE_URL}/api/sync/projects/${projectId}/snapshot`, {
+      method: 'GET',
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: 'Failed to get snapshot' }));
+      throw new ApiError(response.status, error.message);
+    }
+
+    const parsed = SyncSnapshotSchema.safeParse(await response.json());
+    if (!parsed.success) {
+      console.error('Invalid sync snapshot response:', parsed.error);
+      throw new ApiError(500, 'Invalid response from sync server');
+    }
+
+    return parsed.data;
   },
 
   /**
@@ -155,13 +278,13 @@ export const api = {
    * @param projectId - Project ID
    * @param token - Auth token
    * @param changes - Array of changes to push
-   * @returns Promise resolving when complete
+   * @returns Promise resolving to the number of accepted changes
    */
   async pushSyncChanges(
     projectId: string,
     token: string,
-    changes: unknown[]
-  ): Promise<void> {
+    changes: SyncChange[]
+  ): Promise<SyncPushResult> {
     const response = await fetch(`${API_BASE_URL}/api/sync/projects/${projectId}/changes`, {
       method: 'POST',
       headers: {
@@ -175,6 +298,35 @@ export const api = {
       const error = await response.json().catch(() => ({ message: 'Failed to push changes' }));
       throw new ApiError(response.status, error.message);
     }
+
+    const parsed = SyncPushResultSchema.safeParse(await response.json());
+    if (!parsed.success) {
+      console.error('Invalid sync push response:', parsed.error);
+      throw new ApiError(500, 'Invalid response from sync server');
+    }
+
+    return parsed.data;
+  },
+
+  /**
+   * Open the live channel of a sync project
+   * The token goes in the query string because WebSocket handshakes cannot carry headers.
+   *
+   * @param projectId - Project ID
+   * @param token - Auth token
+   * @param clientId - This client's sync id (its own changes are not echoed back)
+   * @returns WebSocket receiving SyncLiveMessage JSON
+   */
+  openSyncLive(projectId: string, token: string, clientId: string): WebSocket {
+    const url = new URL(
+      `${API_BASE_URL}/api/sync/projects/${projectId}/live`,
+      window.location.origin
+    );
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+    url.searchParams.set('clientId', clientId);
+    url.searchParams.set('token', token);
+
+    return new WebSocket(url);
   },
 };
 
@@ -0,0 +1,265 @@
+/**
+ * Assertions - no-code checks of a response, evaluated after each send
+ *
+ * Each assertion reads one value of the response (status, a header, a JSONPath
+ * match, the response time or the body size) and compares it with the expected
+ * value. Results have the same shape as test script results.
+ *
+ * @module services/assertions
+ */
+
+import { resolveString, type VariableMap } from './variable-resolver';
+import { queryJsonPath } from './json-path';
+import type {
+  Assertion,
+  AssertionOperator,
+  AssertionSource,
+  ProxyResponse,
+  TestResult,
+} from '../types';
+
+/**
+ * Response an assertion is evaluated on
+ */
+export type AssertionResponse = Pick<
+  ProxyResponse,
+  'status' | 'headers' | 'body' | 'size' | 'timing'
+>;
+
+/** Operators each source supports, the first being the default */
+export const ASSERTION_OPERATORS: Record<AssertionSource, AssertionOperator[]> = {
+  status: ['equals', 'notEquals', 'below', 'above'],
+  header: ['exists', 'equals', 'notEquals', 'contains', 'matches'],
+  jsonPath: ['exists', 'equals', 'notEquals', 'contains', 'matches', 'below', 'above'],
+  responseTime: ['below', 'above'],
+  bodySize: ['below', 'above'],
+};
+
+/** Display names of the sources */
+export const ASSERTION_SOURCE_LABELS: Record<AssertionSource, string> = {
+  status: 'Status',
+  header: 'Header',
+  jsonPath: 'JSONPath',
+  responseTime: 'Response time',
+  bodySize: 'Body size',
+};
+
+/** Display names of the operators */
+export const ASSERTION_OPERATOR_LABELS: Record<AssertionOperator, string> = {
+  equals: 'equals',
+  notEquals: 'does not equal',
+  contains: 'contains',
+  exists: 'exists',
+  matches: 'matches regex',
+  below: 'is below',
+  above: 'is above',
+};
+
+/** Unit of the limit of numeric sources */
+const SOURCE_UNITS: Partial<Record<AssertionSource, string>> = {
+  responseTime: 'ms',
+  bodySize: 'bytes',
+};
+
+/**
+ * Evaluate the enabled assertions of a request on its response
+ * {{variables}} in the property and value are resolved first.
+ *
+ * @param assertions - Assertions of the request
+ * @param response - Response received
+ * @param variables - Variable values for {{references}}
+ * @returns One result per enabled assertion, in order
+ *
+ * @example
+ * ```typescript
+ * evaluateAssertions(
+ *   [{ source: 'status', property: '', operator: 'equals', value: '200', enabled: true }],
+ *   response,
+ *   variables
+ * );
+ * // => [{ name: 'Status equals 200', passed: true, error: null }]
+ * ```
+ */
+export function evaluateAssertions(
+  assertions: Assertion[],
+  response: AssertionResponse,
+  variables: VariableMap
+): TestResult[] {
+  // The body is parsed once, and only if a JSONPath assertion needs it
+  let json: { value: unknown } | null | undefined;
+  const parseBody = () => {
+    if (json === undefined) {
+      try {
+        json = { value: JSON.parse(response.body) as unknown };
+      } catch {
+        json = null;
+      }
+    }
+    return json;
+  };
+
+  return assertions
+    .filter((assertion) => assertion.enabled)
+    .map((template) => {
+      const assertion: Assertion = {
+        ...template,
+        property: resolveString(template.property, variables),
+        value: resolveString(template.value, variables),
+      };
+      const name = describeAssertion(assertion);
+
+      try {
+        const error = check(assertion, response, parseBody);
+        return { name, passed: error === null, error };
+      } catch (error) {
+        return {
+          name,
+          passed: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
+}
+
+/**
+ * Readable form of an assertion, e.g. "Header Content-Type contains json"
+ *
+ * @param assertion - Assertion to describe
+ * @returns Description used as the result name
+ */
+export function describeAssertion(assertion: Assertion): string {
+  const { source, property, operator, value } = assertion;
+  const subject =
+    source === 'header' || source === 'jsonPath'
+      ? `${ASSERTION_SOURCE_LABELS[source]} ${property}`
+      : ASSERTION_SOURCE_LABELS[source];
+  if (operator === 'exists') {
+    return `${subject} exists`;
+  }
+
+  const unit = SOURCE_UNITS[source];
+  return `${subject} ${ASSERTION_OPERATOR_LABELS[operator]} ${value}${unit ? ` ${unit}` : ''}`;
+}
+
+/**
+ * Create a new assertion on a source, with its default operator
+ *
+ * @param source - Response value to check
+ * @returns Enabled assertion with empty property and value
+ */
+export function createAssertion(source: AssertionSource): Assertion {
+  return {
+    source,
+    property: '',
+    operator: ASSERTION_OPERATORS[source][0] ?? 'equals',
+    value: '',
+    enabled: true,
+  };
+}
+
+/**
+ * Check one resolved assertion
+ *
+ * @returns null if it holds, otherwise why it does not
+ * @throws Error if the assertion itself is invalid (operator, number, regex or JSONPath)
+ */
+function check(
+  assertion: Assertion,
+  response: AssertionResponse,
+  parseBody: () => { value: unknown } | null
+): string | null {
+  const { source, property, operator } = assertion;
+  if (!ASSERTION_OPERATORS[source].includes(operator)) {
+    throw new Error(`${ASSERTION_SOURCE_LABELS[source]} does not support "${operator}"`);
+  }
+
+  switch (source) {
+    case 'status':
+      return compare(response.status, assertion);
+    case 'responseTime':
+      return compare(response.timing.total, assertion);
+    case 'bodySize':
+      return compare(response.size, assertion);
+    case 'header': {
+      const name = property.trim().toLowerCase();
+      const header = Object.entries(response.headers).find(([key]) => key.toLowerCase() === name);
+      if (!header) return `Header ${property} is missing`;
+      return operator === 'exists' ? null : compare(header[1], assertion);
+    }
+    case 'jsonPath': {
+      const json = parseBody();
+      if (!json) return 'Response body is not JSON';
+      const matches = queryJsonPath(json.value, property);
+      if (matches.length === 0) return `Nothing matches ${property}`;
+      return operator === 'exists' ? null : compare(matches[0], assertion);
+    }
+  }
+}
+
+/**
+ * Compare an actual value with the assertion's expected value
+ *
+ * @returns null if the comparison holds, otherwise the actual value
+ */
+function compare(actual: unknown, assertion: Assertion): string | null {
+  const { operator, value } = assertion;
+  // Strings compare as-is, other JSON values in their JSON form
+  const text = typeof actual === 'string' ? actual : JSON.stringify(actual);
+
+  let passed: boolean;
+  switch (operator) {
+    case 'equals':
+      passed = text === value;
+      break;
+    case 'notEquals':
+      passed = text !== value;
+      break;
+    case 'contains':
+      passed = text.includes(value);
+      break;
+    case 'matches':
+      passed = toRegExp(value).test(text);
+      break;
+    case 'below':
+      passed = toNumber(actual) < toLimit(value);
+      break;
+    case 'above':
+      passed = toNumber(actual) > toLimit(value);
+      break;
+    case 'exists':
+      passed = true;
+      break;
+  }
+
+  return passed ? null : `Got ${text}`;
+}
+
+/**
+ * Numeric form of an actual value (NaN for anything but numbers and numeric strings)
+ */
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  return typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+}
+
+/**
+ * Parse the limit of a below/above assertion
+ */
+function toLimit(value: string): number {
+  const limit = Number(value);
+  if (value.trim() === '' || Number.isNaN(limit)) {
+    throw new Error(`"${value}" is not a number`);
+  }
+  return limit;
+}
+
+/**
+ * Compile the pattern of a matches assertion
+ */
+function toRegExp(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    throw new Error(`Invalid regex "${pattern}"`);
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Auth - effective auth resolution and injection into outgoing requests
+ *
+ * A request without its own auth (`auth: null`) inherits from its folder, then
+ * the parent folders, then the collection. The first level with an auth config wins,
+ * so `{ type: 'none' }` at any level stops inheritance.
+ *
+ * @module services/auth
+ */
+
+import { signAwsRequest } from './aws-sigv4';
+import { createJwt, signHmac } from './signing';
+import type { AuthConfig, Header, ProxyRequest, RequestState, SignaturePlacement } from '../types';
+
+/**
+ * Level an auth config can be set at, from nearest to farthest
+ */
+export type AuthLevel = 'request' | 'folder' | 'collection';
+
+/** Display names of the auth levels */
+export const AUTH_LEVEL_LABELS: Record<AuthLevel, string> = {
+  request: 'Request',
+  folder: 'Folder',
+  collection: 'Collection',
+};
+
+/** Display names of the auth types */
+export const AUTH_TYPE_LABELS: Record<AuthConfig['type'], string> = {
+  none: 'No Auth',
+  bearer: 'Bearer Token',
+  'api-key': 'API Key',
+  basic: 'Basic Auth',
+  digest: 'Digest Auth',
+  oauth2: 'OAuth 2.0',
+  'aws-sigv4': 'AWS Signature',
+  hmac: 'HMAC Signature',
+  jwt: 'JWT',
+};
+
+/**
+ * Folder or collection a request can inherit auth from
+ */
+export interface AuthSource {
+  /** Level of the source */
+  level: AuthLevel;
+  /** Folder or collection id */
+  id: string;
+  /** Folder or collection name (shown in the UI) */
+  name: string;
+  /** Auth set at this level (null = inherit from the next one) */
+  auth: AuthConfig | null;
+}
+
+/**
+ * Auth that applies to a request and where it comes from
+ */
+export interface EffectiveAuth {
+  /** Auth to apply */
+  auth: AuthConfig;
+  /** Level providing it (null = not set anywhere) */
+  source: AuthSource | null;
+}
+
+/**
+ * Find the auth that applies to a request
+ *
+ * @param requestAuth - Auth set on the request (null = inherit)
+ * @param parents - Folder chain then collection, nearest first
+ * @returns Effective auth; `{ type: 'none' }` with no source if no level sets one
+ *
+ * @example
+ * ```typescript
+ * const { auth, source } = resolveEffectiveAuth(null, [
+ *   { level: 'folder', id: folderId, name: 'Users', auth: null },
+ *   { level: 'collection', id: collectionId, name: 'API', auth: { type: 'bearer', bearer } },
+ * ]);
+ * source?.level; // => 'collection'
+ * ```
+ */
+export function resolveEffectiveAuth(
+  requestAuth: AuthConfig | null,
+  parents: AuthSource[]
+): EffectiveAuth {
+  if (requestAuth) {
+    return { auth: requestAuth, source: null };
+  }
+
+  const source = parents.find((parent) => parent.auth !== null);
+  return source?.auth ? { auth: source.auth, source } : { auth: { type: 'none' }, source: null };
+}
+
+/**
+ * Inject a resolved auth config into the request's headers or URL
+ * Headers set explicitly on the request take precedence over the injected one.
+ * Digest auth is left to the proxy, which answers the server's challenge.
+ * OAuth 2.0 needs the access token, obtained beforehand (see services/oauth2).
+ * Signatures (AWS, HMAC, JWT) are added last, to the proxy request (see signRequest).
+ *
+ * @param request - Request with variables already substituted
+ * @param accessToken - OAuth 2.0 access token (without it OAuth 2.0 adds nothing)
+ * @returns Request with the auth header or query parameter added
+ *
+ * @example
+ * ```typescript
+ * applyAuth({ ...request, auth: { type: 'bearer', bearer: { token: 'abc' } } }).headers;
+ * // => [..., { key: 'Authorization', value: 'Bearer abc', enabled: true }]
+ * ```
+ */
+export function applyAuth(request: RequestState, accessToken?: string): RequestState {
+  const { auth } = request;
+  if (!auth) return request;
+
+  switch (auth.type) {
+    case 'none':
+      return request;
+
+    case 'bearer':
+      if (!auth.bearer.token) return request;
+      return {
+        ...request,
+        headers: withHeader(request.headers, 'Authorization', `Bearer ${auth.bearer.token}`),
+      };
+
+    case 'api-key':
+      if (!auth.apiKey.key) return request;
+      return auth.apiKey.in === 'header'
+        ? { ...request, headers: withHeader(request.headers, auth.apiKey.key, auth.apiKey.value) }
+        : { ...request, url: withQueryParam(request.url, auth.apiKey.key, auth.apiKey.value) };
+
+    case 'basic': {
+      const { username, password } = auth.basic;
+      if (!username && !password) return request;
+      return {
+        ...request,
+        headers: withHeader(
+          request.headers,
+          'Authorization',
+          `Basic ${encodeBase64(`${username}:${password}`)}`
+        ),
+      };
+    }
+
+    case 'digest':
+      return request;
+
+    case 'oauth2':
+      if (!accessToken) return request;
+      return {
+        ...request,
+        headers: withHeader(
+          request.headers,
+          'Authorization',
+          `${auth.oauth2.headerPrefix} ${accessToken}`.trim()
+        ),
+      };
+
+    case 'aws-sigv4':
+    case 'hmac':
+    case 'jwt':
+      return request;
+  }
+}
+
+/**
+ * Sign the final proxy request for auth types whose value depends on it
+ * Runs after every other change so the signature covers exactly what is sent;
+ * the signature or token replaces a header of the same name.
+ *
+ * @param request - Request exactly as it is handed to the proxy
+ * @param auth - Resolved auth config
+ * @returns Promise resolving to the signed request (unchanged for other auth types)
+ * @throws Error if the signing settings are invalid (e.g. a malformed JWT template)
+ *
+ * @example
+ * ```typescript
+ * const response = await api.proxy(await signRequest(proxyRequest, currentRequest.auth));
+ * ```
+ */
+export async function signRequest(
+  request: ProxyRequest,
+  auth: AuthConfig | null
+): Promise<ProxyRequest> {
+  switch (auth?.type) {
+    case 'aws-sigv4':
+      return signAwsRequest(request, auth.awsSigV4);
+
+    case 'hmac': {
+      const { signature, timestamp } = await signHmac(request, auth.hmac);
+      const stamped = auth.hmac.timestampHeader
+        ? { ...request, headers: setHeader(request.headers, auth.hmac.timestampHeader, timestamp) }
+        : request;
+      return placeSignature(stamped, auth.hmac.placement, signature);
+    }
+
+    case 'jwt':
+      return placeSignature(request, auth.jwt.placement, await createJwt(auth.jwt));
+
+    default:
+      return request;
+  }
+}
+
+/**
+ * Add a header unless an enabled one with the same name exists
+ */
+function withHeader(headers: Header[], key: string, value: string): Header[] {
+  const lowerKey = key.toLowerCase();
+  if (headers.some((h) => h.enabled && h.key.trim().toLowerCase() === lowerKey)) {
+    return headers;
+  }
+  return [...headers, { key, value, enabled: true }];
+}
+
+/**
+ * Add a signature or token to a proxy request's header or query string
+ */
+function placeSignature(
+  request: ProxyRequest,
+  placement: SignaturePlacement,
+  value: string
+): ProxyRequest {
+  const name = placement.name.trim();
+  if (!name) return request;
+
+  const placed = placement.prefix ? `${placement.prefix} ${value}` : value;
+  return placement.in === 'header'
+    ? { ...request, headers: setHeader(request.headers, name, placed) }
+    : { ...request, url: withQueryParam(request.url, name, placed) };
+}
+
+/**
+ * Set a header in a header record, replacing any spelling of its name
+ */
+function setHeader(
+  headers: Record<string, string> | undefined,
+  key: string,
+  value: string
+): Record<string, string> {
+  const lowerKey = key.toLowerCase();
+  const others = Object.entries(headers ?? {}).filter(
+    ([name]) => name.trim().toLowerCase() !== lowerKey
+  );
+  return { ...Object.fromEntries(others), [key]: value };
+}
+
+/**
+ * Base64-encode text as UTF-8 (btoa alone only handles Latin-1)
+ */
+function encodeBase64(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Append a query parameter, keeping the fragment at the end
+ */
+function withQueryParam(url: string, key: string, value: string): string {
+  const param = `${encodeURIComponent(key)}=${encodeURIComponent(value)}`;
+  const hashIndex = url.indexOf('#');
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+  const separator = !base.includes('?') ? '?' : /[?&]$/.test(base) ? '' : '&';
+  return `${base}${separator}${param}${hash}`;
+}
@@ -0,0 +1,200 @@
+/**
+ * Captures - response values saved into variables after each successful send
+ *
+ * A capture reads one value of the response (a JSONPath match, a header, a regex
+ * match on the body or a cookie) and writes it to a variable of the active
+ * environment, the collection or the runtime scope, so the next request can use
+ * it as a {{variable}}.
+ *
+ * @module services/captures
+ */
+
+import { resolveString, type VariableMap } from './variable-resolver';
+import { queryJsonPath } from './json-path';
+import { VariableSchema } from '../types/schemas';
+import type { Capture, CaptureScope, CaptureSource, ProxyResponse } from '../types';
+
+/**
+ * Response values are captured from
+ */
+export type CaptureResponse = Pick<ProxyResponse, 'headers' | 'body'>;
+
+/**
+ * Outcome of one capture
+ */
+export interface CaptureResult {
+  /** Variable written */
+  variable: string;
+  scope: CaptureScope;
+  /** Value captured (null = nothing captured, the variable is left as it was) */
+  value: string | null;
+  /** Why nothing was captured */
+  error: string | null;
+}
+
+/** Display names of the sources */
+export const CAPTURE_SOURCE_LABELS: Record<CaptureSource, string> = {
+  jsonPath: 'JSONPath',
+  header: 'Header',
+  regex: 'Regex',
+  cookie: 'Cookie',
+};
+
+/** Display names of the scopes */
+export const CAPTURE_SCOPE_LABELS: Record<CaptureScope, string> = {
+  environment: 'Environment',
+  collection: 'Collection',
+  runtime: 'Runtime',
+};
+
+/**
+ * Extract the values of the enabled captures of a request from its response
+ * {{variables}} in the expression are resolved first.
+ *
+ * @param captures - Captures of the request
+ * @param response - Response received
+ * @param variables - Variable values for {{references}}
+ * @returns One result per enabled capture with a variable name, in order
+ *
+ * @example
+ * ```typescript
+ * extractCaptures(
+ *   [{ variable: 'userId', source: 'jsonPath', expression: '$.id', scope: 'environment', enabled: true }],
+ *   response,
+ *   variables
+ * );
+ * // => [{ variable: 'userId', scope: 'environment', value: '42', error: null }]
+ * ```
+ */
+export function extractCaptures(
+  captures: Capture[],
+  response: CaptureResponse,
+  variables: VariableMap
+): CaptureResult[] {
+  return captures
+    .filter((capture) => capture.enabled && capture.variable.trim() !== '')
+    .map((capture) => {
+      const variable = capture.variable.trim();
+      const expression = resolveString(capture.expression, variables);
+      const result = { variable, scope: capture.scope };
+
+      if (!VariableSchema.shape.key.safeParse(variable).success) {
+        return { ...result, value: null, error: `Invalid variable name "${variable}"` };
+      }
+
+      try {
+        const value = extractValue(capture.source, expression, response);
+        return value === null
+          ? {
+              ...result,
+              value,
+              error: `${CAPTURE_SOURCE_LABELS[capture.source]} ${expression} not found`,
+            }
+          : { ...result, value, error: null };
+      } catch (error) {
+        return {
+          ...result,
+          value: null,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
+}
+
+/**
+ * Captured values by scope, ready to save (later captures of a name win)
+ *
+ * @param results - Capture results
+ * @returns Values by variable name for each scope
+ */
+export function groupCaptures(
+  results: CaptureResult[]
+): Record<CaptureScope, Record<string, string>> {
+  const values: Record<CaptureScope, Record<string, string>> = {
+    environment: {},
+    collection: {},
+    runtime: {},
+  };
+
+  for (const { variable, scope, value } of results) {
+    if (value !== null) {
+      values[scope][variable] = value;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Create a new capture into the active environment
+ *
+ * @returns Enabled JSONPath capture with empty variable and expression
+ */
+export function createCapture(): Capture {
+  return { variable: '', source: 'jsonPath', expression: '', scope: 'environment', enabled: true };
+}
+
+/**
+ * Read one value from the response
+ *
+ * @returns The value, or null if the response does not have it
+ * @throws Error if the body is not JSON for a JSONPath, or the expression is invalid
+ */
+function extractValue(
+  source: CaptureSource,
+  expression: string,
+  response: CaptureResponse
+): string | null {
+  switch (source) {
+    case 'jsonPath': {
+      let json: unknown;
+      try {
+        json = JSON.parse(response.body);
+      } catch {
+        throw new Error('Response body is not JSON');
+      }
+      const matches = queryJsonPath(json, expression);
+      if (matches.length === 0) return null;
+      // Strings are captured as-is, other JSON values in their JSON form
+      return typeof matches[0] === 'string' ? matches[0] : JSON.stringify(matches[0]);
+    }
+    case 'header':
+      return findHeader(response.headers, expression);
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(expression);
+      } catch {
+        throw new Error(`Invalid regex "${expression}"`);
+      }
+      // The first group if the pattern has one, otherwise the whole match
+      const match = pattern.exec(response.body);
+      return match ? (match[1] ?? match[0]) : null;
+    }
+    case 'cookie':
+      return findCookie(response.headers, expression.trim());
+  }
+}
+
+/**
+ * Case-insensitive header lookup
+ */
+function findHeader(headers: Record<string, string>, name: string): string | null {
+  const key = name.trim().toLowerCase();
+  const header = Object.entries(headers).find(([headerName]) => headerName.toLowerCase() === key);
+  return header ? header[1] : null;
+}
+
+/**
+ * Value of a cookie set by the response (the proxy puts one Set-Cookie per line)
+ */
+function findCookie(headers: Record<string, string>, name: string): string | null {
+  for (const line of (findHeader(headers, 'set-cookie') ?? '').split('\n')) {
+    const [pair = ''] = line.split(';');
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === name) {
+      return pair.slice(separator + 1).trim();
+    }
+  }
+  return null;
+}
@@ -0,0 +1,143 @@
+/**
+ * Data files - CSV or JSON rows driving the iterations of a collection run
+ *
+ * Each row is one iteration; its columns become variables of the iteration data
+ * scope while the collection's requests run.
+ *
+ * @module services/data-file
+ */
+
+import { VariableSchema } from '../types/schemas';
+import type { RunData } from '../types';
+
+/** Rows a data file may have (one iteration each) */
+export const MAX_DATA_ROWS = 1000;
+
+/**
+ * Parse an uploaded data file by its extension (.csv, otherwise JSON)
+ * CSV files need a header row naming the columns; JSON files an array of objects.
+ *
+ * @param fileName - Name of the uploaded file
+ * @param content - File content
+ * @returns Parsed rows, every value as a string
+ * @throws Error if the file is malformed, empty, too long or has invalid column names
+ *
+ * @example
+ * ```typescript
+ * parseDataFile('users.csv', 'name,age\nAda,36\n"Smith, J",41');
+ * // => { fileName: 'users.csv', rows: [{ name: 'Ada', age: '36' }, { name: 'Smith, J', age: '41' }] }
+ * ```
+ */
+export function parseDataFile(fileName: string, content: string): RunData {
+  const rows = fileName.toLowerCase().endsWith('.csv') ? parseCsv(content) : parseJson(content);
+
+  if (rows.length === 0) {
+    throw new Error('The data file has no rows');
+  }
+  if (rows.length > MAX_DATA_ROWS) {
+    throw new Error(`The data file has ${rows.length} rows; at most ${MAX_DATA_ROWS} are allowed`);
+  }
+  for (const column of new Set(rows.flatMap((row) => Object.keys(row)))) {
+    if (!VariableSchema.shape.key.safeParse(column).success) {
+      throw new Error(`Column "${column}" is not a valid variable name`);
+    }
+  }
+
+  return { fileName, rows };
+}
+
+/**
+ * Row of the data file an iteration uses
+ * Iterations past the last row reuse it.
+ *
+ * @param data - Data file of the run (null = none)
+ * @param iteration - Iteration number, from 1
+ * @returns Column values of the row ({} without a data file)
+ */
+export function getIterationRow(data: RunData | null, iteration: number): Record<string, string> {
+  if (!data) return {};
+  return data.rows[Math.min(iteration, data.rows.length) - 1] ?? {};
+}
+
+/**
+ * Parse CSV (RFC 4180): comma-separated, double-quoted fields may hold commas,
+ * quotes ("") and line breaks; blank lines are skipped
+ */
+function parseCsv(content: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('Unterminated quoted field in the CSV file');
+  }
+  record.push(field);
+  records.push(record);
+
+  const [header, ...lines] = records.filter((line) => line.some((value) => value !== ''));
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim());
+  return lines.map((line, index) => {
+    if (line.length > columns.length) {
+      throw new Error(`Row ${index + 1} has more values than the header has columns`);
+    }
+    return Object.fromEntries(columns.map((column, i) => [column, line[i] ?? '']));
+  });
+}
+
+/**
+ * Parse a JSON array of objects; values that are not strings keep their JSON form
+ */
+function parseJson(content: string): Record<string, string>[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch {
+    throw new Error('The data file is not valid JSON');
+  }
+  if (!Array.isArray(value)) {
+    throw new Error('The JSON data file must be an array of objects');
+  }
+
+  return value.map((row: unknown, index) => {
+    if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+      throw new Error(`Row ${index + 1} is not an object`);
+    }
+    return Object.fromEntries(
+      Object.entries(row).map(([key, field]) => [
+        key,
+        typeof field === 'string' ? field : JSON.stringify(field),
+      ])
+    );
+  });
+}
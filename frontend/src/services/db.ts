@@ -12,7 +12,19 @@ import type {
   Folder,
   SavedRequest,
   HistoryEntry,
+  OutboxEntry,
+  SyncProjectConnection,
+  SyncConflict,
+  SyncEntityType,
+  SyncOperation,
+  Variable,
+  StoredSecret,
+  VaultKey,
+  OAuthToken,
+  StoredOAuthToken,
+  CollectionRun,
 } from '../types';
+import { generateVaultKey, encryptSecret, decryptSecret } from './secret-vault';
 
 /**
  * Neo-Postman database schema
@@ -24,6 +36,14 @@ export class NeoPostmanDB extends Dexie {
   folders!: EntityTable<Folder, 'id'>;
   requests!: EntityTable<SavedRequest, 'id'>;
   history!: EntityTable<HistoryEntry, 'id'>;
+  outbox!: EntityTable<OutboxEntry, 'id'>;
+  syncProjects!: EntityTable<SyncProjectConnection, 'id'>;
+  conflicts!: EntityTable<SyncConflict, 'id'>;
+  globals!: EntityTable<Variable, 'key'>;
+  secrets!: EntityTable<StoredSecret, 'id'>;
+  vaultKeys!: EntityTable<VaultKey, 'id'>;
+  oauthTokens!: EntityTable<StoredOAuthToken, 'id'>;
+  runs!: EntityTable<CollectionRun, 'id'>;
 
   constructor() {
     super('neo-postman');
@@ -45,12 +65,342 @@ export class NeoPostmanDB extends Dexie {
       // Compound index [timestamp] for date-based queries
       history: 'id, timestamp, request.method, response.status, savedRequestId',
     });
+
+    this.version(2).stores({
+      // Outbox: local changes waiting to be pushed, drained in timestamp order per project
+      outbox: 'id, projectId, entityId, timestamp, [projectId+timestamp]',
+
+      // Sync projects joined by this client (token, client id and pull cursor)
+      syncProjects: 'id, name',
+    });
+
+    this.version(3).stores({
+      // Conflicts: concurrent edits to the same fields, awaiting user resolution
+      conflicts: 'id, projectId, entityId, createdAt',
+    });
+
+    this.version(4)
+      .stores({
+        // Globals: workspace-wide variables (never synced), keyed by variable name
+        globals: 'key',
+      })
+      .upgrade(async (tx) => {
+        // Collections and requests gained variable scopes
+        await tx
+          .table('collections')
+          .toCollection()
+          .modify((collection) => {
+            collection.variables ??= [];
+          });
+        await tx
+          .table('requests')
+          .toCollection()
+          .modify((request) => {
+            request.variables ??= [];
+          });
+      });
+
+    this.version(5).stores({
+      // Secrets: encrypted values of secret variables, by owning entity (never synced)
+      secrets: 'id, ownerId',
+
+      // Vault keys: non-extractable device key encrypting the secrets
+      vaultKeys: 'id',
+    });
+
+    this.version(6).stores({
+      // OAuth tokens: encrypted access/refresh tokens by settings fingerprint (never synced)
+      oauthTokens: 'id',
+    });
+
+    this.version(7)
+      .stores({})
+      .upgrade(async (tx) => {
+        // Collections, folders and requests gained pre-request scripts
+        for (const table of ['collections', 'folders', 'requests']) {
+          await tx
+            .table(table)
+            .toCollection()
+            .modify((entity) => {
+              entity.preRequestScript ??= '';
+            });
+        }
+      });
+
+    this.version(8)
+      .stores({})
+      .upgrade(async (tx) => {
+        // Requests gained test scripts
+        await tx
+          .table('requests')
+          .toCollection()
+          .modify((request) => {
+            request.testScript ??= '';
+          });
+      });
+
+    this.version(9)
+      .stores({})
+      .upgrade(async (tx) => {
+        // Requests gained no-code assertions
+        await tx
+          .table('requests')
+          .toCollection()
+          .modify((request) => {
+            request.assertions ??= [];
+          });
+      });
+
+    this.version(10)
+      .stores({})
+      .upgrade(async (tx) => {
+        // Requests gained captures
+        await tx
+          .table('requests')
+          .toCollection()
+          .modify((request) => {
+            request.captures ??= [];
+          });
+      });
+
+    this.version(11).stores({
+      // Runs: reports of collection runs, searchable by collection and start time (never synced)
+      runs: 'id, collectionId, startedAt',
+    });
+
+    this.version(12)
+      .stores({})
+      .upgrade(async (tx) => {
+        // Runs gained data files
+        await tx
+          .table('runs')
+          .toCollection()
+          .modify((run) => {
+            run.data ??= null;
+          });
+      });
   }
 }
 
 /** Singleton database instance */
 export const db = new NeoPostmanDB();
 
+// ============================================================================
+// Secret Variable Operations
+// ============================================================================
+
+/** Owner id of global variables in the secrets table */
+const GLOBALS_OWNER_ID = 'globals';
+
+/** Id of this device's vault key */
+const VAULT_KEY_ID = 'local';
+
+/** Vault key, loaded or generated on first use */
+let vaultKeyPromise: Promise<CryptoKey> | null = null;
+
+/**
+ * Variables prepared for storage: secret values emptied and encrypted separately
+ */
+export interface SealedVariables {
+  /** Variables with every secret value emptied */
+  variables: Variable[];
+  /** Encrypted values of the secrets that have one */
+  secrets: Array<Pick<StoredSecret, 'key' | 'iv' | 'data'>>;
+  /** Keys of empty secrets whose stored value is kept (the value was left out, not cleared) */
+  keptKeys: string[];
+}
+
+/**
+ * Get this device's vault key, generating it on first use
+ * @returns Promise resolving to the key
+ */
+function getVaultKey(): Promise<CryptoKey> {
+  vaultKeyPromise ??= (async () => {
+    const existing = await db.vaultKeys.get(VAULT_KEY_ID);
+    if (existing) return existing.key;
+
+    try {
+      await db.vaultKeys.add({
+        id: VAULT_KEY_ID,
+        key: await generateVaultKey(),
+        createdAt: new Date().toISOString(),
+      });
+    } catch {
+      // Another tab stored its key first; use that one
+    }
+
+    const stored = await db.vaultKeys.get(VAULT_KEY_ID);
+    if (!stored) throw new Error('Failed to store the vault key');
+    return stored.key;
+  })();
+
+  return vaultKeyPromise;
+}
+
+/**
+ * Encrypt the values of secret variables
+ * Call before opening the write transaction: awaiting WebCrypto inside a Dexie
+ * transaction would commit it early.
+ *
+ * An empty secret normally clears its stored value. Data from other clients leaves
+ * secret values out, so the sync paths keep the stored value of empty secrets instead.
+ *
+ * @param variables - Variables with plaintext values
+ * @param keepEmptySecrets - Keep the stored value of secrets that are empty here
+ * @returns Promise resolving to the variables to store and their encrypted secrets
+ */
+export async function sealVariables(
+  variables: Variable[],
+  keepEmptySecrets = false
+): Promise<SealedVariables> {
+  const secretVariables = variables.filter((variable) => variable.secret && variable.key);
+  if (secretVariables.length === 0) {
+    return { variables, secrets: [], keptKeys: [] };
+  }
+
+  const key = await getVaultKey();
+  const secrets = await Promise.all(
+    secretVariables
+      .filter((variable) => variable.value !== '')
+      .map(async (variable) => ({
+        key: variable.key,
+        ...(await encryptSecret(key, variable.value)),
+      }))
+  );
+
+  return {
+    variables: variables.map((variable) =>
+      variable.secret ? { ...variable, value: '' } : variable
+    ),
+    secrets,
+    keptKeys: keepEmptySecrets
+      ? secretVariables.filter((variable) => variable.value === '').map(({ key }) => key)
+      : [],
+  };
+}
+
+/**
+ * Store the encrypted secrets of an entity, dropping those cleared or no longer secret
+ * Must be called inside the transaction writing the entity.
+ *
+ * @param ownerId - Entity id, or 'globals'
+ * @param sealed - Result of sealVariables
+ */
+export async function storeSecrets(ownerId: string, sealed: SealedVariables): Promise<void> {
+  const keys = new Set([...sealed.keptKeys, ...sealed.secrets.map((secret) => secret.key)]);
+  await db.secrets
+    .where('ownerId')
+    .equals(ownerId)
+    .filter((secret) => !keys.has(secret.key))
+    .delete();
+
+  await db.secrets.bulkPut(
+    sealed.secrets.map((secret) => ({ ...secret, id: `${ownerId}/${secret.key}`, ownerId }))
+  );
+}
+
+/**
+ * Fill in the decrypted values of secret variables
+ * Secrets that cannot be decrypted (e.g. the vault key was lost) stay empty.
+ *
+ * @param ownerId - Entity id, or 'globals'
+ * @param variables - Variables as stored (secret values empty)
+ * @returns Promise resolving to the variables with plaintext secret values
+ */
+export async function revealVariables(ownerId: string, variables: Variable[]): Promise<Variable[]> {
+  if (!variables.some((variable) => variable.secret)) return variables;
+
+  const secrets = await db.secrets.where('ownerId').equals(ownerId).toArray();
+  if (secrets.length === 0) return variables;
+
+  const key = await getVaultKey();
+  const values = new Map<string, string>();
+  for (const secret of secrets) {
+    try {
+      values.set(secret.key, await decryptSecret(key, secret));
+    } catch (error) {
+      console.warn(`Failed to decrypt secret variable ${secret.key}:`, error);
+    }
+  }
+
+  return variables.map((variable) =>
+    variable.secret ? { ...variable, value: values.get(variable.key) ?? '' } : variable
+  );
+}
+
+/**
+ * Reveal the secret variables of an entity read from the database
+ */
+async function revealEntity<T extends { id: string; variables: Variable[] }>(
+  entity: T | undefined
+): Promise<T | undefined> {
+  if (!entity) return undefined;
+  return { ...entity, variables: await revealVariables(entity.id, entity.variables) };
+}
+
+/**
+ * Reveal the secret variables of several entities
+ */
+async function revealEntities<T extends { id: string; variables: Variable[] }>(
+  entities: T[]
+): Promise<T[]> {
+  return Promise.all(
+    entities.map(async (entity) => ({
+      ...entity,
+      variables: await revealVariables(entity.id, entity.variables),
+    }))
+  );
+}
+
+// ============================================================================
+// OAuth Token Operations
+// ============================================================================
+
+/**
+ * Get a cached OAuth token
+ * A token that cannot be decrypted (e.g. the vault key was lost) is treated as missing.
+ *
+ * @param id - Fingerprint of the OAuth settings
+ * @returns Promise resolving to the token or undefined
+ */
+export async function getOAuthToken(id: string): Promise<OAuthToken | undefined> {
+  const stored = await db.oauthTokens.get(id);
+  if (!stored) return undefined;
+
+  try {
+    const { accessToken, refreshToken } = JSON.parse(
+      await decryptSecret(await getVaultKey(), stored)
+    ) as Pick<OAuthToken, 'accessToken' | 'refreshToken'>;
+    const { tokenType, scope, expiresAt, createdAt } = stored;
+    return { accessToken, refreshToken, tokenType, scope, expiresAt, createdAt };
+  } catch (error) {
+    console.warn('Failed to decrypt OAuth token:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Cache an OAuth token, replacing the previous one for the same settings
+ * @param id - Fingerprint of the OAuth settings
+ * @param token - Token to store
+ */
+export async function saveOAuthToken(id: string, token: OAuthToken): Promise<void> {
+  const { accessToken, refreshToken, ...metadata } = token;
+  const sealed = await encryptSecret(
+    await getVaultKey(),
+    JSON.stringify({ accessToken, refreshToken })
+  );
+  await db.oauthTokens.put({ ...metadata, ...sealed, id });
+}
+
+/**
+ * Delete a cached OAuth token
+ * @param id - Fingerprint of the OAuth settings
+ */
+export async function deleteOAuthToken(id: string): Promise<void> {
+  await db.oauthTokens.delete(id);
+}
+
 // ============================================================================
 // Environment Operations
 // ============================================================================
@@ -60,7 +410,7 @@ export const db = new NeoPostmanDB();
  * @returns Promise resolving to array of environments
  */
 export async function getAllEnvironments(): Promise<Environment[]> {
-  return db.environments.toArray();
+  return revealEntities(await db.environments.toArray());
 }
 
 /**
@@ -68,7 +418,7 @@ export async function getAllEnvironments(): Promise<Environment[]> {
  * @returns Promise resolving to active environment or undefined
  */
 export async function getActiveEnvironment(): Promise<Environment | undefined> {
-  return db.environments.where('isActive').equals(1).first();
+  return revealEntity(await db.environments.where('isActive').equals(1).first());
 }
 
 /**
@@ -81,12 +431,19 @@ export async function createEnvironment(
 ): Promise<string> {
   const id = crypto.randomUUID();
   const now = new Date().toISOString();
-
-  await db.environments.add({
+  const sealed = await sealVariables(environment.variables);
+  const created: Environment = {
     ...environment,
+    variables: sealed.variables,
     id,
     createdAt: now,
     updatedAt: now,
+  };
+
+  await db.transaction('rw', [db.environments, db.secrets, ...syncTables()], async () => {
+    await db.environments.add(created);
+    await storeSecrets(id, sealed);
+    await recordChange(created.syncProjectId, 'environment', id, 'create', created);
   });
 
   return id;
@@ -96,14 +453,36 @@ export async function createEnvironment(
  * Update an existing environment
  * @param id - Environment id
  * @param updates - Partial environment data to update
+ * @param keepEmptySecrets - Keep stored secret values the updates leave empty (remote data)
  */
 export async function updateEnvironment(
   id: string,
-  updates: Partial<Omit<Environment, 'id' | 'createdAt'>>
+  updates: Partial<Omit<Environment, 'id' | 'createdAt'>>,
+  keepEmptySecrets = false
 ): Promise<void> {
-  await db.environments.update(id, {
-    ...updates,
-    updatedAt: new Date().toISOString(),
+  const sealed = updates.variables
+    ? await sealVariables(updates.variables, keepEmptySecrets)
+    : null;
+
+  await db.transaction('rw', [db.environments, db.secrets, ...syncTables()], async () => {
+    const previous = await db.environments.get(id);
+
+    await db.environments.update(id, {
+      ...updates,
+      ...(sealed && { variables: sealed.variables }),
+      updatedAt: new Date().toISOString(),
+    });
+    if (sealed) await storeSecrets(id, sealed);
+
+    const updated = await db.environments.get(id);
+    if (!updated) return;
+
+    // Sharing a local environment publishes it to the project as a new entity
+    if (previous?.syncProjectId === updated.syncProjectId) {
+      await recordChange(updated.syncProjectId, 'environment', id, 'update', updated, updates);
+    } else {
+      await recordChange(updated.syncProjectId, 'environment', id, 'create', updated);
+    }
   });
 }
 
@@ -128,7 +507,39 @@ export async function setActiveEnvironment(id: string | null): Promise<void> {
  * @param id - Environment id
  */
 export async function deleteEnvironment(id: string): Promise<void> {
-  await db.environments.delete(id);
+  await db.transaction('rw', [db.environments, db.secrets, ...syncTables()], async () => {
+    const environment = await db.environments.get(id);
+    await db.environments.delete(id);
+    await db.secrets.where('ownerId').equals(id).delete();
+    await recordChange(environment?.syncProjectId ?? null, 'environment', id, 'delete', null);
+  });
+}
+
+// ============================================================================
+// Global Variable Operations
+// ============================================================================
+
+/**
+ * Get all global variables ordered by key
+ * @returns Promise resolving to array of variables
+ */
+export async function getGlobalVariables(): Promise<Variable[]> {
+  return revealVariables(GLOBALS_OWNER_ID, await db.globals.orderBy('key').toArray());
+}
+
+/**
+ * Replace all global variables
+ * Rows without a key are skipped; when a key repeats the last row wins.
+ * @param variables - New global variables
+ */
+export async function saveGlobalVariables(variables: Variable[]): Promise<void> {
+  const sealed = await sealVariables(variables.filter((variable) => variable.key.trim() !== ''));
+
+  await db.transaction('rw', [db.globals, db.secrets], async () => {
+    await db.globals.clear();
+    await db.globals.bulkPut(sealed.variables);
+    await storeSecrets(GLOBALS_OWNER_ID, sealed);
+  });
 }
 
 // ============================================================================
@@ -140,7 +551,7 @@ export async function deleteEnvironment(id: string): Promise<void> {
  * @returns Promise resolving to array of collections
  */
 export async function getAllCollections(): Promise<Collection[]> {
-  return db.collections.orderBy('sortOrder').toArray();
+  return revealEntities(await db.collections.orderBy('sortOrder').toArray());
 }
 
 /**
@@ -149,7 +560,7 @@ export async function getAllCollections(): Promise<Collection[]> {
  * @returns Promise resolving to collection or undefined
  */
 export async function getCollection(id: string): Promise<Collection | undefined> {
-  return db.collections.get(id);
+  return revealEntity(await db.collections.get(id));
 }
 
 /**
@@ -162,12 +573,19 @@ export async function createCollection(
 ): Promise<string> {
   const id = crypto.randomUUID();
   const now = new Date().toISOString();
-
-  await db.collections.add({
+  const sealed = await sealVariables(collection.variables);
+  const created: Collection = {
     ...collection,
+    variables: sealed.variables,
     id,
     createdAt: now,
     updatedAt: now,
+  };
+
+  await db.transaction('rw', [db.collections, db.secrets, ...syncTables()], async () => {
+    await db.collections.add(created);
+    await storeSecrets(id, sealed);
+    await recordChange(created.syncProjectId, 'collection', id, 'create', created);
   });
 
   return id;
@@ -177,15 +595,48 @@ export async function createCollection(
  * Update an existing collection
  * @param id - Collection id
  * @param updates - Partial collection data to update
+ * @param keepEmptySecrets - Keep stored secret values the updates leave empty (remote data)
  */
 export async function updateCollection(
   id: string,
-  updates: Partial<Omit<Collection, 'id' | 'createdAt'>>
+  updates: Partial<Omit<Collection, 'id' | 'createdAt'>>,
+  keepEmptySecrets = false
 ): Promise<void> {
-  await db.collections.update(id, {
-    ...updates,
-    updatedAt: new Date().toISOString(),
-  });
+  const sealed = updates.variables
+    ? await sealVariables(updates.variables, keepEmptySecrets)
+    : null;
+
+  await db.transaction(
+    'rw',
+    [db.collections, db.folders, db.requests, db.secrets, ...syncTables()],
+    async () => {
+      const previous = await db.collections.get(id);
+
+      await db.collections.update(id, {
+        ...updates,
+        ...(sealed && { variables: sealed.variables }),
+        updatedAt: new Date().toISOString(),
+      });
+      if (sealed) await storeSecrets(id, sealed);
+
+      const updated = await db.collections.get(id);
+      if (!updated) return;
+
+      if (previous?.syncProjectId === updated.syncProjectId) {
+        await recordChange(updated.syncProjectId, 'collection', id, 'update', updated, updates);
+        return;
+      }
+
+      // Sharing a local collection publishes it together with its whole tree
+      await recordChange(updated.syncProjectId, 'collection', id, 'create', updated);
+      for (const folder of await db.folders.where('collectionId').equals(id).toArray()) {
+        await recordChange(updated.syncProjectId, 'folder', folder.id, 'create', folder);
+      }
+      for (const request of await db.requests.where('collectionId').equals(id).toArray()) {
+        await recordChange(updated.syncProjectId, 'request', request.id, 'create', request);
+      }
+    }
+  );
 }
 
 /**
@@ -193,16 +644,31 @@ export async function updateCollection(
  * @param id - Collection id
  */
 export async function deleteCollection(id: string): Promise<void> {
-  await db.transaction('rw', [db.collections, db.folders, db.requests], async () => {
-    // Delete all requests in this collection
-    await db.requests.where('collectionId').equals(id).delete();
-
-    // Delete all folders in this collection
-    await db.folders.where('collectionId').equals(id).delete();
-
-    // Delete the collection itself
-    await db.collections.delete(id);
-  });
+  await db.transaction(
+    'rw',
+    [db.collections, db.folders, db.requests, db.secrets, ...syncTables()],
+    async () => {
+      // Remote clients cascade the delete themselves, so only the collection is recorded
+      const collection = await db.collections.get(id);
+      await recordChange(collection?.syncProjectId ?? null, 'collection', id, 'delete', null);
+
+      // Delete the secrets of the collection and its requests
+      const requestIds = await db.requests.where('collectionId').equals(id).primaryKeys();
+      await db.secrets
+        .where('ownerId')
+        .anyOf([id, ...requestIds])
+        .delete();
+
+      // Delete all requests in this collection
+      await db.requests.where('collectionId').equals(id).delete();
+
+      // Delete all folders in this collection
+      await db.folders.where('collectionId').equals(id).delete();
+
+      // Delete the collection itself
+      await db.collections.delete(id);
+    }
+  );
 }
 
 // ============================================================================
@@ -248,6 +714,26 @@ export async function getFolderDepth(folderId: string | null): Promise<number> {
   return depth;
 }
 
+/**
+ * Get a folder and its ancestors, nearest first (for auth inheritance)
+ * @param folderId - Folder id (null = request at the collection root)
+ * @returns Promise resolving to the folder chain up to the collection root
+ */
+export async function getFolderChain(folderId: string | null): Promise<Folder[]> {
+  const chain: Folder[] = [];
+  let currentId = folderId;
+
+  // Depth is capped at 3, so a longer chain can only be a cycle
+  while (currentId && chain.length < 4) {
+    const folder: Folder | undefined = await db.folders.get(currentId);
+    if (!folder) break;
+    chain.push(folder);
+    currentId = folder.parentFolderId;
+  }
+
+  return chain;
+}
+
 /**
  * Create a new folder
  * @param folder - Folder data
@@ -265,12 +751,22 @@ export async function createFolder(
 
   const id = crypto.randomUUID();
   const now = new Date().toISOString();
-
-  await db.folders.add({
+  const created: Folder = {
     ...folder,
     id,
     createdAt: now,
     updatedAt: now,
+  };
+
+  await db.transaction('rw', [db.folders, ...syncTables()], async () => {
+    await db.folders.add(created);
+    await recordChange(
+      await getCollectionProjectId(created.collectionId),
+      'folder',
+      id,
+      'create',
+      created
+    );
   });
 
   return id;
@@ -293,9 +789,23 @@ export async function updateFolder(
     }
   }
 
-  await db.folders.update(id, {
-    ...updates,
-    updatedAt: new Date().toISOString(),
+  await db.transaction('rw', [db.folders, ...syncTables()], async () => {
+    await db.folders.update(id, {
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    });
+
+    const updated = await db.folders.get(id);
+    if (!updated) return;
+
+    await recordChange(
+      await getCollectionProjectId(updated.collectionId),
+      'folder',
+      id,
+      'update',
+      updated,
+      updates
+    );
   });
 }
 
@@ -304,12 +814,26 @@ export async function updateFolder(
  * @param id - Folder id
  */
 export async function deleteFolder(id: string): Promise<void> {
-  await db.transaction('rw', [db.folders, db.requests], async () => {
+  await db.transaction('rw', [db.folders, db.requests, db.secrets, ...syncTables()], async () => {
+    // Remote clients cascade the delete themselves, so only this folder is recorded
+    const folder = await db.folders.get(id);
+    if (folder) {
+      await recordChange(
+        await getCollectionProjectId(folder.collectionId),
+        'folder',
+        id,
+        'delete',
+        null
+      );
+    }
+
     // Recursively get all descendant folder ids
     const descendantIds = await getDescendantFolderIds(id);
     const allFolderIds = [id, ...descendantIds];
 
-    // Delete all requests in these folders
+    // Delete all requests in these folders, with their secrets
+    const requestIds = await db.requests.where('folderId').anyOf(allFolderIds).primaryKeys();
+    await db.secrets.where('ownerId').anyOf(requestIds).delete();
     for (const folderId of allFolderIds) {
       await db.requests.where('folderId').equals(folderId).delete();
     }
@@ -324,7 +848,7 @@ export async function deleteFolder(id: string): Promise<void> {
  * @param folderId - Parent folder id
  * @returns Promise resolving to array of descendant folder ids
  */
-async function getDescendantFolderIds(folderId: string): Promise<string[]> {
+export async function getDescendantFolderIds(folderId: string): Promise<string[]> {
   const children = await db.folders.where('parentFolderId').equals(folderId).toArray();
   const childIds = children.map((f) => f.id);
 
@@ -348,7 +872,9 @@ async function getDescendantFolderIds(folderId: string): Promise<string[]> {
  * @returns Promise resolving to array of requests
  */
 export async function getRequestsByCollection(collectionId: string): Promise<SavedRequest[]> {
-  return db.requests.where('collectionId').equals(collectionId).sortBy('sortOrder');
+  return revealEntities(
+    await db.requests.where('collectionId').equals(collectionId).sortBy('sortOrder')
+  );
 }
 
 /**
@@ -362,14 +888,16 @@ export async function getRequestsByFolder(
   folderId: string | null
 ): Promise<SavedRequest[]> {
   if (folderId === null) {
-    return db.requests
-      .where('collectionId')
-      .equals(collectionId)
-      .filter((r) => r.folderId === null)
-      .sortBy('sortOrder');
+    return revealEntities(
+      await db.requests
+        .where('collectionId')
+        .equals(collectionId)
+        .filter((r) => r.folderId === null)
+        .sortBy('sortOrder')
+    );
   }
 
-  return db.requests.where('folderId').equals(folderId).sortBy('sortOrder');
+  return revealEntities(await db.requests.where('folderId').equals(folderId).sortBy('sortOrder'));
 }
 
 /**
@@ -378,7 +906,7 @@ export async function getRequestsByFolder(
  * @returns Promise resolving to request or undefined
  */
 export async function getRequest(id: string): Promise<SavedRequest | undefined> {
-  return db.requests.get(id);
+  return revealEntity(await db.requests.get(id));
 }
 
 /**
@@ -391,12 +919,25 @@ export async function createRequest(
 ): Promise<string> {
   const id = crypto.randomUUID();
   const now = new Date().toISOString();
-
-  await db.requests.add({
+  const sealed = await sealVariables(request.variables);
+  const created: SavedRequest = {
     ...request,
+    variables: sealed.variables,
     id,
     createdAt: now,
     updatedAt: now,
+  };
+
+  await db.transaction('rw', [db.requests, db.secrets, ...syncTables()], async () => {
+    await db.requests.add(created);
+    await storeSecrets(id, sealed);
+    await recordChange(
+      await getCollectionProjectId(created.collectionId),
+      'request',
+      id,
+      'create',
+      created
+    );
   });
 
   return id;
@@ -406,14 +947,36 @@ export async function createRequest(
  * Update an existing request
  * @param id - Request id
  * @param updates - Partial request data to update
+ * @param keepEmptySecrets - Keep stored secret values the updates leave empty (remote data)
  */
 export async function updateRequest(
   id: string,
-  updates: Partial<Omit<SavedRequest, 'id' | 'createdAt'>>
+  updates: Partial<Omit<SavedRequest, 'id' | 'createdAt'>>,
+  keepEmptySecrets = false
 ): Promise<void> {
-  await db.requests.update(id, {
-    ...updates,
-    updatedAt: new Date().toISOString(),
+  const sealed = updates.variables
+    ? await sealVariables(updates.variables, keepEmptySecrets)
+    : null;
+
+  await db.transaction('rw', [db.requests, db.secrets, ...syncTables()], async () => {
+    await db.requests.update(id, {
+      ...updates,
+      ...(sealed && { variables: sealed.variables }),
+      updatedAt: new Date().toISOString(),
+    });
+    if (sealed) await storeSecrets(id, sealed);
+
+    const updated = await db.requests.get(id);
+    if (!updated) return;
+
+    await recordChange(
+      await getCollectionProjectId(updated.collectionId),
+      'request',
+      id,
+      'update',
+      updated,
+      updates
+    );
   });
 }
 
@@ -422,7 +985,21 @@ export async function updateRequest(
  * @param id - Request id
  */
 export async function deleteRequest(id: string): Promise<void> {
-  await db.requests.delete(id);
+  await db.transaction('rw', [db.requests, db.secrets, ...syncTables()], async () => {
+    const request = await db.requests.get(id);
+    await db.requests.delete(id);
+    await db.secrets.where('ownerId').equals(id).delete();
+
+    if (request) {
+      await recordChange(
+        await getCollectionProjectId(request.collectionId),
+        'request',
+        id,
+        'delete',
+        null
+      );
+    }
+  });
 }
 
 // ============================================================================
@@ -556,3 +1133,196 @@ export async function getHistoryByRequest(
     .limit(limit)
     .toArray();
 }
+
+// ============================================================================
+// Collection Run Operations
+// ============================================================================
+
+/**
+ * Get collection run reports, most recent first
+ * @param limit - Maximum number of runs to return (default 50)
+ * @returns Promise resolving to array of runs
+ */
+export async function getRuns(limit = 50): Promise<CollectionRun[]> {
+  return db.runs.orderBy('startedAt').reverse().limit(limit).toArray();
+}
+
+/**
+ * Save a collection run report
+ * @param run - Finished run
+ */
+export async function saveRun(run: CollectionRun): Promise<void> {
+  await db.runs.put(run);
+}
+
+/**
+ * Delete a collection run report
+ * @param id - Run id
+ */
+export async function deleteRun(id: string): Promise<void> {
+  await db.runs.delete(id);
+}
+
+// ============================================================================
+// Sync Outbox Operations
+// ============================================================================
+
+/**
+ * Tables read or written when recording a change
+ * Include these in every transaction that calls recordChange
+ */
+function syncTables(): [typeof db.collections, typeof db.outbox, typeof db.syncProjects] {
+  return [db.collections, db.outbox, db.syncProjects];
+}
+
+/**
+ * Record a local mutation in the outbox if the entity belongs to a joined sync project
+ * Must be called inside the transaction performing the mutation so both commit together
+ *
+ * @param projectId - Sync project of the entity (null = local only, nothing is recorded)
+ * @param entityType - Type of the mutated entity
+ * @param entityId - Id of the mutated entity
+ * @param operation - Mutation performed
+ * @param data - Full entity after the mutation (null for delete)
+ * @param updates - Partial update applied (its keys become the change's changedFields)
+ */
+async function recordChange(
+  projectId: string | null,
+  entityType: SyncEntityType,
+  entityId: string,
+  operation: SyncOperation,
+  data: unknown,
+  updates?: object
+): Promise<void> {
+  if (!projectId) return;
+
+  const connection = await db.syncProjects.get(projectId);
+  if (!connection) return;
+
+  await db.outbox.add({
+    id: crypto.randomUUID(),
+    projectId,
+    entityType,
+    entityId,
+    operation,
+    data,
+    // updatedAt is bookkeeping, not an edit, so it never causes a field conflict
+    changedFields: updates ? Object.keys(updates).filter((key) => key !== 'updatedAt') : undefined,
+    timestamp: new Date().toISOString(),
+    clientId: connection.clientId,
+  });
+}
+
+/**
+ * Get the sync project a collection (and therefore its folders and requests) belongs to
+ * @param collectionId - Collection id
+ * @returns Promise resolving to the project id or null if local only
+ */
+async function getCollectionProjectId(collectionId: string): Promise<string | null> {
+  const collection = await db.collections.get(collectionId);
+  return collection?.syncProjectId ?? null;
+}
+
+/**
+ * Get pending outbox entries for a project, oldest first
+ * @param projectId - Sync project id
+ * @param limit - Maximum number of entries to return
+ * @returns Promise resolving to array of outbox entries
+ */
+export async function getOutboxEntries(projectId: string, limit = 100): Promise<OutboxEntry[]> {
+  return db.outbox
+    .where('[projectId+timestamp]')
+    .between([projectId, Dexie.minKey], [projectId, Dexie.maxKey])
+    .limit(limit)
+    .toArray();
+}
+
+/**
+ * Count pending outbox entries across all projects
+ * @returns Promise resolving to the number of unpushed changes
+ */
+export async function countOutboxEntries(): Promise<number> {
+  return db.outbox.count();
+}
+
+/**
+ * Get unpushed local changes to an entity, oldest first
+ * @param entityId - Entity id
+ * @returns Promise resolving to array of outbox entries
+ */
+export async function getPendingChangesForEntity(entityId: string): Promise<OutboxEntry[]> {
+  return db.outbox.where('entityId').equals(entityId).sortBy('timestamp');
+}
+
+/**
+ * Remove outbox entries after they were accepted by the server
+ * @param ids - Outbox entry ids
+ */
+export async function deleteOutboxEntries(ids: string[]): Promise<void> {
+  await db.outbox.bulkDelete(ids);
+}
+
+// ============================================================================
+// Sync Project Operations
+// ============================================================================
+
+/**
+ * Get all sync projects joined by this client
+ * @returns Promise resolving to array of project connections
+ */
+export async function getSyncProjects(): Promise<SyncProjectConnection[]> {
+  return db.syncProjects.toArray();
+}
+
+/**
+ * Save a sync project connection (after creating or joining a project)
+ * @param connection - Project connection to store
+ */
+export async function saveSyncProject(connection: SyncProjectConnection): Promise<void> {
+  await db.syncProjects.put(connection);
+}
+
+/**
+ * Update a sync project connection
+ * @param id - Project id
+ * @param updates - Partial connection data to update
+ */
+export async function updateSyncProject(
+  id: string,
+  updates: Partial<Omit<SyncProjectConnection, 'id'>>
+): Promise<void> {
+  await db.syncProjects.update(id, updates);
+}
+
+/**
+ * Leave a sync project
+ * Drops unpushed changes; local copies of shared data are kept
+ * @param id - Project id
+ */
+export async function deleteSyncProject(id: string): Promise<void> {
+  await db.transaction('rw', [db.syncProjects, db.outbox, db.conflicts], async () => {
+    await db.outbox.where('projectId').equals(id).delete();
+    await db.conflicts.where('projectId').equals(id).delete();
+    await db.syncProjects.delete(id);
+  });
+}
+
+// ============================================================================
+// Sync Conflict Operations
+// ============================================================================
+
+/**
+ * Get all unresolved sync conflicts, oldest first
+ * @returns Promise resolving to array of conflicts
+ */
+export async function getSyncConflicts(): Promise<SyncConflict[]> {
+  return db.conflicts.orderBy('createdAt').toArray();
+}
+
+/**
+ * Delete a sync conflict once it has been resolved
+ * @param id - Conflict id
+ */
+export async function deleteSyncConflict(id: string): Promise<void> {
+  await db.conflicts.delete(id);
+}
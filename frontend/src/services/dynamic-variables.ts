@@ -0,0 +1,167 @@
+/**
+ * Dynamic variables - built-in {{$name}} references generated at send time
+ *
+ * Generators take no argument (`{{$guid}}`, `{{$timestamp}}`); helpers transform
+ * the text after their name (`{{$base64 {{user}}:{{password}}}}`), which is resolved
+ * before the helper runs.
+ *
+ * @module services/dynamic-variables
+ */
+
+/**
+ * Built-in dynamic variable
+ */
+export interface DynamicVariable {
+  /** Name including the leading $ */
+  name: string;
+  /** Short description shown in autocomplete and tooltips */
+  description: string;
+  /** Placeholder for a required argument (helpers only) */
+  argument?: string;
+  /** Produce a value; `argument` is the text after the name (empty if none) */
+  generate: (argument: string) => string;
+}
+
+/**
+ * Value produced for a dynamic variable reference
+ */
+export interface DynamicValue {
+  /** Reference as written, without braces (e.g. `$randomInt 1 10`) */
+  name: string;
+  /** Generated value */
+  value: string;
+}
+
+/**
+ * Dynamic values generated while resolving one request
+ */
+export interface DynamicScope {
+  /** Generate the value of a reference, or undefined if it is not dynamic */
+  resolve: (reference: string) => string | undefined;
+  /** Every value generated so far, in generation order */
+  generated: DynamicValue[];
+}
+
+/** Default bounds of {{$randomInt}} */
+const RANDOM_INT_MIN = 0;
+const RANDOM_INT_MAX = 1000;
+
+/** Letters used for random email local parts */
+const EMAIL_ALPHABET = 'abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * Built-in dynamic variables, in autocomplete order
+ */
+export const DYNAMIC_VARIABLES: DynamicVariable[] = [
+  {
+    name: '$guid',
+    description: 'Random v4 GUID',
+    generate: () => crypto.randomUUID(),
+  },
+  {
+    name: '$randomUUID',
+    description: 'Random v4 UUID',
+    generate: () => crypto.randomUUID(),
+  },
+  {
+    name: '$timestamp',
+    description: 'Current Unix timestamp in seconds',
+    generate: () => String(Math.floor(Date.now() / 1000)),
+  },
+  {
+    name: '$isoTimestamp',
+    description: 'Current time as an ISO 8601 string',
+    generate: () => new Date().toISOString(),
+  },
+  {
+    name: '$randomInt',
+    description: `Random integer, ${RANDOM_INT_MIN}-${RANDOM_INT_MAX} or between "min max"`,
+    generate: (argument) => {
+      const [min = RANDOM_INT_MIN, max = RANDOM_INT_MAX] = argument
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(Number)
+        .filter(Number.isFinite);
+      return String(randomInt(Math.min(min, max), Math.max(min, max)));
+    },
+  },
+  {
+    name: '$randomEmail',
+    description: 'Random email address at example.com',
+    generate: () => {
+      const local = Array.from(
+        { length: 8 },
+        () => EMAIL_ALPHABET[randomInt(0, EMAIL_ALPHABET.length - 1)]
+      ).join('');
+      return `${local}.${randomInt(10, 99)}@example.com`;
+    },
+  },
+  {
+    name: '$base64',
+    description: 'Base64-encode the text after the name (UTF-8)',
+    argument: 'text',
+    generate: (argument) => {
+      let binary = '';
+      for (const byte of new TextEncoder().encode(argument)) {
+        binary += String.fromCharCode(byte);
+      }
+      return btoa(binary);
+    },
+  },
+  {
+    name: '$urlEncode',
+    description: 'URL-encode the text after the name',
+    argument: 'text',
+    generate: (argument) => encodeURIComponent(argument),
+  },
+];
+
+/** Dynamic variables by name */
+const DYNAMIC_VARIABLES_BY_NAME = new Map(DYNAMIC_VARIABLES.map((v) => [v.name, v]));
+
+/**
+ * Look up the dynamic variable a reference uses
+ *
+ * @param reference - Reference without braces (e.g. `$base64 hello`)
+ * @returns The dynamic variable, or undefined if the reference is not dynamic
+ */
+export function getDynamicVariable(reference: string): DynamicVariable | undefined {
+  const [name = ''] = reference.trim().split(/\s/, 1);
+  return DYNAMIC_VARIABLES_BY_NAME.get(name);
+}
+
+/**
+ * Create a scope generating dynamic values for one request
+ * Each reference is generated independently, so two `{{$guid}}` get two GUIDs.
+ *
+ * @returns Scope whose `generated` list can be stored with the request
+ *
+ * @example
+ * ```typescript
+ * const dynamic = createDynamicScope();
+ * resolveRequest(request, variables, dynamic.resolve);
+ * console.log(dynamic.generated); // [{ name: '$guid', value: '...' }]
+ * ```
+ */
+export function createDynamicScope(): DynamicScope {
+  const generated: DynamicValue[] = [];
+
+  const resolve = (reference: string) => {
+    const variable = getDynamicVariable(reference);
+    if (!variable) return undefined;
+
+    const name = reference.trim();
+    const value = variable.generate(name.slice(variable.name.length).trim());
+    generated.push({ name, value });
+    return value;
+  };
+
+  return { resolve, generated };
+}
+
+/**
+ * Random integer between min and max inclusive
+ */
+function randomInt(min: number, max: number): number {
+  return min + Math.floor(Math.random() * (max - min + 1));
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import fixtures from '../../../specs/001-postman-core/contracts/evaluation-fixtures.json';
+import { queryJsonPath } from './json-path';
+import { evaluateAssertions } from './assertions';
+import { extractCaptures, groupCaptures } from './captures';
+import {
+  mergeVariableScopes,
+  redactSecrets,
+  resolveString,
+  type VariableScope,
+} from './variable-resolver';
+import type { Assertion, Capture, ProxyResponse, TestResult, Variable } from '../types';
+
+/**
+ * Cases shared with the headless runner's tests (backend/src/services/evaluation.test.ts)
+ */
+interface EvaluationFixtures {
+  jsonPath: {
+    document: unknown;
+    cases: { name: string; path: string; expected?: unknown[]; error?: string }[];
+  };
+  response: ProxyResponse;
+  assertions: {
+    name: string;
+    response?: Partial<ProxyResponse>;
+    variables: Record<string, string>;
+    assertions: Assertion[];
+    expected: TestResult[];
+  }[];
+  captures: {
+    name: string;
+    response?: Partial<ProxyResponse>;
+    variables: Record<string, string>;
+    captures: Capture[];
+    expected: Record<Capture['scope'], Record<string, string>>;
+  }[];
+  variables: {
+    merge: {
+      name: string;
+      scopes: Record<VariableScope, Variable[]>;
+      expected: Record<string, string>;
+    }[];
+    resolve: {
+      name: string;
+      variables: Record<string, string>;
+      template: string;
+      expected: string;
+    }[];
+    redact: {
+      name: string;
+      secrets: { reference: string; value: string }[];
+      text: string;
+      expected: string;
+    }[];
+  };
+}
+
+const { jsonPath, response, assertions, captures, variables } =
+  fixtures as unknown as EvaluationFixtures;
+
+describe('queryJsonPath', () => {
+  it.each(jsonPath.cases)('$name', ({ path, expected, error }) => {
+    if (error) {
+      expect(() => queryJsonPath(jsonPath.document, path)).toThrow(error);
+    } else {
+      expect(queryJsonPath(jsonPath.document, path)).toEqual(expected);
+    }
+  });
+});
+
+describe('evaluateAssertions', () => {
+  it.each(assertions)('$name', (fixture) => {
+    const results = evaluateAssertions(
+      fixture.assertions,
+      { ...response, ...fixture.response },
+      new Map(Object.entries(fixture.variables))
+    );
+
+    expect(results).toEqual(fixture.expected);
+  });
+});
+
+describe('extractCaptures', () => {
+  it.each(captures)('$name', (fixture) => {
+    const results = extractCaptures(
+      fixture.captures,
+      { ...response, ...fixture.response },
+      new Map(Object.entries(fixture.variables))
+    );
+
+    expect(groupCaptures(results)).toEqual(fixture.expected);
+  });
+});
+
+describe('variable resolver', () => {
+  it.each(variables.merge)('merges: $name', ({ scopes, expected }) => {
+    expect(Object.fromEntries(mergeVariableScopes(scopes).values)).toEqual(expected);
+  });
+
+  it.each(variables.resolve)('resolves: $name', ({ variables, template, expected }) => {
+    expect(resolveString(template, new Map(Object.entries(variables)))).toBe(expected);
+  });
+
+  it.each(variables.redact)('redacts: $name', ({ secrets, text, expected }) => {
+    expect(redactSecrets(text, secrets)).toBe(expected);
+  });
+});
@@ -0,0 +1,354 @@
+/**
+ * Expect - chai-like assertions for test scripts
+ *
+ * Supports the common BDD chain: language words (`to`, `be`, `have`, ...), the
+ * `not` and `deep` flags, and the usual comparisons. A failed assertion throws
+ * an AssertionError describing the expectation.
+ *
+ * @module services/expect
+ */
+
+/**
+ * Error thrown by a failed assertion
+ */
+export class AssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AssertionError';
+  }
+}
+
+/**
+ * Chainable assertion on a value
+ */
+export class Assertion {
+  private readonly subject: unknown;
+  private readonly label: string;
+  private negate = false;
+  private deepFlag = false;
+
+  constructor(subject: unknown, label?: string) {
+    this.subject = subject;
+    this.label = label ?? format(subject);
+  }
+
+  // Language chains: no effect, they only make assertions read well
+  get to(): this {
+    return this;
+  }
+  get be(): this {
+    return this;
+  }
+  get been(): this {
+    return this;
+  }
+  get is(): this {
+    return this;
+  }
+  get that(): this {
+    return this;
+  }
+  get which(): this {
+    return this;
+  }
+  get and(): this {
+    return this;
+  }
+  get has(): this {
+    return this;
+  }
+  get have(): this {
+    return this;
+  }
+  get with(): this {
+    return this;
+  }
+  get at(): this {
+    return this;
+  }
+  get of(): this {
+    return this;
+  }
+
+  /** Negate the assertions that follow */
+  get not(): this {
+    this.negate = !this.negate;
+    return this;
+  }
+
+  /** Compare by value instead of identity in equal, include and property */
+  get deep(): this {
+    this.deepFlag = true;
+    return this;
+  }
+
+  /** Assert on the length of the subject: `expect(items).to.have.length.above(0)` */
+  get length(): Assertion {
+    const assertion = new Assertion(lengthOf(this.subject), `length of ${this.label}`);
+    assertion.negate = this.negate;
+    return assertion;
+  }
+
+  get ok(): this {
+    return this.check(Boolean(this.subject), 'be truthy');
+  }
+  get true(): this {
+    return this.check(this.subject === true, 'be true');
+  }
+  get false(): this {
+    return this.check(this.subject === false, 'be false');
+  }
+  get null(): this {
+    return this.check(this.subject === null, 'be null');
+  }
+  get undefined(): this {
+    return this.check(this.subject === undefined, 'be undefined');
+  }
+  get exist(): this {
+    return this.check(this.subject !== null && this.subject !== undefined, 'exist');
+  }
+  get empty(): this {
+    const subject = this.subject;
+    const empty =
+      typeof subject === 'string' || Array.isArray(subject)
+        ? subject.length === 0
+        : typeof subject === 'object' && subject !== null
+          ? Object.keys(subject).length === 0
+          : false;
+    return this.check(empty, 'be empty');
+  }
+
+  /** Strict equality (deep equality with `deep`) */
+  equal(expected: unknown): this {
+    return this.check(
+      this.deepFlag ? deepEqual(this.subject, expected) : Object.is(this.subject, expected),
+      `${this.deepFlag ? 'deep ' : ''}equal ${format(expected)}`
+    );
+  }
+  equals(expected: unknown): this {
+    return this.equal(expected);
+  }
+  eq(expected: unknown): this {
+    return this.equal(expected);
+  }
+
+  /** Deep equality */
+  eql(expected: unknown): this {
+    return this.check(deepEqual(this.subject, expected), `deep equal ${format(expected)}`);
+  }
+
+  above(limit: number): this {
+    return this.check(toNumber(this.subject) > limit, `be above ${limit}`);
+  }
+  gt(limit: number): this {
+    return this.above(limit);
+  }
+  greaterThan(limit: number): this {
+    return this.above(limit);
+  }
+
+  below(limit: number): this {
+    return this.check(toNumber(this.subject) < limit, `be below ${limit}`);
+  }
+  lt(limit: number): this {
+    return this.below(limit);
+  }
+  lessThan(limit: number): this {
+    return this.below(limit);
+  }
+
+  least(limit: number): this {
+    return this.check(toNumber(this.subject) >= limit, `be at least ${limit}`);
+  }
+  gte(limit: number): this {
+    return this.least(limit);
+  }
+
+  most(limit: number): this {
+    return this.check(toNumber(this.subject) <= limit, `be at most ${limit}`);
+  }
+  lte(limit: number): this {
+    return this.most(limit);
+  }
+
+  within(start: number, finish: number): this {
+    const value = toNumber(this.subject);
+    return this.check(value >= start && value <= finish, `be within ${start}..${finish}`);
+  }
+
+  /** Type check: 'string', 'number', 'boolean', 'object', 'array', 'null', 'undefined' */
+  a(type: string): this {
+    return this.check(typeOf(this.subject) === type.toLowerCase(), `be a ${type}`);
+  }
+  an(type: string): this {
+    return this.a(type);
+  }
+
+  /** Substring, array element or object subset */
+  include(expected: unknown): this {
+    return this.check(
+      includes(this.subject, expected, this.deepFlag),
+      `include ${format(expected)}`
+    );
+  }
+  includes(expected: unknown): this {
+    return this.include(expected);
+  }
+  contain(expected: unknown): this {
+    return this.include(expected);
+  }
+  contains(expected: unknown): this {
+    return this.include(expected);
+  }
+
+  lengthOf(expected: number): this {
+    return this.check(lengthOf(this.subject) === expected, `have length ${expected}`);
+  }
+
+  /**
+   * Own or inherited property, optionally with a value
+   * The chain then continues on the property's value: `.property('id').that.is.a('string')`
+   */
+  property(name: string, ...value: [unknown?]): Assertion {
+    const subject = this.subject;
+    const has = subject !== null && subject !== undefined && name in Object(subject);
+    const actual = has ? (subject as Record<string, unknown>)[name] : undefined;
+    if (value.length === 0) {
+      this.check(has, `have property ${format(name)}`);
+    } else {
+      this.check(
+        has && (this.deepFlag ? deepEqual(actual, value[0]) : Object.is(actual, value[0])),
+        `have property ${format(name)} of ${format(value[0])}`
+      );
+    }
+
+    return new Assertion(actual, `${this.label}.${name}`);
+  }
+
+  match(pattern: RegExp): this {
+    return this.check(pattern.test(String(this.subject)), `match ${pattern}`);
+  }
+
+  oneOf(list: unknown[]): this {
+    return this.check(
+      list.some((item) =>
+        this.deepFlag ? deepEqual(item, this.subject) : Object.is(item, this.subject)
+      ),
+      `be one of ${format(list)}`
+    );
+  }
+
+  /** Assert with a custom predicate */
+  satisfy(predicate: (value: unknown) => boolean): this {
+    return this.check(Boolean(predicate(this.subject)), 'satisfy the predicate');
+  }
+
+  /**
+   * Throw unless the outcome matches the expectation (inverted by `not`)
+   */
+  private check(passed: boolean, expectation: string): this {
+    if (passed === this.negate) {
+      throw new AssertionError(
+        `expected ${this.label} to ${this.negate ? 'not ' : ''}${expectation}`
+      );
+    }
+    return this;
+  }
+}
+
+/**
+ * Start an assertion on a value
+ *
+ * @param subject - Value to check
+ * @returns Chainable assertion
+ *
+ * @example
+ * ```typescript
+ * expect(response.status).to.equal(200);
+ * expect(body.items).to.have.length.above(0);
+ * expect(body).to.have.property('id').that.is.a('string');
+ * ```
+ */
+export function expect(subject: unknown): Assertion {
+  return new Assertion(subject);
+}
+
+/**
+ * Length of a string, array or anything with a numeric length
+ */
+function lengthOf(value: unknown): number | undefined {
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  const length = (value as { length?: unknown } | null | undefined)?.length;
+  return typeof length === 'number' ? length : undefined;
+}
+
+/**
+ * Numeric value for comparisons (NaN for anything else, so they fail)
+ */
+function toNumber(value: unknown): number {
+  return typeof value === 'number' ? value : NaN;
+}
+
+/**
+ * Type name as used by `a()`: arrays and null get their own
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Whether a string, array or object contains a value
+ */
+function includes(subject: unknown, expected: unknown, deep: boolean): boolean {
+  if (typeof subject === 'string') {
+    return subject.includes(String(expected));
+  }
+  if (Array.isArray(subject)) {
+    return subject.some((item) => (deep ? deepEqual(item, expected) : Object.is(item, expected)));
+  }
+  if (typeof subject === 'object' && subject !== null && typeof expected === 'object' && expected) {
+    return Object.entries(expected).every(([key, value]) =>
+      deep
+        ? deepEqual((subject as Record<string, unknown>)[key], value)
+        : Object.is((subject as Record<string, unknown>)[key], value)
+    );
+  }
+  return false;
+}
+
+/**
+ * Structural equality of JSON-like values
+ */
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every(
+      (key) =>
+        Object.hasOwn(b, key) &&
+        deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    )
+  );
+}
+
+/**
+ * Short representation of a value in assertion messages
+ */
+function format(value: unknown): string {
+  if (typeof value === 'string') return `'${value}'`;
+  if (value instanceof RegExp) return String(value);
+  try {
+    const json = JSON.stringify(value);
+    if (json === undefined) return String(value);
+    return json.length > 60 ? `${json.slice(0, 57)}...` : json;
+  } catch {
+    return String(value);
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * Exporter - writes collections, environments and the whole workspace to files
+ *
+ * Exports use the versioned Neo-Postman format, which the importer reads back and the
+ * headless runner (POST /api/runs, the neo-postman CLI) runs as is. Secret variable
+ * values are left out: exports are meant to be shared.
+ *
+ * @module services/exporter
+ */
+
+import {
+  getAllCollections,
+  getAllEnvironments,
+  getCollection,
+  getFoldersByCollection,
+  getGlobalVariables,
+  getRequestsByCollection,
+} from './db';
+import { redactVariables } from './variable-resolver';
+import {
+  CollectionExportSchema,
+  EnvironmentExportSchema,
+  WorkspaceExportSchema,
+} from '../types/schemas';
+import type {
+  Collection,
+  CollectionExport,
+  Environment,
+  EnvironmentExport,
+  Folder,
+  SavedRequest,
+  WorkspaceExport,
+} from '../types';
+
+/** Format name of Neo-Postman export files */
+export const EXPORT_FORMAT = 'neo-postman';
+
+/** Version of the export format, raised on incompatible changes */
+export const EXPORT_VERSION = 1;
+
+/**
+ * Export a collection with all its folders and requests
+ *
+ * @param collectionId - Collection id
+ * @returns Promise resolving to the validated export
+ * @throws Error if the collection does not exist
+ *
+ * @example
+ * ```typescript
+ * const exported = await exportCollection(collectionId);
+ * downloadJson(getExportFileName(exported.collection.name, 'collection'), exported);
+ * ```
+ */
+export async function exportCollection(collectionId: string): Promise<CollectionExport> {
+  const collection = await getCollection(collectionId);
+  if (!collection) {
+    throw new Error('Collection not found');
+  }
+
+  const [folders, requests] = await Promise.all([
+    getFoldersByCollection(collectionId),
+    getRequestsByCollection(collectionId),
+  ]);
+  return toCollectionExport(collection, folders, requests);
+}
+
+/**
+ * Export an environment
+ *
+ * @param environmentId - Environment id
+ * @returns Promise resolving to the validated export
+ * @throws Error if the environment does not exist
+ */
+export async function exportEnvironment(environmentId: string): Promise<EnvironmentExport> {
+  const environment = (await getAllEnvironments()).find(({ id }) => id === environmentId);
+  if (!environment) {
+    throw new Error('Environment not found');
+  }
+  return toEnvironmentExport(environment);
+}
+
+/**
+ * Export every collection and environment, and the global variables
+ *
+ * @returns Promise resolving to the validated export
+ */
+export async function exportWorkspace(): Promise<WorkspaceExport> {
+  const [collections, environments, globals] = await Promise.all([
+    getAllCollections(),
+    getAllEnvironments(),
+    getGlobalVariables(),
+  ]);
+
+  const collectionExports = await Promise.all(
+    collections.map(async (collection) => {
+      const [folders, requests] = await Promise.all([
+        getFoldersByCollection(collection.id),
+        getRequestsByCollection(collection.id),
+      ]);
+      return toCollectionExport(collection, folders, requests);
+    })
+  );
+
+  return WorkspaceExportSchema.parse({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    type: 'workspace',
+    collections: collectionExports,
+    environments: environments.map(toEnvironmentExport),
+    globals: redactVariables(globals),
+  });
+}
+
+/**
+ * File name for an export, from the name of what is exported
+ *
+ * @param name - Collection or environment name
+ * @param kind - What the file holds, e.g. 'collection' or 'postman_collection'
+ * @returns File name such as 'my-api.collection.json'
+ */
+export function getExportFileName(name: string, kind: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug || 'export'}.${kind}.json`;
+}
+
+/**
+ * Save data as an indented JSON file through the browser's download
+ *
+ * @param fileName - Name of the downloaded file
+ * @param data - Data to serialize
+ */
+export function downloadJson(fileName: string, data: unknown): void {
+  const blob = new Blob([`${JSON.stringify(data, null, 2)}\n`], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Collection export with secret values emptied, folders parents first
+ */
+function toCollectionExport(
+  collection: Collection,
+  folders: Folder[],
+  requests: SavedRequest[]
+): CollectionExport {
+  return CollectionExportSchema.parse({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    type: 'collection',
+    collection: {
+      name: collection.name,
+      description: collection.description,
+      auth: collection.auth,
+      variables: redactVariables(collection.variables),
+      preRequestScript: collection.preRequestScript,
+    },
+    folders: sortParentsFirst(folders).map((folder) => ({
+      id: folder.id,
+      name: folder.name,
+      parentFolderId: folder.parentFolderId,
+      auth: folder.auth,
+      preRequestScript: folder.preRequestScript,
+      sortOrder: folder.sortOrder,
+    })),
+    requests: requests.map((request) => ({
+      id: request.id,
+      name: request.name,
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      body: request.body,
+      auth: request.auth,
+      variables: redactVariables(request.variables),
+      preRequestScript: request.preRequestScript,
+      testScript: request.testScript,
+      assertions: request.assertions,
+      captures: request.captures,
+      timeout: request.timeout,
+      folderId: request.folderId,
+      sortOrder: request.sortOrder,
+    })),
+  });
+}
+
+/**
+ * Environment export with secret values emptied
+ */
+function toEnvironmentExport(environment: Environment): EnvironmentExport {
+  return EnvironmentExportSchema.parse({
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    type: 'environment',
+    environment: {
+      name: environment.name,
+      variables: redactVariables(environment.variables),
+    },
+  });
+}
+
+/**
+ * Folders ordered so each comes after its parent, siblings by sort order
+ * Folders whose parent is missing come last, so none is lost.
+ */
+function sortParentsFirst(folders: Folder[]): Folder[] {
+  const sorted: Folder[] = [];
+  const addChildren = (parentFolderId: string | null) => {
+    for (const folder of folders
+      .filter((candidate) => candidate.parentFolderId === parentFolderId)
+      .sort((a, b) => a.sortOrder - b.sortOrder)) {
+      sorted.push(folder);
+      addChildren(folder.id);
+    }
+  };
+  addChildren(null);
+  return [...sorted, ...folders.filter((folder) => !sorted.includes(folder))];
+}
@@ -0,0 +1,346 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { exportCollection } from './exporter';
+import { importFile, type ImportResult } from './importer';
+import { importPostmanCollection, toPostmanCollection } from './postman';
+import type {
+  AuthConfig,
+  Collection,
+  CollectionExport,
+  Folder,
+  RequestBody,
+  SavedRequest,
+} from '../types';
+
+// In-memory stand-in for the collection tables of the IndexedDB database
+const store = vi.hoisted(() => ({
+  collections: [] as Collection[],
+  folders: [] as Folder[],
+  requests: [] as SavedRequest[],
+}));
+
+vi.mock('./db', () => {
+  const now = () => new Date().toISOString();
+  const bySortOrder = <T extends { sortOrder: number }>(items: T[]) =>
+    [...items].sort((a, b) => a.sortOrder - b.sortOrder);
+
+  return {
+    getAllCollections: async () => bySortOrder(store.collections),
+    getCollection: async (id: string) => store.collections.find((c) => c.id === id),
+    getFoldersByCollection: async (collectionId: string) =>
+      bySortOrder(store.folders.filter((f) => f.collectionId === collectionId)),
+    getRequestsByCollection: async (collectionId: string) =>
+      bySortOrder(store.requests.filter((r) => r.collectionId === collectionId)),
+    createCollection: async (collection: Omit<Collection, 'id' | 'createdAt' | 'updatedAt'>) => {
+      const id = crypto.randomUUID();
+      store.collections.push({ ...collection, id, createdAt: now(), updatedAt: now() });
+      return id;
+    },
+    createFolder: async (folder: Omit<Folder, 'id' | 'createdAt' | 'updatedAt'>) => {
+      const id = crypto.randomUUID();
+      store.folders.push({ ...folder, id, createdAt: now(), updatedAt: now() });
+      return id;
+    },
+    createRequest: async (request: Omit<SavedRequest, 'id' | 'createdAt' | 'updatedAt'>) => {
+      const id = crypto.randomUUID();
+      store.requests.push({ ...request, id, createdAt: now(), updatedAt: now() });
+      return id;
+    },
+  };
+});
+
+const BODIES: RequestBody[] = [
+  { type: 'json', content: '{\n  "name": "{{name}}"\n}' },
+  {
+    type: 'form-data',
+    content: JSON.stringify([{ key: 'avatar_url', value: 'https://cdn.example.com/a.png' }]),
+  },
+  {
+    type: 'x-www-form-urlencoded',
+    content: JSON.stringify([
+      { key: 'grant', value: 'password' },
+      { key: 'user', value: '{{user}}' },
+    ]),
+  },
+  { type: 'raw', content: '<user id="1"/>' },
+  { type: 'binary', content: 'aGVsbG8=', binaryFileName: 'avatar.png' },
+  null,
+];
+
+const AUTHS: (AuthConfig | null)[] = [
+  null,
+  { type: 'none' },
+  { type: 'bearer', bearer: { token: '{{token}}' } },
+  { type: 'api-key', apiKey: { key: 'X-Api-Key', value: 'abc', in: 'query' } },
+  { type: 'basic', basic: { username: 'ada', password: 'lovelace' } },
+  { type: 'digest', digest: { username: 'ada', password: 'lovelace' } },
+  {
+    type: 'oauth2',
+    oauth2: {
+      grantType: 'authorization_code',
+      tokenUrl: 'https://auth.example.com/token',
+      authUrl: 'https://auth.example.com/authorize',
+      redirectUri: 'https://app.example.com/callback',
+      clientId: 'client',
+      clientSecret: 'secret',
+      scope: 'read write',
+      username: '',
+      password: '',
+      clientAuth: 'body',
+      usePkce: true,
+      headerPrefix: 'Token',
+    },
+  },
+  {
+    type: 'aws-sigv4',
+    awsSigV4: {
+      accessKeyId: 'AKIDEXAMPLE',
+      secretAccessKey: 'wJalrXUtnFEMI',
+      sessionToken: 'session',
+      region: 'eu-west-1',
+      service: 's3',
+    },
+  },
+  {
+    type: 'hmac',
+    hmac: {
+      algorithm: 'SHA-256',
+      secret: 'key',
+      message: '{method}\n{path}\n{timestamp}',
+      encoding: 'hex',
+      timestampHeader: 'X-Timestamp',
+      placement: { in: 'header', name: 'X-Signature', prefix: '' },
+    },
+  },
+  {
+    type: 'jwt',
+    jwt: {
+      algorithm: 'HS256',
+      secret: 'shared',
+      header: '{"kid":"1"}',
+      payload: '{"sub":"{{user}}"}',
+      expiresIn: 0,
+      placement: { in: 'header', name: 'Authorization', prefix: 'Bearer' },
+    },
+  },
+];
+
+const TEST_SCRIPT = [
+  "np.test('status', () => np.expect(np.response.status).to.equal(200));",
+  "np.test('text', () => np.expect(np.response.statusText).to.equal('OK'));",
+  "np.environment.set('body', np.response.body);",
+  'console.log(np.response.time, np.response.size);',
+].join('\n');
+
+/**
+ * Seed a collection with three nested folder levels, one request per auth type and
+ * every body type
+ */
+function seedCollection(): string {
+  const collectionId = crypto.randomUUID();
+  const createdAt = new Date().toISOString();
+  store.collections.push({
+    id: collectionId,
+    name: 'Users API',
+    description: 'Everything about users',
+    auth: { type: 'bearer', bearer: { token: '{{token}}' } },
+    variables: [
+      { key: 'baseUrl', value: 'https://api.example.com', enabled: true },
+      { key: 'legacy', value: 'v1', enabled: false },
+      { key: 'token', value: 'shh', enabled: true, secret: true },
+    ],
+    preRequestScript: "np.variables.set('started', Date.now());",
+    sortOrder: 0,
+    createdAt,
+    updatedAt: createdAt,
+    syncProjectId: null,
+  });
+
+  const folder = (name: string, parentFolderId: string | null, sortOrder: number): Folder => ({
+    id: crypto.randomUUID(),
+    name,
+    collectionId,
+    parentFolderId,
+    auth: name === 'Admin' ? { type: 'basic', basic: { username: 'root', password: '' } } : null,
+    preRequestScript: name === 'Admin' ? "np.request.headers.set('X-Admin', '1');" : '',
+    sortOrder,
+    createdAt,
+    updatedAt: createdAt,
+  });
+  const accounts = folder('Accounts', null, 0);
+  const admin = folder('Admin', accounts.id, 0);
+  const audit = folder('Audit', admin.id, 0);
+  const search = folder('Search', null, 1);
+  store.folders.push(audit, search, admin, accounts);
+
+  const folderIds = [null, accounts.id, admin.id, audit.id, search.id];
+  AUTHS.forEach((auth, index) => {
+    const folderId = folderIds[index % folderIds.length] ?? null;
+    store.requests.push({
+      id: crypto.randomUUID(),
+      name: `Request ${index}`,
+      method: index % 2 === 0 ? 'GET' : 'POST',
+      url: '{{baseUrl}}/users/{{userId}}?page={{page}}',
+      headers: [
+        { key: 'Accept', value: 'application/json', enabled: true },
+        { key: 'X-Debug', value: '1', enabled: false },
+      ],
+      body: BODIES[index % BODIES.length] ?? null,
+      auth,
+      variables: [{ key: 'userId', value: String(index), enabled: true }],
+      preRequestScript: index === 0 ? "np.variables.set('page', '2');" : '',
+      testScript: TEST_SCRIPT,
+      assertions:
+        index === 0
+          ? [{ source: 'status', property: '', operator: 'equals', value: '200', enabled: true }]
+          : [],
+      captures:
+        index === 0
+          ? [
+              {
+                variable: 'userId',
+                source: 'jsonPath',
+                expression: '$.id',
+                scope: 'collection',
+                enabled: true,
+              },
+            ]
+          : [],
+      timeout: index === 0 ? 5000 : 30000,
+      collectionId,
+      folderId,
+      sortOrder: store.requests.filter((request) => request.folderId === folderId).length,
+      createdAt,
+      updatedAt: createdAt,
+    });
+  });
+
+  return collectionId;
+}
+
+/**
+ * Export with folder ids replaced by their position and requests sorted by name, so
+ * exports of different copies of a collection compare equal
+ */
+function withoutIds(exported: CollectionExport) {
+  const positions = new Map(exported.folders.map((folder, index) => [folder.id, `#${index}`]));
+  const position = (id: string | null) => (id === null ? null : positions.get(id));
+
+  return {
+    ...exported,
+    folders: exported.folders.map(({ id, parentFolderId, ...folder }) => ({
+      ...folder,
+      position: position(id),
+      parentFolderId: position(parentFolderId),
+    })),
+    requests: exported.requests
+      .map(({ id: _id, folderId, ...request }) => ({ ...request, folderId: position(folderId) }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+/**
+ * Import an export through the file importer, as the import dialog does
+ */
+async function importExport(exported: CollectionExport): Promise<ImportResult> {
+  const [result] = await importFile('users-api.collection.json', JSON.stringify(exported));
+  if (!result) throw new Error('Nothing imported');
+  return result;
+}
+
+beforeEach(() => {
+  store.collections = [];
+  store.folders = [];
+  store.requests = [];
+});
+
+describe('Neo-Postman export round trip', () => {
+  it('imports an export back into the same collection', async () => {
+    const exported = await exportCollection(seedCollection());
+
+    const result = await importExport(exported);
+    const reexported = await exportCollection(result.id);
+
+    expect(result).toMatchObject({ type: 'collection', folders: 4, requests: AUTHS.length });
+    expect(withoutIds(reexported)).toEqual(withoutIds(exported));
+  });
+
+  it('leaves secret values out', async () => {
+    const exported = await exportCollection(seedCollection());
+
+    const result = await importExport(exported);
+
+    expect(exported.collection.variables[2]).toEqual({
+      key: 'token',
+      value: '',
+      enabled: true,
+      secret: true,
+    });
+    expect(result.warnings).toEqual([
+      { item: 'Users API', message: 'Secret values are not exported; fill in token' },
+    ]);
+  });
+});
+
+describe('Postman export round trip', () => {
+  it('imports a Postman export back, less what Postman cannot hold', async () => {
+    const exported = await exportCollection(seedCollection());
+
+    const { collection, warnings } = toPostmanCollection(exported);
+    const result = await importPostmanCollection(collection);
+    const reexported = await exportCollection(result.id);
+
+    // HMAC auth, assertions, captures, timeouts and binary content are not carried over
+    const expected: CollectionExport = {
+      ...exported,
+      requests: exported.requests.map((request) => ({
+        ...request,
+        auth: request.auth?.type === 'hmac' ? { type: 'none' } : request.auth,
+        body: request.body?.type === 'binary' ? { ...request.body, content: '' } : request.body,
+        assertions: [],
+        captures: [],
+        timeout: 30000,
+      })),
+    };
+    expect(withoutIds(reexported)).toEqual(withoutIds(expected));
+    expect(warnings).toEqual(
+      expect.arrayContaining([
+        'Users API / Request 0: 1 assertion(s) not exported; add them to the test script',
+        'Users API / Request 0: 1 capture(s) not exported; add them to the test script',
+        'Users API / Accounts / Admin / Audit / Request 8: HMAC auth is not supported by Postman; exported without auth',
+      ])
+    );
+  });
+
+  it('renames the np script API to pm and back', async () => {
+    const exported = await exportCollection(seedCollection());
+
+    const { collection } = toPostmanCollection(exported);
+    const request = collection.item.find((item) => item.name === 'Request 0');
+
+    expect(request?.event).toContainEqual({
+      listen: 'test',
+      script: {
+        exec: [
+          "pm.test('status', () => pm.expect(pm.response.code).to.equal(200));",
+          "pm.test('text', () => pm.expect(pm.response.status).to.equal('OK'));",
+          "pm.environment.set('body', pm.response.text());",
+          'console.log(pm.response.responseTime, pm.response.responseSize);',
+        ],
+      },
+    });
+  });
+
+  it('turns request variables used as path segments into Postman path variables', async () => {
+    const exported = await exportCollection(seedCollection());
+
+    const { collection } = toPostmanCollection(exported);
+    const request = collection.item.find((item) => item.name === 'Request 0')?.request;
+
+    expect(request).toMatchObject({
+      url: {
+        raw: '{{baseUrl}}/users/:userId?page={{page}}',
+        variable: [{ key: 'userId', value: '0' }],
+      },
+    });
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Importer - turns exported files into collections and environments
+ *
+ * The format is detected from the content, so users only have to pick a file.
+ * Neo-Postman exports round-trip: importing one recreates what was exported, except
+ * secret values, which exports leave out.
+ *
+ * @module services/importer
+ */
+
+import {
+  createCollection,
+  createEnvironment,
+  createFolder,
+  createRequest,
+  getAllCollections,
+  getGlobalVariables,
+  saveGlobalVariables,
+} from './db';
+import { CORE_SCHEMA, load } from 'js-yaml';
+import { importPostmanCollection, importPostmanEnvironment, isPostmanEnvironment } from './postman';
+import { importOpenApiSpec, isOpenApiSpec } from './openapi';
+import { EXPORT_FORMAT, EXPORT_VERSION } from './exporter';
+import { NeoPostmanExportSchema } from '../types/schemas';
+import type {
+  CollectionExport,
+  EnvironmentExport,
+  FolderExport,
+  Variable,
+  WorkspaceExport,
+} from '../types';
+
+/**
+ * Something an import left out or changed, on one item
+ */
+export interface ImportWarning {
+  /** Path of the item, e.g. 'Users / Admin / Delete user' */
+  item: string;
+  message: string;
+}
+
+/**
+ * What an import created
+ */
+export interface ImportResult {
+  type: 'collection' | 'environment' | 'globals';
+  /** Id of the created collection or environment ('globals' for global variables) */
+  id: string;
+  name: string;
+  /** Folders created (0 for environments and globals) */
+  folders: number;
+  /** Requests created (0 for environments and globals) */
+  requests: number;
+  /** Variables created at the collection, environment or global level */
+  variables: number;
+  warnings: ImportWarning[];
+}
+
+/**
+ * Import a file, detecting its format from the content
+ * Supports Neo-Postman exports (collection, environment or workspace), OpenAPI 3.x and
+ * Swagger 2.0 specifications, Postman v2.1 collections and Postman environments.
+ * Files named .yaml or .yml are read as YAML, others as JSON.
+ *
+ * @param fileName - Name of the uploaded file (picks the parser, used in error messages)
+ * @param content - File content
+ * @returns Promise resolving to what was created, one result per collection, environment
+ * or set of global variables
+ * @throws Error if the file cannot be parsed or is not in a supported format
+ *
+ * @example
+ * ```typescript
+ * const results = await importFile(file.name, await file.text());
+ * console.log(`${results[0].requests} requests imported`, results[0].warnings);
+ * ```
+ */
+export async function importFile(fileName: string, content: string): Promise<ImportResult[]> {
+  const text = content.replace(/^\uFEFF/, '');
+  const yaml = /\.ya?ml$/i.test(fileName);
+  let data: unknown;
+  try {
+    // The core schema keeps unquoted dates as strings, as they would be in JSON
+    data = yaml ? load(text, { schema: CORE_SCHEMA }) : JSON.parse(text);
+  } catch {
+    throw new Error(`${fileName} is not valid ${yaml ? 'YAML' : 'JSON'}`);
+  }
+
+  if (typeof data === 'object' && data !== null && 'format' in data) {
+    if (data.format !== EXPORT_FORMAT) {
+      throw new Error(`${fileName} is in an unknown format`);
+    }
+    return importNeoPostmanExport(fileName, data);
+  }
+  if (isOpenApiSpec(data)) {
+    return [await importOpenApiSpec(data)];
+  }
+  if (isPostmanEnvironment(data)) {
+    return [await importPostmanEnvironment(data)];
+  }
+  return [await importPostmanCollection(data)];
+}
+
+/**
+ * Import a collection export with its folders and requests
+ * Folders and requests get new ids; secret variables are imported without values.
+ *
+ * @param exported - Validated collection export
+ * @returns Promise resolving to what was created
+ * @throws Error if folders are nested deeper than 3 levels
+ */
+export async function importCollectionExport(exported: CollectionExport): Promise<ImportResult> {
+  const { collection, folders, requests } = exported;
+  const warnings: ImportWarning[] = [];
+  const warnSecrets = (item: string, variables: Variable[]) => {
+    const keys = getEmptySecrets(variables);
+    if (keys.length > 0) {
+      warnings.push({ item, message: `Secret values are not exported; fill in ${keys}` });
+    }
+  };
+  warnSecrets(collection.name, collection.variables);
+
+  const collectionId = await createCollection({
+    ...collection,
+    sortOrder: (await getAllCollections()).length,
+    syncProjectId: null,
+  });
+
+  // Folders are created parents first; a missing parent puts the folder at the root
+  const known = new Set(folders.map((folder) => folder.id));
+  const folderIds = new Map<string, string>();
+  const folderPaths = new Map<string, string>();
+  const createChildren = async (children: FolderExport[], parentId: string | null) => {
+    for (const folder of children) {
+      const path = [folderPaths.get(parentId ?? '') ?? collection.name, folder.name].join(' / ');
+      if (folderIds.has(folder.id)) {
+        warnings.push({ item: path, message: 'Folder id appears twice; skipped' });
+        continue;
+      }
+
+      const id = await createFolder({
+        name: folder.name,
+        collectionId,
+        parentFolderId: parentId === null ? null : (folderIds.get(parentId) ?? null),
+        auth: folder.auth,
+        preRequestScript: folder.preRequestScript,
+        sortOrder: folder.sortOrder,
+      });
+      folderIds.set(folder.id, id);
+      folderPaths.set(folder.id, path);
+      await createChildren(
+        folders.filter((child) => child.parentFolderId === folder.id),
+        folder.id
+      );
+    }
+  };
+
+  const orphans = folders.filter(
+    (folder) => folder.parentFolderId !== null && !known.has(folder.parentFolderId)
+  );
+  for (const folder of orphans) {
+    warnings.push({
+      item: `${collection.name} / ${folder.name}`,
+      message: 'Parent folder not found; imported at the collection root',
+    });
+  }
+  await createChildren(
+    folders.filter((folder) => folder.parentFolderId === null || orphans.includes(folder)),
+    null
+  );
+
+  for (const request of requests) {
+    const folderId = request.folderId === null ? null : (folderIds.get(request.folderId) ?? null);
+    const path = [folderPaths.get(request.folderId ?? '') ?? collection.name, request.name].join(
+      ' / '
+    );
+    if (request.folderId !== null && folderId === null) {
+      warnings.push({ item: path, message: 'Folder not found; imported at the collection root' });
+    }
+    warnSecrets(path, request.variables);
+
+    await createRequest({
+      name: request.name,
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      body: request.body,
+      auth: request.auth,
+      variables: request.variables,
+      preRequestScript: request.preRequestScript,
+      testScript: request.testScript,
+      assertions: request.assertions,
+      captures: request.captures,
+      timeout: request.timeout,
+      collectionId,
+      folderId,
+      sortOrder: request.sortOrder,
+    });
+  }
+
+  return {
+    type: 'collection',
+    id: collectionId,
+    name: collection.name,
+    folders: folderIds.size,
+    requests: requests.length,
+    variables: collection.variables.length,
+    warnings,
+  };
+}
+
+/**
+ * Import an environment export
+ * The new environment is not activated.
+ *
+ * @param exported - Validated environment export
+ * @returns Promise resolving to what was created
+ */
+export async function importEnvironmentExport(exported: EnvironmentExport): Promise<ImportResult> {
+  const { name, variables } = exported.environment;
+  const id = await createEnvironment({ name, variables, isActive: false, syncProjectId: null });
+
+  const secrets = getEmptySecrets(variables);
+  return {
+    type: 'environment',
+    id,
+    name,
+    folders: 0,
+    requests: 0,
+    variables: variables.length,
+    warnings:
+      secrets.length > 0
+        ? [{ item: name, message: `Secret values are not exported; fill in ${secrets}` }]
+        : [],
+  };
+}
+
+/**
+ * Import every collection and environment of a workspace export, and its globals
+ * Global variables are added to the existing ones; keys that already exist keep their value.
+ *
+ * @param exported - Validated workspace export
+ * @returns Promise resolving to one result per collection and environment, then globals
+ */
+export async function importWorkspaceExport(exported: WorkspaceExport): Promise<ImportResult[]> {
+  const results: ImportResult[] = [];
+  for (const collection of exported.collections) {
+    results.push(await importCollectionExport(collection));
+  }
+  for (const environment of exported.environments) {
+    results.push(await importEnvironmentExport(environment));
+  }
+
+  if (exported.globals.length > 0) {
+    const existing = await getGlobalVariables();
+    const keys = new Set(existing.map((variable) => variable.key));
+    const added = exported.globals.filter((variable) => !keys.has(variable.key));
+    const kept = exported.globals.filter((variable) => keys.has(variable.key));
+    await saveGlobalVariables([...existing, ...added]);
+
+    const warnings: ImportWarning[] = [];
+    if (kept.length > 0) {
+      warnings.push({
+        item: 'Globals',
+        message: `Already defined, kept the current value: ${kept.map(({ key }) => key).join(', ')}`,
+      });
+    }
+    const secrets = getEmptySecrets(added);
+    if (secrets.length > 0) {
+      warnings.push({
+        item: 'Globals',
+        message: `Secret values are not exported; fill in ${secrets}`,
+      });
+    }
+    results.push({
+      type: 'globals',
+      id: 'globals',
+      name: 'Globals',
+      folders: 0,
+      requests: 0,
+      variables: added.length,
+      warnings,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Validate a Neo-Postman export and import what it holds
+ */
+async function importNeoPostmanExport(fileName: string, data: object): Promise<ImportResult[]> {
+  if ('version' in data && typeof data.version === 'number' && data.version > EXPORT_VERSION) {
+    throw new Error(`${fileName} was exported by a newer version of Neo-Postman`);
+  }
+
+  const parseResult = NeoPostmanExportSchema.safeParse(data);
+  if (!parseResult.success) {
+    const issue = parseResult.error.issues[0];
+    const where = issue?.path.join('.') || '(root)';
+    throw new Error(`${fileName} is not a valid export: ${where}: ${issue?.message}`);
+  }
+
+  const exported = parseResult.data;
+  switch (exported.type) {
+    case 'collection':
+      return [await importCollectionExport(exported)];
+    case 'environment':
+      return [await importEnvironmentExport(exported)];
+    case 'workspace':
+      return importWorkspaceExport(exported);
+  }
+}
+
+/**
+ * Keys of secret variables without a value, comma-separated
+ */
+function getEmptySecrets(variables: Variable[]): string {
+  return variables
+    .filter((variable) => variable.secret && variable.value === '')
+    .map((variable) => variable.key)
+    .join(', ');
+}
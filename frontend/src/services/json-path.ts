@@ -0,0 +1,137 @@
+/**
+ * JSONPath - query parsed JSON response bodies
+ *
+ * Supports the subset used to point at response values: the `$` root, `.name`
+ * and `['name']` children, `[0]` and `[-1]` array indexes, `*` / `[*]` wildcards
+ * and `..name` recursive descent. A path without `$` starts at the root
+ * (`data.id` is `$.data.id`). Filters and slices are not supported.
+ *
+ * @module services/json-path
+ */
+
+/**
+ * One step of a parsed path
+ */
+export interface JsonPathSegment {
+  /** Match at any depth below the current nodes (`..`), not only their children */
+  descendant: boolean;
+  /** Property name, array index (negative counts from the end) or '*' for every child */
+  selector: string | number;
+}
+
+/** Property name after a dot */
+const NAME_PATTERN = /[^.[\]\s]+/y;
+
+/** Bracketed wildcard, index or quoted name */
+const BRACKET_PATTERN = /\[\s*(?:(\*)|(-?\d+)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")\s*\]/y;
+
+/**
+ * Parse a JSONPath expression into its segments
+ *
+ * @param path - Expression such as `$.items[0].id`
+ * @returns Segments in order (empty for the root itself)
+ * @throws Error if the expression is not valid
+ *
+ * @example
+ * ```typescript
+ * parseJsonPath("$.items[*]['full name']");
+ * // => [{ descendant: false, selector: 'items' }, { descendant: false, selector: '*' }, ...]
+ * ```
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  const source = path.trim();
+  const segments: JsonPathSegment[] = [];
+  let index = source.startsWith('$') ? 1 : 0;
+  // Without the leading $, the path starts with a property name
+  let afterDot = index === 0;
+
+  while (index < source.length) {
+    let descendant = false;
+    if (source.startsWith('..', index)) {
+      descendant = true;
+      afterDot = true;
+      index += 2;
+    } else if (source[index] === '.') {
+      afterDot = true;
+      index += 1;
+    }
+
+    BRACKET_PATTERN.lastIndex = index;
+    const bracket = source[index] === '[' ? BRACKET_PATTERN.exec(source) : null;
+    if (bracket) {
+      const [, wildcard, position, single, double] = bracket;
+      segments.push({
+        descendant,
+        selector: wildcard
+          ? '*'
+          : position !== undefined
+            ? Number(position)
+            : (single ?? double ?? '').replace(/\\(.)/g, '$1'),
+      });
+      index = BRACKET_PATTERN.lastIndex;
+      afterDot = false;
+      continue;
+    }
+
+    NAME_PATTERN.lastIndex = index;
+    const name = afterDot ? NAME_PATTERN.exec(source) : null;
+    if (!name) {
+      throw new Error(`Invalid JSONPath "${path}" at position ${index + 1}`);
+    }
+    segments.push({ descendant, selector: name[0] });
+    index = NAME_PATTERN.lastIndex;
+    afterDot = false;
+  }
+
+  return segments;
+}
+
+/**
+ * Find every value matching a JSONPath expression
+ *
+ * @param value - Parsed JSON
+ * @param path - JSONPath expression
+ * @returns Matching values in document order (empty if nothing matches)
+ * @throws Error if the expression is not valid
+ *
+ * @example
+ * ```typescript
+ * queryJsonPath({ items: [{ id: 1 }, { id: 2 }] }, '$.items[*].id');
+ * // => [1, 2]
+ * ```
+ */
+export function queryJsonPath(value: unknown, path: string): unknown[] {
+  let nodes: unknown[] = [value];
+
+  for (const { descendant, selector } of parseJsonPath(path)) {
+    const targets = descendant ? nodes.flatMap(withDescendants) : nodes;
+    nodes = targets.flatMap((node) => select(node, selector));
+  }
+
+  return nodes;
+}
+
+/**
+ * A node followed by every object and array nested in it
+ */
+function withDescendants(node: unknown): unknown[] {
+  if (typeof node !== 'object' || node === null) return [node];
+  return [node, ...Object.values(node).flatMap(withDescendants)];
+}
+
+/**
+ * Children of a node matching one selector
+ */
+function select(node: unknown, selector: string | number): unknown[] {
+  if (typeof node !== 'object' || node === null) return [];
+  if (selector === '*') return Object.values(node);
+
+  if (Array.isArray(node)) {
+    if (typeof selector !== 'number') return [];
+    const position = selector < 0 ? node.length + selector : selector;
+    return position >= 0 && position < node.length ? [node[position]] : [];
+  }
+
+  const key = String(selector);
+  return Object.hasOwn(node, key) ? [(node as Record<string, unknown>)[key]] : [];
+}
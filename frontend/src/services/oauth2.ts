@@ -0,0 +1,340 @@
+/**
+ * OAuth 2.0 - obtaining, caching and refreshing access tokens
+ *
+ * Tokens are cached on the device under a fingerprint of the resolved settings, so
+ * requests sharing a client, token URL, scope and user share a token, and changing
+ * any of them gets a new one. Expired tokens are refreshed when the provider issued
+ * a refresh token. The authorization code grant needs the user to sign in, so new
+ * codes are only requested from the Auth tab.
+ *
+ * @module services/oauth2
+ */
+
+import { api } from './api';
+import { deleteOAuthToken, getOAuthToken, saveOAuthToken } from './db';
+import type { OAuth2Config, OAuthToken, OAuthTokenRequest, OAuthTokenResponse } from '../types';
+
+/** Display names of the grant types */
+export const OAUTH2_GRANT_LABELS: Record<OAuth2Config['grantType'], string> = {
+  client_credentials: 'Client Credentials',
+  password: 'Password Credentials',
+  authorization_code: 'Authorization Code',
+};
+
+/** Page the provider redirects back to (served from public/) */
+const CALLBACK_PATH = '/oauth-callback.html';
+
+/** Tokens expiring within this margin are treated as expired (ms) */
+const EXPIRY_MARGIN = 30000;
+
+/** How often the authorization popup is checked for the redirect (ms) */
+const POPUP_POLL_INTERVAL = 500;
+
+/**
+ * Redirect URI sent to the provider
+ *
+ * @param config - OAuth 2.0 settings
+ * @returns The configured URI, or this app's callback page
+ */
+export function getRedirectUri(config: OAuth2Config): string {
+  return config.redirectUri || `${window.location.origin}${CALLBACK_PATH}`;
+}
+
+/**
+ * Check whether a token is expired (or about to be)
+ *
+ * @param token - Cached token
+ * @param now - Current time in ms
+ * @returns True if the token should no longer be sent
+ */
+export function isTokenExpired(token: OAuthToken, now = Date.now()): boolean {
+  return token.expiresAt !== null && Date.parse(token.expiresAt) - EXPIRY_MARGIN <= now;
+}
+
+/**
+ * Get the cached token for a config, whether or not it is still valid
+ *
+ * @param config - OAuth 2.0 settings with variables resolved
+ * @returns Promise resolving to the token or undefined
+ */
+export async function getCachedToken(config: OAuth2Config): Promise<OAuthToken | undefined> {
+  return getOAuthToken(await getTokenId(config));
+}
+
+/**
+ * Get an access token to send, refreshing or fetching a new one as needed
+ *
+ * @param config - OAuth 2.0 settings with variables resolved
+ * @returns Promise resolving to the access token
+ * @throws Error if the provider rejects the grant, or an authorization code token
+ *   has to be obtained interactively
+ *
+ * @example
+ * ```typescript
+ * const token = await getAccessToken(auth.oauth2);
+ * applyAuth(request, token);
+ * ```
+ */
+export async function getAccessToken(config: OAuth2Config): Promise<string> {
+  const id = await getTokenId(config);
+  const cached = await getOAuthToken(id);
+
+  if (cached && !isTokenExpired(cached)) {
+    return cached.accessToken;
+  }
+
+  if (cached?.refreshToken) {
+    try {
+      const response = await api.requestOAuthToken({
+        ...createTokenRequest(config),
+        grantType: 'refresh_token',
+        refreshToken: cached.refreshToken,
+      });
+      return (await storeToken(id, response, cached.refreshToken)).accessToken;
+    } catch (error) {
+      console.warn('Failed to refresh OAuth 2.0 token:', error);
+      await deleteOAuthToken(id);
+    }
+  }
+
+  if (config.grantType === 'authorization_code') {
+    throw new Error(
+      cached
+        ? 'OAuth 2.0 access token expired. Get a new one in the Auth tab.'
+        : 'No OAuth 2.0 access token. Get one in the Auth tab.'
+    );
+  }
+
+  return (await fetchToken(config)).accessToken;
+}
+
+/**
+ * Get a new token regardless of the cached one ("Get New Access Token")
+ * Must be called straight from a click handler: the authorization code grant
+ * opens a popup, which browsers only allow in response to a user action.
+ *
+ * @param config - OAuth 2.0 settings with variables resolved
+ * @returns Promise resolving to the new token
+ * @throws Error if the user cancels or the provider rejects the grant
+ */
+export async function requestNewToken(config: OAuth2Config): Promise<OAuthToken> {
+  return config.grantType === 'authorization_code' ? authorize(config) : fetchToken(config);
+}
+
+/**
+ * Drop the cached token for a config
+ *
+ * @param config - OAuth 2.0 settings with variables resolved
+ */
+export async function clearToken(config: OAuth2Config): Promise<void> {
+  await deleteOAuthToken(await getTokenId(config));
+}
+
+/**
+ * Fetch a token with the client credentials or password grant
+ */
+async function fetchToken(config: OAuth2Config): Promise<OAuthToken> {
+  const response = await api.requestOAuthToken(
+    config.grantType === 'password'
+      ? {
+          ...createTokenRequest(config),
+          grantType: 'password',
+          username: config.username,
+          password: config.password,
+        }
+      : { ...createTokenRequest(config), grantType: 'client_credentials' }
+  );
+  return storeToken(await getTokenId(config), response);
+}
+
+/**
+ * Run the authorization code grant in a popup, then exchange the code
+ * The popup is opened before anything is awaited so it is not blocked.
+ */
+async function authorize(config: OAuth2Config): Promise<OAuthToken> {
+  const popup = window.open('about:blank', 'oauth2', 'width=520,height=720');
+  if (!popup) {
+    throw new Error('The authorization window was blocked by the browser');
+  }
+
+  try {
+    const redirectUri = getRedirectUri(config);
+    if (!isSameOrigin(redirectUri)) {
+      throw new Error(`The redirect URI must be on ${window.location.origin} to receive the code`);
+    }
+
+    let authUrl: URL;
+    try {
+      authUrl = new URL(config.authUrl);
+    } catch {
+      throw new Error('OAuth 2.0 authorization URL is not a valid URL');
+    }
+
+    const state = randomString();
+    const codeVerifier = config.usePkce ? randomString() : undefined;
+
+    authUrl.searchParams.set('response_type', 'code');
+    authUrl.searchParams.set('client_id', config.clientId);
+    authUrl.searchParams.set('redirect_uri', redirectUri);
+    authUrl.searchParams.set('state', state);
+    if (config.scope) {
+      authUrl.searchParams.set('scope', config.scope);
+    }
+    if (codeVerifier) {
+      authUrl.searchParams.set('code_challenge', await createCodeChallenge(codeVerifier));
+      authUrl.searchParams.set('code_challenge_method', 'S256');
+    }
+
+    popup.location.href = authUrl.toString();
+    const code = await waitForCode(popup, redirectUri, state);
+
+    const response = await api.requestOAuthToken({
+      ...createTokenRequest(config),
+      grantType: 'authorization_code',
+      code,
+      redirectUri,
+      codeVerifier,
+    });
+    return await storeToken(await getTokenId(config), response);
+  } finally {
+    popup.close();
+  }
+}
+
+/**
+ * Wait for the popup to land on the redirect URI and read the code from it
+ * Reading the popup's location throws while it is on the provider's origin.
+ */
+function waitForCode(popup: Window, redirectUri: string, state: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const timer = window.setInterval(() => {
+      if (popup.closed) {
+        window.clearInterval(timer);
+        reject(new Error('The authorization window was closed'));
+        return;
+      }
+
+      let href: string;
+      try {
+        href = popup.location.href;
+      } catch {
+        return;
+      }
+      if (!href.startsWith(redirectUri)) return;
+
+      window.clearInterval(timer);
+      const params = new URL(href).searchParams;
+      const error = params.get('error');
+      const code = params.get('code');
+
+      if (error) {
+        reject(new Error(params.get('error_description') ?? `Authorization failed: ${error}`));
+      } else if (params.get('state') !== state) {
+        reject(new Error('Authorization response does not match the request (state mismatch)'));
+      } else if (!code) {
+        reject(new Error('Authorization response has no code'));
+      } else {
+        resolve(code);
+      }
+    }, POPUP_POLL_INTERVAL);
+  });
+}
+
+/**
+ * Client fields shared by every token request
+ */
+function createTokenRequest(
+  config: OAuth2Config
+): Pick<OAuthTokenRequest, 'tokenUrl' | 'clientId' | 'clientSecret' | 'clientAuth' | 'scope'> {
+  if (!config.tokenUrl) {
+    throw new Error('OAuth 2.0 token URL is not set');
+  }
+
+  return {
+    tokenUrl: config.tokenUrl,
+    clientId: config.clientId,
+    clientSecret: config.clientSecret || undefined,
+    clientAuth: config.clientAuth,
+    scope: config.scope || undefined,
+  };
+}
+
+/**
+ * Cache a token returned by the token endpoint
+ * Providers may omit the refresh token when it is unchanged, so the previous one is kept.
+ */
+async function storeToken(
+  id: string,
+  response: OAuthTokenResponse,
+  previousRefreshToken: string | null = null
+): Promise<OAuthToken> {
+  const now = Date.now();
+  const token: OAuthToken = {
+    accessToken: response.accessToken,
+    refreshToken: response.refreshToken ?? previousRefreshToken,
+    tokenType: response.tokenType,
+    scope: response.scope,
+    expiresAt:
+      response.expiresIn === null ? null : new Date(now + response.expiresIn * 1000).toISOString(),
+    createdAt: new Date(now).toISOString(),
+  };
+
+  await saveOAuthToken(id, token);
+  return token;
+}
+
+/**
+ * Fingerprint of the settings a token is issued for (SHA-256, hex)
+ * Secrets are left out: a changed secret fails at the provider, not here.
+ */
+async function getTokenId(config: OAuth2Config): Promise<string> {
+  const settings = [
+    config.grantType,
+    config.tokenUrl,
+    config.grantType === 'authorization_code' ? config.authUrl : '',
+    config.clientId,
+    config.scope,
+    config.grantType === 'password' ? config.username : '',
+  ];
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(JSON.stringify(settings))
+  );
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * PKCE S256 code challenge of a verifier
+ */
+async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return encodeBase64Url(new Uint8Array(digest));
+}
+
+/**
+ * Random URL-safe string for the state and PKCE verifier (256 bits)
+ */
+function randomString(): string {
+  return encodeBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Base64url-encode bytes without padding
+ */
+function encodeBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Check whether a URL is on this app's origin
+ */
+function isSameOrigin(url: string): boolean {
+  try {
+    return new URL(url).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,856 @@
+/**
+ * OpenAPI - import of OpenAPI 3.x and Swagger 2.0 specifications as collections
+ *
+ * Each tag becomes a folder and each operation a saved request in the folder of its
+ * first tag (untagged operations stay at the collection root). The first server is
+ * the collection's {{baseUrl}} variable, path parameters become {{variables}} and
+ * request bodies get an example generated from their schema. Security schemes map to
+ * auth configs whose credentials are empty collection variables to fill in.
+ *
+ * @module services/openapi
+ */
+
+import { z } from 'zod';
+import { createCollection, createFolder, createRequest, getAllCollections } from './db';
+import type { AuthConfig, Header, HttpMethod, RequestBody, Variable } from '../types';
+import type { ImportResult, ImportWarning } from './importer';
+
+/** Timeout of imported requests */
+const DEFAULT_TIMEOUT = 30000;
+
+/** Levels of nested schemas an example is generated for */
+const MAX_EXAMPLE_DEPTH = 8;
+
+/** Operation keys of a path item, and the methods they map to */
+const OPERATION_METHODS: Record<string, HttpMethod> = {
+  get: 'GET',
+  post: 'POST',
+  put: 'PUT',
+  patch: 'PATCH',
+  delete: 'DELETE',
+  head: 'HEAD',
+  options: 'OPTIONS',
+};
+
+/** Any JSON object of the spec, read field by field */
+const JsonObjectSchema = z.record(z.string(), z.unknown());
+
+/**
+ * Security requirement - scheme names and the scopes they need
+ */
+const SecurityRequirementSchema = z.record(z.string(), z.array(z.string()));
+
+/**
+ * Parameter (path, query, header or cookie; body and formData in Swagger 2.0)
+ */
+const ParameterSchema = z.object({
+  name: z.string(),
+  in: z.string(),
+  required: z.boolean().optional(),
+  schema: z.unknown().optional(),
+  example: z.unknown().optional(),
+  examples: JsonObjectSchema.optional(),
+  // Swagger 2.0 keeps the schema of non-body parameters on the parameter itself
+  type: z.string().optional(),
+  format: z.string().optional(),
+  default: z.unknown().optional(),
+  enum: z.array(z.unknown()).optional(),
+  items: z.unknown().optional(),
+});
+
+/**
+ * Media type of an OpenAPI 3 request body
+ */
+const MediaTypeSchema = z.object({
+  schema: z.unknown().optional(),
+  example: z.unknown().optional(),
+  examples: JsonObjectSchema.optional(),
+});
+
+/**
+ * Operation of a path
+ */
+const OperationSchema = z.object({
+  tags: z.array(z.string()).optional(),
+  summary: z.string().optional(),
+  operationId: z.string().optional(),
+  parameters: z.array(z.unknown()).optional(),
+  requestBody: z.unknown().optional(),
+  security: z.array(SecurityRequirementSchema).optional(),
+  consumes: z.array(z.string()).optional(), // Swagger 2.0
+});
+
+/**
+ * OAuth 2.0 flow (OpenAPI 3)
+ */
+const OAuthFlowSchema = z.object({
+  authorizationUrl: z.string().optional(),
+  tokenUrl: z.string().optional(),
+});
+
+/**
+ * Security scheme (OpenAPI 3) or security definition (Swagger 2.0)
+ */
+const SecuritySchemeSchema = z.object({
+  type: z.string(),
+  scheme: z.string().optional(), // http: basic, bearer, digest
+  in: z.string().optional(), // apiKey: header, query, cookie
+  name: z.string().optional(), // apiKey: header or parameter name
+  flows: z.record(z.string(), OAuthFlowSchema).optional(),
+  // Swagger 2.0 oauth2
+  flow: z.string().optional(),
+  authorizationUrl: z.string().optional(),
+  tokenUrl: z.string().optional(),
+});
+
+/**
+ * Top level of a specification, both versions
+ * Loose, so that references into the parts not listed here (schemas, definitions) resolve.
+ */
+const SpecSchema = z.looseObject({
+  openapi: z.string().optional(),
+  swagger: z.string().optional(),
+  info: z.object({
+    title: z.string().optional(),
+    description: z.string().optional(),
+  }),
+  servers: z
+    .array(
+      z.object({
+        url: z.string(),
+        variables: z.record(z.string(), z.object({ default: z.unknown() })).optional(),
+      })
+    )
+    .optional(),
+  host: z.string().optional(), // Swagger 2.0
+  basePath: z.string().optional(), // Swagger 2.0
+  schemes: z.array(z.string()).optional(), // Swagger 2.0
+  consumes: z.array(z.string()).optional(), // Swagger 2.0
+  tags: z.array(z.object({ name: z.string() })).optional(),
+  paths: z.record(z.string(), z.unknown()),
+  components: z.looseObject({ securitySchemes: JsonObjectSchema.optional() }).optional(),
+  securityDefinitions: JsonObjectSchema.optional(), // Swagger 2.0
+  security: z.array(SecurityRequirementSchema).optional(),
+});
+
+type Spec = z.infer<typeof SpecSchema>;
+type Parameter = z.infer<typeof ParameterSchema>;
+type Operation = z.infer<typeof OperationSchema>;
+type SecurityRequirement = z.infer<typeof SecurityRequirementSchema>;
+
+/**
+ * Operation read from the paths, before anything is created
+ */
+interface PlannedRequest {
+  tag: string | null;
+  name: string;
+  method: HttpMethod;
+  path: string;
+  operation: Operation;
+  /** Path-level parameters, overridden by the operation's */
+  pathParameters: unknown[];
+}
+
+/**
+ * What the spec's parts map to, and what was left out
+ */
+interface ImportContext {
+  spec: Spec;
+  /** Credential variables the auth configs refer to, by key */
+  credentials: Map<string, Variable>;
+  warnings: ImportWarning[];
+}
+
+/**
+ * Check whether parsed JSON or YAML is an OpenAPI or Swagger specification
+ *
+ * @param data - Parsed file
+ * @returns True if it declares an `openapi` or `swagger` version
+ */
+export function isOpenApiSpec(data: unknown): boolean {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    ('openapi' in data || 'swagger' in data) &&
+    'paths' in data
+  );
+}
+
+/**
+ * Import an OpenAPI 3.x or Swagger 2.0 specification as a new collection
+ *
+ * @param data - Parsed specification (JSON or YAML)
+ * @returns Promise resolving to what was created and what was left out
+ * @throws Error if the data is not a specification of a supported version
+ *
+ * @example
+ * ```typescript
+ * const result = await importOpenApiSpec(load(await file.text()));
+ * result.warnings; // => [{ item: 'Pet Store / pet / Upload an image', message: '...' }]
+ * ```
+ */
+export async function importOpenApiSpec(data: unknown): Promise<ImportResult> {
+  const parsed = SpecSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error('The file is not a valid OpenAPI specification');
+  }
+  const spec = parsed.data;
+  if (!spec.openapi?.startsWith('3.') && spec.swagger !== '2.0') {
+    throw new Error(
+      `${spec.openapi ? `OpenAPI ${spec.openapi}` : `Swagger ${spec.swagger}`} is not supported; use OpenAPI 3.x or Swagger 2.0`
+    );
+  }
+
+  const name = spec.info.title?.trim().slice(0, 100) || 'Imported API';
+  const context: ImportContext = { spec, credentials: new Map(), warnings: [] };
+  const warn = (message: string) => context.warnings.push({ item: name, message });
+
+  const description = spec.info.description ?? '';
+  if (description.length > 1000) {
+    warn('Description shortened to 1000 characters');
+  }
+
+  const baseUrl = getBaseUrl(spec, warn);
+  const collectionAuth = spec.security ? toAuth(spec.security, context, warn) : null;
+  const planned = planRequests(spec, warn);
+
+  // Folders in the order the spec lists its tags, then in order of first use
+  const tags = [
+    ...new Set([
+      ...(spec.tags ?? []).map((tag) => tag.name),
+      ...planned.map((request) => request.tag),
+    ]),
+  ].filter((tag): tag is string => tag !== null && planned.some((request) => request.tag === tag));
+
+  // Auth of each request is mapped first: its credentials become collection variables
+  const requests = planned.map((request) => {
+    const item = [name, request.tag, request.name].filter(Boolean).join(' / ');
+    const requestWarn = (message: string) => context.warnings.push({ item, message });
+    const auth =
+      request.operation.security === undefined ||
+      JSON.stringify(request.operation.security) === JSON.stringify(spec.security)
+        ? null
+        : toAuth(request.operation.security, context, requestWarn);
+    return { ...request, auth, warn: requestWarn };
+  });
+
+  const variables: Variable[] = [
+    { key: 'baseUrl', value: baseUrl, enabled: true },
+    ...context.credentials.values(),
+  ];
+  const collectionId = await createCollection({
+    name,
+    description: description.slice(0, 1000),
+    auth: collectionAuth,
+    variables,
+    preRequestScript: '',
+    sortOrder: (await getAllCollections()).length,
+    syncProjectId: null,
+  });
+
+  const folderIds = new Map<string, string>();
+  for (const [index, tag] of tags.entries()) {
+    const folderId = await createFolder({
+      name: tag.trim().slice(0, 100) || 'Untitled',
+      collectionId,
+      parentFolderId: null,
+      auth: null,
+      preRequestScript: '',
+      sortOrder: index,
+    });
+    folderIds.set(tag, folderId);
+  }
+
+  const sortOrders = new Map<string | null, number>();
+  for (const request of requests) {
+    const sortOrder = sortOrders.get(request.tag) ?? 0;
+    sortOrders.set(request.tag, sortOrder + 1);
+
+    const parameters = getParameters(spec, request.pathParameters, request.operation);
+    const { url, variables: pathVariables } = toUrl(spec, request.path, parameters);
+    const headers = toHeaders(spec, parameters, request.warn);
+    const body = toBody(spec, request.operation, parameters, headers, request.warn);
+
+    await createRequest({
+      name: request.name,
+      method: request.method,
+      url,
+      headers,
+      body,
+      auth: request.auth,
+      variables: pathVariables,
+      preRequestScript: '',
+      testScript: '',
+      assertions: [],
+      captures: [],
+      timeout: DEFAULT_TIMEOUT,
+      collectionId,
+      folderId: request.tag === null ? null : (folderIds.get(request.tag) ?? null),
+      sortOrder,
+    });
+  }
+
+  return {
+    type: 'collection',
+    id: collectionId,
+    name,
+    folders: folderIds.size,
+    requests: requests.length,
+    variables: variables.length,
+    warnings: context.warnings,
+  };
+}
+
+// ============================================================================
+// Paths and servers
+// ============================================================================
+
+/**
+ * Operations of every path, in spec order
+ */
+function planRequests(spec: Spec, warn: (message: string) => void): PlannedRequest[] {
+  const planned: PlannedRequest[] = [];
+
+  for (const [path, value] of Object.entries(spec.paths)) {
+    const pathItem = JsonObjectSchema.safeParse(resolveRef(spec, value));
+    if (!pathItem.success) continue;
+    const pathParameters = Array.isArray(pathItem.data.parameters) ? pathItem.data.parameters : [];
+
+    for (const [key, operationValue] of Object.entries(pathItem.data)) {
+      const method = OPERATION_METHODS[key];
+      if (!method) {
+        if (key === 'trace') warn(`TRACE ${path} skipped: the method is not supported`);
+        continue;
+      }
+      const operation = OperationSchema.safeParse(operationValue);
+      if (!operation.success) {
+        warn(`${method} ${path} skipped: the operation is malformed`);
+        continue;
+      }
+
+      const { tags, summary, operationId } = operation.data;
+      if (path.length > 2000) {
+        warn(`${method} ${path.slice(0, 50)}... skipped: the path is too long`);
+        continue;
+      }
+      planned.push({
+        tag: tags?.[0] ?? null,
+        name: (summary?.trim() || operationId || `${method} ${path}`).slice(0, 200),
+        method,
+        path,
+        operation: operation.data,
+        pathParameters,
+      });
+    }
+  }
+
+  return planned;
+}
+
+/**
+ * Base URL of the first server, with server variables set to their defaults
+ */
+function getBaseUrl(spec: Spec, warn: (message: string) => void): string {
+  let url: string;
+  if (spec.swagger) {
+    const scheme = spec.schemes?.includes('https') ? 'https' : (spec.schemes?.[0] ?? 'https');
+    url = spec.host ? `${scheme}://${spec.host}${spec.basePath ?? ''}` : (spec.basePath ?? '');
+  } else {
+    const [server, ...others] = spec.servers ?? [];
+    url = (server?.url ?? '').replace(/\{([^}]+)\}/g, (match, name: string) => {
+      const value = server?.variables?.[name]?.default;
+      return value === undefined ? match : String(value);
+    });
+    if (others.length > 0) {
+      warn(`Other servers, not used: ${others.map((other) => other.url).join(', ')}`);
+    }
+  }
+
+  if (!/^https?:\/\//.test(url)) {
+    warn('The spec has no absolute server URL; set the baseUrl variable');
+  }
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Path and operation parameters, the operation's taking precedence
+ */
+function getParameters(spec: Spec, pathParameters: unknown[], operation: Operation): Parameter[] {
+  const byKey = new Map<string, Parameter>();
+  for (const value of [...pathParameters, ...(operation.parameters ?? [])]) {
+    const parameter = ParameterSchema.safeParse(resolveRef(spec, value));
+    if (parameter.success) {
+      byKey.set(`${parameter.data.in}:${parameter.data.name}`, parameter.data);
+    }
+  }
+  return [...byKey.values()];
+}
+
+/**
+ * URL from {{baseUrl}} and the path: path parameters become request variables,
+ * required query parameters are added with their example value
+ */
+function toUrl(
+  spec: Spec,
+  path: string,
+  parameters: Parameter[]
+): { url: string; variables: Variable[] } {
+  const variables: Variable[] = [];
+  const converted = path.replace(/\{([^}]+)\}/g, (_, name: string) => {
+    const key = toVariableKey(name);
+    if (!variables.some((variable) => variable.key === key)) {
+      const parameter = parameters.find((param) => param.in === 'path' && param.name === name);
+      variables.push({
+        key,
+        value: parameter ? getParameterExample(spec, parameter) : '',
+        enabled: true,
+      });
+    }
+    return `{{${key}}}`;
+  });
+
+  const query = parameters
+    .filter((parameter) => parameter.in === 'query' && parameter.required)
+    .map(
+      (parameter) =>
+        `${encodeURIComponent(parameter.name)}=${encodeURIComponent(getParameterExample(spec, parameter))}`
+    )
+    .join('&');
+
+  return { url: `{{baseUrl}}${converted}${query ? `?${query}` : ''}`, variables };
+}
+
+/**
+ * Header parameters, enabled when required; cookie parameters are left out
+ */
+function toHeaders(spec: Spec, parameters: Parameter[], warn: (message: string) => void): Header[] {
+  const cookies = parameters.filter((parameter) => parameter.in === 'cookie');
+  if (cookies.length > 0) {
+    warn(`Cookie parameters not imported: ${cookies.map((cookie) => cookie.name).join(', ')}`);
+  }
+
+  return parameters
+    .filter((parameter) => parameter.in === 'header' && parameter.name.length <= 100)
+    .map((parameter) => ({
+      key: parameter.name,
+      value: getParameterExample(spec, parameter),
+      enabled: parameter.required ?? false,
+    }));
+}
+
+// ============================================================================
+// Bodies
+// ============================================================================
+
+/**
+ * Body with an example from the request schema, in the best supported media type
+ * A Content-Type header is added for it (except multipart, whose boundary is generated).
+ */
+function toBody(
+  spec: Spec,
+  operation: Operation,
+  parameters: Parameter[],
+  headers: Header[],
+  warn: (message: string) => void
+): RequestBody {
+  const media = spec.swagger
+    ? getSwaggerMedia(spec, operation, parameters)
+    : getOpenApiMedia(spec, operation.requestBody);
+  if (!media) return null;
+
+  const { mediaType, schema, example } = media;
+  if (mediaType !== 'multipart/form-data' && !headers.some(isContentType)) {
+    headers.push({ key: 'Content-Type', value: mediaType, enabled: true });
+  }
+  const value = example === undefined ? exampleFromSchema(spec, schema) : example;
+
+  if (mediaType === 'application/x-www-form-urlencoded' || mediaType === 'multipart/form-data') {
+    const fields: Array<{ key: string; value: string }> = [];
+    const files: string[] = [];
+    const properties = getProperties(spec, schema);
+    for (const [key, fieldValue] of Object.entries(isObject(value) ? value : {})) {
+      if (isBinary(spec, properties[key])) {
+        files.push(key);
+      } else {
+        fields.push({ key, value: toText(fieldValue) });
+      }
+    }
+    if (files.length > 0) {
+      warn(`Form file fields are not supported: ${files.join(', ')}`);
+    }
+    return {
+      type: mediaType === 'multipart/form-data' ? 'form-data' : 'x-www-form-urlencoded',
+      content: JSON.stringify(fields),
+    };
+  }
+
+  if (isJsonMediaType(mediaType)) {
+    return { type: 'json', content: JSON.stringify(value ?? {}, null, 2) };
+  }
+  if (mediaType.startsWith('text/') || mediaType.endsWith('xml')) {
+    return { type: 'raw', content: typeof value === 'string' ? value : '' };
+  }
+
+  warn(`${mediaType} body: pick the file to send`);
+  return { type: 'binary', content: '' };
+}
+
+/**
+ * Media type, schema and example of an OpenAPI 3 request body
+ */
+function getOpenApiMedia(
+  spec: Spec,
+  requestBody: unknown
+): { mediaType: string; schema: unknown; example: unknown } | null {
+  const content = JsonObjectSchema.safeParse(
+    (resolveRef(spec, requestBody) as { content?: unknown } | undefined)?.content
+  );
+  if (!content.success) return null;
+
+  const mediaType = pickMediaType(Object.keys(content.data));
+  if (!mediaType) return null;
+
+  const media = MediaTypeSchema.safeParse(content.data[mediaType] ?? {});
+  if (!media.success) return { mediaType, schema: undefined, example: undefined };
+
+  const [firstExample] = Object.values(media.data.examples ?? {});
+  const example =
+    media.data.example ??
+    (isObject(resolveRef(spec, firstExample))
+      ? (resolveRef(spec, firstExample) as { value?: unknown }).value
+      : undefined);
+  return { mediaType, schema: media.data.schema, example };
+}
+
+/**
+ * Media type, schema and example of a Swagger 2.0 body or form parameters
+ */
+function getSwaggerMedia(
+  spec: Spec,
+  operation: Operation,
+  parameters: Parameter[]
+): { mediaType: string; schema: unknown; example: unknown } | null {
+  const consumes = operation.consumes ?? spec.consumes ?? ['application/json'];
+
+  const body = parameters.find((parameter) => parameter.in === 'body');
+  if (body) {
+    const mediaType = pickMediaType(consumes) ?? 'application/json';
+    return { mediaType, schema: body.schema, example: undefined };
+  }
+
+  const form = parameters.filter((parameter) => parameter.in === 'formData');
+  if (form.length === 0) return null;
+
+  // Form parameters carry their schema on themselves, so they make an object schema
+  const multipart =
+    consumes.includes('multipart/form-data') || form.some((field) => field.type === 'file');
+  const properties = Object.fromEntries(
+    form.map((field) => [
+      field.name,
+      field.type === 'file' ? { type: 'string', format: 'binary' } : field,
+    ])
+  );
+  return {
+    mediaType: multipart ? 'multipart/form-data' : 'application/x-www-form-urlencoded',
+    schema: { type: 'object', properties },
+    example: undefined,
+  };
+}
+
+/**
+ * Preferred media type: JSON, then forms, then text, then the first one
+ */
+function pickMediaType(mediaTypes: string[]): string | undefined {
+  const types = mediaTypes.map((mediaType) => mediaType.split(';')[0]?.trim() ?? mediaType);
+  return (
+    types.find(isJsonMediaType) ??
+    types.find((type) => type === 'application/x-www-form-urlencoded') ??
+    types.find((type) => type === 'multipart/form-data') ??
+    types.find((type) => type.startsWith('text/') || type.endsWith('xml')) ??
+    types.find((type) => type !== '*/*') ??
+    (types.length > 0 ? 'application/json' : undefined)
+  );
+}
+
+// ============================================================================
+// Schemas and examples
+// ============================================================================
+
+/**
+ * Example value of a schema: its own example or default, otherwise one built from
+ * its type, properties and formats
+ */
+function exampleFromSchema(spec: Spec, schema: unknown, refs: string[] = [], depth = 0): unknown {
+  if (!isObject(schema)) return undefined;
+
+  if (typeof schema.$ref === 'string') {
+    // Recursive schemas end where they repeat
+    if (refs.includes(schema.$ref)) return undefined;
+    return exampleFromSchema(spec, resolveRef(spec, schema), [...refs, schema.$ref], depth);
+  }
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  if (Array.isArray(schema.allOf)) {
+    const parts = schema.allOf.map((part) => exampleFromSchema(spec, part, refs, depth));
+    return parts.every((part) => isObject(part) || part === undefined)
+      ? Object.assign({}, ...parts)
+      : parts.find((part) => part !== undefined);
+  }
+  for (const key of ['oneOf', 'anyOf'] as const) {
+    const options = schema[key];
+    if (Array.isArray(options) && options.length > 0) {
+      return exampleFromSchema(spec, options[0], refs, depth);
+    }
+  }
+
+  // OpenAPI 3.1 types may be lists, e.g. ['string', 'null']
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const type = types.find((candidate) => candidate !== 'null') ?? types[0];
+
+  if (type === 'object' || (type === undefined && isObject(schema.properties))) {
+    if (depth >= MAX_EXAMPLE_DEPTH) return {};
+    return Object.fromEntries(
+      Object.entries(isObject(schema.properties) ? schema.properties : {})
+        .map(([key, property]) => [key, exampleFromSchema(spec, property, refs, depth + 1)])
+        .filter(([, value]) => value !== undefined)
+    );
+  }
+  if (type === 'array') {
+    if (depth >= MAX_EXAMPLE_DEPTH) return [];
+    const item = exampleFromSchema(spec, schema.items, refs, depth + 1);
+    return item === undefined ? [] : [item];
+  }
+  if (type === 'integer' || type === 'number') {
+    return typeof schema.minimum === 'number' ? schema.minimum : 0;
+  }
+  if (type === 'boolean') return true;
+  if (type === 'null') return null;
+  if (type === 'string') return exampleString(schema.format);
+  return undefined;
+}
+
+/**
+ * Example of a string in a given format
+ */
+function exampleString(format: unknown): string {
+  switch (format) {
+    case 'date-time':
+      return '2024-01-01T00:00:00Z';
+    case 'date':
+      return '2024-01-01';
+    case 'email':
+      return 'user@example.com';
+    case 'uuid':
+      return '00000000-0000-0000-0000-000000000000';
+    case 'uri':
+    case 'url':
+      return 'https://example.com';
+    default:
+      return 'string';
+  }
+}
+
+/**
+ * Example value of a parameter, as text
+ */
+function getParameterExample(spec: Spec, parameter: Parameter): string {
+  const [firstExample] = Object.values(parameter.examples ?? {});
+  const resolved = resolveRef(spec, firstExample);
+  const value =
+    parameter.example ??
+    (isObject(resolved) ? resolved.value : undefined) ??
+    exampleFromSchema(spec, parameter.schema ?? parameter);
+  return toText(value);
+}
+
+/**
+ * Properties of an object schema, following references and allOf
+ */
+function getProperties(spec: Spec, schema: unknown, refs: string[] = []): Record<string, unknown> {
+  if (!isObject(schema)) return {};
+  if (typeof schema.$ref === 'string') {
+    if (refs.includes(schema.$ref)) return {};
+    return getProperties(spec, resolveRef(spec, schema), [...refs, schema.$ref]);
+  }
+  return Object.assign(
+    {},
+    ...(Array.isArray(schema.allOf)
+      ? schema.allOf.map((part) => getProperties(spec, part, refs))
+      : []),
+    isObject(schema.properties) ? schema.properties : {}
+  );
+}
+
+/**
+ * Whether a schema describes file content
+ */
+function isBinary(spec: Spec, schema: unknown): boolean {
+  const resolved = resolveRef(spec, schema);
+  return isObject(resolved) && (resolved.format === 'binary' || resolved.type === 'file');
+}
+
+// ============================================================================
+// Security
+// ============================================================================
+
+/**
+ * Auth config of a list of security requirements (alternatives; the first is used)
+ * An empty list, or an empty requirement, means no auth.
+ */
+function toAuth(
+  requirements: SecurityRequirement[],
+  context: ImportContext,
+  warn: (message: string) => void
+): AuthConfig {
+  const [requirement] = requirements;
+  const names = Object.keys(requirement ?? {});
+  const [name] = names;
+  if (!requirement || !name) return { type: 'none' };
+  if (names.length > 1) {
+    warn(`Only ${name} of the combined security schemes ${names.join(' + ')} is applied`);
+  }
+
+  const { spec } = context;
+  const schemes = spec.components?.securitySchemes ?? spec.securityDefinitions ?? {};
+  const parsed = SecuritySchemeSchema.safeParse(resolveRef(spec, schemes[name]));
+  if (!parsed.success) {
+    warn(`Security scheme ${name} is not defined; the request is sent without auth`);
+    return { type: 'none' };
+  }
+  const scheme = parsed.data;
+  const credential = (key: string, secret: boolean) => {
+    if (!context.credentials.has(key)) {
+      context.credentials.set(key, { key, value: '', enabled: true, ...(secret && { secret }) });
+    }
+    return `{{${key}}}`;
+  };
+
+  const httpScheme = scheme.type === 'basic' ? 'basic' : scheme.scheme?.toLowerCase();
+  if (scheme.type === 'http' || scheme.type === 'basic') {
+    if (httpScheme === 'basic' || httpScheme === 'digest') {
+      const credentials = {
+        username: credential('username', false),
+        password: credential('password', true),
+      };
+      return httpScheme === 'basic'
+        ? { type: 'basic', basic: credentials }
+        : { type: 'digest', digest: credentials };
+    }
+    if (httpScheme === 'bearer') {
+      return { type: 'bearer', bearer: { token: credential(toVariableKey(name), true) } };
+    }
+  }
+
+  if (
+    scheme.type === 'apiKey' &&
+    scheme.name &&
+    (scheme.in === 'header' || scheme.in === 'query')
+  ) {
+    return {
+      type: 'api-key',
+      apiKey: { key: scheme.name, value: credential(toVariableKey(name), true), in: scheme.in },
+    };
+  }
+
+  if (scheme.type === 'oauth2') {
+    const flows = scheme.flows ?? {};
+    const flowName = scheme.flows
+      ? Object.keys(flows).find((flow) => flow !== 'implicit')
+      : scheme.flow;
+    const flow = (flowName && flows[flowName]) || scheme;
+    const grantType =
+      flowName === 'clientCredentials' || flowName === 'application'
+        ? 'client_credentials'
+        : flowName === 'password'
+          ? 'password'
+          : flowName === 'authorizationCode' || flowName === 'accessCode'
+            ? 'authorization_code'
+            : null;
+    if (grantType) {
+      return {
+        type: 'oauth2',
+        oauth2: {
+          grantType,
+          tokenUrl: flow.tokenUrl ?? '',
+          authUrl: flow.authorizationUrl ?? '',
+          redirectUri: '',
+          clientId: credential('clientId', false),
+          clientSecret: credential('clientSecret', true),
+          scope: (requirement[name] ?? []).join(' '),
+          username: grantType === 'password' ? credential('username', false) : '',
+          password: grantType === 'password' ? credential('password', true) : '',
+          clientAuth: 'body',
+          usePkce: grantType === 'authorization_code',
+          headerPrefix: 'Bearer',
+        },
+      };
+    }
+  }
+
+  const kind = [scheme.type, scheme.scheme ?? scheme.in ?? scheme.flow].filter(Boolean).join(' ');
+  warn(`Security scheme ${name} (${kind}) is not supported; the request is sent without auth`);
+  return { type: 'none' };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Follow a local reference (#/components/...), once per level, until a value
+ * External references are left as they are.
+ */
+function resolveRef(spec: Spec, value: unknown, seen: string[] = []): unknown {
+  if (!isObject(value) || typeof value.$ref !== 'string' || !value.$ref.startsWith('#/')) {
+    return value;
+  }
+  if (seen.includes(value.$ref)) return undefined;
+
+  let target: unknown = spec;
+  for (const segment of value.$ref.slice(2).split('/')) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = isObject(target) ? target[key] : undefined;
+  }
+  return resolveRef(spec, target, [...seen, value.$ref]);
+}
+
+/**
+ * Variable key for a parameter or scheme name (letters, digits and underscores)
+ */
+function toVariableKey(name: string): string {
+  const key = name.replace(/[^a-zA-Z0-9_]/g, '_').slice(0, 50);
+  return /^[a-zA-Z_]/.test(key) ? key : `_${key}`.slice(0, 50);
+}
+
+/**
+ * Whether a media type holds JSON (application/json, application/problem+json, ...)
+ */
+function isJsonMediaType(mediaType: string): boolean {
+  return mediaType === 'application/json' || mediaType.endsWith('+json');
+}
+
+/**
+ * Whether a header sets the content type
+ */
+function isContentType(header: Header): boolean {
+  return header.key.toLowerCase() === 'content-type';
+}
+
+/**
+ * Whether a value is a plain JSON object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Text form of an example value ('' when there is none)
+ */
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
@@ -0,0 +1,1172 @@
+/**
+ * Postman - import and export of Postman Collection v2.1 and environment files
+ *
+ * Items become folders and saved requests, created through the db create functions
+ * like any other. Postman features with no equivalent here are left out and reported
+ * per item. Folders nested deeper than the 3 levels allowed are flattened into their
+ * deepest allowed ancestor: their requests move there, keeping the folder's auth and
+ * pre-request script.
+ *
+ * Exports start from the Neo-Postman export of a collection, so secrets are already
+ * emptied; what Postman cannot hold (assertions, captures, HMAC auth) is listed.
+ *
+ * @module services/postman
+ */
+
+import { z } from 'zod';
+import {
+  createCollection,
+  createEnvironment,
+  createFolder,
+  createRequest,
+  getAllCollections,
+} from './db';
+import { HttpMethodSchema, JwtConfigSchema, VariableSchema } from '../types/schemas';
+import type {
+  AuthConfig,
+  CollectionExport,
+  EnvironmentExport,
+  Header,
+  RequestBody,
+  RequestExport,
+  Variable,
+} from '../types';
+import type { ImportResult, ImportWarning } from './importer';
+
+/** Folder levels createFolder allows */
+const MAX_FOLDER_DEPTH = 3;
+
+/** Timeout of imported requests (Postman exports do not carry one) */
+const DEFAULT_TIMEOUT = 30000;
+
+/** Schema URL identifying v2.1 collection files */
+const POSTMAN_COLLECTION_SCHEMA =
+  'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+/**
+ * Key-value entry of variables, headers, query parameters and form bodies
+ */
+const PostmanKeyValueSchema = z.object({
+  key: z.string().nullish(),
+  value: z.unknown().optional(),
+  disabled: z.boolean().optional(),
+  enabled: z.boolean().optional(), // Environments use enabled instead of disabled
+  type: z.string().optional(), // 'secret' for secret variables, 'file' for form files
+});
+
+/**
+ * Auth - the type and, under a key named after it, its parameters
+ * (a key-value list in v2.1, an object in v2.0)
+ */
+const PostmanAuthSchema = z.object({ type: z.string() }).catchall(z.unknown());
+
+/**
+ * Pre-request or test script
+ */
+const PostmanEventSchema = z.object({
+  listen: z.string(),
+  disabled: z.boolean().optional(),
+  script: z
+    .object({
+      exec: z.union([z.string(), z.array(z.string())]).optional(),
+      src: z.unknown().optional(),
+    })
+    .optional(),
+});
+
+/**
+ * URL as raw text or in parts
+ */
+const PostmanUrlSchema = z.union([
+  z.string(),
+  z.object({
+    raw: z.string().optional(),
+    protocol: z.string().optional(),
+    host: z.union([z.string(), z.array(z.string())]).optional(),
+    port: z.string().optional(),
+    path: z
+      .union([
+        z.string(),
+        z.array(z.union([z.string(), z.object({ value: z.string().nullish() })])),
+      ])
+      .optional(),
+    query: z.array(PostmanKeyValueSchema).optional(),
+    variable: z.array(PostmanKeyValueSchema).optional(),
+    hash: z.string().optional(),
+  }),
+]);
+
+/**
+ * Request body in one of the Postman modes
+ */
+const PostmanBodySchema = z.object({
+  mode: z.string().optional(),
+  disabled: z.boolean().optional(),
+  raw: z.string().optional(),
+  urlencoded: z.array(PostmanKeyValueSchema).optional(),
+  formdata: z.array(PostmanKeyValueSchema).optional(),
+  file: z.object({ src: z.string().nullish() }).optional(),
+  graphql: z.object({ query: z.string().optional(), variables: z.string().optional() }).optional(),
+  options: z.object({ raw: z.object({ language: z.string().optional() }).optional() }).optional(),
+});
+
+/**
+ * Request of an item, or just its URL
+ */
+const PostmanRequestSchema = z.union([
+  z.string(),
+  z.object({
+    method: z.string().optional(),
+    url: PostmanUrlSchema.optional(),
+    header: z.union([z.array(PostmanKeyValueSchema), z.string()]).optional(),
+    body: PostmanBodySchema.nullish(),
+    auth: PostmanAuthSchema.nullish(),
+  }),
+]);
+
+/**
+ * Item - a folder when it has items, otherwise a request
+ */
+const PostmanItemSchema = z.object({
+  name: z.string().optional(),
+  get item() {
+    return z.array(PostmanItemSchema).optional();
+  },
+  request: PostmanRequestSchema.optional(),
+  response: z.array(z.unknown()).optional(), // Saved examples
+  event: z.array(PostmanEventSchema).optional(),
+  auth: PostmanAuthSchema.nullish(),
+  variable: z.array(PostmanKeyValueSchema).optional(),
+});
+
+/**
+ * Collection export (v2.1, v2.0 auth read too)
+ */
+const PostmanCollectionSchema = z.object({
+  info: z.object({
+    name: z.string(),
+    description: z.unknown().optional(),
+    schema: z.string().optional(),
+  }),
+  item: z.array(PostmanItemSchema),
+  auth: PostmanAuthSchema.nullish(),
+  event: z.array(PostmanEventSchema).optional(),
+  variable: z.array(PostmanKeyValueSchema).optional(),
+});
+
+/**
+ * Environment export
+ */
+const PostmanEnvironmentSchema = z.object({
+  name: z.string(),
+  values: z.array(PostmanKeyValueSchema),
+});
+
+type PostmanKeyValue = z.infer<typeof PostmanKeyValueSchema>;
+type PostmanAuth = z.infer<typeof PostmanAuthSchema>;
+type PostmanEvent = z.infer<typeof PostmanEventSchema>;
+type PostmanUrl = z.infer<typeof PostmanUrlSchema>;
+type PostmanBody = z.infer<typeof PostmanBodySchema>;
+type PostmanItem = z.infer<typeof PostmanItemSchema>;
+
+/** Postman v2.1 collection file */
+export type PostmanCollection = z.infer<typeof PostmanCollectionSchema>;
+
+/** Postman environment file */
+export type PostmanEnvironment = z.infer<typeof PostmanEnvironmentSchema>;
+
+/**
+ * Auth and pre-request script of a folder too deep to create, passed to its requests
+ */
+interface FlattenedFolder {
+  auth: AuthConfig | null;
+  preRequestScript: string;
+}
+
+/**
+ * Where items are created, and what has been created so far
+ */
+interface ImportContext {
+  collectionId: string;
+  folders: number;
+  requests: number;
+  warnings: ImportWarning[];
+}
+
+/**
+ * Folder items are created in
+ */
+interface ImportParent {
+  folderId: string | null;
+  /** Folder levels above the items (0 = collection root) */
+  depth: number;
+  /** Names from the collection down, the created folder at [depth], for warnings */
+  path: string[];
+  /** Folders flattened into this one, outermost first */
+  flattened: FlattenedFolder[];
+  /** Sort order of the next folder and request created in it */
+  order: { folders: number; requests: number };
+}
+
+/**
+ * Script APIs that have no equivalent in the `np` sandbox
+ */
+const UNSUPPORTED_SCRIPT_APIS: { pattern: RegExp; name: string }[] = [
+  { pattern: /\bpm\.sendRequest\b/, name: 'pm.sendRequest' },
+  { pattern: /\bpm\.response\.to\b/, name: 'pm.response.to' },
+  { pattern: /\bpm\.(cookies|info|visualizer|execution|vault|require)\b/, name: 'pm.$1' },
+  { pattern: /\.(unset|clear|replaceIn)\(/, name: '.$1()' },
+  { pattern: /\.headers\.(add|upsert)\(/, name: 'headers.$1()' },
+  { pattern: /\brequire\(/, name: 'require()' },
+  { pattern: /\bpostman\./, name: 'postman.*' },
+  { pattern: /\btests\[/, name: 'tests[]' },
+];
+
+/**
+ * Postman script names and their `np` equivalents, applied in order
+ * `pm.response.status` is the status text in Postman, the code is `pm.response.code`.
+ */
+const SCRIPT_RENAMES: [RegExp, string][] = [
+  [/\bpm\.response\.status\b/g, 'np.response.statusText'],
+  [/\bpm\.response\.code\b/g, 'np.response.status'],
+  [/\bpm\.response\.text\(\)/g, 'np.response.body'],
+  [/\bpm\.response\.responseTime\b/g, 'np.response.time'],
+  [/\bpm\.response\.responseSize\b/g, 'np.response.size'],
+  [/\bpm\./g, 'np.'],
+];
+
+/**
+ * `np` script names and their Postman equivalents, applied in order (SCRIPT_RENAMES reversed)
+ */
+const EXPORT_SCRIPT_RENAMES: [RegExp, string][] = [
+  [/\bnp\.response\.status\b/g, 'pm.response.code'],
+  [/\bnp\.response\.statusText\b/g, 'pm.response.status'],
+  [/\bnp\.response\.body\b/g, 'pm.response.text()'],
+  [/\bnp\.response\.time\b/g, 'pm.response.responseTime'],
+  [/\bnp\.response\.size\b/g, 'pm.response.responseSize'],
+  [/\bnp\./g, 'pm.'],
+];
+
+/**
+ * Check whether parsed JSON looks like a Postman environment export
+ *
+ * @param data - Parsed JSON
+ * @returns True if it has a name and a list of values
+ */
+export function isPostmanEnvironment(data: unknown): boolean {
+  return PostmanEnvironmentSchema.safeParse(data).success;
+}
+
+/**
+ * Import a Postman v2.1 collection with its folders and requests
+ *
+ * @param data - Parsed collection export
+ * @returns Promise resolving to what was created and what was left out
+ * @throws Error if the data is not a Postman v2 collection
+ *
+ * @example
+ * ```typescript
+ * const result = await importPostmanCollection(JSON.parse(await file.text()));
+ * result.warnings; // => [{ item: 'API / Upload', message: 'Form file fields are not supported: avatar' }]
+ * ```
+ */
+export async function importPostmanCollection(data: unknown): Promise<ImportResult> {
+  if (typeof data === 'object' && data !== null && 'requests' in data && !('info' in data)) {
+    throw new Error('Postman v1 collections are not supported; export the collection as v2.1');
+  }
+  const parsed = PostmanCollectionSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error('The file is not a Postman collection (v2.1) or environment');
+  }
+
+  const { info, item, auth, event, variable } = parsed.data;
+  const name = toName(info.name, 100, 'Imported collection');
+  const warnings: ImportWarning[] = [];
+  const warn = (message: string) => warnings.push({ item: name, message });
+
+  const description = toText(info.description);
+  if (description.length > 1000) {
+    warn('Description shortened to 1000 characters');
+  }
+  const scripts = readEvents(event, warn);
+  if (scripts.test) {
+    warn('Collection test scripts are not supported; add the tests to the requests');
+  }
+  const variables = toVariables(variable, warn);
+
+  const collectionId = await createCollection({
+    name,
+    description: description.slice(0, 1000),
+    auth: auth ? toAuth(auth, warn) : null,
+    variables,
+    preRequestScript: scripts.preRequest,
+    sortOrder: (await getAllCollections()).length,
+    syncProjectId: null,
+  });
+
+  const context: ImportContext = { collectionId, folders: 0, requests: 0, warnings };
+  await importItems(item, context, {
+    folderId: null,
+    depth: 0,
+    path: [name],
+    flattened: [],
+    order: { folders: 0, requests: 0 },
+  });
+
+  return {
+    type: 'collection',
+    id: collectionId,
+    name,
+    folders: context.folders,
+    requests: context.requests,
+    variables: variables.length,
+    warnings,
+  };
+}
+
+/**
+ * Import a Postman environment
+ * The new environment is not activated.
+ *
+ * @param data - Parsed environment export
+ * @returns Promise resolving to what was created and what was left out
+ * @throws Error if the data is not a Postman environment
+ */
+export async function importPostmanEnvironment(data: unknown): Promise<ImportResult> {
+  const parsed = PostmanEnvironmentSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error('The file is not a Postman environment');
+  }
+
+  const name = toName(parsed.data.name, 100, 'Imported environment');
+  const warnings: ImportWarning[] = [];
+  const variables = toVariables(parsed.data.values, (message) =>
+    warnings.push({ item: name, message })
+  );
+
+  const id = await createEnvironment({ name, variables, isActive: false, syncProjectId: null });
+
+  return {
+    type: 'environment',
+    id,
+    name,
+    folders: 0,
+    requests: 0,
+    variables: variables.length,
+    warnings,
+  };
+}
+
+/**
+ * Convert a Neo-Postman collection export to a Postman v2.1 collection
+ * Folders come before requests at each level, both in their sort order. Features
+ * Postman has no equivalent for are left out and listed.
+ *
+ * @param exported - Collection export (secret values already emptied)
+ * @returns The Postman collection and one warning per feature left out
+ *
+ * @example
+ * ```typescript
+ * const { collection, warnings } = toPostmanCollection(await exportCollection(id));
+ * downloadJson(getExportFileName(collection.info.name, 'postman_collection'), collection);
+ * ```
+ */
+export function toPostmanCollection(exported: CollectionExport): {
+  collection: PostmanCollection;
+  warnings: string[];
+} {
+  const { collection, folders, requests } = exported;
+  const warnings: string[] = [];
+  const warn = (item: string) => (message: string) => warnings.push(`${item}: ${message}`);
+
+  const buildItems = (parentId: string | null, path: string): PostmanItem[] => [
+    ...folders
+      .filter((folder) => folder.parentFolderId === parentId)
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .map((folder) => {
+        const folderPath = `${path} / ${folder.name}`;
+        return {
+          name: folder.name,
+          item: buildItems(folder.id, folderPath),
+          ...fromAuth(folder.auth, warn(folderPath)),
+          event: fromScripts(folder.preRequestScript, ''),
+        };
+      }),
+    ...requests
+      .filter((request) => request.folderId === parentId)
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .map((request) => fromRequest(request, warn(`${path} / ${request.name}`))),
+  ];
+
+  return {
+    collection: {
+      info: {
+        name: collection.name,
+        description: collection.description,
+        schema: POSTMAN_COLLECTION_SCHEMA,
+      },
+      item: buildItems(null, collection.name),
+      ...fromAuth(collection.auth, warn(collection.name)),
+      event: fromScripts(collection.preRequestScript, ''),
+      variable: collection.variables.map((variable) => ({
+        key: variable.key,
+        value: variable.value,
+        ...(variable.secret && { type: 'secret' }),
+        ...(!variable.enabled && { disabled: true }),
+      })),
+    },
+    warnings,
+  };
+}
+
+/**
+ * Convert a Neo-Postman environment export to a Postman environment
+ *
+ * @param exported - Environment export (secret values already emptied)
+ * @returns The Postman environment
+ */
+export function toPostmanEnvironment(exported: EnvironmentExport): PostmanEnvironment {
+  return {
+    name: exported.environment.name,
+    values: exported.environment.variables.map((variable) => ({
+      key: variable.key,
+      value: variable.value,
+      type: variable.secret ? 'secret' : 'default',
+      enabled: variable.enabled,
+    })),
+  };
+}
+
+// ============================================================================
+// Items
+// ============================================================================
+
+/**
+ * Create the folders and requests of a list of items, in order
+ */
+async function importItems(
+  items: PostmanItem[],
+  context: ImportContext,
+  parent: ImportParent
+): Promise<void> {
+  for (const item of items) {
+    if (item.item) {
+      await importFolder(item, item.item, context, parent);
+    } else if (item.request !== undefined) {
+      await importRequest(item, item.request, context, parent);
+    } else {
+      context.warnings.push({
+        item: [...parent.path, item.name ?? 'Untitled'].join(' / '),
+        message: 'Item has neither a request nor items; skipped',
+      });
+    }
+  }
+}
+
+/**
+ * Create a folder, or flatten it into its parent past the depth limit
+ */
+async function importFolder(
+  item: PostmanItem,
+  children: PostmanItem[],
+  context: ImportContext,
+  parent: ImportParent
+): Promise<void> {
+  const name = toName(item.name, 100, 'Untitled folder');
+  const path = [...parent.path, name];
+  const warn = (message: string) => context.warnings.push({ item: path.join(' / '), message });
+
+  const scripts = readEvents(item.event, warn);
+  if (scripts.test) {
+    warn('Folder test scripts are not supported; add the tests to its requests');
+  }
+  if (item.variable?.length) {
+    warn('Folder variables are not supported; move them to the collection');
+  }
+  const auth = item.auth ? toAuth(item.auth, warn) : null;
+
+  if (parent.depth >= MAX_FOLDER_DEPTH) {
+    warn(
+      `Nested deeper than ${MAX_FOLDER_DEPTH} folder levels; its requests were moved into "${parent.path[parent.depth]}"`
+    );
+    await importItems(children, context, {
+      ...parent,
+      path,
+      flattened: [...parent.flattened, { auth, preRequestScript: scripts.preRequest }],
+    });
+    return;
+  }
+
+  const folderId = await createFolder({
+    name,
+    collectionId: context.collectionId,
+    parentFolderId: parent.folderId,
+    auth,
+    preRequestScript: scripts.preRequest,
+    sortOrder: parent.order.folders++,
+  });
+  context.folders++;
+
+  await importItems(children, context, {
+    folderId,
+    depth: parent.depth + 1,
+    path,
+    flattened: [],
+    order: { folders: 0, requests: 0 },
+  });
+}
+
+/**
+ * Create a saved request from an item
+ */
+async function importRequest(
+  item: PostmanItem,
+  request: z.infer<typeof PostmanRequestSchema>,
+  context: ImportContext,
+  parent: ImportParent
+): Promise<void> {
+  const name = toName(item.name, 200, 'Untitled request');
+  const warn = (message: string) =>
+    context.warnings.push({ item: [...parent.path, name].join(' / '), message });
+  const source = typeof request === 'string' ? { url: request } : request;
+
+  const method = (source.method ?? 'GET').toUpperCase();
+  const parsedMethod = HttpMethodSchema.safeParse(method);
+  if (!parsedMethod.success) {
+    warn(`Method ${method} is not supported; request skipped`);
+    return;
+  }
+
+  const { url, variables } = toUrl(source.url, warn);
+  if (!url) {
+    warn('Request has no URL; skipped');
+    return;
+  }
+
+  const scripts = readEvents(item.event, warn);
+  if (item.response?.length) {
+    warn(`${item.response.length} saved example response(s) not imported`);
+  }
+
+  // Folders flattened away still apply their auth and run their scripts first
+  const auth = source.auth
+    ? toAuth(source.auth, warn)
+    : ([...parent.flattened].reverse().find((folder) => folder.auth)?.auth ?? null);
+  const preRequestScript = [
+    ...parent.flattened.map((folder) => folder.preRequestScript),
+    scripts.preRequest,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  await createRequest({
+    name,
+    method: parsedMethod.data,
+    url,
+    headers: toHeaders(source.header, warn),
+    body: toBody(source.body, warn),
+    auth,
+    variables,
+    preRequestScript,
+    testScript: scripts.test,
+    assertions: [],
+    captures: [],
+    timeout: DEFAULT_TIMEOUT,
+    collectionId: context.collectionId,
+    folderId: parent.folderId,
+    sortOrder: parent.order.requests++,
+  });
+  context.requests++;
+}
+
+// ============================================================================
+// Request parts
+// ============================================================================
+
+/**
+ * URL with `:param` path variables turned into {{param}} request variables
+ * Disabled query parameters have no equivalent and are dropped.
+ */
+function toUrl(
+  url: PostmanUrl | undefined,
+  warn: (message: string) => void
+): { url: string; variables: Variable[] } {
+  if (url === undefined) return { url: '', variables: [] };
+
+  const parts = typeof url === 'string' ? { raw: url } : url;
+  let raw = parts.raw ?? buildUrl(parts);
+
+  const disabled = (parts.query ?? []).filter((param) => param.disabled && param.key);
+  if (disabled.length > 0) {
+    warn(`Disabled query parameters dropped: ${disabled.map((param) => param.key).join(', ')}`);
+  }
+
+  // Path variables only live before the query string and fragment
+  const end = raw.search(/[?#]/);
+  const path = end === -1 ? raw : raw.slice(0, end);
+  const names: string[] = [];
+  const converted = path.replace(/\/:([a-zA-Z_][a-zA-Z0-9_]*)(?=\/|$)/g, (_, name: string) => {
+    names.push(name);
+    return `/{{${name}}}`;
+  });
+  raw = converted + (end === -1 ? '' : raw.slice(end));
+
+  const values = new Map(
+    (parts.variable ?? []).map((entry) => [entry.key ?? '', toValue(entry.value)])
+  );
+  const variables = [...new Set(names)].map((key) => ({
+    key,
+    value: values.get(key) ?? '',
+    enabled: true,
+  }));
+
+  return { url: raw.trim(), variables };
+}
+
+/**
+ * Raw URL from its parts, for exports without `raw`
+ */
+function buildUrl(parts: Exclude<PostmanUrl, string>): string {
+  const host = Array.isArray(parts.host) ? parts.host.join('.') : (parts.host ?? '');
+  const path = Array.isArray(parts.path)
+    ? parts.path.map((segment) => (typeof segment === 'string' ? segment : (segment.value ?? '')))
+    : parts.path
+      ? [parts.path]
+      : [];
+  const query = (parts.query ?? [])
+    .filter((param) => !param.disabled && param.key)
+    .map((param) =>
+      param.value === undefined || param.value === null
+        ? param.key
+        : `${param.key}=${toValue(param.value)}`
+    )
+    .join('&');
+
+  return [
+    parts.protocol ? `${parts.protocol}://` : '',
+    host,
+    parts.port ? `:${parts.port}` : '',
+    path.length > 0 ? `/${path.join('/')}` : '',
+    query ? `?${query}` : '',
+    parts.hash ? `#${parts.hash}` : '',
+  ].join('');
+}
+
+/**
+ * Headers, from a key-value list or the legacy "Key: value" lines
+ */
+function toHeaders(
+  header: PostmanKeyValue[] | string | undefined,
+  warn: (message: string) => void
+): Header[] {
+  const entries: PostmanKeyValue[] =
+    typeof header === 'string'
+      ? header
+          .split('\n')
+          .map((line) => line.split(/:(.*)/s))
+          .map(([key = '', value = '']) => ({ key: key.trim(), value: value.trim() }))
+      : (header ?? []);
+
+  const headers: Header[] = [];
+  for (const entry of entries) {
+    const key = entry.key?.trim() ?? '';
+    if (!key) continue;
+    if (key.length > 100) {
+      warn(`Header ${key.slice(0, 20)}... has a name longer than 100 characters; dropped`);
+      continue;
+    }
+    headers.push({ key, value: toValue(entry.value), enabled: !entry.disabled });
+  }
+  return headers;
+}
+
+/**
+ * Body in the matching body type
+ * Form bodies are stored as JSON lists of key-value pairs, as the body editor keeps them.
+ */
+function toBody(
+  body: PostmanBody | null | undefined,
+  warn: (message: string) => void
+): RequestBody {
+  if (!body?.mode || body.disabled) return null;
+
+  switch (body.mode) {
+    case 'raw': {
+      const language = body.options?.raw?.language;
+      return { type: language === 'json' ? 'json' : 'raw', content: body.raw ?? '' };
+    }
+
+    case 'urlencoded':
+    case 'formdata': {
+      const fields = (body.mode === 'urlencoded' ? body.urlencoded : body.formdata) ?? [];
+      const files = fields.filter((field) => field.type === 'file').map((field) => field.key);
+      if (files.length > 0) {
+        warn(`Form file fields are not supported: ${files.join(', ')}`);
+      }
+      const disabled = fields.filter((field) => field.disabled && field.type !== 'file');
+      if (disabled.length > 0) {
+        warn(`Disabled form fields dropped: ${disabled.map((field) => field.key).join(', ')}`);
+      }
+      const content = fields
+        .filter((field) => !field.disabled && field.type !== 'file' && field.key)
+        .map((field) => ({ key: field.key ?? '', value: toValue(field.value) }));
+      return {
+        type: body.mode === 'urlencoded' ? 'x-www-form-urlencoded' : 'form-data',
+        content: JSON.stringify(content),
+      };
+    }
+
+    case 'file': {
+      const fileName = body.file?.src?.split(/[\\/]/).pop() ?? '';
+      warn('Binary body file is not included in the export; pick the file again');
+      return { type: 'binary', content: '', ...(fileName && { binaryFileName: fileName }) };
+    }
+
+    case 'graphql': {
+      let variables: unknown = undefined;
+      try {
+        variables = body.graphql?.variables?.trim()
+          ? JSON.parse(body.graphql.variables)
+          : undefined;
+      } catch {
+        warn('GraphQL variables are not valid JSON; dropped');
+      }
+      warn('GraphQL body converted to a JSON body');
+      return {
+        type: 'json',
+        content: JSON.stringify({ query: body.graphql?.query ?? '', variables }, null, 2),
+      };
+    }
+
+    default:
+      warn(`Body mode ${body.mode} is not supported; body dropped`);
+      return null;
+  }
+}
+
+/**
+ * Auth config for a Postman auth; unsupported types send no auth
+ */
+function toAuth(auth: PostmanAuth, warn: (message: string) => void): AuthConfig {
+  const params = readAuthParams(auth);
+  const param = (key: string) => toValue(params[key]);
+
+  switch (auth.type) {
+    case 'noauth':
+      return { type: 'none' };
+
+    case 'bearer':
+      return { type: 'bearer', bearer: { token: param('token') } };
+
+    case 'basic':
+      return { type: 'basic', basic: { username: param('username'), password: param('password') } };
+
+    case 'digest':
+      return {
+        type: 'digest',
+        digest: { username: param('username'), password: param('password') },
+      };
+
+    case 'apikey': {
+      const key = param('key');
+      if (!key) {
+        warn('API key auth has no key name; the request is sent without auth');
+        return { type: 'none' };
+      }
+      return {
+        type: 'api-key',
+        apiKey: { key, value: param('value'), in: param('in') === 'query' ? 'query' : 'header' },
+      };
+    }
+
+    case 'oauth2': {
+      const grant = param('grant_type') || 'authorization_code';
+      const grantType =
+        grant === 'client_credentials'
+          ? 'client_credentials'
+          : grant === 'password_credentials'
+            ? 'password'
+            : grant.startsWith('authorization_code')
+              ? 'authorization_code'
+              : null;
+      if (!grantType) {
+        warn(`OAuth 2.0 ${grant} grant is not supported; the request is sent without auth`);
+        return { type: 'none' };
+      }
+      if (param('addTokenTo') === 'queryParams') {
+        warn('OAuth 2.0 tokens are sent in the Authorization header, not the query string');
+      }
+      return {
+        type: 'oauth2',
+        oauth2: {
+          grantType,
+          tokenUrl: param('accessTokenUrl'),
+          authUrl: param('authUrl'),
+          redirectUri: param('redirect_uri'),
+          clientId: param('clientId'),
+          clientSecret: param('clientSecret'),
+          scope: param('scope'),
+          username: param('username'),
+          password: param('password'),
+          // Postman sends the client credentials as a Basic header unless told otherwise
+          clientAuth: param('client_authentication') === 'body' ? 'body' : 'header',
+          usePkce: grant === 'authorization_code_with_pkce',
+          headerPrefix: params.headerPrefix === undefined ? 'Bearer' : param('headerPrefix'),
+        },
+      };
+    }
+
+    case 'awsv4':
+      return {
+        type: 'aws-sigv4',
+        awsSigV4: {
+          accessKeyId: param('accessKey'),
+          secretAccessKey: param('secretKey'),
+          sessionToken: param('sessionToken'),
+          region: param('region') || 'us-east-1',
+          service: param('service') || 'execute-api',
+        },
+      };
+
+    case 'jwt': {
+      const name = param('algorithm') || 'HS256';
+      const parsedAlgorithm = JwtConfigSchema.shape.algorithm.safeParse(name);
+      if (!parsedAlgorithm.success) {
+        warn(`JWT algorithm ${name} is not supported; the request is sent without auth`);
+        return { type: 'none' };
+      }
+      const algorithm = parsedAlgorithm.data;
+      if (params.isSecretBase64Encoded === true) {
+        warn('Base64-encoded JWT secrets are not supported; decode the secret');
+      }
+      return {
+        type: 'jwt',
+        jwt: {
+          algorithm,
+          secret: algorithm.startsWith('HS') ? param('secret') : param('privateKey'),
+          header: param('header'),
+          payload: param('payload'),
+          expiresIn: 0,
+          placement:
+            param('addTokenTo') === 'queryParam'
+              ? { in: 'query', name: param('queryParamKey') || 'token', prefix: '' }
+              : {
+                  in: 'header',
+                  name: 'Authorization',
+                  prefix: params.headerPrefix === undefined ? 'Bearer' : param('headerPrefix'),
+                },
+        },
+      };
+    }
+
+    default:
+      warn(`${auth.type} auth is not supported; the request is sent without auth`);
+      return { type: 'none' };
+  }
+}
+
+/**
+ * Parameters of an auth by name (v2.1 lists them as key-value pairs, v2.0 as an object)
+ */
+function readAuthParams(auth: PostmanAuth): Record<string, unknown> {
+  const params = auth[auth.type];
+  if (Array.isArray(params)) {
+    return Object.fromEntries(
+      params
+        .filter((param): param is { key: string; value?: unknown } => {
+          return typeof param === 'object' && param !== null && typeof param.key === 'string';
+        })
+        .map((param) => [param.key, param.value])
+    );
+  }
+  return typeof params === 'object' && params !== null ? (params as Record<string, unknown>) : {};
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Postman item of a saved request
+ * Request variables used as whole path segments become Postman path variables.
+ */
+function fromRequest(request: RequestExport, warn: (message: string) => void): PostmanItem {
+  let url = request.url;
+  const pathVariables: PostmanKeyValue[] = [];
+  const otherVariables: string[] = [];
+  for (const variable of request.variables) {
+    const segment = new RegExp(`/\\{\\{${variable.key}\\}\\}(?=[/?#]|$)`, 'g');
+    const end = url.search(/[?#]/);
+    const path = end === -1 ? url : url.slice(0, end);
+    if (variable.enabled && segment.test(path)) {
+      url = path.replace(segment, `/:${variable.key}`) + (end === -1 ? '' : url.slice(end));
+      pathVariables.push({ key: variable.key, value: variable.value });
+    } else {
+      otherVariables.push(variable.key);
+    }
+  }
+
+  if (otherVariables.length > 0) {
+    warn(`Request variables are not supported by Postman: ${otherVariables.join(', ')}`);
+  }
+  if (request.assertions.length > 0) {
+    warn(`${request.assertions.length} assertion(s) not exported; add them to the test script`);
+  }
+  if (request.captures.length > 0) {
+    warn(`${request.captures.length} capture(s) not exported; add them to the test script`);
+  }
+
+  return {
+    name: request.name,
+    event: fromScripts(request.preRequestScript, request.testScript),
+    request: {
+      method: request.method,
+      url: { raw: url, ...(pathVariables.length > 0 && { variable: pathVariables }) },
+      header: request.headers.map((header) => ({
+        key: header.key,
+        value: header.value,
+        ...(!header.enabled && { disabled: true }),
+      })),
+      ...(request.body && { body: fromBody(request.body, warn) }),
+      ...fromAuth(request.auth, warn),
+    },
+  };
+}
+
+/**
+ * Postman body in the mode matching the body type
+ */
+function fromBody(body: NonNullable<RequestBody>, warn: (message: string) => void): PostmanBody {
+  switch (body.type) {
+    case 'json':
+      return { mode: 'raw', raw: body.content, options: { raw: { language: 'json' } } };
+
+    case 'raw':
+      return { mode: 'raw', raw: body.content };
+
+    case 'form-data':
+    case 'x-www-form-urlencoded': {
+      let fields: Array<{ key: string; value: string }> = [];
+      try {
+        fields = body.content ? JSON.parse(body.content) : [];
+      } catch {
+        warn('Form body is not a valid field list; exported empty');
+      }
+      const entries = fields.map(({ key, value }) => ({ key, value, type: 'text' }));
+      return body.type === 'form-data'
+        ? { mode: 'formdata', formdata: entries }
+        : { mode: 'urlencoded', urlencoded: entries };
+    }
+
+    case 'binary':
+      warn('Binary body content is not exported; pick the file again in Postman');
+      return { mode: 'file', file: { src: body.binaryFileName ?? '' } };
+  }
+}
+
+/**
+ * Postman auth, as a spreadable `auth` property (none when inherited)
+ */
+function fromAuth(
+  auth: AuthConfig | null,
+  warn: (message: string) => void
+): { auth?: PostmanAuth } {
+  if (!auth) return {};
+
+  const params = (type: string, values: Record<string, string | boolean>) => ({
+    auth: {
+      type,
+      [type]: Object.entries(values).map(([key, value]) => ({
+        key,
+        value,
+        type: typeof value === 'boolean' ? 'boolean' : 'string',
+      })),
+    },
+  });
+
+  switch (auth.type) {
+    case 'none':
+      return { auth: { type: 'noauth' } };
+
+    case 'bearer':
+      return params('bearer', { token: auth.bearer.token });
+
+    case 'basic':
+      return params('basic', { ...auth.basic });
+
+    case 'digest':
+      return params('digest', { ...auth.digest });
+
+    case 'api-key':
+      return params('apikey', { ...auth.apiKey });
+
+    case 'oauth2': {
+      const { oauth2 } = auth;
+      const grantTypes = {
+        client_credentials: 'client_credentials',
+        password: 'password_credentials',
+        authorization_code: oauth2.usePkce ? 'authorization_code_with_pkce' : 'authorization_code',
+      };
+      return params('oauth2', {
+        grant_type: grantTypes[oauth2.grantType],
+        accessTokenUrl: oauth2.tokenUrl,
+        authUrl: oauth2.authUrl,
+        redirect_uri: oauth2.redirectUri,
+        clientId: oauth2.clientId,
+        clientSecret: oauth2.clientSecret,
+        scope: oauth2.scope,
+        username: oauth2.username,
+        password: oauth2.password,
+        client_authentication: oauth2.clientAuth,
+        headerPrefix: oauth2.headerPrefix,
+        addTokenTo: 'header',
+      });
+    }
+
+    case 'aws-sigv4':
+      return params('awsv4', {
+        accessKey: auth.awsSigV4.accessKeyId,
+        secretKey: auth.awsSigV4.secretAccessKey,
+        sessionToken: auth.awsSigV4.sessionToken,
+        region: auth.awsSigV4.region,
+        service: auth.awsSigV4.service,
+      });
+
+    case 'jwt': {
+      const { jwt } = auth;
+      if (jwt.expiresIn > 0) {
+        warn('JWT expiry is not exported; add an exp claim to the payload in Postman');
+      }
+      return params('jwt', {
+        algorithm: jwt.algorithm,
+        [jwt.algorithm.startsWith('HS') ? 'secret' : 'privateKey']: jwt.secret,
+        header: jwt.header,
+        payload: jwt.payload,
+        addTokenTo: jwt.placement.in === 'query' ? 'queryParam' : 'header',
+        ...(jwt.placement.in === 'query'
+          ? { queryParamKey: jwt.placement.name }
+          : { headerPrefix: jwt.placement.prefix }),
+      });
+    }
+
+    case 'hmac':
+      warn('HMAC auth is not supported by Postman; exported without auth');
+      return { auth: { type: 'noauth' } };
+  }
+}
+
+/**
+ * Postman events of a pre-request and a test script, converted to the `pm` API
+ */
+function fromScripts(preRequestScript: string, testScript: string): PostmanEvent[] {
+  const events: PostmanEvent[] = [];
+  for (const [listen, source] of [
+    ['prerequest', preRequestScript],
+    ['test', testScript],
+  ] as const) {
+    if (!source.trim()) continue;
+    const converted = EXPORT_SCRIPT_RENAMES.reduce(
+      (script, [pattern, replacement]) => script.replace(pattern, replacement),
+      source
+    );
+    events.push({ listen, script: { exec: converted.split('\n') } });
+  }
+  return events;
+}
+
+// ============================================================================
+// Scripts and variables
+// ============================================================================
+
+/**
+ * Pre-request and test scripts of an item, converted to the `np` API
+ */
+function readEvents(
+  events: PostmanEvent[] | undefined,
+  warn: (message: string) => void
+): { preRequest: string; test: string } {
+  const scripts = { preRequest: '', test: '' };
+
+  for (const event of events ?? []) {
+    const exec = event.script?.exec;
+    const source = (Array.isArray(exec) ? exec.join('\n') : (exec ?? '')).trim();
+    if (!source || event.disabled) continue;
+
+    const label = event.listen === 'prerequest' ? 'Pre-request script' : 'Test script';
+    if (event.listen !== 'prerequest' && event.listen !== 'test') {
+      warn(`${event.listen} scripts are not supported`);
+      continue;
+    }
+
+    const unsupported = UNSUPPORTED_SCRIPT_APIS.flatMap(({ pattern, name }) => {
+      const match = pattern.exec(source);
+      return match ? [match[0].replace(pattern, name)] : [];
+    });
+    if (unsupported.length > 0) {
+      warn(`${label} uses ${unsupported.join(', ')}, which the script sandbox does not support`);
+    }
+
+    const converted = SCRIPT_RENAMES.reduce(
+      (script, [pattern, replacement]) => script.replace(pattern, replacement),
+      source
+    );
+    scripts[event.listen === 'prerequest' ? 'preRequest' : 'test'] = converted;
+  }
+
+  return scripts;
+}
+
+/**
+ * Variables with valid keys; secret types stay secret
+ */
+function toVariables(
+  entries: PostmanKeyValue[] | undefined,
+  warn: (message: string) => void
+): Variable[] {
+  const variables: Variable[] = [];
+  const invalid: string[] = [];
+
+  for (const entry of entries ?? []) {
+    const key = entry.key?.trim() ?? '';
+    if (!VariableSchema.shape.key.safeParse(key).success) {
+      if (key) invalid.push(key);
+      continue;
+    }
+    variables.push({
+      key,
+      value: toValue(entry.value).slice(0, 10000),
+      enabled: entry.enabled ?? !entry.disabled,
+      ...(entry.type === 'secret' && { secret: true }),
+    });
+  }
+
+  if (invalid.length > 0) {
+    warn(`Variables with names that are not valid here were dropped: ${invalid.join(', ')}`);
+  }
+  return variables;
+}
+
+/**
+ * Text of a value; descriptions may be objects with a content field
+ */
+function toText(value: unknown): string {
+  if (typeof value === 'object' && value !== null && 'content' in value) {
+    return toValue(value.content);
+  }
+  return toValue(value);
+}
+
+/**
+ * String form of a JSON value ('' for null and undefined)
+ */
+function toValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Trimmed, length-limited name with a fallback for blank ones
+ */
+function toName(name: string | undefined, maxLength: number, fallback: string): string {
+  return name?.trim().slice(0, maxLength) || fallback;
+}
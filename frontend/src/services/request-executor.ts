@@ -0,0 +1,412 @@
+/**
+ * Request executor - the steps of sending a request and checking its response
+ *
+ * Shared by a send from the builder and the collection runner: the pre-request
+ * scripts run first, then {{variables}} are resolved, the auth is added and the
+ * request goes through the proxy. A successful response has its captures saved
+ * before the assertions and the test script run on it. Where variables come from
+ * and where the values set along the way are saved is up to the caller.
+ *
+ * @module services/request-executor
+ */
+
+import { api } from './api';
+import { getSecretValues, redactSecrets, resolveRequest } from './variable-resolver';
+import { createDynamicScope } from './dynamic-variables';
+import { applyAuth, signRequest } from './auth';
+import { evaluateAssertions } from './assertions';
+import { extractCaptures, groupCaptures, type CaptureResult } from './captures';
+import { getAccessToken } from './oauth2';
+import {
+  ScriptError,
+  runPreRequestScripts,
+  runTestScript,
+  type PreRequestScript,
+  type ScriptLogEntry,
+  type ScriptResult,
+  type ScriptVariables,
+} from './scripts';
+import type { ScopedVariables, VariableMap } from './variable-resolver';
+import type {
+  Assertion,
+  Capture,
+  Header,
+  HistoryEntry,
+  ProxyRequest,
+  ProxyResponse,
+  RequestState,
+  TestResult,
+} from '../types';
+
+/**
+ * Request to send (auth is the effective one), with what to check on its response
+ */
+export interface ExecutableRequest extends RequestState {
+  /** Script run on the response ('' = none) */
+  testScript: string;
+  assertions: Assertion[];
+  captures: Capture[];
+}
+
+/**
+ * Values set by scripts and captures, by scope
+ */
+export type VariableUpdates = ScriptResult['updates'] & { runtime: Record<string, string> };
+
+/**
+ * Where a request's variables come from and where the values it sets go
+ */
+export interface ExecutionContext {
+  /** Pre-request scripts in run order (collection, folders from the outermost, request) */
+  scripts: PreRequestScript[];
+  /** Variables of every scope merged by precedence; read again after each step */
+  getScopedVariables: () => ScopedVariables;
+  /** Variables of every scope as scripts see them; read again after each step */
+  getScriptVariables: () => ScriptVariables;
+  /** Whether the request is in a collection, to capture into */
+  hasCollection: boolean;
+  /** Whether an environment is active, to capture into */
+  hasEnvironment: boolean;
+  /** Apply and persist values set by scripts and captures */
+  saveVariables: (updates: VariableUpdates) => Promise<void>;
+  /** Called with the response as soon as it is in, before it is checked */
+  onResponse?: (response: ProxyResponse) => void;
+}
+
+/**
+ * Request as changed by its pre-request scripts, ready to resolve and send
+ */
+export interface PreparedRequest {
+  /** Request templates (auth is the effective one) */
+  request: RequestState;
+  /** Values set with np.variables, for this send only */
+  variables: Record<string, string>;
+}
+
+/**
+ * Outcome of a request's pre-request scripts
+ */
+export interface Preparation {
+  /** Request to send (null = a script failed) */
+  prepared: PreparedRequest | null;
+  /** Console output of the scripts */
+  logs: ScriptLogEntry[];
+  /** Why the scripts failed */
+  error: string | null;
+}
+
+/**
+ * Outcome of sending a request and checking its response
+ */
+export interface ExecutionResult {
+  /**
+   * Resolved request as sent, with secret values put back as their {{references}}
+   * and without the auth credentials (null = it was not sent)
+   */
+  request: HistoryEntry['request'] | null;
+  /** {{$dynamic}} values generated for the request, redacted */
+  dynamicVariables: Array<{ name: string; value: string }>;
+  /** Proxy response (null = no response) */
+  response: ProxyResponse | null;
+  /** Why the request was not sent, failed or has no usable response */
+  error: string | null;
+  /** Values captured from the response (null = nothing to capture) */
+  captures: CaptureResult[] | null;
+  /** Results of the assertions ([] = none evaluated) */
+  assertions: TestResult[];
+  /** Results of the test script (null = it did not run) */
+  tests: TestResult[] | null;
+  /** Error that stopped the test script, if any */
+  testError: string | null;
+  /** Console output of the scripts run by this call */
+  logs: ScriptLogEntry[];
+  /** Time until the response or the error (ms) */
+  time: number;
+  /** Put secret values back as their {{references}}, for what is kept of the response */
+  redact: (text: string) => string;
+}
+
+/**
+ * Run a request's pre-request scripts and save the values they set
+ * Nothing the scripts changed is applied when one fails, but their output is kept.
+ *
+ * @param request - Request as edited (auth is the effective one)
+ * @param context - Scripts, variables and where the values they set go
+ * @returns Promise resolving to the request to send, or why the scripts failed
+ *
+ * @example
+ * ```typescript
+ * const { prepared, logs, error } = await prepareSavedRequest(request, context);
+ * if (prepared) await executeSavedRequest(request, context, prepared);
+ * ```
+ */
+export async function prepareSavedRequest(
+  request: RequestState,
+  context: ExecutionContext
+): Promise<Preparation> {
+  try {
+    const result = await runPreRequestScripts(
+      context.scripts,
+      { method: request.method, url: request.url, headers: request.headers, body: request.body },
+      context.getScriptVariables()
+    );
+    await context.saveVariables({ ...result.updates, runtime: {} });
+
+    return {
+      prepared: { request: { ...request, ...result.request }, variables: result.variables },
+      logs: result.logs,
+      error: null,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Pre-request script failed';
+    const source = error instanceof ScriptError ? error.source : 'Pre-request scripts';
+    return {
+      prepared: null,
+      logs: [
+        ...(error instanceof ScriptError ? error.logs : []),
+        { level: 'error', message, source, timestamp: new Date().toISOString() },
+      ],
+      error: `Pre-request script failed (${source}): ${message}`,
+    };
+  }
+}
+
+/**
+ * Send a request through the proxy and check its response
+ * Undefined {{variables}} are left as-is; callers that can ask the user check for
+ * them first (see findUnresolvedVariables).
+ *
+ * @param request - Request to send (auth is the effective one)
+ * @param context - Scripts, variables and where the values set go
+ * @param prepared - Request already prepared by its pre-request scripts (they run first without it)
+ * @returns Promise resolving to what was sent, the response and the results of its checks
+ *
+ * @example
+ * ```typescript
+ * const result = await executeSavedRequest(request, context);
+ * const passed = !result.error && [...result.assertions, ...(result.tests ?? [])].every((t) => t.passed);
+ * ```
+ */
+export async function executeSavedRequest(
+  request: ExecutableRequest,
+  context: ExecutionContext,
+  prepared?: PreparedRequest
+): Promise<ExecutionResult> {
+  const result: ExecutionResult = {
+    request: null,
+    dynamicVariables: [],
+    response: null,
+    error: null,
+    captures: null,
+    assertions: [],
+    tests: null,
+    testError: null,
+    logs: [],
+    time: 0,
+    redact: (text) => text,
+  };
+
+  if (!prepared) {
+    const preparation = await prepareSavedRequest(request, context);
+    result.logs = preparation.logs;
+    if (!preparation.prepared) {
+      return { ...result, error: preparation.error };
+    }
+    prepared = preparation.prepared;
+  }
+
+  // Substitute {{variables}} from every scope and generate {{$dynamic}} values
+  const dynamic = createDynamicScope();
+  const scoped = context.getScopedVariables();
+  const variables = withScriptVariables(scoped.values, prepared.variables);
+  const { request: resolved } = resolveRequest(prepared.request, variables, dynamic.resolve);
+
+  let url = resolved.url.trim();
+  if (!url) {
+    return { ...result, error: 'URL is empty' };
+  }
+  if (!url.startsWith('http://') && !url.startsWith('https://')) {
+    url = `https://${url}`;
+  }
+
+  // What is kept of the request is the resolved one, not the templates, with secret
+  // values put back as their {{references}} and without the auth credentials added below
+  const secrets = getSecretValues(scoped, dynamic.generated);
+  const redact = (text: string) => redactSecrets(text, secrets);
+  result.redact = redact;
+  result.request = {
+    method: resolved.method,
+    url: redact(url),
+    headers: resolved.headers
+      .filter((h) => h.key.trim() !== '')
+      .map((h) => ({ ...h, value: redact(h.value) })),
+    body: resolved.body ? redact(resolved.body.content) : null,
+    authType: resolved.auth?.type ?? 'none',
+  };
+  result.dynamicVariables = dynamic.generated.map(({ name, value }) => ({
+    name: redact(name),
+    value: redact(value),
+  }));
+
+  const startTime = Date.now();
+  let response: ProxyResponse;
+  try {
+    // Add the request's own or inherited auth; OAuth 2.0 tokens are fetched or
+    // refreshed only now
+    const { auth } = resolved;
+    const authorized = applyAuth(
+      { ...resolved, url },
+      auth?.type === 'oauth2' ? await getAccessToken(auth.oauth2) : undefined
+    );
+
+    const proxyRequest: ProxyRequest = {
+      method: authorized.method,
+      url: authorized.url,
+      headers: headersToRecord(authorized.headers),
+      body: authorized.body?.content ?? null,
+      timeout: authorized.timeout,
+      digest: auth?.type === 'digest' ? auth.digest : undefined,
+    };
+
+    // Signed last so signatures cover exactly what is sent
+    response = await api.proxy(await signRequest(proxyRequest, auth));
+  } catch (error) {
+    return {
+      ...result,
+      error: error instanceof Error ? error.message : 'Request failed',
+      time: Date.now() - startTime,
+    };
+  }
+
+  result.response = response;
+  result.time = response.timing.total;
+  context.onResponse?.(response);
+  if (response.error) {
+    return { ...result, error: response.error.message };
+  }
+
+  // Save the values later requests need first, so the checks below see them
+  if (response.status >= 200 && response.status < 300) {
+    result.captures = await runCaptures(request.captures, response, variables, context);
+  }
+
+  result.assertions = evaluateAssertions(request.assertions, response, variables);
+  if (request.testScript.trim()) {
+    await runTests(request.testScript, prepared, response, context, result);
+  }
+
+  return result;
+}
+
+/**
+ * Names of the {{variables}} a prepared request uses that no scope defines
+ *
+ * @param prepared - Request prepared by its pre-request scripts
+ * @param context - Where its variables come from
+ * @returns Undefined variable names ([] = none)
+ */
+export function findUnresolvedVariables(
+  prepared: PreparedRequest,
+  context: Pick<ExecutionContext, 'getScopedVariables'>
+): string[] {
+  const variables = withScriptVariables(context.getScopedVariables().values, prepared.variables);
+  return resolveRequest(prepared.request, variables, createDynamicScope().resolve).unresolved;
+}
+
+// ============================================================================
+// Response checks
+// ============================================================================
+
+/**
+ * Save the values a request captures from its response
+ * Captures into a scope that is not available fail rather than being dropped silently.
+ */
+async function runCaptures(
+  captures: Capture[],
+  response: ProxyResponse,
+  variables: VariableMap,
+  context: ExecutionContext
+): Promise<CaptureResult[] | null> {
+  if (!captures.some((capture) => capture.enabled)) return null;
+
+  const results = extractCaptures(captures, response, variables).map((result) => {
+    if (result.value === null) return result;
+    if (result.scope === 'environment' && !context.hasEnvironment) {
+      return { ...result, value: null, error: 'No active environment to save it in' };
+    }
+    if (result.scope === 'collection' && !context.hasCollection) {
+      return { ...result, value: null, error: 'This request is not in a collection' };
+    }
+    return result;
+  });
+
+  try {
+    await context.saveVariables({ global: {}, ...groupCaptures(results) });
+  } catch (error) {
+    console.error('Failed to save captured values:', error);
+  }
+  return results;
+}
+
+/**
+ * Run the request's test script on its response
+ * A script that throws outside its tests keeps the results it got to, with its error.
+ */
+async function runTests(
+  source: string,
+  prepared: PreparedRequest,
+  response: ProxyResponse,
+  context: ExecutionContext,
+  result: ExecutionResult
+): Promise<void> {
+  const { method, url, headers, body } = prepared.request;
+  const variables = context.getScriptVariables();
+  try {
+    const outcome = await runTestScript(
+      source,
+      { method, url, headers, body },
+      response,
+      // Values set with np.variables in the pre-request scripts still apply
+      { ...variables, runtime: { ...variables.runtime, ...prepared.variables } }
+    );
+    result.tests = outcome.tests;
+    result.logs = [...result.logs, ...outcome.logs];
+    await context.saveVariables({ ...outcome.updates, runtime: {} });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Test script failed';
+    const scriptSource = error instanceof ScriptError ? error.source : 'Tests';
+    result.tests = error instanceof ScriptError ? error.tests : (result.tests ?? []);
+    result.testError = message;
+    result.logs = [
+      ...result.logs,
+      ...(error instanceof ScriptError ? error.logs : []),
+      { level: 'error', message, source: scriptSource, timestamp: new Date().toISOString() },
+    ];
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Add the values scripts set with np.variables on top of every scope
+ */
+function withScriptVariables(values: VariableMap, variables: Record<string, string>): VariableMap {
+  return new Map([...values, ...Object.entries(variables)]);
+}
+
+/**
+ * Convert headers array to Record for proxy request
+ */
+function headersToRecord(headers: Header[]): Record<string, string> {
+  const record: Record<string, string> = {};
+
+  for (const header of headers) {
+    if (header.enabled && header.key.trim()) {
+      record[header.key] = header.value;
+    }
+  }
+
+  return record;
+}
@@ -0,0 +1,353 @@
+/**
+ * Collection runner - sends every saved request of a collection in order and checks
+ * the responses
+ *
+ * Requests run level by level in sortOrder: the requests at the collection root,
+ * then each folder's requests followed by its subfolders. Each one goes through the
+ * same steps as a send from the builder (see services/request-executor): inherited
+ * auth and pre-request scripts, variable resolution, the proxy, then captures,
+ * assertions and the test script.
+ * Values set by scripts and captures carry over to the next requests. With a data
+ * file, each iteration resolves the columns of its row as iteration data variables.
+ *
+ * @module services/runner
+ */
+
+import { getCollection, getFoldersByCollection, getRequestsByFolder } from './db';
+import { mergeVariableScopes } from './variable-resolver';
+import { resolveEffectiveAuth } from './auth';
+import { executeSavedRequest, type VariableUpdates } from './request-executor';
+import { getIterationRow } from './data-file';
+import {
+  setVariableValues,
+  toScriptValues,
+  type ScriptResult,
+  type ScriptVariables,
+} from './scripts';
+import type {
+  Collection,
+  CollectionRun,
+  Environment,
+  Folder,
+  RunData,
+  RunResult,
+  SavedRequest,
+  Variable,
+} from '../types';
+
+/**
+ * Settings of a collection run
+ */
+export interface RunOptions {
+  /** Times the whole collection is run */
+  iterations: number;
+  /** Wait between two requests (ms) */
+  delay: number;
+  /** Stop at the first request that fails */
+  stopOnFailure: boolean;
+  /** Data file rows, one per iteration (null = none); iterations past the last row reuse it */
+  data: RunData | null;
+}
+
+/**
+ * Variables a run starts from, and where its changes go
+ */
+export interface RunContext {
+  /** Workspace globals */
+  globals: Variable[];
+  /** Active environment (null = none) */
+  environment: Environment | null;
+  /** Runtime values; the ones set during the run are kept for the run only */
+  runtime: Variable[];
+  /** Persist values set by scripts and captures in the globals, collection and environment */
+  saveVariables: (collectionId: string, updates: ScriptResult['updates']) => Promise<void>;
+  /** Called with the run so far after each request */
+  onProgress?: (run: CollectionRun) => void;
+  /** Aborting cancels the run once the current request is done */
+  signal?: AbortSignal;
+}
+
+/**
+ * Request counts of a run
+ */
+export interface RunSummary {
+  passed: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * Saved request with the folders it sits in, outermost first
+ */
+interface RunItem {
+  request: SavedRequest;
+  folders: Folder[];
+}
+
+/**
+ * Variables of each scope as they change during a run
+ */
+interface RunScopes {
+  global: Variable[];
+  collection: Variable[];
+  environment: Variable[] | null;
+  /** Row of the current iteration */
+  data: Record<string, string>;
+  runtime: Variable[];
+}
+
+/** Default settings of a run */
+export const DEFAULT_RUN_OPTIONS: RunOptions = {
+  iterations: 1,
+  delay: 0,
+  stopOnFailure: false,
+  data: null,
+};
+
+/**
+ * Run every request of a collection, the given number of times
+ *
+ * @param collectionId - Collection to run
+ * @param options - Iterations, delay, stop-on-failure and data file
+ * @param context - Starting variables, persistence and progress callbacks
+ * @returns Promise resolving to the finished run (not saved)
+ * @throws Error if the collection does not exist
+ *
+ * @example
+ * ```typescript
+ * const options = { ...DEFAULT_RUN_OPTIONS, iterations: 2, stopOnFailure: true };
+ * const run = await runCollection(collectionId, options, {
+ *   globals,
+ *   environment: activeEnvironment,
+ *   runtime: [],
+ *   saveVariables,
+ *   onProgress: (run) => console.log(run.results.length),
+ * });
+ * run.status; // => 'passed'
+ * ```
+ */
+export async function runCollection(
+  collectionId: string,
+  options: RunOptions,
+  context: RunContext
+): Promise<CollectionRun> {
+  const collection = await getCollection(collectionId);
+  if (!collection) {
+    throw new Error('Collection not found');
+  }
+
+  const items = await planRun(collection);
+  const scopes: RunScopes = {
+    global: context.globals,
+    collection: collection.variables,
+    environment: context.environment?.variables ?? null,
+    data: {},
+    runtime: context.runtime,
+  };
+  const run: CollectionRun = {
+    id: crypto.randomUUID(),
+    collectionId,
+    collectionName: collection.name,
+    environmentId: context.environment?.id ?? null,
+    iterations: options.iterations,
+    delay: options.delay,
+    stopOnFailure: options.stopOnFailure,
+    data: options.data,
+    status: 'running',
+    results: [],
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+  };
+  context.onProgress?.(run);
+
+  let stopped = false;
+  for (let iteration = 1; iteration <= options.iterations && !stopped; iteration++) {
+    scopes.data = getIterationRow(options.data, iteration);
+    for (const item of items) {
+      // The delay goes between requests, not before the first one
+      if (run.results.length > 0 && options.delay > 0) {
+        await wait(options.delay, context.signal);
+      }
+      if (context.signal?.aborted) {
+        run.status = 'cancelled';
+        stopped = true;
+        break;
+      }
+
+      const result = await runRequest(collection, item, iteration, scopes, context);
+      run.results = [...run.results, result];
+      context.onProgress?.({ ...run });
+
+      if (!result.passed && options.stopOnFailure) {
+        stopped = true;
+        break;
+      }
+    }
+  }
+
+  if (run.status === 'running') {
+    run.status = run.results.every((result) => result.passed) ? 'passed' : 'failed';
+  }
+  run.finishedAt = new Date().toISOString();
+  return run;
+}
+
+/**
+ * Count the passed and failed requests of a run
+ *
+ * @param run - Collection run
+ * @returns Number of requests passed, failed and run
+ */
+export function summarizeRun(run: CollectionRun): RunSummary {
+  const passed = run.results.filter((result) => result.passed).length;
+  return { passed, failed: run.results.length - passed, total: run.results.length };
+}
+
+/**
+ * List the requests of a collection in run order
+ * Folders and requests are sorted by sortOrder within their level.
+ */
+async function planRun(collection: Collection): Promise<RunItem[]> {
+  const folders = await getFoldersByCollection(collection.id);
+  const items: RunItem[] = [];
+
+  const visit = async (folderId: string | null, chain: Folder[]) => {
+    for (const request of await getRequestsByFolder(collection.id, folderId)) {
+      items.push({ request, folders: chain });
+    }
+    for (const folder of folders.filter((f) => f.parentFolderId === folderId)) {
+      await visit(folder.id, [...chain, folder]);
+    }
+  };
+
+  await visit(null, []);
+  return items;
+}
+
+/**
+ * Send one request of the run and check its response
+ * Updates the run's scopes with what its scripts and captures set.
+ */
+async function runRequest(
+  collection: Collection,
+  { request, folders }: RunItem,
+  iteration: number,
+  scopes: RunScopes,
+  context: RunContext
+): Promise<RunResult> {
+  // Pre-request scripts: collection, then folders from the outermost, then the request;
+  // undefined variables are left as-is, as there is no one to ask
+  const { auth } = resolveEffectiveAuth(request.auth, [
+    ...[...folders].reverse().map((folder) => ({
+      level: 'folder' as const,
+      id: folder.id,
+      name: folder.name,
+      auth: folder.auth,
+    })),
+    { level: 'collection', id: collection.id, name: collection.name, auth: collection.auth },
+  ]);
+  const result = await executeSavedRequest(
+    { ...request, auth },
+    {
+      scripts: [
+        { level: 'collection', name: collection.name, source: collection.preRequestScript },
+        ...folders.map((folder) => ({
+          level: 'folder' as const,
+          name: folder.name,
+          source: folder.preRequestScript,
+        })),
+        { level: 'request', name: request.name, source: request.preRequestScript },
+      ],
+      getScopedVariables: () =>
+        mergeVariableScopes({
+          global: scopes.global,
+          collection: scopes.collection,
+          environment: scopes.environment ?? [],
+          data: Object.entries(scopes.data).map(([key, value]) => ({ key, value, enabled: true })),
+          request: request.variables,
+          runtime: scopes.runtime,
+        }),
+      getScriptVariables: () => getScriptVariables(scopes, request),
+      hasCollection: true,
+      hasEnvironment: scopes.environment !== null,
+      saveVariables: (updates) => applyUpdates(collection.id, scopes, updates, context),
+    }
+  );
+
+  // A test script that throws fails the request, with the results it got to
+  const tests = result.tests ?? [];
+  const error =
+    result.error ?? (result.testError !== null ? `Test script failed: ${result.testError}` : null);
+  return {
+    requestId: request.id,
+    name: request.name,
+    folder: folders.map((folder) => folder.name).join(' / '),
+    iteration,
+    method: request.method,
+    url: result.request?.url ?? request.url,
+    status: result.response?.status ?? 0,
+    statusText: result.response?.statusText ?? '',
+    time: result.time,
+    size: result.response?.size ?? 0,
+    error,
+    assertions: result.assertions,
+    tests,
+    passed: error === null && [...result.assertions, ...tests].every((check) => check.passed),
+  };
+}
+
+/**
+ * Values of every scope of the run, as a request's scripts see them
+ */
+function getScriptVariables(scopes: RunScopes, request: SavedRequest): ScriptVariables {
+  return {
+    global: toScriptValues(scopes.global),
+    collection: toScriptValues(scopes.collection),
+    environment: scopes.environment && toScriptValues(scopes.environment),
+    data: scopes.data,
+    request: toScriptValues(request.variables),
+    runtime: toScriptValues(scopes.runtime),
+  };
+}
+
+/**
+ * Apply values set by scripts or captures to the run's scopes, and persist them
+ */
+async function applyUpdates(
+  collectionId: string,
+  scopes: RunScopes,
+  { runtime, ...updates }: VariableUpdates,
+  context: RunContext
+): Promise<void> {
+  scopes.runtime = setVariableValues(scopes.runtime, runtime);
+  if (!Object.values(updates).some((values) => Object.keys(values).length > 0)) return;
+
+  scopes.global = setVariableValues(scopes.global, updates.global);
+  scopes.collection = setVariableValues(scopes.collection, updates.collection);
+  if (scopes.environment) {
+    scopes.environment = setVariableValues(scopes.environment, updates.environment);
+  }
+
+  try {
+    await context.saveVariables(collectionId, updates);
+  } catch (error) {
+    // The run goes on with the values in memory
+    console.error('Failed to save run variables:', error);
+  }
+}
+
+/**
+ * Wait between two requests, ending early if the run is cancelled
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
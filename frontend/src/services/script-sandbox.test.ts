@@ -0,0 +1,95 @@
+/// <reference types="node" />
+import { createContext, runInContext } from 'node:vm';
+import { describe, expect, it } from 'vitest';
+import sandboxRuntime from './script-sandbox.worker?script';
+import { SANDBOX_DOCUMENT, SANDBOX_POLICY, type ScriptJob, type ScriptOutcome } from './scripts';
+
+/**
+ * Run the sandbox runtime on a job in a fresh context standing in for the worker
+ * global, with the network APIs a worker has
+ */
+function runInWorker(source: string): Promise<ScriptOutcome> {
+  return new Promise((resolve) => {
+    const listeners: Array<(event: { data: ScriptJob }) => void> = [];
+    const context = createContext({
+      structuredClone,
+      fetch: () => Promise.resolve('sent'),
+      importScripts: () => undefined,
+      XMLHttpRequest: class {},
+      postMessage: resolve,
+      addEventListener: (_type: string, listener: (event: { data: ScriptJob }) => void) =>
+        listeners.push(listener),
+    });
+    runInContext('globalThis.self = globalThis;', context);
+    runInContext(sandboxRuntime, context);
+
+    const job: ScriptJob = {
+      scripts: [{ label: 'Request', source }],
+      request: { method: 'GET', url: 'https://api.example.com', headers: [], body: null },
+      variables: {
+        global: {},
+        collection: null,
+        environment: null,
+        data: {},
+        request: {},
+        runtime: {},
+      },
+    };
+    for (const listener of listeners) listener({ data: job });
+  });
+}
+
+/**
+ * Sources of a directive of the sandbox policy (undefined = directive not set)
+ */
+function directive(name: string): string[] | undefined {
+  const entry = SANDBOX_POLICY.split(';')
+    .map((part) => part.trim().split(/\s+/))
+    .find(([directiveName]) => directiveName === name);
+  return entry?.slice(1);
+}
+
+describe('script sandbox', () => {
+  it('is a classic script, as a blob worker needs', () => {
+    expect(() => new Function(sandboxRuntime)).not.toThrow();
+    expect(sandboxRuntime).not.toMatch(/\bimport\.meta\b/);
+  });
+
+  it('runs scripts with np', async () => {
+    const outcome = await runInWorker("np.request.headers.set('X-Trace', '1')");
+
+    expect(outcome.ok).toBe(true);
+    expect(outcome.ok && outcome.request.headers).toEqual([
+      { key: 'X-Trace', value: '1', enabled: true },
+    ]);
+  });
+
+  it('removes fetch, XHR and importScripts before scripts run', async () => {
+    for (const name of ['fetch', 'XMLHttpRequest', 'importScripts']) {
+      const outcome = await runInWorker(`${name}('https://evil.example.com')`);
+
+      expect(outcome).toMatchObject({ ok: false, message: `${name} is not defined` });
+    }
+  });
+
+  it('keeps scripts from posting an outcome of their own', async () => {
+    const outcome = await runInWorker('postMessage({ ok: true, request: {} })');
+
+    expect(outcome).toMatchObject({ ok: false, message: 'postMessage is not defined' });
+  });
+
+  it('lets the frame fetch and load nothing, so import() and fetch fail', () => {
+    // default-src covers connect-src (fetch, XHR, WebSocket, EventSource)
+    expect(directive('default-src')).toEqual(["'none'"]);
+    expect(directive('connect-src')).toBeUndefined();
+    // Only keywords for scripts: no URL, scheme or host an import() could load from
+    expect(directive('script-src')).toEqual(["'unsafe-inline'", "'unsafe-eval'"]);
+    expect(directive('worker-src')).toEqual(['blob:']);
+  });
+
+  it('applies the policy in the frame document', () => {
+    expect(SANDBOX_DOCUMENT).toContain(
+      `<meta http-equiv="Content-Security-Policy" content="${SANDBOX_POLICY}">`
+    );
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Script sandbox - worker running the pre-request scripts, or the test script, of one send
+ *
+ * Bundled into one classic script and started from a blob URL in a sandboxed
+ * frame (see services/scripts): its origin is opaque, so scripts cannot reach the
+ * app's data, and the frame's content security policy blocks every request, so
+ * they cannot send anything anywhere. Before any script runs, the worker also
+ * removes its network, storage and messaging APIs, so a script cannot post an
+ * outcome of its own. Scripts get `np`, `expect` and `console`, and the result is
+ * posted back once.
+ *
+ * @module services/script-sandbox.worker
+ */
+
+import { HttpMethodSchema, VariableSchema } from '../types/schemas';
+import type { Header } from '../types';
+import { expect } from './expect';
+import type {
+  ScriptJob,
+  ScriptLogEntry,
+  ScriptOutcome,
+  ScriptResponse,
+  ScriptResult,
+} from './scripts';
+
+/** Worker globals scripts must not use */
+const BLOCKED_GLOBALS = [
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'WebTransport',
+  'EventSource',
+  'importScripts',
+  'indexedDB',
+  'caches',
+  'BroadcastChannel',
+  'Worker',
+  'SharedWorker',
+  'postMessage',
+  'addEventListener',
+  'onmessage',
+];
+
+/** AsyncFunction constructor, so scripts can use await */
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor as new (
+  ...args: string[]
+) => (...args: unknown[]) => Promise<unknown>;
+
+const post = self.postMessage.bind(self) as (outcome: ScriptOutcome) => void;
+let started = false;
+
+self.addEventListener('message', (event: MessageEvent<ScriptJob>) => {
+  if (started) return;
+  started = true;
+
+  void run(event.data).then(post);
+});
+
+// Listeners are in place; remove the APIs from every prototype they are defined on
+for (const name of BLOCKED_GLOBALS) {
+  for (let target: object | null = self; target; target = Object.getPrototypeOf(target)) {
+    if (Object.prototype.hasOwnProperty.call(target, name)) {
+      Reflect.deleteProperty(target, name);
+    }
+  }
+}
+
+/**
+ * Run every script of a job in order, stopping at the first failure
+ * A script is done once it has returned and the tests it started have settled.
+ */
+async function run(job: ScriptJob): Promise<ScriptOutcome> {
+  const result: ScriptResult = {
+    request: structuredClone(job.request),
+    variables: {},
+    updates: { global: {}, collection: {}, environment: {} },
+    tests: [],
+    logs: [],
+  };
+
+  for (const { label: source, source: code } of job.scripts) {
+    const pending: Promise<void>[] = [];
+    try {
+      const execute = new AsyncFunction('np', 'expect', 'console', `'use strict';\n${code}`);
+      await execute(createApi(job, result, pending), expect, createConsole(result.logs, source));
+      await Promise.all(pending);
+    } catch (error) {
+      await Promise.all(pending);
+      return {
+        ok: false,
+        message: error instanceof Error ? error.message : String(error),
+        source,
+        tests: result.tests,
+        logs: result.logs,
+      };
+    }
+  }
+
+  return { ok: true, ...result };
+}
+
+/**
+ * The `np` object scripts use to read and change the request and variables,
+ * and for test scripts to check the response
+ */
+function createApi(job: ScriptJob, result: ScriptResult, pending: Promise<void>[]) {
+  const { request, variables, updates } = result;
+  const { global, collection, environment } = job.variables;
+
+  // Highest precedence first, as in the variable resolver
+  const lookup = (name: string): string | undefined =>
+    own(variables, name) ??
+    own(job.variables.runtime, name) ??
+    own(job.variables.request, name) ??
+    own(job.variables.data, name) ??
+    own(updates.environment, name) ??
+    own(environment, name) ??
+    own(updates.collection, name) ??
+    own(collection, name) ??
+    own(updates.global, name) ??
+    own(global, name);
+
+  return {
+    request: {
+      get method(): string {
+        return request.method;
+      },
+      set method(value: string) {
+        const parsed = HttpMethodSchema.safeParse(String(value).toUpperCase());
+        if (!parsed.success) {
+          throw new Error(`Unsupported method "${value}"`);
+        }
+        request.method = parsed.data;
+      },
+      get url(): string {
+        return request.url;
+      },
+      set url(value: string) {
+        request.url = String(value);
+      },
+      /** Body content (null = no body); setting it on a request without one sends raw text */
+      get body(): string | null {
+        return request.body?.content ?? null;
+      },
+      set body(value: string | null) {
+        request.body =
+          value === null ? null : { ...(request.body ?? { type: 'raw' }), content: String(value) };
+      },
+      headers: {
+        get: (key: string) => findHeader(request.headers, key)?.value,
+        set: (key: string, value: string) => {
+          const header = findHeader(request.headers, key);
+          if (header) {
+            header.value = String(value);
+            header.enabled = true;
+          } else {
+            request.headers.push({ key, value: String(value), enabled: true });
+          }
+        },
+        remove: (key: string) => {
+          request.headers = request.headers.filter(
+            (header) => header.key.toLowerCase() !== key.toLowerCase()
+          );
+        },
+        toObject: () =>
+          Object.fromEntries(
+            request.headers.filter((h) => h.enabled && h.key).map((h) => [h.key, h.value])
+          ),
+      },
+    },
+
+    /** This send only, above every scope */
+    variables: {
+      get: lookup,
+      has: (name: string) => lookup(name) !== undefined,
+      set: (name: string, value: unknown) => {
+        variables[checkName(name)] = String(value);
+      },
+    },
+
+    globals: createScope(global, updates.global, 'global'),
+    collectionVariables: createScope(collection, updates.collection, 'collection'),
+    environment: createScope(environment, updates.environment, 'environment'),
+
+    /** Row of the data file for this iteration of a collection run (read-only) */
+    iterationData: {
+      get: (name: string) => own(job.variables.data, name),
+      has: (name: string) => own(job.variables.data, name) !== undefined,
+      toObject: () => ({ ...job.variables.data }),
+    },
+
+    expect,
+
+    /** Record a named test; it fails if fn throws or its promise rejects */
+    test: (name: string, fn: () => unknown) => {
+      // Reserve the slot now so results keep call order when async tests settle out of it
+      const index = result.tests.push({ name: String(name), passed: false, error: null }) - 1;
+      const settle = (error: unknown) => {
+        result.tests[index] = {
+          name: String(name),
+          passed: error === undefined,
+          error:
+            error === undefined ? null : error instanceof Error ? error.message : String(error),
+        };
+      };
+      pending.push(
+        Promise.resolve()
+          .then(fn)
+          .then(
+            () => settle(undefined),
+            (error: unknown) => settle(error ?? 'Test failed')
+          )
+      );
+    },
+
+    response: job.response ? createResponse(job.response) : undefined,
+  };
+}
+
+/**
+ * Read-only view of the response for test scripts
+ */
+function createResponse(response: ScriptResponse) {
+  const headers = Object.entries(response.headers);
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: {
+      get: (name: string) =>
+        headers.find(([key]) => key.toLowerCase() === String(name).toLowerCase())?.[1],
+      toObject: () => ({ ...response.headers }),
+    },
+    /** Body as text */
+    body: response.body,
+    /** Body parsed as JSON; throws if it is not JSON */
+    json: (): unknown => {
+      try {
+        return JSON.parse(response.body) as unknown;
+      } catch {
+        throw new Error('Response body is not valid JSON');
+      }
+    },
+    timing: { ...response.timing },
+    /** Total response time (ms) */
+    time: response.timing.total,
+    /** Body size (bytes) */
+    size: response.size,
+  };
+}
+
+/**
+ * get/set access to one persisted scope
+ */
+function createScope(
+  current: Record<string, string> | null,
+  updates: Record<string, string>,
+  scope: string
+) {
+  return {
+    get: (name: string) => own(updates, name) ?? own(current, name),
+    has: (name: string) => (own(updates, name) ?? own(current, name)) !== undefined,
+    set: (name: string, value: unknown) => {
+      if (!current) {
+        throw new Error(
+          scope === 'environment'
+            ? 'No active environment to set variables in'
+            : 'This request is not in a collection'
+        );
+      }
+      updates[checkName(name)] = String(value);
+    },
+  };
+}
+
+/**
+ * The console scripts write to; messages are kept for the console panel
+ */
+function createConsole(logs: ScriptLogEntry[], source: string) {
+  const write =
+    (level: ScriptLogEntry['level']) =>
+    (...args: unknown[]) => {
+      logs.push({
+        level,
+        message: args.map(formatValue).join(' '),
+        source,
+        timestamp: new Date().toISOString(),
+      });
+    };
+
+  return {
+    log: write('log'),
+    debug: write('log'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Case-insensitive header lookup
+ */
+function findHeader(headers: Header[], key: string): Header | undefined {
+  return headers.find((header) => header.key.toLowerCase() === key.toLowerCase());
+}
+
+/**
+ * Value of a name in a scope, ignoring inherited properties such as 'constructor'
+ */
+function own(values: Record<string, string> | null, name: string): string | undefined {
+  return values && Object.hasOwn(values, name) ? values[name] : undefined;
+}
+
+/**
+ * Check a name set by a script is a valid variable key
+ */
+function checkName(name: string): string {
+  if (!VariableSchema.shape.key.safeParse(name).success) {
+    throw new Error(`Invalid variable name "${name}"`);
+  }
+  return name;
+}
+
+/**
+ * Text of a logged value: strings as-is, everything else as JSON when possible
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
@@ -0,0 +1,379 @@
+/**
+ * Scripts - pre-request and test scripts run in a sandboxed worker
+ *
+ * Collection, folder and request pre-request scripts run in that order in one
+ * worker before a request is sent, each seeing the changes of the previous ones.
+ * The request's test script runs in another once the response is in. The worker
+ * is started from a blob URL inside a sandboxed frame with an opaque origin, so it
+ * cannot read the app's storage, and the frame's content security policy, which
+ * the worker inherits, blocks every request: fetch, XHR, WebSockets, import() and
+ * importScripts. Scripts only get the `np` API, `expect` and a console, and what
+ * they change is handed back and applied by the caller.
+ *
+ * @module services/scripts
+ */
+
+import sandboxRuntime from './script-sandbox.worker?script';
+import type { ProxyResponse, RequestState, TestResult, Variable } from '../types';
+
+/** Time a send's pre-request scripts, or its test script, may run before the worker is stopped (ms) */
+export const SCRIPT_TIMEOUT = 5000;
+
+/**
+ * Level a pre-request script is set at, in run order
+ */
+export type ScriptLevel = 'collection' | 'folder' | 'request';
+
+/**
+ * Pre-request script of a collection, folder or request
+ */
+export interface PreRequestScript {
+  /** Level the script is set at */
+  level: ScriptLevel;
+  /** Collection or folder name shown in the console ('' = none) */
+  name: string;
+  /** JavaScript source */
+  source: string;
+}
+
+/**
+ * Parts of the outgoing request a script can change (templates, resolved after)
+ */
+export type ScriptRequest = Pick<RequestState, 'method' | 'url' | 'headers' | 'body'>;
+
+/**
+ * Response visible to test scripts
+ */
+export type ScriptResponse = Pick<
+  ProxyResponse,
+  'status' | 'statusText' | 'headers' | 'body' | 'size' | 'timing'
+>;
+
+/**
+ * Variables visible to scripts, by scope (enabled variables only)
+ */
+export interface ScriptVariables {
+  global: Record<string, string>;
+  /** null = the request has no collection */
+  collection: Record<string, string> | null;
+  /** null = no active environment */
+  environment: Record<string, string> | null;
+  /** Columns of the data file row of a collection run's iteration ({} outside runs) */
+  data: Record<string, string>;
+  request: Record<string, string>;
+  /** Values captured from responses this session */
+  runtime: Record<string, string>;
+}
+
+/**
+ * Line written to the script console
+ */
+export interface ScriptLogEntry {
+  level: 'log' | 'info' | 'warn' | 'error';
+  message: string;
+  /** Script that wrote it, e.g. 'Folder: Users' */
+  source: string;
+  /** ISO 8601 */
+  timestamp: string;
+}
+
+/**
+ * Outcome of a send's pre-request scripts
+ */
+export interface ScriptResult {
+  /** Request after every script ran */
+  request: ScriptRequest;
+  /** Values set with np.variables: apply to this send only, above every scope */
+  variables: Record<string, string>;
+  /** Values set with np.globals, np.collectionVariables and np.environment, to persist */
+  updates: Record<'global' | 'collection' | 'environment', Record<string, string>>;
+  /** Results of np.test() calls, in call order */
+  tests: TestResult[];
+  logs: ScriptLogEntry[];
+}
+
+/**
+ * Job posted to the sandbox worker
+ */
+export interface ScriptJob {
+  /** Non-empty scripts in run order, with the name the console shows for each */
+  scripts: Array<{ label: string; source: string }>;
+  request: ScriptRequest;
+  variables: ScriptVariables;
+  /** Response, for test scripts */
+  response?: ScriptResponse;
+}
+
+/**
+ * Message posted back by the sandbox worker
+ */
+export type ScriptOutcome =
+  | ({ ok: true } & ScriptResult)
+  | { ok: false; message: string; source: string; tests: TestResult[]; logs: ScriptLogEntry[] };
+
+/**
+ * Message the sandbox frame relays: the worker's outcome, or why the worker failed
+ */
+type SandboxMessage = { outcome: ScriptOutcome } | { error: string };
+
+/**
+ * Content security policy of the sandbox frame, inherited by its worker: nothing
+ * can be fetched or loaded, and eval is allowed to run the scripts
+ */
+export const SANDBOX_POLICY =
+  "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval'; worker-src blob:";
+
+/**
+ * Document of the sandbox frame: starts the worker from the runtime source it is
+ * sent, then relays the worker's outcome over the port it is sent
+ */
+export const SANDBOX_DOCUMENT = `<!doctype html>
+<meta http-equiv="Content-Security-Policy" content="${SANDBOX_POLICY}">
+<script>
+onmessage = (event) => {
+  onmessage = null;
+  const [port] = event.ports;
+  try {
+    const source = new Blob([event.data.runtime], { type: 'text/javascript' });
+    const worker = new Worker(URL.createObjectURL(source));
+    worker.onmessage = (message) => port.postMessage({ outcome: message.data });
+    worker.onerror = (error) => {
+      error.preventDefault();
+      port.postMessage({ error: error.message || 'Sandbox failed' });
+    };
+    worker.postMessage(event.data.job);
+  } catch (error) {
+    port.postMessage({ error: String(error) });
+  }
+};
+</script>`;
+
+/**
+ * Error thrown by a script (or its timeout); nothing it changed is applied
+ */
+export class ScriptError extends Error {
+  /** Script that failed, e.g. 'Request: Get user' */
+  source: string;
+  /** Tests that completed before the failure */
+  tests: TestResult[];
+  /** Console output up to the failure */
+  logs: ScriptLogEntry[];
+
+  constructor(source: string, message: string, logs: ScriptLogEntry[], tests: TestResult[] = []) {
+    super(message);
+    this.name = 'ScriptError';
+    this.source = source;
+    this.tests = tests;
+    this.logs = logs;
+  }
+}
+
+/** Display names of the script levels */
+export const SCRIPT_LEVEL_LABELS: Record<ScriptLevel, string> = {
+  collection: 'Collection',
+  folder: 'Folder',
+  request: 'Request',
+};
+
+/**
+ * Run pre-request scripts in a fresh sandbox worker
+ * Empty scripts are skipped; without any, no worker is started.
+ *
+ * @param scripts - Scripts in run order (collection, folders from the outermost, request)
+ * @param request - Request as edited in the builder
+ * @param variables - Variables the scripts can read
+ * @param timeout - Time all scripts may take together (ms)
+ * @returns Promise resolving to the changed request, variables and console output
+ * @throws ScriptError if a script throws or the scripts time out
+ *
+ * @example
+ * ```typescript
+ * const result = await runPreRequestScripts(
+ *   [{ level: 'request', name: 'Login', source: "np.request.headers.set('X-Trace', np.variables.get('traceId'))" }],
+ *   { method, url, headers, body },
+ *   variables
+ * );
+ * ```
+ */
+export async function runPreRequestScripts(
+  scripts: PreRequestScript[],
+  request: ScriptRequest,
+  variables: ScriptVariables,
+  timeout: number = SCRIPT_TIMEOUT
+): Promise<ScriptResult> {
+  return runJob(
+    {
+      scripts: scripts
+        .filter((script) => script.source.trim() !== '')
+        .map((script) => ({ label: describeScript(script), source: script.source })),
+      request,
+      variables,
+    },
+    timeout
+  );
+}
+
+/**
+ * Run a request's test script on its response in a fresh sandbox worker
+ * Assertions are made inside `np.test(name, fn)`; a failing one fails that test
+ * only, while an error outside the tests stops the script.
+ *
+ * @param source - Test script of the request ('' = no tests, no worker)
+ * @param request - Request as sent (templates); changing it has no effect
+ * @param response - Response to test
+ * @param variables - Variables the script can read
+ * @param timeout - Time the script may take (ms)
+ * @returns Promise resolving to the test results, variables set and console output
+ * @throws ScriptError if the script throws outside a test or times out
+ *
+ * @example
+ * ```typescript
+ * const { tests } = await runTestScript(
+ *   "np.test('has items', () => expect(np.response.json().items).to.have.length.above(0))",
+ *   request,
+ *   response,
+ *   variables
+ * );
+ * ```
+ */
+export async function runTestScript(
+  source: string,
+  request: ScriptRequest,
+  response: ScriptResponse,
+  variables: ScriptVariables,
+  timeout: number = SCRIPT_TIMEOUT
+): Promise<ScriptResult> {
+  return runJob(
+    {
+      scripts: source.trim() ? [{ label: 'Tests', source }] : [],
+      request,
+      variables,
+      response,
+    },
+    timeout
+  );
+}
+
+/**
+ * Post a job to a fresh sandbox worker and wait for its outcome
+ */
+async function runJob(job: ScriptJob, timeout: number): Promise<ScriptResult> {
+  if (job.scripts.length === 0) {
+    return {
+      request: job.request,
+      variables: {},
+      updates: { global: {}, collection: {}, environment: {} },
+      tests: [],
+      logs: [],
+    };
+  }
+
+  // Scripts: allowed; same origin: not allowed, so the frame and its worker get an
+  // opaque origin
+  const frame = document.createElement('iframe');
+  frame.sandbox.add('allow-scripts');
+  frame.hidden = true;
+  frame.srcdoc = SANDBOX_DOCUMENT;
+  const channel = new MessageChannel();
+
+  try {
+    const outcome = await new Promise<ScriptOutcome>((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new ScriptError('Scripts', `Timed out after ${timeout}ms`, [])),
+        timeout
+      );
+
+      channel.port1.onmessage = (event: MessageEvent<SandboxMessage>) => {
+        clearTimeout(timer);
+        if ('error' in event.data) {
+          reject(new ScriptError('Scripts', event.data.error, []));
+        } else {
+          resolve(event.data.outcome);
+        }
+      };
+      frame.addEventListener(
+        'load',
+        () => {
+          // An opaque origin can only be posted to with '*'
+          frame.contentWindow?.postMessage({ runtime: sandboxRuntime, job }, '*', [channel.port2]);
+        },
+        { once: true }
+      );
+
+      document.body.appendChild(frame);
+    });
+
+    if (!outcome.ok) {
+      throw new ScriptError(outcome.source, outcome.message, outcome.logs, outcome.tests);
+    }
+
+    return {
+      request: outcome.request,
+      variables: outcome.variables,
+      updates: outcome.updates,
+      tests: outcome.tests,
+      logs: outcome.logs,
+    };
+  } finally {
+    // A fresh frame and worker per run: nothing a script leaves behind reaches the
+    // next one, and removing the frame stops its worker
+    frame.remove();
+    channel.port1.close();
+  }
+}
+
+/**
+ * Name of a script's level and owner as shown in the console
+ *
+ * @param script - Pre-request script
+ * @returns e.g. 'Folder: Users' ('Request' for the request being edited, which has no name here)
+ */
+export function describeScript(script: PreRequestScript): string {
+  const level = SCRIPT_LEVEL_LABELS[script.level];
+  return script.name ? `${level}: ${script.name}` : level;
+}
+
+/**
+ * Values of the enabled variables of a scope
+ *
+ * @param variables - Variables of one scope
+ * @returns Values by name (a later definition wins)
+ */
+export function toScriptValues(variables: Variable[]): Record<string, string> {
+  return Object.fromEntries(
+    variables.filter((v) => v.enabled && v.key).map((v) => [v.key, v.value])
+  );
+}
+
+/**
+ * Apply values set by scripts or captures to a scope's variables
+ * Existing variables keep their enabled and secret flags; new ones are appended.
+ *
+ * @param variables - Variables of the scope
+ * @param values - Values set, by name
+ * @returns Updated variables
+ *
+ * @example
+ * ```typescript
+ * setVariableValues([{ key: 'token', value: '', enabled: true }], { token: 'abc', userId: '1' });
+ * // => [{ key: 'token', value: 'abc', enabled: true }, { key: 'userId', value: '1', enabled: true }]
+ * ```
+ */
+export function setVariableValues(
+  variables: Variable[],
+  values: Record<string, string>
+): Variable[] {
+  const updated = variables.map((variable) =>
+    Object.hasOwn(values, variable.key)
+      ? { ...variable, value: values[variable.key] ?? '' }
+      : variable
+  );
+
+  for (const [key, value] of Object.entries(values)) {
+    if (!variables.some((variable) => variable.key === key)) {
+      updated.push({ key, value, enabled: true });
+    }
+  }
+
+  return updated;
+}
@@ -0,0 +1,69 @@
+/**
+ * Secret vault - WebCrypto encryption of secret variable values
+ * Values are encrypted with AES-GCM under a device key that is generated
+ * non-extractable, so it can be stored in IndexedDB but never read back out.
+ *
+ * @module services/secret-vault
+ */
+
+/** AES-GCM key length in bits */
+const KEY_LENGTH = 256;
+
+/** AES-GCM initialization vector length in bytes */
+const IV_LENGTH = 12;
+
+/**
+ * Encrypted secret value
+ */
+export interface SealedSecret {
+  /** Initialization vector (unique per encryption) */
+  iv: Uint8Array<ArrayBuffer>;
+  /** Ciphertext of the UTF-8 value */
+  data: ArrayBuffer;
+}
+
+/**
+ * Generate a new non-extractable vault key
+ *
+ * @returns Promise resolving to the key
+ */
+export async function generateVaultKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: KEY_LENGTH }, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
+
+/**
+ * Encrypt a secret value
+ *
+ * @param key - Vault key
+ * @param value - Plaintext value
+ * @returns Promise resolving to the sealed value
+ */
+export async function encryptSecret(key: CryptoKey, value: string): Promise<SealedSecret> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(value)
+  );
+  return { iv, data };
+}
+
+/**
+ * Decrypt a sealed secret value
+ *
+ * @param key - Vault key the value was sealed with
+ * @param sealed - Sealed value
+ * @returns Promise resolving to the plaintext value
+ * @throws DOMException (OperationError) if the key does not match or the data was altered
+ */
+export async function decryptSecret(key: CryptoKey, sealed: SealedSecret): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: sealed.iv },
+    key,
+    sealed.data
+  );
+  return new TextDecoder().decode(plaintext);
+}
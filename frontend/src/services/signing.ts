@@ -0,0 +1,234 @@
+/**
+ * Signing - HMAC signatures and JWTs computed per request with WebCrypto
+ *
+ * Both run on the final proxy request, like AWS signing, so an HMAC over the
+ * body covers exactly the body the proxy sends.
+ *
+ * @module services/signing
+ */
+
+import type { HmacConfig, JwtConfig, ProxyRequest } from '../types';
+
+/** Request values available in an HMAC message template */
+export const HMAC_MESSAGE_PLACEHOLDERS = ['method', 'path', 'url', 'body', 'timestamp'] as const;
+
+/** Matches a {placeholder} of HMAC_MESSAGE_PLACEHOLDERS */
+const PLACEHOLDER_PATTERN = new RegExp(`\\{(${HMAC_MESSAGE_PLACEHOLDERS.join('|')})\\}`, 'g');
+
+/** WebCrypto parameters of each JWT algorithm */
+const JWT_ALGORITHMS: Record<
+  JwtConfig['algorithm'],
+  {
+    key: HmacImportParams | RsaHashedImportParams | EcKeyImportParams;
+    sign: Algorithm | EcdsaParams;
+  }
+> = {
+  HS256: { key: { name: 'HMAC', hash: 'SHA-256' }, sign: { name: 'HMAC' } },
+  HS384: { key: { name: 'HMAC', hash: 'SHA-384' }, sign: { name: 'HMAC' } },
+  HS512: { key: { name: 'HMAC', hash: 'SHA-512' }, sign: { name: 'HMAC' } },
+  RS256: {
+    key: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    sign: { name: 'RSASSA-PKCS1-v1_5' },
+  },
+  RS384: {
+    key: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+    sign: { name: 'RSASSA-PKCS1-v1_5' },
+  },
+  RS512: {
+    key: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+    sign: { name: 'RSASSA-PKCS1-v1_5' },
+  },
+  // WebCrypto ECDSA signatures are already in the r || s form JWS expects
+  ES256: { key: { name: 'ECDSA', namedCurve: 'P-256' }, sign: { name: 'ECDSA', hash: 'SHA-256' } },
+  ES384: { key: { name: 'ECDSA', namedCurve: 'P-384' }, sign: { name: 'ECDSA', hash: 'SHA-384' } },
+};
+
+/**
+ * HMAC signature of a request
+ */
+export interface HmacSignature {
+  /** Encoded signature */
+  signature: string;
+  /** Unix timestamp (seconds) used for {timestamp} */
+  timestamp: string;
+}
+
+/**
+ * Sign a request with HMAC over its message template
+ *
+ * @param request - Request exactly as it is handed to the proxy
+ * @param config - HMAC settings (variables resolved)
+ * @param now - Signing time
+ * @returns Promise resolving to the signature and the timestamp it covers
+ *
+ * @example
+ * ```typescript
+ * const { signature } = await signHmac(proxyRequest, {
+ *   ...config,
+ *   message: '{timestamp}.{body}',
+ * });
+ * ```
+ */
+export async function signHmac(
+  request: ProxyRequest,
+  config: HmacConfig,
+  now: Date = new Date()
+): Promise<HmacSignature> {
+  const url = new URL(request.url);
+  const timestamp = String(Math.floor(now.getTime() / 1000));
+  const values: Record<(typeof HMAC_MESSAGE_PLACEHOLDERS)[number], string> = {
+    method: request.method,
+    path: `${url.pathname}${url.search}`,
+    url: url.toString(),
+    // The proxy only sends a body with methods other than GET and HEAD
+    body: request.body && !['GET', 'HEAD'].includes(request.method) ? request.body : '',
+    timestamp,
+  };
+  const message = config.message.replace(
+    PLACEHOLDER_PATTERN,
+    (_, name: keyof typeof values) => values[name]
+  );
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(config.secret),
+    { name: 'HMAC', hash: config.algorithm },
+    false,
+    ['sign']
+  );
+  const signature = new Uint8Array(
+    await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message))
+  );
+
+  return {
+    signature: config.encoding === 'hex' ? toHex(signature) : toBase64(signature),
+    timestamp,
+  };
+}
+
+/**
+ * Create a signed JWT
+ * `iat` is set to the signing time and `exp` from `expiresIn` unless the claims set them.
+ *
+ * @param config - JWT settings (variables resolved)
+ * @param now - Signing time
+ * @returns Promise resolving to the compact JWT
+ * @throws Error if the header or claims are not a JSON object, or the key cannot be used
+ *
+ * @example
+ * ```typescript
+ * const token = await createJwt({ ...config, payload: '{"sub": "user-1"}' });
+ * // => 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJzdWIiOi...'
+ * ```
+ */
+export async function createJwt(config: JwtConfig, now: Date = new Date()): Promise<string> {
+  const header = { alg: config.algorithm, typ: 'JWT', ...parseJsonObject(config.header, 'header') };
+  // alg always names the signing algorithm, whatever the template says
+  header.alg = config.algorithm;
+
+  const issuedAt = Math.floor(now.getTime() / 1000);
+  const claims = parseJsonObject(config.payload, 'claims');
+  const payload = {
+    ...claims,
+    iat: claims.iat ?? issuedAt,
+    ...(config.expiresIn > 0 && claims.exp === undefined
+      ? { exp: issuedAt + config.expiresIn }
+      : {}),
+  };
+
+  const signingInput = `${encodeJson(header)}.${encodeJson(payload)}`;
+  const algorithm = JWT_ALGORITHMS[config.algorithm];
+  const key = await importJwtKey(config, algorithm.key);
+  const signature = await crypto.subtle.sign(
+    algorithm.sign,
+    key,
+    new TextEncoder().encode(signingInput)
+  );
+
+  return `${signingInput}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Import the JWT signing key: the secret's UTF-8 bytes for HS*, a PEM key otherwise
+ */
+async function importJwtKey(
+  config: JwtConfig,
+  params: HmacImportParams | RsaHashedImportParams | EcKeyImportParams
+): Promise<CryptoKey> {
+  if (params.name === 'HMAC') {
+    return crypto.subtle.importKey('raw', new TextEncoder().encode(config.secret), params, false, [
+      'sign',
+    ]);
+  }
+
+  if (/-----BEGIN (RSA|EC) PRIVATE KEY-----/.test(config.secret)) {
+    throw new Error('JWT private key must be PKCS#8 ("BEGIN PRIVATE KEY"); convert it first');
+  }
+
+  const base64 = config.secret.replace(/-----(BEGIN|END) PRIVATE KEY-----|\s/g, '');
+  let der: Uint8Array<ArrayBuffer>;
+  try {
+    der = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+  } catch {
+    throw new Error('JWT private key is not a valid PEM key');
+  }
+
+  try {
+    return await crypto.subtle.importKey('pkcs8', der, params, false, ['sign']);
+  } catch {
+    throw new Error(`JWT private key cannot be used with ${config.algorithm}`);
+  }
+}
+
+/**
+ * Parse a JSON object template (empty = no fields)
+ */
+function parseJsonObject(json: string, name: string): Record<string, unknown> {
+  if (!json.trim()) return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new Error(
+      `JWT ${name} is not valid JSON: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`JWT ${name} must be a JSON object`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Base64url-encode a value's JSON (a JWT segment)
+ */
+function encodeJson(value: unknown): string {
+  return toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+/**
+ * Base64 of bytes
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Base64url of bytes, without padding
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Lowercase hex of bytes
+ */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,176 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { syncProject } from './sync-engine';
+import type {
+  OutboxEntry,
+  SavedRequest,
+  SyncChange,
+  SyncConflict,
+  SyncProjectConnection,
+} from '../types';
+
+// In-memory stand-in for the tables a pull writes, and the changes the server returns
+const store = vi.hoisted(() => ({
+  requests: new Map<string, SavedRequest>(),
+  conflicts: [] as SyncConflict[],
+  outbox: [] as OutboxEntry[],
+  remote: [] as SyncChange[],
+}));
+
+vi.mock('./db', () => ({
+  db: {
+    transaction: async (_mode: string, _tables: unknown[], scope: () => Promise<void>) => scope(),
+    requests: {
+      get: async (id: string) => store.requests.get(id),
+      put: async (request: SavedRequest) => void store.requests.set(request.id, request),
+    },
+    conflicts: {
+      where: () => ({
+        equals: (entityId: string) => ({
+          first: async () => store.conflicts.find((c) => c.entityId === entityId),
+        }),
+      }),
+      put: async (conflict: SyncConflict) => {
+        store.conflicts = [...store.conflicts.filter((c) => c.id !== conflict.id), conflict];
+      },
+    },
+    syncProjects: { update: async () => 1 },
+  },
+  getPendingChangesForEntity: async (entityId: string) =>
+    store.outbox.filter((entry) => entry.entityId === entityId),
+  // Nothing is pushed; pending entries stay in the outbox
+  getOutboxEntries: async () => [],
+  deleteOutboxEntries: async () => {},
+}));
+
+vi.mock('./api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./api')>()),
+  api: {
+    getSyncChanges: async () => ({ changes: store.remote, cursor: store.remote.length }),
+  },
+}));
+
+const PROJECT_ID = crypto.randomUUID();
+const REQUEST_ID = crypto.randomUUID();
+
+const CONNECTION: SyncProjectConnection = {
+  id: PROJECT_ID,
+  name: 'Users API',
+  token: 'project-token',
+  clientId: 'this-client',
+  cursor: 0,
+  lastSyncedAt: null,
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+const REQUEST: SavedRequest = {
+  id: REQUEST_ID,
+  name: 'Get user',
+  method: 'GET',
+  url: 'https://api.example.com/users/1',
+  headers: [],
+  body: null,
+  auth: null,
+  variables: [],
+  preRequestScript: '',
+  testScript: '',
+  assertions: [],
+  captures: [],
+  timeout: 30000,
+  collectionId: crypto.randomUUID(),
+  folderId: null,
+  sortOrder: 0,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+/**
+ * Update to the request as db.ts records it: the author's whole entity, listing
+ * the fields they changed
+ */
+function requestUpdate(
+  clientId: string,
+  edits: Partial<SavedRequest>,
+  timestamp = '2026-01-02T00:00:00.000Z'
+): SyncChange {
+  return {
+    id: crypto.randomUUID(),
+    entityType: 'request',
+    entityId: REQUEST_ID,
+    operation: 'update',
+    data: { ...REQUEST, ...edits, updatedAt: timestamp },
+    changedFields: Object.keys(edits),
+    timestamp,
+    clientId,
+  };
+}
+
+/**
+ * Edit the local request without pushing it yet
+ */
+function editLocally(edits: Partial<SavedRequest>): void {
+  const local = store.requests.get(REQUEST_ID) ?? REQUEST;
+  store.requests.set(REQUEST_ID, { ...local, ...edits });
+  store.outbox.push({ ...requestUpdate(CONNECTION.clientId, edits), projectId: PROJECT_ID });
+}
+
+beforeEach(() => {
+  store.requests = new Map([[REQUEST_ID, REQUEST]]);
+  store.conflicts = [];
+  store.outbox = [];
+  store.remote = [];
+});
+
+describe('syncProject', () => {
+  it('applies only the changed fields of remote updates', async () => {
+    store.remote = [
+      requestUpdate('client-a', { name: 'List users' }),
+      requestUpdate('client-b', { url: 'https://api.example.com/users' }),
+    ];
+
+    const result = await syncProject(CONNECTION);
+
+    expect(result.changedTypes).toEqual(new Set(['request']));
+    expect(store.requests.get(REQUEST_ID)).toMatchObject({
+      name: 'List users',
+      url: 'https://api.example.com/users',
+    });
+    expect(store.conflicts).toEqual([]);
+  });
+
+  it('keeps pending local edits to the same field and records a conflict', async () => {
+    editLocally({ url: 'https://api.example.com/users/me' });
+    const remote = requestUpdate('client-a', { url: 'https://api.example.com/users/2' });
+    store.remote = [remote];
+
+    await syncProject(CONNECTION);
+
+    expect(store.requests.get(REQUEST_ID)?.url).toBe('https://api.example.com/users/me');
+    expect(store.conflicts).toEqual([
+      expect.objectContaining({
+        projectId: PROJECT_ID,
+        entityType: 'request',
+        entityId: REQUEST_ID,
+        entityName: 'Get user',
+        fields: ['url'],
+        local: { url: 'https://api.example.com/users/me' },
+        remote: { url: 'https://api.example.com/users/2' },
+        remoteClientId: 'client-a',
+        remoteTimestamp: remote.timestamp,
+      }),
+    ]);
+  });
+
+  it('merges remote updates to other fields than the pending local edits', async () => {
+    editLocally({ url: 'https://api.example.com/users/me' });
+    store.remote = [requestUpdate('client-a', { name: 'Get me', method: 'HEAD' })];
+
+    await syncProject(CONNECTION);
+
+    expect(store.requests.get(REQUEST_ID)).toMatchObject({
+      name: 'Get me',
+      method: 'HEAD',
+      url: 'https://api.example.com/users/me',
+    });
+    expect(store.conflicts).toEqual([]);
+  });
+});
@@ -0,0 +1,660 @@
+/**
+ * Sync engine - pushes the local outbox and applies remote changes
+ * Local mutations are captured into the outbox by the db.ts write operations;
+ * this module drains it and keeps the local tables in step with the server.
+ * Concurrent edits to different fields merge; edits to the same field keep the
+ * local value and are recorded as conflicts for the user to resolve.
+ * Secret variable values stay on this device unless the project opts in to
+ * sharing them; shared values are encrypted again before they are stored.
+ *
+ * @module services/sync-engine
+ */
+
+import { api, ApiError } from './api';
+import {
+  db,
+  getOutboxEntries,
+  deleteOutboxEntries,
+  getPendingChangesForEntity,
+  getDescendantFolderIds,
+  saveSyncProject,
+  updateSyncProject,
+  deleteSyncConflict,
+  updateEnvironment,
+  updateCollection,
+  updateFolder,
+  updateRequest,
+  sealVariables,
+  storeSecrets,
+  revealVariables,
+  type SealedVariables,
+} from './db';
+import {
+  VariableSchema,
+  EnvironmentSchema,
+  CollectionSchema,
+  FolderSchema,
+  SavedRequestSchema,
+} from '../types/schemas';
+import type {
+  SyncChange,
+  SyncConflict,
+  SyncEntityType,
+  SyncProjectConnection,
+  SyncProjectInfo,
+  SyncSnapshot,
+} from '../types';
+
+/** Maximum number of outbox entries sent per push request */
+const PUSH_BATCH_SIZE = 100;
+
+/** Project tokens are renewed once less than this is left before they expire */
+const TOKEN_RENEW_BEFORE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Fields edited locally since a remote change ('all' for a full replace or delete) */
+type LocalEdits = Set<string> | 'all';
+
+/**
+ * Outcome of a sync pass for one project
+ */
+export interface SyncResult {
+  /** Number of local changes accepted by the server */
+  pushed: number;
+  /** Entity types touched by applied remote changes (used to refresh stores) */
+  changedTypes: Set<SyncEntityType>;
+}
+
+/**
+ * Store a newly created or joined project so its changes start syncing
+ * Joining a project again (after its token expired) only replaces the token, so the
+ * cursor and the changes still waiting in the outbox carry on where they stopped.
+ *
+ * @param info - Project info returned by the server
+ * @returns Promise resolving to the stored connection
+ */
+export async function connectSyncProject(info: SyncProjectInfo): Promise<SyncProjectConnection> {
+  const existing = await db.syncProjects.get(info.id);
+  const connection: SyncProjectConnection = existing
+    ? { ...existing, token: info.token, needsRejoin: false }
+    : {
+        id: info.id,
+        name: info.name,
+        token: info.token,
+        clientId: crypto.randomUUID(),
+        cursor: null,
+        lastSyncedAt: null,
+        createdAt: new Date().toISOString(),
+      };
+
+  await saveSyncProject(connection);
+  return connection;
+}
+
+/**
+ * Run a full sync pass for a project: pull remote changes, then push the outbox
+ * Pulling first lets remote edits be merged against still-pending local ones.
+ * The first pass after joining loads a snapshot instead of replaying the whole log.
+ * A token close to expiry is renewed first; one the server rejects marks the
+ * project as needing to be joined again, and it is skipped until then.
+ *
+ * @param connection - Project connection
+ * @returns Promise resolving to what was exchanged
+ * @throws ApiError or TypeError (network) - the outbox is kept and retried on the next pass
+ */
+export async function syncProject(connection: SyncProjectConnection): Promise<SyncResult> {
+  try {
+    const current = await renewToken(connection);
+
+    const changedTypes =
+      current.cursor === null
+        ? await pullSnapshot(current)
+        : await pullChanges(current, current.cursor);
+
+    const pushed = await pushOutbox(current);
+
+    return { pushed, changedTypes };
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 401) {
+      await updateSyncProject(connection.id, { needsRejoin: true });
+      throw new ApiError(401, `Access to project ${connection.name} expired; join it again`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolve a conflict by keeping the local values or taking the remote ones
+ * Local values already win in the log (they were pushed after the remote edit),
+ * so 'mine' only dismisses the conflict; 'theirs' records a new local edit.
+ *
+ * @param conflict - Conflict to resolve
+ * @param choice - Which side's values to keep
+ */
+export async function resolveConflict(
+  conflict: SyncConflict,
+  choice: 'mine' | 'theirs'
+): Promise<void> {
+  if (choice === 'theirs') {
+    await applyRemoteValues(conflict);
+  }
+  await deleteSyncConflict(conflict.id);
+}
+
+/**
+ * Renew the project token when it is about to expire
+ */
+async function renewToken(connection: SyncProjectConnection): Promise<SyncProjectConnection> {
+  const expiresAt = getTokenExpiry(connection.token);
+  if (expiresAt === null || expiresAt - Date.now() > TOKEN_RENEW_BEFORE_MS) {
+    return connection;
+  }
+
+  const { token } = await api.refreshSyncToken(connection.id, connection.token);
+  await updateSyncProject(connection.id, { token });
+  return { ...connection, token };
+}
+
+/**
+ * Expiry time (ms) read from a JWT's payload, or null if it has none
+ */
+function getTokenExpiry(token: string): number | null {
+  try {
+    const payload: unknown = JSON.parse(
+      atob((token.split('.')[1] ?? '').replace(/-/g, '+').replace(/_/g, '/'))
+    );
+    return isRecord(payload) && typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Push pending outbox entries in batches, oldest first
+ * Entries are only removed once the server has accepted them, so a failed
+ * push (e.g. while offline) is replayed unchanged on the next pass.
+ */
+async function pushOutbox(connection: SyncProjectConnection): Promise<number> {
+  let pushed = 0;
+
+  for (;;) {
+    const entries = await getOutboxEntries(connection.id, PUSH_BATCH_SIZE);
+    if (entries.length === 0) break;
+
+    let changes: SyncChange[] = entries.map(({ projectId: _projectId, ...change }) => change);
+    if (connection.syncSecrets) {
+      changes = await Promise.all(changes.map((change) => revealSecrets(change)));
+    }
+    await api.pushSyncChanges(connection.id, connection.token, changes);
+    await deleteOutboxEntries(entries.map((entry) => entry.id));
+
+    pushed += entries.length;
+    if (entries.length < PUSH_BATCH_SIZE) break;
+  }
+
+  return pushed;
+}
+
+/**
+ * Fetch changes since the stored cursor and apply them
+ */
+async function pullChanges(
+  connection: SyncProjectConnection,
+  cursor: number
+): Promise<Set<SyncEntityType>> {
+  const pulled = await api.getSyncChanges(connection.id, connection.token, cursor);
+
+  // Encrypt shared secret values up front; WebCrypto cannot run inside the transaction
+  const secrets = new Map<string, SealedVariables>();
+  const changes = await Promise.all(
+    pulled.changes.map(async (change) => {
+      const { data, sealed } = await sealRemoteSecrets(change.data);
+      if (!sealed) return change;
+      secrets.set(change.id, sealed);
+      return { ...change, data };
+    })
+  );
+
+  const changedTypes = new Set<SyncEntityType>();
+  const laterOwnEdits = collectLaterOwnEdits(changes, connection.clientId);
+
+  await db.transaction('rw', applyTables(), async () => {
+    for (const [index, change] of changes.entries()) {
+      // Our own changes come back through the log; they are already applied locally
+      if (change.clientId === connection.clientId) continue;
+
+      const pending = await getPendingChangesForEntity(change.entityId);
+      const localEdits = mergeEdits(
+        laterOwnEdits[index],
+        pending.map((entry) => editsOf(entry))
+      );
+
+      if (await applyChange(connection.id, change, localEdits)) {
+        changedTypes.add(change.entityType);
+
+        // Locally edited variables were kept, so their secrets are too
+        const sealed = secrets.get(change.id);
+        if (sealed && !(localEdits instanceof Set && localEdits.has('variables'))) {
+          await storeSecrets(change.entityId, sealed);
+        }
+      }
+    }
+
+    // Advance the cursor in the same transaction so a crash never skips changes
+    await db.syncProjects.update(connection.id, {
+      cursor: pulled.cursor,
+      lastSyncedAt: new Date().toISOString(),
+    });
+  });
+
+  return changedTypes;
+}
+
+/**
+ * Load the full project state (initial sync after joining)
+ */
+async function pullSnapshot(connection: SyncProjectConnection): Promise<Set<SyncEntityType>> {
+  const snapshot = await api.getSyncSnapshot(connection.id, connection.token);
+  const changedTypes = new Set<SyncEntityType>();
+
+  const groups: Array<[SyncEntityType, SyncSnapshot['environments']]> = [
+    ['environment', snapshot.environments],
+    ['collection', snapshot.collections],
+    ['folder', snapshot.folders],
+    ['request', snapshot.requests],
+  ];
+
+  // Encrypt shared secret values up front; WebCrypto cannot run inside the transaction
+  const sealedGroups = await Promise.all(
+    groups.map(async ([entityType, entities]) => {
+      const sealed = await Promise.all(entities.map((data) => sealRemoteSecrets(data)));
+      return [entityType, sealed] as const;
+    })
+  );
+
+  await db.transaction('rw', applyTables(), async () => {
+    for (const [entityType, entities] of sealedGroups) {
+      for (const { data, sealed } of entities) {
+        if (await applyEntity(connection.id, entityType, data)) {
+          changedTypes.add(entityType);
+          if (sealed && isRecord(data) && typeof data.id === 'string') {
+            await storeSecrets(data.id, sealed);
+          }
+        }
+      }
+    }
+
+    await db.syncProjects.update(connection.id, {
+      cursor: snapshot.cursor,
+      lastSyncedAt: new Date().toISOString(),
+    });
+  });
+
+  return changedTypes;
+}
+
+/**
+ * Tables written while applying remote state
+ */
+function applyTables(): Array<
+  | typeof db.environments
+  | typeof db.collections
+  | typeof db.folders
+  | typeof db.requests
+  | typeof db.secrets
+  | typeof db.outbox
+  | typeof db.syncProjects
+  | typeof db.conflicts
+> {
+  return [
+    db.environments,
+    db.collections,
+    db.folders,
+    db.requests,
+    db.secrets,
+    db.outbox,
+    db.syncProjects,
+    db.conflicts,
+  ];
+}
+
+/**
+ * For each change in a pulled batch, the fields this client edited later in the same batch
+ * Those edits were already pushed and follow the remote change in the log, so they win.
+ */
+function collectLaterOwnEdits(
+  changes: SyncChange[],
+  clientId: string
+): Array<LocalEdits | undefined> {
+  const result: Array<LocalEdits | undefined> = new Array(changes.length);
+  const seen = new Map<string, LocalEdits>();
+
+  for (const [index, change] of [...changes.entries()].reverse()) {
+    if (change.clientId === clientId) {
+      seen.set(change.entityId, mergeEdits(seen.get(change.entityId), [editsOf(change)]) ?? 'all');
+    } else {
+      result[index] = seen.get(change.entityId);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fields touched by a change ('all' unless it is an update listing its fields)
+ */
+function editsOf(change: SyncChange): LocalEdits {
+  return change.operation === 'update' && change.changedFields
+    ? new Set(change.changedFields)
+    : 'all';
+}
+
+/**
+ * Union of edited field sets (undefined when nothing was edited)
+ */
+function mergeEdits(base: LocalEdits | undefined, others: LocalEdits[]): LocalEdits | undefined {
+  let merged = base;
+  for (const edits of others) {
+    if (merged === 'all' || edits === 'all') {
+      merged = 'all';
+    } else {
+      merged = new Set([...(merged ?? []), ...edits]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Apply a single remote change to the local tables
+ * Writes go straight to Dexie so they are not recorded in the outbox again.
+ * Fields also edited locally keep their local value; differing ones become a conflict.
+ *
+ * @param projectId - Project the change belongs to
+ * @param change - Remote change
+ * @param localEdits - Fields edited locally after the change (undefined if none)
+ * @returns True if local data changed
+ */
+async function applyChange(
+  projectId: string,
+  change: SyncChange,
+  localEdits: LocalEdits | undefined
+): Promise<boolean> {
+  // A local edit keeps the entity alive; the server revives it once the edit is pushed
+  if (localEdits === 'all' || (localEdits && change.operation === 'delete')) {
+    return false;
+  }
+
+  if (change.operation !== 'delete') {
+    return mergeEntity(projectId, change, localEdits);
+  }
+
+  switch (change.entityType) {
+    case 'environment':
+      await db.environments.delete(change.entityId);
+      await db.secrets.where('ownerId').equals(change.entityId).delete();
+      break;
+
+    case 'collection': {
+      const requestIds = await db.requests
+        .where('collectionId')
+        .equals(change.entityId)
+        .primaryKeys();
+      await db.secrets
+        .where('ownerId')
+        .anyOf([change.entityId, ...requestIds])
+        .delete();
+      await db.requests.where('collectionId').equals(change.entityId).delete();
+      await db.folders.where('collectionId').equals(change.entityId).delete();
+      await db.collections.delete(change.entityId);
+      break;
+    }
+
+    case 'folder': {
+      const folderIds = [change.entityId, ...(await getDescendantFolderIds(change.entityId))];
+      const requestIds = await db.requests.where('folderId').anyOf(folderIds).primaryKeys();
+      await db.secrets.where('ownerId').anyOf(requestIds).delete();
+      await db.requests.where('folderId').anyOf(folderIds).delete();
+      await db.folders.bulkDelete(folderIds);
+      break;
+    }
+
+    case 'request':
+      await db.requests.delete(change.entityId);
+      await db.secrets.where('ownerId').equals(change.entityId).delete();
+      break;
+  }
+
+  return true;
+}
+
+/**
+ * Fill in secret values before a change is shared (projects that sync secrets)
+ */
+async function revealSecrets(change: SyncChange): Promise<SyncChange> {
+  if (!isRecord(change.data)) return change;
+
+  const parsed = VariableSchema.array().safeParse(change.data.variables);
+  if (!parsed.success) return change;
+
+  const variables = await revealVariables(change.entityId, parsed.data);
+  return { ...change, data: { ...change.data, variables } };
+}
+
+/**
+ * Encrypt the secret values another client shared in an entity's data
+ * Must run before the apply transaction; the secrets are stored with the entity.
+ *
+ * @returns Data with secret values emptied, and the secrets to store (null if none)
+ */
+async function sealRemoteSecrets(
+  data: unknown
+): Promise<{ data: unknown; sealed: SealedVariables | null }> {
+  if (!isRecord(data)) return { data, sealed: null };
+
+  const parsed = VariableSchema.array().safeParse(data.variables);
+  if (!parsed.success || !parsed.data.some((variable) => variable.secret && variable.value)) {
+    return { data, sealed: null };
+  }
+
+  // Secrets the other client left empty were not shared; keep their values here
+  const sealed = await sealVariables(parsed.data, true);
+  return { data: { ...data, variables: sealed.variables }, sealed };
+}
+
+/**
+ * Merge a remote create/update into the local entity
+ * Updates only carry their changedFields, as the server merges them (the data is
+ * the author's whole entity, whose other fields may be stale); creates replace
+ * every field.
+ *
+ * @returns True if local data changed
+ */
+async function mergeEntity(
+  projectId: string,
+  change: SyncChange,
+  localEdits: Set<string> | undefined
+): Promise<boolean> {
+  const local = await getLocalEntity(change.entityType, change.entityId);
+  const partial = change.operation === 'update' && change.changedFields !== undefined;
+  if (!local || !isRecord(change.data) || (!partial && !localEdits)) {
+    return applyEntity(projectId, change.entityType, change.data);
+  }
+
+  const remote = change.data;
+  const fields = partial ? (change.changedFields ?? []) : Object.keys(remote);
+
+  const merged: Record<string, unknown> = { ...local };
+  const conflicting: string[] = [];
+  let changed = false;
+
+  for (const field of fields) {
+    if (!localEdits?.has(field)) {
+      merged[field] = remote[field];
+      changed = true;
+    } else if (JSON.stringify(local[field]) !== JSON.stringify(remote[field])) {
+      conflicting.push(field);
+    }
+  }
+
+  if (conflicting.length > 0) {
+    await recordConflict(projectId, change, local, conflicting);
+  }
+
+  return changed && applyEntity(projectId, change.entityType, merged);
+}
+
+/**
+ * Store a conflict, folding it into an unresolved one for the same entity
+ * The first local value seen is kept so "mine" always means what this user wrote.
+ */
+async function recordConflict(
+  projectId: string,
+  change: SyncChange,
+  local: Record<string, unknown>,
+  fields: string[]
+): Promise<void> {
+  const remote = change.data as Record<string, unknown>;
+  const existing = await db.conflicts.where('entityId').equals(change.entityId).first();
+
+  const conflict: SyncConflict = existing ?? {
+    id: crypto.randomUUID(),
+    projectId,
+    entityType: change.entityType,
+    entityId: change.entityId,
+    entityName: typeof local.name === 'string' ? local.name : change.entityId,
+    fields: [],
+    local: {},
+    remote: {},
+    remoteClientId: change.clientId,
+    remoteTimestamp: change.timestamp,
+    createdAt: new Date().toISOString(),
+  };
+
+  for (const field of fields) {
+    if (!conflict.fields.includes(field)) {
+      conflict.fields.push(field);
+      conflict.local[field] = local[field];
+    }
+    conflict.remote[field] = remote[field];
+  }
+  conflict.remoteClientId = change.clientId;
+  conflict.remoteTimestamp = change.timestamp;
+
+  await db.conflicts.put(conflict);
+}
+
+/**
+ * Write a conflict's remote values through the regular update operations
+ * so the choice is recorded in the outbox and reaches the other clients.
+ */
+async function applyRemoteValues(conflict: SyncConflict): Promise<void> {
+  switch (conflict.entityType) {
+    case 'environment': {
+      const parsed = EnvironmentSchema.partial().safeParse(conflict.remote);
+      if (parsed.success) await updateEnvironment(conflict.entityId, parsed.data, true);
+      break;
+    }
+
+    case 'collection': {
+      const parsed = CollectionSchema.partial().safeParse(conflict.remote);
+      if (parsed.success) await updateCollection(conflict.entityId, parsed.data, true);
+      break;
+    }
+
+    case 'folder': {
+      const parsed = FolderSchema.partial().safeParse(conflict.remote);
+      if (parsed.success) await updateFolder(conflict.entityId, parsed.data);
+      break;
+    }
+
+    case 'request': {
+      const parsed = SavedRequestSchema.partial().safeParse(conflict.remote);
+      if (parsed.success) await updateRequest(conflict.entityId, parsed.data, true);
+      break;
+    }
+  }
+}
+
+/**
+ * Read the local copy of an entity as a plain record
+ */
+async function getLocalEntity(
+  entityType: SyncEntityType,
+  entityId: string
+): Promise<Record<string, unknown> | undefined> {
+  switch (entityType) {
+    case 'environment':
+      return db.environments.get(entityId);
+    case 'collection':
+      return db.collections.get(entityId);
+    case 'folder':
+      return db.folders.get(entityId);
+    case 'request':
+      return db.requests.get(entityId);
+  }
+}
+
+/**
+ * Check whether a value is a plain JSON object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate and store the full state of a remote entity
+ *
+ * @returns True if the entity was valid and stored
+ */
+async function applyEntity(
+  projectId: string,
+  entityType: SyncEntityType,
+  data: unknown
+): Promise<boolean> {
+  switch (entityType) {
+    case 'environment': {
+      const parsed = EnvironmentSchema.safeParse(data);
+      if (!parsed.success) return rejectEntity(entityType, parsed.error);
+
+      // Which environment is active is a per-client choice and never synced
+      const existing = await db.environments.get(parsed.data.id);
+      await db.environments.put({
+        ...parsed.data,
+        isActive: existing?.isActive ?? false,
+        syncProjectId: projectId,
+      });
+      return true;
+    }
+
+    case 'collection': {
+      const parsed = CollectionSchema.safeParse(data);
+      if (!parsed.success) return rejectEntity(entityType, parsed.error);
+
+      await db.collections.put({ ...parsed.data, syncProjectId: projectId });
+      return true;
+    }
+
+    case 'folder': {
+      const parsed = FolderSchema.safeParse(data);
+      if (!parsed.success) return rejectEntity(entityType, parsed.error);
+
+      await db.folders.put(parsed.data);
+      return true;
+    }
+
+    case 'request': {
+      const parsed = SavedRequestSchema.safeParse(data);
+      if (!parsed.success) return rejectEntity(entityType, parsed.error);
+
+      await db.requests.put(parsed.data);
+      return true;
+    }
+  }
+}
+
+/**
+ * Log and skip a remote entity that does not match the local schema
+ */
+function rejectEntity(entityType: SyncEntityType, error: unknown): false {
+  console.warn(`Ignoring invalid remote ${entityType}:`, error);
+  return false;
+}
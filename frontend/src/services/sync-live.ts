@@ -0,0 +1,112 @@
+/**
+ * Sync live channel - subscribes to a project's WebSocket for pushed changes and presence
+ * The socket only signals that something changed; the sync engine still pulls through
+ * the change log so cursor handling and merging stay in one place.
+ *
+ * @module services/sync-live
+ */
+
+import { api } from './api';
+import { SyncLiveMessageSchema } from '../types/schemas';
+import type { SyncPresence, SyncProjectConnection } from '../types';
+
+/** First reconnect delay after the socket drops */
+const MIN_RETRY_MS = 1000;
+
+/** Upper bound for the exponential reconnect backoff */
+const MAX_RETRY_MS = 30000;
+
+/** Keep-alive interval so idle sockets are not closed by proxies */
+const PING_INTERVAL_MS = 25000;
+
+/**
+ * Callbacks for live channel events
+ */
+export interface SyncLiveHandlers {
+  /** Another client pushed changes to the project */
+  onChanges: () => void;
+  /** The set of connected clients changed */
+  onPresence: (clients: SyncPresence[]) => void;
+  /** The socket opened (true) or dropped (false) */
+  onStatusChange: (live: boolean) => void;
+}
+
+/**
+ * Keep a live channel open for a project, reconnecting with backoff when it drops
+ *
+ * @param connection - Project connection
+ * @param handlers - Event callbacks
+ * @returns Function that closes the channel and stops reconnecting
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = subscribeToProject(connection, {
+ *   onChanges: () => syncNow(),
+ *   onPresence: (clients) => setPresence(connection.id, clients),
+ *   onStatusChange: (live) => setLive(connection.id, live),
+ * });
+ * ```
+ */
+export function subscribeToProject(
+  connection: SyncProjectConnection,
+  handlers: SyncLiveHandlers
+): () => void {
+  let socket: WebSocket | null = null;
+  let retryDelay = MIN_RETRY_MS;
+  let retryTimer: number | undefined;
+  let pingTimer: number | undefined;
+  let closed = false;
+
+  const open = () => {
+    socket = api.openSyncLive(connection.id, connection.token, connection.clientId);
+
+    socket.onopen = () => {
+      retryDelay = MIN_RETRY_MS;
+      handlers.onStatusChange(true);
+      pingTimer = window.setInterval(() => socket?.send('ping'), PING_INTERVAL_MS);
+    };
+
+    socket.onmessage = (event) => {
+      const parsed = SyncLiveMessageSchema.safeParse(parseJson(event.data));
+      if (!parsed.success) {
+        console.warn('Ignoring invalid live message:', parsed.error);
+        return;
+      }
+
+      if (parsed.data.type === 'changes') {
+        handlers.onChanges();
+      } else {
+        handlers.onPresence(parsed.data.clients);
+      }
+    };
+
+    socket.onclose = () => {
+      window.clearInterval(pingTimer);
+      handlers.onStatusChange(false);
+      if (closed) return;
+
+      retryTimer = window.setTimeout(open, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+    };
+  };
+
+  open();
+
+  return () => {
+    closed = true;
+    window.clearTimeout(retryTimer);
+    socket?.close();
+  };
+}
+
+/**
+ * Parse a message payload, returning undefined for non-JSON data
+ */
+function parseJson(data: unknown): unknown {
+  if (typeof data !== 'string') return undefined;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+}
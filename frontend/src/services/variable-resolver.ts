@@ -0,0 +1,502 @@
+/**
+ * Variable resolver - substitutes {{variable}} references in request fields
+ * Resolution happens client-side before the request is handed to the proxy.
+ *
+ * @module services/variable-resolver
+ */
+
+import type {
+  AuthConfig,
+  Credentials,
+  Header,
+  RequestState,
+  SignaturePlacement,
+  Variable,
+} from '../types';
+import type { DynamicValue } from './dynamic-variables';
+
+/**
+ * Matches a {{variable}} reference; the name is captured without braces
+ * Names cannot contain braces, so nested references (`{{$base64 {{token}}}}`)
+ * match innermost first and the outer one resolves in a later pass.
+ */
+const VARIABLE_PATTERN = /\{\{([^{}]+)\}\}/g;
+
+/** Maximum substitution passes for nested variables (guards against cycles) */
+const MAX_RESOLVE_DEPTH = 10;
+
+/** Secret values shorter than this are not redacted (they would mask unrelated text) */
+const MIN_REDACTED_LENGTH = 4;
+
+/**
+ * Variable values available for substitution, keyed by variable name
+ */
+export type VariableMap = Map<string, string>;
+
+/**
+ * Fallback for references not found in the variable map (e.g. dynamic variables)
+ * Returns undefined when the reference is unknown.
+ */
+export type VariableFallback = (name: string) => string | undefined;
+
+/**
+ * Place a variable can be defined, from lowest to highest precedence:
+ * workspace globals, the collection, the active environment, the data file row of
+ * a collection run's iteration, the request itself, and runtime values captured
+ * from responses (kept in memory for the session)
+ */
+export type VariableScope =
+  'global' | 'collection' | 'environment' | 'data' | 'request' | 'runtime';
+
+/** Scopes ordered from lowest to highest precedence */
+export const VARIABLE_SCOPES: VariableScope[] = [
+  'global',
+  'collection',
+  'environment',
+  'data',
+  'request',
+  'runtime',
+];
+
+/** Text shown in place of a secret value */
+export const SECRET_MASK = '••••••••';
+
+/** Display names of the variable scopes */
+export const VARIABLE_SCOPE_LABELS: Record<VariableScope, string> = {
+  global: 'Global',
+  collection: 'Collection',
+  environment: 'Environment',
+  data: 'Iteration data',
+  request: 'Request',
+  runtime: 'Runtime',
+};
+
+/**
+ * Variables defined in each scope (missing scopes contribute nothing)
+ */
+export type VariableScopes = Partial<Record<VariableScope, Variable[]>>;
+
+/**
+ * Where the effective value of a variable comes from
+ */
+export interface VariableSource {
+  /** Scope providing the value */
+  scope: VariableScope;
+  /** Raw value in that scope (may contain further references) */
+  value: string;
+  /** Whether the value is secret (masked in the UI, redacted from history) */
+  secret: boolean;
+  /** Lower-precedence definitions hidden by this one, highest first */
+  overridden: Array<{ scope: VariableScope; value: string; secret: boolean }>;
+}
+
+/**
+ * Variables of all scopes merged by precedence
+ */
+export interface ScopedVariables {
+  /** Effective value of every variable */
+  values: VariableMap;
+  /** Source of every variable */
+  sources: Map<string, VariableSource>;
+}
+
+/**
+ * Secret value to redact and the reference written in its place
+ */
+export interface SecretValue {
+  /** Replacement text (e.g. `{{apiKey}}`) */
+  reference: string;
+  /** Resolved value */
+  value: string;
+}
+
+/**
+ * Piece of a template: plain text or a {{variable}} reference
+ */
+export type TemplateToken =
+  { type: 'text'; text: string } | { type: 'variable'; text: string; name: string };
+
+/**
+ * Partially typed {{variable}} reference ending at the caret
+ */
+export interface VariableCompletion {
+  /** Index of the opening braces */
+  start: number;
+  /** Name typed so far */
+  query: string;
+}
+
+/**
+ * Request with every variable reference substituted
+ */
+export interface ResolvedRequest {
+  /** Request state with resolved values */
+  request: RequestState;
+  /** Names referenced but not defined (their {{references}} are left in place) */
+  unresolved: string[];
+}
+
+/**
+ * Merge variable scopes by precedence
+ * Disabled variables are ignored; a later scope in VARIABLE_SCOPES wins over an earlier one.
+ *
+ * @param scopes - Variables defined in each scope
+ * @returns Effective values and the source of each one
+ *
+ * @example
+ * ```typescript
+ * const { values, sources } = mergeVariableScopes({
+ *   global: [{ key: 'baseUrl', value: 'https://api.example.com', enabled: true }],
+ *   environment: [{ key: 'baseUrl', value: 'https://staging.example.com', enabled: true }],
+ * });
+ * values.get('baseUrl'); // => 'https://staging.example.com'
+ * sources.get('baseUrl')?.scope; // => 'environment'
+ * ```
+ */
+export function mergeVariableScopes(scopes: VariableScopes): ScopedVariables {
+  const values: VariableMap = new Map();
+  const sources = new Map<string, VariableSource>();
+
+  for (const scope of VARIABLE_SCOPES) {
+    for (const variable of scopes[scope] ?? []) {
+      if (!variable.enabled || !variable.key) continue;
+
+      const previous = sources.get(variable.key);
+      const overridden = previous
+        ? [
+            { scope: previous.scope, value: previous.value, secret: previous.secret },
+            ...previous.overridden,
+          ]
+        : [];
+
+      // A scope defining the same key twice keeps the last definition
+      values.set(variable.key, variable.value);
+      sources.set(variable.key, {
+        scope,
+        value: variable.value,
+        secret: variable.secret ?? false,
+        overridden: overridden.filter((entry) => entry.scope !== scope),
+      });
+    }
+  }
+
+  return { values, sources };
+}
+
+/**
+ * Substitute variables in a string
+ * Values may themselves contain references (`{{base}}/{{path}}`), which are
+ * resolved in further passes up to MAX_RESOLVE_DEPTH.
+ *
+ * @param template - String that may contain {{variable}} references
+ * @param variables - Variable values by name
+ * @param unresolved - Optional set collecting names with no value
+ * @param fallback - Optional resolver for names missing from `variables`
+ * @returns Resolved string
+ *
+ * @example
+ * ```typescript
+ * resolveString('{{baseUrl}}/users', new Map([['baseUrl', 'https://api.example.com']]));
+ * // => 'https://api.example.com/users'
+ * ```
+ */
+export function resolveString(
+  template: string,
+  variables: VariableMap,
+  unresolved?: Set<string>,
+  fallback?: VariableFallback
+): string {
+  let result = template;
+
+  for (let depth = 0; depth < MAX_RESOLVE_DEPTH; depth++) {
+    let substituted = false;
+
+    result = result.replace(VARIABLE_PATTERN, (match, rawName: string) => {
+      const name = rawName.trim();
+      const value = variables.get(name) ?? fallback?.(name);
+
+      if (value === undefined) {
+        unresolved?.add(name);
+        return match;
+      }
+
+      substituted = true;
+      return value;
+    });
+
+    if (!substituted) break;
+  }
+
+  return result;
+}
+
+/**
+ * Substitute variables in every field of a request: URL, headers, body and auth
+ *
+ * @param request - Request state as edited in the builder (templates)
+ * @param variables - Variable values by name
+ * @param fallback - Optional resolver for names missing from `variables`
+ * @returns Resolved request and the names that could not be resolved
+ */
+export function resolveRequest(
+  request: RequestState,
+  variables: VariableMap,
+  fallback?: VariableFallback
+): ResolvedRequest {
+  const unresolved = new Set<string>();
+  const resolve = (value: string) => resolveString(value, variables, unresolved, fallback);
+
+  const resolved: RequestState = {
+    ...request,
+    url: resolve(request.url),
+    headers: request.headers.map((header) => resolveHeader(header, resolve)),
+    body: request.body ? { ...request.body, content: resolve(request.body.content) } : null,
+    auth: request.auth ? resolveAuth(request.auth, resolve) : null,
+  };
+
+  return { request: resolved, unresolved: [...unresolved] };
+}
+
+/**
+ * Substitute variables in the fields of an auth config
+ *
+ * @param auth - Auth config as edited (templates)
+ * @param variables - Variable values by name
+ * @param fallback - Optional resolver for names missing from `variables`
+ * @returns Resolved auth config
+ */
+export function resolveAuthConfig(
+  auth: AuthConfig,
+  variables: VariableMap,
+  fallback?: VariableFallback
+): AuthConfig {
+  return resolveAuth(auth, (value) => resolveString(value, variables, undefined, fallback));
+}
+
+/**
+ * List the variable names a request references directly (in first-use order)
+ *
+ * @param request - Request state as edited in the builder (templates)
+ * @returns Referenced names, without duplicates
+ */
+export function getReferencedVariables(request: RequestState): string[] {
+  // With no variables defined every reference is reported as unresolved
+  return resolveRequest(request, new Map()).unresolved;
+}
+
+/**
+ * Resolve a header's key and value (disabled headers are left untouched)
+ */
+function resolveHeader(header: Header, resolve: (value: string) => string): Header {
+  if (!header.enabled) return header;
+  return { ...header, key: resolve(header.key), value: resolve(header.value) };
+}
+
+/**
+ * Resolve the credential fields of an auth config
+ */
+function resolveAuth(auth: AuthConfig, resolve: (value: string) => string): AuthConfig {
+  switch (auth.type) {
+    case 'none':
+      return auth;
+
+    case 'bearer':
+      return { ...auth, bearer: { token: resolve(auth.bearer.token) } };
+
+    case 'api-key':
+      return {
+        ...auth,
+        apiKey: {
+          ...auth.apiKey,
+          key: resolve(auth.apiKey.key),
+          value: resolve(auth.apiKey.value),
+        },
+      };
+
+    case 'basic':
+      return { ...auth, basic: resolveCredentials(auth.basic, resolve) };
+
+    case 'digest':
+      return { ...auth, digest: resolveCredentials(auth.digest, resolve) };
+
+    case 'oauth2':
+      return {
+        ...auth,
+        oauth2: {
+          ...auth.oauth2,
+          tokenUrl: resolve(auth.oauth2.tokenUrl),
+          authUrl: resolve(auth.oauth2.authUrl),
+          redirectUri: resolve(auth.oauth2.redirectUri),
+          clientId: resolve(auth.oauth2.clientId),
+          clientSecret: resolve(auth.oauth2.clientSecret),
+          scope: resolve(auth.oauth2.scope),
+          username: resolve(auth.oauth2.username),
+          password: resolve(auth.oauth2.password),
+          headerPrefix: resolve(auth.oauth2.headerPrefix),
+        },
+      };
+
+    case 'aws-sigv4':
+      return {
+        ...auth,
+        awsSigV4: {
+          accessKeyId: resolve(auth.awsSigV4.accessKeyId),
+          secretAccessKey: resolve(auth.awsSigV4.secretAccessKey),
+          sessionToken: resolve(auth.awsSigV4.sessionToken),
+          region: resolve(auth.awsSigV4.region),
+          service: resolve(auth.awsSigV4.service),
+        },
+      };
+
+    case 'hmac':
+      // {placeholders} in the message are filled in when the request is signed
+      return {
+        ...auth,
+        hmac: {
+          ...auth.hmac,
+          secret: resolve(auth.hmac.secret),
+          message: resolve(auth.hmac.message),
+          timestampHeader: resolve(auth.hmac.timestampHeader),
+          placement: resolvePlacement(auth.hmac.placement, resolve),
+        },
+      };
+
+    case 'jwt':
+      return {
+        ...auth,
+        jwt: {
+          ...auth.jwt,
+          secret: resolve(auth.jwt.secret),
+          header: resolve(auth.jwt.header),
+          payload: resolve(auth.jwt.payload),
+          placement: resolvePlacement(auth.jwt.placement, resolve),
+        },
+      };
+  }
+}
+
+/**
+ * Resolve the name and prefix of a signature placement
+ */
+function resolvePlacement(
+  placement: SignaturePlacement,
+  resolve: (value: string) => string
+): SignaturePlacement {
+  return { ...placement, name: resolve(placement.name), prefix: resolve(placement.prefix) };
+}
+
+/**
+ * Resolve a username and password
+ */
+function resolveCredentials(
+  credentials: Credentials,
+  resolve: (value: string) => string
+): Credentials {
+  return { username: resolve(credentials.username), password: resolve(credentials.password) };
+}
+
+/**
+ * Split a template into text and {{variable}} tokens (for highlighting)
+ *
+ * @param template - String that may contain {{variable}} references
+ * @returns Tokens in order; joining their text gives back the template
+ */
+export function tokenizeTemplate(template: string): TemplateToken[] {
+  const tokens: TemplateToken[] = [];
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    if (match.index > lastIndex) {
+      tokens.push({ type: 'text', text: template.slice(lastIndex, match.index) });
+    }
+    tokens.push({ type: 'variable', text: match[0], name: (match[1] ?? '').trim() });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < template.length) {
+    tokens.push({ type: 'text', text: template.slice(lastIndex) });
+  }
+
+  return tokens;
+}
+
+/**
+ * Find a variable reference being typed at the caret (for autocomplete)
+ *
+ * @param text - Field value
+ * @param caret - Caret position in the value
+ * @returns The open reference before the caret, or null if there is none
+ *
+ * @example
+ * ```typescript
+ * getVariableCompletion('{{base', 6); // => { start: 0, query: 'base' }
+ * ```
+ */
+export function getVariableCompletion(text: string, caret: number): VariableCompletion | null {
+  const match = /\{\{\s*(\$?\w*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: match.index, query: match[1] ?? '' };
+}
+
+/**
+ * Collect the resolved values of secret variables for redaction
+ * Dynamic values generated from a secret (e.g. `{{$base64 {{user}}:{{password}}}}`)
+ * are included, since they reveal it too.
+ *
+ * @param scoped - Merged variables of every scope
+ * @param dynamic - Dynamic values generated while resolving the request
+ * @returns Secret values, longest first
+ */
+export function getSecretValues(
+  { values, sources }: ScopedVariables,
+  dynamic: DynamicValue[] = []
+): SecretValue[] {
+  const secrets: SecretValue[] = [];
+
+  for (const [name, source] of sources) {
+    if (!source.secret) continue;
+    const value = resolveString(source.value, values);
+    if (value.length >= MIN_REDACTED_LENGTH) {
+      secrets.push({ reference: `{{${name}}}`, value });
+    }
+  }
+
+  for (const generated of dynamic) {
+    const reference = redactSecrets(generated.name, secrets);
+    if (reference !== generated.name && generated.value.length >= MIN_REDACTED_LENGTH) {
+      secrets.push({ reference: `{{${reference}}}`, value: generated.value });
+    }
+  }
+
+  return secrets.sort((a, b) => b.value.length - a.value.length);
+}
+
+/**
+ * Replace every occurrence of a secret value with its reference
+ *
+ * @param text - Text that may contain secret values (e.g. a resolved URL)
+ * @param secrets - Secret values from getSecretValues
+ * @returns Redacted text
+ *
+ * @example
+ * ```typescript
+ * redactSecrets('https://api.example.com?key=s3cr3t', [{ reference: '{{apiKey}}', value: 's3cr3t' }]);
+ * // => 'https://api.example.com?key={{apiKey}}'
+ * ```
+ */
+export function redactSecrets(text: string, secrets: SecretValue[]): string {
+  return secrets.reduce(
+    (result, secret) => result.split(secret.value).join(secret.reference),
+    text
+  );
+}
+
+/**
+ * Empty the values of secret variables (for exports and shared copies)
+ *
+ * @param variables - Variables with plaintext values
+ * @returns Variables with every secret value removed
+ */
+export function redactVariables(variables: Variable[]): Variable[] {
+  return variables.map((variable) => (variable.secret ? { ...variable, value: '' } : variable));
+}
@@ -0,0 +1,78 @@
+/**
+ * Auth store - the folder chain and collection the current request inherits auth from
+ *
+ * @module stores/auth.store
+ */
+
+import { create } from 'zustand';
+import { getCollection, getFolderChain } from '../services/db';
+import { resolveEffectiveAuth, type AuthSource, type EffectiveAuth } from '../services/auth';
+import { useRequestStore } from './request.store';
+
+interface AuthState {
+  /** Levels the current request can inherit from, nearest first */
+  parents: AuthSource[];
+  /** Error message if any */
+  error: string | null;
+}
+
+interface AuthActions {
+  /** Load the folder chain and collection of a request (null collection clears them) */
+  loadParents: (collectionId: string | null, folderId: string | null) => Promise<void>;
+  /** Get the auth that applies to the request being edited */
+  getEffectiveAuth: () => EffectiveAuth;
+}
+
+type AuthStore = AuthState & AuthActions;
+
+/**
+ * Auth store for inherited folder and collection auth
+ *
+ * @example
+ * ```tsx
+ * const parents = useAuthStore((state) => state.parents);
+ *
+ * const { auth, source } = useAuthStore.getState().getEffectiveAuth();
+ * ```
+ */
+export const useAuthStore = create<AuthStore>((set, get) => ({
+  // Initial state
+  parents: [],
+  error: null,
+
+  // Actions
+  loadParents: async (collectionId, folderId) => {
+    if (!collectionId) {
+      set({ parents: [] });
+      return;
+    }
+
+    try {
+      const [folders, collection] = await Promise.all([
+        getFolderChain(folderId),
+        getCollection(collectionId),
+      ]);
+
+      const parents: AuthSource[] = folders.map((folder) => ({
+        level: 'folder',
+        id: folder.id,
+        name: folder.name,
+        auth: folder.auth,
+      }));
+      if (collection) {
+        parents.push({
+          level: 'collection',
+          id: collection.id,
+          name: collection.name,
+          auth: collection.auth,
+        });
+      }
+
+      set({ parents, error: null });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load inherited auth' });
+    }
+  },
+
+  getEffectiveAuth: () => resolveEffectiveAuth(useRequestStore.getState().auth, get().parents),
+}));
@@ -6,3 +6,8 @@
 export { useUIStore } from './ui.store';
 export { useRequestStore, selectCurrentRequest } from './request.store';
 export { useEnvironmentStore } from './environment.store';
+export { useVariableStore } from './variable.store';
+export { useAuthStore } from './auth.store';
+export { useSyncStore, selectOnlineCount } from './sync.store';
+export { useScriptStore } from './script.store';
+export { useRunnerStore } from './runner.store';
@@ -5,7 +5,20 @@
  */
 
 import { create } from 'zustand';
-import type { HttpMethod, Header, RequestBody, AuthConfig, ResponseState } from '../types';
+import { SavedRequestSchema } from '../types';
+import { updateRequest } from '../services/db';
+import type {
+  HttpMethod,
+  Header,
+  RequestBody,
+  AuthConfig,
+  Assertion,
+  Capture,
+  ResponseState,
+  TestResult,
+  Variable,
+} from '../types';
+import type { CaptureResult } from '../services/captures';
 
 interface RequestState {
   /** HTTP method */
@@ -16,18 +29,42 @@ interface RequestState {
   headers: Header[];
   /** Request body */
   body: RequestBody;
-  /** Authentication configuration */
-  auth: AuthConfig;
+  /** Authentication configuration (null = inherit from folder/collection) */
+  auth: AuthConfig | null;
   /** Request timeout in ms (0 = no timeout) */
   timeout: number;
+  /** Request-local variables (highest precedence) */
+  variables: Variable[];
+  /** Script run before sending, after the collection and folder scripts */
+  preRequestScript: string;
+  /** Script run on the response */
+  testScript: string;
+  /** No-code checks of the response */
+  assertions: Assertion[];
+  /** Response values saved into variables */
+  captures: Capture[];
   /** Current response state */
   response: ResponseState | null;
+  /** Results of the test script on the current response (null = it did not run) */
+  testResults: TestResult[] | null;
+  /** Error that stopped the test script, if any */
+  testError: string | null;
+  /** Results of the assertions on the current response (null = none were evaluated) */
+  assertionResults: TestResult[] | null;
+  /** Values captured by the last successful send of this request (null = none yet) */
+  captureResults: CaptureResult[] | null;
   /** Whether request is currently loading */
   loading: boolean;
   /** ID of the saved request being edited (null = new request) */
   savedRequestId: string | null;
+  /** Collection of the saved request, whose variables apply (null = none) */
+  collectionId: string | null;
+  /** Folder of the saved request, whose auth may apply (null = collection root) */
+  folderId: string | null;
   /** Whether the request has unsaved changes */
   isDirty: boolean;
+  /** Why the last save failed, if it did */
+  saveError: string | null;
 }
 
 interface RequestActions {
@@ -47,12 +84,28 @@ interface RequestActions {
   toggleHeader: (index: number) => void;
   /** Set the request body */
   setBody: (body: RequestBody) => void;
-  /** Set authentication config */
-  setAuth: (auth: AuthConfig) => void;
+  /** Set authentication config (null = inherit) */
+  setAuth: (auth: AuthConfig | null) => void;
   /** Set request timeout */
   setTimeout: (timeout: number) => void;
+  /** Set request-local variables */
+  setVariables: (variables: Variable[]) => void;
+  /** Set the pre-request script */
+  setPreRequestScript: (script: string) => void;
+  /** Set the test script */
+  setTestScript: (script: string) => void;
+  /** Set the assertions */
+  setAssertions: (assertions: Assertion[]) => void;
+  /** Set the captures */
+  setCaptures: (captures: Capture[]) => void;
   /** Set response state */
   setResponse: (response: ResponseState | null) => void;
+  /** Set the test results of the current response (null clears them) */
+  setTestResults: (results: TestResult[] | null, error?: string | null) => void;
+  /** Set the assertion results of the current response (null clears them) */
+  setAssertionResults: (results: TestResult[] | null) => void;
+  /** Set the values captured by the last send */
+  setCaptureResults: (results: CaptureResult[] | null) => void;
   /** Set loading state */
   setLoading: (loading: boolean) => void;
   /** Load a saved request into the builder */
@@ -63,12 +116,21 @@ interface RequestActions {
     body: RequestBody;
     auth: AuthConfig | null;
     timeout: number;
+    variables?: Variable[];
+    preRequestScript?: string;
+    testScript?: string;
+    assertions?: Assertion[];
+    captures?: Capture[];
     id?: string;
+    collectionId?: string | null;
+    folderId?: string | null;
   }) => void;
   /** Reset to a new empty request */
   resetRequest: () => void;
   /** Mark request as clean (saved) */
   markClean: () => void;
+  /** Write the builder's changes back to the saved request being edited */
+  saveRequest: () => Promise<void>;
 }
 
 type RequestStore = RequestState & RequestActions;
@@ -78,14 +140,43 @@ const initialState: RequestState = {
   url: '',
   headers: [{ key: '', value: '', enabled: true }],
   body: null,
-  auth: { type: 'none' },
+  auth: null,
   timeout: 30000,
+  variables: [],
+  preRequestScript: '',
+  testScript: '',
+  assertions: [],
+  captures: [],
   response: null,
+  testResults: null,
+  testError: null,
+  assertionResults: null,
+  captureResults: null,
   loading: false,
   savedRequestId: null,
+  collectionId: null,
+  folderId: null,
   isDirty: false,
+  saveError: null,
 };
 
+/**
+ * Fields of a saved request the builder edits
+ */
+const EditableRequestSchema = SavedRequestSchema.pick({
+  method: true,
+  url: true,
+  headers: true,
+  body: true,
+  auth: true,
+  timeout: true,
+  variables: true,
+  preRequestScript: true,
+  testScript: true,
+  assertions: true,
+  captures: true,
+});
+
 /**
  * Request builder store
  *
@@ -94,7 +185,7 @@ const initialState: RequestState = {
  * const { method, url, setMethod, setUrl } = useRequestStore();
  * ```
  */
-export const useRequestStore = create<RequestStore>((set, _get) => ({
+export const useRequestStore = create<RequestStore>((set, get) => ({
   ...initialState,
 
   setMethod: (method) => set({ method, isDirty: true }),
@@ -135,8 +226,24 @@ export const useRequestStore = create<RequestStore>((set, _get) => ({
 
   setTimeout: (timeout) => set({ timeout, isDirty: true }),
 
+  setVariables: (variables) => set({ variables, isDirty: true }),
+
+  setPreRequestScript: (preRequestScript) => set({ preRequestScript, isDirty: true }),
+
+  setTestScript: (testScript) => set({ testScript, isDirty: true }),
+
+  setAssertions: (assertions) => set({ assertions, isDirty: true }),
+
+  setCaptures: (captures) => set({ captures, isDirty: true }),
+
   setResponse: (response) => set({ response }),
 
+  setTestResults: (testResults, testError = null) => set({ testResults, testError }),
+
+  setAssertionResults: (assertionResults) => set({ assertionResults }),
+
+  setCaptureResults: (captureResults) => set({ captureResults }),
+
   setLoading: (loading) => set({ loading }),
 
   loadRequest: (request) =>
@@ -148,19 +255,71 @@ export const useRequestStore = create<RequestStore>((set, _get) => ({
           ? request.headers
           : [{ key: '', value: '', enabled: true }],
       body: request.body,
-      auth: request.auth ?? { type: 'none' },
+      auth: request.auth,
       timeout: request.timeout,
+      variables: request.variables ?? [],
+      preRequestScript: request.preRequestScript ?? '',
+      testScript: request.testScript ?? '',
+      assertions: request.assertions ?? [],
+      captures: request.captures ?? [],
       savedRequestId: request.id ?? null,
+      collectionId: request.collectionId ?? null,
+      folderId: request.folderId ?? null,
       response: null,
+      testResults: null,
+      testError: null,
+      assertionResults: null,
+      captureResults: null,
       loading: false,
       isDirty: false,
+      saveError: null,
     }),
 
   resetRequest: () => set({ ...initialState }),
 
   markClean: () => set({ isDirty: false }),
+
+  saveRequest: async () => {
+    const state = get();
+    if (!state.savedRequestId) return;
+
+    // Blank header rows are only there to type into
+    const parsed = EditableRequestSchema.safeParse({
+      ...state,
+      headers: state.headers.filter((h) => h.key.trim() !== ''),
+    });
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      set({
+        saveError: issue
+          ? `${issue.path.join('.') || 'request'}: ${issue.message}`
+          : 'Invalid request',
+      });
+      return;
+    }
+
+    try {
+      await updateRequest(state.savedRequestId, parsed.data);
+      // Edits made while saving stay unsaved
+      set((current) => ({
+        isDirty: current.isDirty && !isUnchanged(state, current),
+        saveError: null,
+      }));
+    } catch (error) {
+      set({ saveError: error instanceof Error ? error.message : 'Failed to save request' });
+    }
+  },
 }));
 
+/**
+ * Whether none of the saved fields changed between two states of the store
+ */
+function isUnchanged(before: RequestState, after: RequestState): boolean {
+  return (Object.keys(EditableRequestSchema.shape) as (keyof RequestState)[]).every(
+    (key) => before[key] === after[key]
+  );
+}
+
 /**
  * Selector for getting the current request as a serializable object
  */
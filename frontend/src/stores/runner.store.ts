@@ -0,0 +1,150 @@
+/**
+ * Runner store - the collection run in progress and the reports of past runs
+ *
+ * @module stores/runner.store
+ */
+
+import { create } from 'zustand';
+import type { CollectionRun } from '../types';
+import { deleteRun, getCollection, getRuns, saveRun, updateCollection } from '../services/db';
+import { runCollection, type RunOptions } from '../services/runner';
+import { setVariableValues, type ScriptResult } from '../services/scripts';
+import { useEnvironmentStore } from './environment.store';
+import { useVariableStore } from './variable.store';
+
+interface RunnerState {
+  /** Run in progress, or the report being viewed (null = none) */
+  run: CollectionRun | null;
+  /** Past runs, most recent first */
+  runs: CollectionRun[];
+  /** Whether a run is in progress */
+  running: boolean;
+  /** Error message if any */
+  error: string | null;
+}
+
+interface RunnerActions {
+  /** Load past runs from IndexedDB */
+  loadRuns: () => Promise<void>;
+  /** Run a collection with the current variables, then save its report */
+  startRun: (collectionId: string, options: RunOptions) => Promise<void>;
+  /** Run a past run's collection again with the same settings and data file */
+  repeatRun: (run: CollectionRun) => Promise<void>;
+  /** Cancel the run in progress once its current request is done */
+  cancelRun: () => void;
+  /** Show a past run's report (null closes it) */
+  viewRun: (run: CollectionRun | null) => void;
+  /** Delete a past run's report */
+  deleteRun: (id: string) => Promise<void>;
+}
+
+type RunnerStore = RunnerState & RunnerActions;
+
+/** Cancels the run in progress */
+let controller: AbortController | null = null;
+
+/**
+ * Runner store for collection runs and their reports
+ *
+ * @example
+ * ```tsx
+ * const run = useRunnerStore((state) => state.run);
+ *
+ * await useRunnerStore.getState().startRun(collectionId, DEFAULT_RUN_OPTIONS);
+ * ```
+ */
+export const useRunnerStore = create<RunnerStore>((set, get) => ({
+  // Initial state
+  run: null,
+  runs: [],
+  running: false,
+  error: null,
+
+  // Actions
+  loadRuns: async () => {
+    try {
+      set({ runs: await getRuns(), error: null });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load runs' });
+    }
+  },
+
+  startRun: async (collectionId, options) => {
+    if (get().running) return;
+
+    controller = new AbortController();
+    set({ running: true, run: null, error: null });
+    try {
+      const run = await runCollection(collectionId, options, {
+        globals: useVariableStore.getState().globals,
+        environment: useEnvironmentStore.getState().activeEnvironment,
+        runtime: useVariableStore.getState().runtime,
+        saveVariables: saveRunVariables,
+        onProgress: (progress) => set({ run: progress }),
+        signal: controller.signal,
+      });
+
+      set((state) => ({ run, runs: [run, ...state.runs] }));
+      await saveRun(run);
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Run failed' });
+    } finally {
+      controller = null;
+      set({ running: false });
+    }
+  },
+
+  repeatRun: async ({ collectionId, iterations, delay, stopOnFailure, data }) => {
+    await get().startRun(collectionId, { iterations, delay, stopOnFailure, data });
+  },
+
+  cancelRun: () => controller?.abort(),
+
+  viewRun: (run) => set({ run }),
+
+  deleteRun: async (id) => {
+    set((state) => ({
+      runs: state.runs.filter((run) => run.id !== id),
+      run: state.run?.id === id ? null : state.run,
+    }));
+    try {
+      await deleteRun(id);
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to delete run' });
+    }
+  },
+}));
+
+/**
+ * Persist the values a run's scripts and captures set in the globals, the run's
+ * collection and the active environment
+ * The variable store is updated too when it holds the same collection.
+ */
+async function saveRunVariables(
+  collectionId: string,
+  updates: ScriptResult['updates']
+): Promise<void> {
+  const { globals, collection, setGlobals, setCollectionVariables } = useVariableStore.getState();
+  const { activeEnvironment, updateEnvironment } = useEnvironmentStore.getState();
+
+  if (Object.keys(updates.global).length > 0) {
+    await setGlobals(setVariableValues(globals, updates.global));
+  }
+  if (Object.keys(updates.collection).length > 0) {
+    if (collection?.id === collectionId) {
+      await setCollectionVariables(setVariableValues(collection.variables, updates.collection));
+    } else {
+      const saved = await getCollection(collectionId);
+      if (saved) {
+        await updateCollection(collectionId, {
+          variables: setVariableValues(saved.variables, updates.collection),
+        });
+      }
+    }
+  }
+  if (activeEnvironment && Object.keys(updates.environment).length > 0) {
+    await updateEnvironment(activeEnvironment.id, {
+      variables: setVariableValues(activeEnvironment.variables, updates.environment),
+    });
+  }
+}
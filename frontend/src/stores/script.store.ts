@@ -0,0 +1,96 @@
+/**
+ * Script store - the folder and collection pre-request scripts of the current
+ * request, and the console output of the last send
+ *
+ * @module stores/script.store
+ */
+
+import { create } from 'zustand';
+import { getCollection, getFolderChain } from '../services/db';
+import type { PreRequestScript, ScriptLogEntry } from '../services/scripts';
+import { useRequestStore } from './request.store';
+
+interface ScriptState {
+  /** Collection and folder scripts in run order: collection, then folders from the outermost */
+  parents: PreRequestScript[];
+  /** Console output of the last send's scripts */
+  logs: ScriptLogEntry[];
+  /** Error message if any */
+  error: string | null;
+}
+
+interface ScriptActions {
+  /** Load the scripts of a request's collection and folder chain (null collection clears them) */
+  loadParents: (collectionId: string | null, folderId: string | null) => Promise<void>;
+  /** Get every script of the request being edited, in run order */
+  getScripts: () => PreRequestScript[];
+  /** Replace the console output */
+  setLogs: (logs: ScriptLogEntry[]) => void;
+  /** Add to the console output, e.g. a test script's after the pre-request scripts' */
+  appendLogs: (logs: ScriptLogEntry[]) => void;
+  /** Clear the console output */
+  clearLogs: () => void;
+}
+
+type ScriptStore = ScriptState & ScriptActions;
+
+/**
+ * Script store for inherited pre-request scripts and the script console
+ *
+ * @example
+ * ```tsx
+ * const logs = useScriptStore((state) => state.logs);
+ *
+ * const scripts = useScriptStore.getState().getScripts();
+ * ```
+ */
+export const useScriptStore = create<ScriptStore>((set, get) => ({
+  // Initial state
+  parents: [],
+  logs: [],
+  error: null,
+
+  // Actions
+  loadParents: async (collectionId, folderId) => {
+    if (!collectionId) {
+      set({ parents: [] });
+      return;
+    }
+
+    try {
+      const [folders, collection] = await Promise.all([
+        getFolderChain(folderId),
+        getCollection(collectionId),
+      ]);
+
+      // The chain is nearest first; scripts run from the outermost level in
+      const parents: PreRequestScript[] = folders.reverse().map((folder) => ({
+        level: 'folder',
+        name: folder.name,
+        source: folder.preRequestScript,
+      }));
+      if (collection) {
+        parents.unshift({
+          level: 'collection',
+          name: collection.name,
+          source: collection.preRequestScript,
+        });
+      }
+
+      set({ parents, error: null });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load inherited scripts' });
+    }
+  },
+
+  getScripts: () => {
+    const { preRequestScript } = useRequestStore.getState();
+    return [...get().parents, { level: 'request', name: '', source: preRequestScript }];
+  },
+
+  setLogs: (logs) => set({ logs }),
+
+  appendLogs: (logs) => set((state) => ({ logs: [...state.logs, ...logs] })),
+
+  clearLogs: () => set({ logs: [] }),
+}));
@@ -0,0 +1,260 @@
+/**
+ * Sync store - manages joined sync projects and background sync status
+ *
+ * @module stores/sync.store
+ */
+
+import { create } from 'zustand';
+import type { SyncConflict, SyncPresence, SyncProjectConnection, SyncStatus } from '../types';
+import { api } from '../services/api';
+import { connectSyncProject, resolveConflict, syncProject } from '../services/sync-engine';
+import {
+  countOutboxEntries,
+  deleteSyncProject,
+  getSyncConflicts,
+  getSyncProjects,
+  updateSyncProject,
+} from '../services/db';
+import { useEnvironmentStore } from './environment.store';
+import { useVariableStore } from './variable.store';
+import { useAuthStore } from './auth.store';
+import { useRequestStore } from './request.store';
+
+interface SyncState {
+  /** Sync projects joined by this client */
+  projects: SyncProjectConnection[];
+  /** Overall sync status */
+  status: SyncStatus;
+  /** Number of local changes not yet pushed */
+  pendingChanges: number;
+  /** Time of the last successful sync pass */
+  lastSyncedAt: string | null;
+  /** Error message from the last failed sync pass */
+  error: string | null;
+  /** Concurrent edits awaiting resolution */
+  conflicts: SyncConflict[];
+  /** Ids of projects whose live channel is currently open */
+  liveProjects: string[];
+  /** Clients connected to each project's live channel, by project id */
+  presence: Record<string, SyncPresence[]>;
+}
+
+interface SyncActions {
+  /** Load joined projects from IndexedDB */
+  loadProjects: () => Promise<void>;
+  /** Create a new sync project and start syncing it */
+  createProject: (name: string, password: string) => Promise<SyncProjectConnection>;
+  /** Join an existing sync project and start syncing it (also renews an expired one) */
+  joinProject: (name: string, password: string) => Promise<SyncProjectConnection>;
+  /** Leave a sync project (local copies are kept) */
+  leaveProject: (id: string) => Promise<void>;
+  /** Choose whether secret variable values are shared with a project (off by default) */
+  setSyncSecrets: (id: string, enabled: boolean) => Promise<void>;
+  /** Push pending changes and pull remote ones for every project */
+  syncNow: () => Promise<void>;
+  /** Load unresolved conflicts from IndexedDB */
+  loadConflicts: () => Promise<void>;
+  /** Resolve a conflict by keeping local or remote values */
+  resolveConflict: (id: string, choice: 'mine' | 'theirs') => Promise<void>;
+  /** Record whether a project's live channel is open */
+  setLive: (projectId: string, live: boolean) => void;
+  /** Replace the presence list of a project */
+  setPresence: (projectId: string, clients: SyncPresence[]) => void;
+}
+
+type SyncStore = SyncState & SyncActions;
+
+/** Set when a sync is requested while a pass is running, so it runs again afterwards */
+let passQueued = false;
+
+/**
+ * Sync store for team sync projects
+ *
+ * @example
+ * ```tsx
+ * const { status, pendingChanges, syncNow } = useSyncStore();
+ * ```
+ */
+export const useSyncStore = create<SyncStore>((set, get) => ({
+  // Initial state
+  projects: [],
+  status: 'local',
+  pendingChanges: 0,
+  lastSyncedAt: null,
+  error: null,
+  conflicts: [],
+  liveProjects: [],
+  presence: {},
+
+  // Actions
+  loadProjects: async () => {
+    const [projects, pendingChanges] = await Promise.all([getSyncProjects(), countOutboxEntries()]);
+    set((state) => ({
+      projects,
+      pendingChanges,
+      status: projects.length === 0 ? 'local' : state.status === 'local' ? 'idle' : state.status,
+    }));
+  },
+
+  createProject: async (name, password) => {
+    const info = await api.createSyncProject(name, password);
+    const connection = await connectSyncProject(info);
+    await get().loadProjects();
+    await get().syncNow();
+    return connection;
+  },
+
+  joinProject: async (name, password) => {
+    const info = await api.joinSyncProject(name, password);
+    const connection = await connectSyncProject(info);
+    await get().loadProjects();
+    await get().syncNow();
+    return connection;
+  },
+
+  leaveProject: async (id) => {
+    await deleteSyncProject(id);
+    await get().loadProjects();
+    await get().loadConflicts();
+  },
+
+  setSyncSecrets: async (id, enabled) => {
+    await updateSyncProject(id, { syncSecrets: enabled });
+    await get().loadProjects();
+  },
+
+  syncNow: async () => {
+    // Only one pass at a time; a request arriving mid-pass runs once it finishes
+    if (get().status === 'syncing') {
+      passQueued = true;
+      return;
+    }
+
+    const projects = await getSyncProjects();
+    if (projects.length === 0) {
+      set({ projects, status: 'local', error: null });
+      return;
+    }
+
+    if (!navigator.onLine) {
+      set({ projects, status: 'offline', pendingChanges: await countOutboxEntries() });
+      return;
+    }
+
+    set({ projects, status: 'syncing' });
+
+    let status: SyncStatus = 'idle';
+    let error: string | null = null;
+    let environmentsChanged = false;
+    let collectionsChanged = false;
+    let foldersChanged = false;
+
+    for (const project of projects) {
+      // Its token expired; nothing can be exchanged until it is joined again
+      if (project.needsRejoin) {
+        status = 'error';
+        error = `Access to project ${project.name} expired; join it again`;
+        continue;
+      }
+
+      try {
+        const result = await syncProject(project);
+        environmentsChanged ||= result.changedTypes.has('environment');
+        collectionsChanged ||= result.changedTypes.has('collection');
+        foldersChanged ||= result.changedTypes.has('folder');
+      } catch (syncError) {
+        // fetch rejects with a TypeError when the network is unreachable
+        status = syncError instanceof TypeError ? 'offline' : 'error';
+        error = syncError instanceof Error ? syncError.message : 'Sync failed';
+        console.error(`Failed to sync project ${project.name}:`, syncError);
+      }
+    }
+
+    if (environmentsChanged) {
+      await useEnvironmentStore.getState().loadEnvironments();
+    }
+    if (collectionsChanged) {
+      // Pick up remote edits to the current collection's variables
+      const { collection, loadCollection } = useVariableStore.getState();
+      await loadCollection(collection?.id ?? null);
+    }
+    if (collectionsChanged || foldersChanged) {
+      // ...and to the auth its requests inherit
+      const { collectionId, folderId } = useRequestStore.getState();
+      await useAuthStore.getState().loadParents(collectionId, folderId);
+    }
+
+    set({
+      projects: await getSyncProjects(),
+      pendingChanges: await countOutboxEntries(),
+      conflicts: await getSyncConflicts(),
+      status,
+      error,
+      lastSyncedAt: status === 'idle' ? new Date().toISOString() : get().lastSyncedAt,
+    });
+
+    if (passQueued) {
+      passQueued = false;
+      await get().syncNow();
+    }
+  },
+
+  loadConflicts: async () => {
+    set({ conflicts: await getSyncConflicts() });
+  },
+
+  resolveConflict: async (id, choice) => {
+    const conflict = get().conflicts.find((existing) => existing.id === id);
+    if (!conflict) return;
+
+    await resolveConflict(conflict, choice);
+    if (choice === 'theirs' && conflict.entityType === 'environment') {
+      await useEnvironmentStore.getState().loadEnvironments();
+    }
+    if (choice === 'theirs' && conflict.entityType === 'collection') {
+      const { collection, loadCollection } = useVariableStore.getState();
+      await loadCollection(collection?.id ?? null);
+    }
+    if (choice === 'theirs' && ['collection', 'folder'].includes(conflict.entityType)) {
+      const { collectionId, folderId } = useRequestStore.getState();
+      await useAuthStore.getState().loadParents(collectionId, folderId);
+    }
+
+    set({
+      conflicts: await getSyncConflicts(),
+      pendingChanges: await countOutboxEntries(),
+    });
+  },
+
+  setLive: (projectId, live) => {
+    set((state) => {
+      const liveProjects = state.liveProjects.filter((id) => id !== projectId);
+      if (live) {
+        return { liveProjects: [...liveProjects, projectId] };
+      }
+
+      // Presence is only known while connected
+      const presence = { ...state.presence };
+      delete presence[projectId];
+      return { liveProjects, presence };
+    });
+  },
+
+  setPresence: (projectId, clients) => {
+    set((state) => ({ presence: { ...state.presence, [projectId]: clients } }));
+  },
+}));
+
+/**
+ * Selector for the number of other devices connected to any joined project
+ */
+export const selectOnlineCount = (state: SyncStore): number => {
+  const ownIds = new Set(state.projects.map((project) => project.clientId));
+  const others = new Set(
+    Object.values(state.presence)
+      .flat()
+      .map((client) => client.clientId)
+      .filter((clientId) => !ownIds.has(clientId))
+  );
+  return others.size;
+};
@@ -0,0 +1,142 @@
+/**
+ * Variable store - workspace globals, the variables of the current collection and
+ * runtime values captured from responses
+ * Environment variables live in the environment store and request-local variables in
+ * the request store; this store merges all five scopes for resolution.
+ *
+ * @module stores/variable.store
+ */
+
+import { create } from 'zustand';
+import type { Collection, Variable } from '../types';
+import {
+  getCollection,
+  getGlobalVariables,
+  saveGlobalVariables,
+  updateCollection,
+} from '../services/db';
+import {
+  mergeVariableScopes,
+  type ScopedVariables,
+  type VariableScopes,
+} from '../services/variable-resolver';
+import { setVariableValues } from '../services/scripts';
+import { useEnvironmentStore } from './environment.store';
+import { useRequestStore } from './request.store';
+
+interface VariableState {
+  /** Workspace-wide variables */
+  globals: Variable[];
+  /** Collection of the request being edited (null = unsaved request) */
+  collection: Collection | null;
+  /** Values captured from responses, in memory only, above every other scope */
+  runtime: Variable[];
+  /** Error message if any */
+  error: string | null;
+}
+
+interface VariableActions {
+  /** Load global variables from IndexedDB */
+  loadGlobals: () => Promise<void>;
+  /** Replace and persist the global variables */
+  setGlobals: (variables: Variable[]) => Promise<void>;
+  /** Load the collection whose variables apply (null clears it) */
+  loadCollection: (id: string | null) => Promise<void>;
+  /** Replace and persist the variables of the current collection */
+  setCollectionVariables: (variables: Variable[]) => Promise<void>;
+  /** Set runtime values by name, adding the ones not defined yet */
+  setRuntimeValues: (values: Record<string, string>) => void;
+  /** Replace the runtime values (kept in memory only) */
+  setRuntime: (variables: Variable[]) => void;
+  /** Get the variables of every scope for the request being edited */
+  getVariableScopes: () => VariableScopes;
+  /** Get the variables of every scope merged by precedence */
+  getScopedVariables: () => ScopedVariables;
+}
+
+type VariableStore = VariableState & VariableActions;
+
+/**
+ * Variable store for globals, collection variables and scope resolution
+ *
+ * @example
+ * ```tsx
+ * const { globals, setGlobals } = useVariableStore();
+ *
+ * const { values } = useVariableStore.getState().getScopedVariables();
+ * ```
+ */
+export const useVariableStore = create<VariableStore>((set, get) => ({
+  // Initial state
+  globals: [],
+  collection: null,
+  runtime: [],
+  error: null,
+
+  // Actions
+  loadGlobals: async () => {
+    try {
+      set({ globals: await getGlobalVariables(), error: null });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load globals' });
+    }
+  },
+
+  setGlobals: async (variables) => {
+    set({ globals: variables, error: null });
+    try {
+      await saveGlobalVariables(variables);
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to save globals' });
+      throw error;
+    }
+  },
+
+  loadCollection: async (id) => {
+    if (!id) {
+      set({ collection: null });
+      return;
+    }
+
+    try {
+      set({ collection: (await getCollection(id)) ?? null, error: null });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to load collection' });
+    }
+  },
+
+  setCollectionVariables: async (variables) => {
+    const { collection } = get();
+    if (!collection) return;
+
+    set({ collection: { ...collection, variables }, error: null });
+    try {
+      await updateCollection(collection.id, { variables });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to save collection variables',
+      });
+      throw error;
+    }
+  },
+
+  setRuntimeValues: (values) => {
+    set((state) => ({ runtime: setVariableValues(state.runtime, values) }));
+  },
+
+  setRuntime: (variables) => set({ runtime: variables }),
+
+  getVariableScopes: () => {
+    const { globals, collection, runtime } = get();
+
+    return {
+      global: globals,
+      collection: collection?.variables ?? [],
+      environment: useEnvironmentStore.getState().activeEnvironment?.variables ?? [],
+      request: useRequestStore.getState().variables,
+      runtime,
+    };
+  },
+
+  getScopedVariables: () => mergeVariableScopes(get().getVariableScopes()),
+}));
@@ -12,18 +12,51 @@ import {
   HeaderSchema,
   BodyTypeSchema,
   RequestBodySchema,
+  CredentialsSchema,
+  OAuth2ConfigSchema,
+  AwsSigV4ConfigSchema,
+  SignaturePlacementSchema,
+  HmacConfigSchema,
+  JwtConfigSchema,
   AuthConfigSchema,
   EnvironmentSchema,
   CollectionSchema,
   FolderSchema,
+  AssertionSourceSchema,
+  AssertionOperatorSchema,
+  AssertionSchema,
+  CaptureSourceSchema,
+  CaptureScopeSchema,
+  CaptureSchema,
   SavedRequestSchema,
   TimingSchema,
   RequestErrorSchema,
+  TestResultSchema,
   HistoryEntrySchema,
+  RunStatusSchema,
+  RunResultSchema,
+  RunDataSchema,
+  CollectionRunSchema,
   ProxyRequestSchema,
   ProxyResponseSchema,
+  OAuthTokenRequestSchema,
+  OAuthTokenResponseSchema,
   SyncProjectInfoSchema,
   SyncChangeSchema,
+  SyncChangesResponseSchema,
+  SyncPushResultSchema,
+  SyncSnapshotSchema,
+  SyncPresenceSchema,
+  SyncLiveMessageSchema,
+  OutboxEntrySchema,
+  SyncProjectConnectionSchema,
+  SyncConflictSchema,
+  FolderExportSchema,
+  RequestExportSchema,
+  CollectionExportSchema,
+  EnvironmentExportSchema,
+  WorkspaceExportSchema,
+  NeoPostmanExportSchema,
 } from './schemas';
 
 // ============================================================================
@@ -45,6 +78,24 @@ export type BodyType = z.infer<typeof BodyTypeSchema>;
 /** Request body */
 export type RequestBody = z.infer<typeof RequestBodySchema>;
 
+/** Username/password for Basic and Digest auth */
+export type Credentials = z.infer<typeof CredentialsSchema>;
+
+/** OAuth 2.0 settings */
+export type OAuth2Config = z.infer<typeof OAuth2ConfigSchema>;
+
+/** AWS Signature Version 4 settings */
+export type AwsSigV4Config = z.infer<typeof AwsSigV4ConfigSchema>;
+
+/** Where a signature or token is added to the request */
+export type SignaturePlacement = z.infer<typeof SignaturePlacementSchema>;
+
+/** HMAC signature settings */
+export type HmacConfig = z.infer<typeof HmacConfigSchema>;
+
+/** JWT settings */
+export type JwtConfig = z.infer<typeof JwtConfigSchema>;
+
 /** Authentication configuration */
 export type AuthConfig = z.infer<typeof AuthConfigSchema>;
 
@@ -61,6 +112,24 @@ export type Collection = z.infer<typeof CollectionSchema>;
 /** Folder within a collection */
 export type Folder = z.infer<typeof FolderSchema>;
 
+/** Response value an assertion checks */
+export type AssertionSource = z.infer<typeof AssertionSourceSchema>;
+
+/** Comparison an assertion makes */
+export type AssertionOperator = z.infer<typeof AssertionOperatorSchema>;
+
+/** No-code check of the response */
+export type Assertion = z.infer<typeof AssertionSchema>;
+
+/** Where a capture reads its value from */
+export type CaptureSource = z.infer<typeof CaptureSourceSchema>;
+
+/** Scope a capture writes to */
+export type CaptureScope = z.infer<typeof CaptureScopeSchema>;
+
+/** Response value saved into a variable */
+export type Capture = z.infer<typeof CaptureSchema>;
+
 /** Saved request configuration */
 export type SavedRequest = z.infer<typeof SavedRequestSchema>;
 
@@ -70,9 +139,24 @@ export type Timing = z.infer<typeof TimingSchema>;
 /** Request error information */
 export type RequestError = z.infer<typeof RequestErrorSchema>;
 
+/** Result of one test in a test script */
+export type TestResult = z.infer<typeof TestResultSchema>;
+
 /** History entry (immutable record) */
 export type HistoryEntry = z.infer<typeof HistoryEntrySchema>;
 
+/** State of a collection run */
+export type RunStatus = z.infer<typeof RunStatusSchema>;
+
+/** Outcome of one request in a collection run */
+export type RunResult = z.infer<typeof RunResultSchema>;
+
+/** Data file driving the iterations of a run */
+export type RunData = z.infer<typeof RunDataSchema>;
+
+/** Report of a collection run */
+export type CollectionRun = z.infer<typeof CollectionRunSchema>;
+
 // ============================================================================
 // API Types
 // ============================================================================
@@ -83,12 +167,64 @@ export type ProxyRequest = z.infer<typeof ProxyRequestSchema>;
 /** Proxy response */
 export type ProxyResponse = z.infer<typeof ProxyResponseSchema>;
 
+/** Grant sent to the proxy's token exchange */
+export type OAuthTokenRequest = z.infer<typeof OAuthTokenRequestSchema>;
+
+/** Token returned by the proxy's token exchange */
+export type OAuthTokenResponse = z.infer<typeof OAuthTokenResponseSchema>;
+
 /** Sync project info */
 export type SyncProjectInfo = z.infer<typeof SyncProjectInfoSchema>;
 
 /** Sync change record */
 export type SyncChange = z.infer<typeof SyncChangeSchema>;
 
+/** Changes returned by the sync server since a cursor */
+export type SyncChangesResponse = z.infer<typeof SyncChangesResponseSchema>;
+
+/** Result of pushing changes to the sync server */
+export type SyncPushResult = z.infer<typeof SyncPushResultSchema>;
+
+/** Full sync project snapshot */
+export type SyncSnapshot = z.infer<typeof SyncSnapshotSchema>;
+
+/** Client connected to a project's live channel */
+export type SyncPresence = z.infer<typeof SyncPresenceSchema>;
+
+/** Message pushed by the sync server over the live channel */
+export type SyncLiveMessage = z.infer<typeof SyncLiveMessageSchema>;
+
+/** Local change waiting to be pushed */
+export type OutboxEntry = z.infer<typeof OutboxEntrySchema>;
+
+/** Sync project joined by this client */
+export type SyncProjectConnection = z.infer<typeof SyncProjectConnectionSchema>;
+
+/** Unresolved concurrent edit */
+export type SyncConflict = z.infer<typeof SyncConflictSchema>;
+
+// ============================================================================
+// Export Types
+// ============================================================================
+
+/** Folder of an exported collection */
+export type FolderExport = z.infer<typeof FolderExportSchema>;
+
+/** Saved request of an exported collection */
+export type RequestExport = z.infer<typeof RequestExportSchema>;
+
+/** Collection export file */
+export type CollectionExport = z.infer<typeof CollectionExportSchema>;
+
+/** Environment export file */
+export type EnvironmentExport = z.infer<typeof EnvironmentExportSchema>;
+
+/** Workspace export file */
+export type WorkspaceExport = z.infer<typeof WorkspaceExportSchema>;
+
+/** Any Neo-Postman export file */
+export type NeoPostmanExport = z.infer<typeof NeoPostmanExportSchema>;
+
 // ============================================================================
 // UI State Types
 // ============================================================================
@@ -120,10 +256,70 @@ export interface ResponseState {
 export type SidebarTab = 'collections' | 'history';
 
 /** Request builder tab */
-export type RequestTab = 'params' | 'headers' | 'body' | 'auth';
+export type RequestTab =
+  | 'params'
+  | 'headers'
+  | 'body'
+  | 'variables'
+  | 'auth'
+  | 'scripts'
+  | 'assertions'
+  | 'captures'
+  | 'tests';
 
 /** Response viewer tab */
-export type ResponseTab = 'body' | 'headers' | 'raw';
+export type ResponseTab = 'body' | 'headers' | 'raw' | 'tests';
+
+/** Team sync status shown in the header */
+export type SyncStatus = 'local' | 'idle' | 'syncing' | 'offline' | 'error';
+
+// ============================================================================
+// Storage Types
+// ============================================================================
+
+/** Encrypted value of a secret variable (kept out of the entity tables, never synced) */
+export interface StoredSecret {
+  /** `${ownerId}/${key}` */
+  id: string;
+  /** Environment, collection or request id, or 'globals' */
+  ownerId: string;
+  /** Variable key */
+  key: string;
+  /** AES-GCM initialization vector */
+  iv: Uint8Array<ArrayBuffer>;
+  /** AES-GCM ciphertext of the UTF-8 value */
+  data: ArrayBuffer;
+}
+
+/** OAuth 2.0 access token as used by the app */
+export interface OAuthToken {
+  accessToken: string;
+  refreshToken: string | null;
+  /** Token type reported by the provider */
+  tokenType: string;
+  /** Granted scope, if the provider reported it */
+  scope: string | null;
+  /** Expiry time (null = the provider gave no lifetime) */
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+/** Cached OAuth 2.0 token (tokens encrypted with the vault key, never synced) */
+export interface StoredOAuthToken extends Omit<OAuthToken, 'accessToken' | 'refreshToken'> {
+  /** Fingerprint of the settings the token was issued for */
+  id: string;
+  /** AES-GCM initialization vector */
+  iv: Uint8Array<ArrayBuffer>;
+  /** AES-GCM ciphertext of the JSON `{ accessToken, refreshToken }` */
+  data: ArrayBuffer;
+}
+
+/** Non-extractable key encrypting secret values on this device */
+export interface VaultKey {
+  id: string;
+  key: CryptoKey;
+  createdAt: string;
+}
 
 // ============================================================================
 // Helper Types
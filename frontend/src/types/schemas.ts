@@ -12,7 +12,10 @@ import { z } from 'zod';
 // ============================================================================
 
 /**
- * Variable schema - key-value pair for environment substitution
+ * Variable schema - key-value pair for {{variable}} substitution
+ * Used by every scope: globals, collections, environments and requests.
+ * Secret values are kept encrypted outside the entity (stored with an empty value),
+ * masked in the UI and redacted from history.
  */
 export const VariableSchema = z.object({
   key: z
@@ -22,6 +25,7 @@ export const VariableSchema = z.object({
     .regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, 'Variable key must be alphanumeric with underscores'),
   value: z.string().max(10000),
   enabled: z.boolean(),
+  secret: z.boolean().optional(),
 });
 
 /**
@@ -68,8 +72,82 @@ export const RequestBodySchema = z
   })
   .nullable();
 
+/**
+ * Username/password credentials for Basic and Digest auth
+ */
+export const CredentialsSchema = z.object({
+  username: z.string(),
+  password: z.string(),
+});
+
+/**
+ * OAuth 2.0 settings
+ * Tokens are exchanged through the proxy and cached on the device, never stored here.
+ */
+export const OAuth2ConfigSchema = z.object({
+  grantType: z.enum(['client_credentials', 'password', 'authorization_code']),
+  tokenUrl: z.string(),
+  authUrl: z.string(), // authorization_code
+  redirectUri: z.string(), // authorization_code, empty = this app's callback page
+  clientId: z.string(),
+  clientSecret: z.string(),
+  scope: z.string(),
+  username: z.string(), // password
+  password: z.string(), // password
+  clientAuth: z.enum(['body', 'header']), // How the client credentials reach the token endpoint
+  usePkce: z.boolean(), // authorization_code
+  headerPrefix: z.string(), // Authorization header scheme, e.g. 'Bearer'
+});
+
+/**
+ * AWS Signature Version 4 settings
+ */
+export const AwsSigV4ConfigSchema = z.object({
+  accessKeyId: z.string(),
+  secretAccessKey: z.string(),
+  sessionToken: z.string(), // Temporary credentials only, empty otherwise
+  region: z.string(), // e.g. 'us-east-1'
+  service: z.string(), // e.g. 'execute-api'
+});
+
+/**
+ * Where a computed signature or token is added to the request
+ */
+export const SignaturePlacementSchema = z.object({
+  in: z.enum(['header', 'query']),
+  name: z.string(), // Header or query parameter name
+  prefix: z.string(), // Prepended with a space, e.g. 'Bearer'
+});
+
+/**
+ * HMAC signature settings
+ * The message is a template: {{variables}} plus {method}, {path}, {url}, {body}
+ * and {timestamp}, filled in with the request as sent.
+ */
+export const HmacConfigSchema = z.object({
+  algorithm: z.enum(['SHA-1', 'SHA-256', 'SHA-384', 'SHA-512']),
+  secret: z.string(),
+  message: z.string(),
+  encoding: z.enum(['hex', 'base64']),
+  timestampHeader: z.string(), // Header sending {timestamp} (Unix seconds), empty = none
+  placement: SignaturePlacementSchema,
+});
+
+/**
+ * JWT settings - a token is signed for every request
+ */
+export const JwtConfigSchema = z.object({
+  algorithm: z.enum(['HS256', 'HS384', 'HS512', 'RS256', 'RS384', 'RS512', 'ES256', 'ES384']),
+  secret: z.string(), // HS*: shared secret; RS*/ES*: PKCS#8 PEM private key
+  header: z.string(), // Extra JOSE header fields as a JSON template
+  payload: z.string(), // Claims as a JSON template
+  expiresIn: z.number().int().nonnegative(), // Seconds until exp, 0 = no exp claim
+  placement: SignaturePlacementSchema,
+});
+
 /**
  * Authentication configuration
+ * Digest needs a challenge/response round trip, which the proxy performs.
  */
 export const AuthConfigSchema = z.discriminatedUnion('type', [
   z.object({ type: z.literal('none') }),
@@ -85,6 +163,30 @@ export const AuthConfigSchema = z.discriminatedUnion('type', [
       in: z.enum(['header', 'query']),
     }),
   }),
+  z.object({
+    type: z.literal('basic'),
+    basic: CredentialsSchema,
+  }),
+  z.object({
+    type: z.literal('digest'),
+    digest: CredentialsSchema,
+  }),
+  z.object({
+    type: z.literal('oauth2'),
+    oauth2: OAuth2ConfigSchema,
+  }),
+  z.object({
+    type: z.literal('aws-sigv4'),
+    awsSigV4: AwsSigV4ConfigSchema,
+  }),
+  z.object({
+    type: z.literal('hmac'),
+    hmac: HmacConfigSchema,
+  }),
+  z.object({
+    type: z.literal('jwt'),
+    jwt: JwtConfigSchema,
+  }),
 ]);
 
 // ============================================================================
@@ -106,12 +208,16 @@ export const EnvironmentSchema = z.object({
 
 /**
  * Collection schema - container for requests and folders
+ * Collection variables apply to all its requests, below the active environment.
+ * Pre-request scripts run collection first, then each folder, then the request.
  */
 export const CollectionSchema = z.object({
   id: z.string().uuid(),
   name: z.string().min(1).max(100),
   description: z.string().max(1000).default(''),
   auth: AuthConfigSchema.nullable(),
+  variables: z.array(VariableSchema).default([]),
+  preRequestScript: z.string().max(100000).default(''), // JavaScript, '' = none
   sortOrder: z.number().int().nonnegative(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
@@ -127,13 +233,73 @@ export const FolderSchema = z.object({
   collectionId: z.string().uuid(),
   parentFolderId: z.string().uuid().nullable(),
   auth: AuthConfigSchema.nullable(),
+  preRequestScript: z.string().max(100000).default(''), // JavaScript, '' = none
   sortOrder: z.number().int().nonnegative(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
 
+/**
+ * Response value an assertion checks
+ */
+export const AssertionSourceSchema = z.enum([
+  'status',
+  'header',
+  'jsonPath',
+  'responseTime',
+  'bodySize',
+]);
+
+/**
+ * Comparison an assertion makes; which ones apply depends on the source
+ */
+export const AssertionOperatorSchema = z.enum([
+  'equals',
+  'notEquals',
+  'contains',
+  'exists',
+  'matches',
+  'below',
+  'above',
+]);
+
+/**
+ * Assertion schema - no-code check of the response, evaluated after each send
+ * Property and value may contain {{variables}}.
+ */
+export const AssertionSchema = z.object({
+  source: AssertionSourceSchema,
+  property: z.string().max(1000), // Header name or JSONPath, '' for the other sources
+  operator: AssertionOperatorSchema,
+  value: z.string().max(10000), // Expected value, regex or limit (ms, bytes); unused by exists
+  enabled: z.boolean(),
+});
+
+/**
+ * Where a capture reads its value from
+ */
+export const CaptureSourceSchema = z.enum(['jsonPath', 'header', 'regex', 'cookie']);
+
+/**
+ * Scope a capture writes to; runtime values are kept in memory for the session
+ */
+export const CaptureScopeSchema = z.enum(['environment', 'collection', 'runtime']);
+
+/**
+ * Capture schema - response value saved into a variable after each successful send
+ * The expression may contain {{variables}}.
+ */
+export const CaptureSchema = z.object({
+  variable: z.string().max(50), // Variable key to write, '' while being edited
+  source: CaptureSourceSchema,
+  expression: z.string().max(1000), // JSONPath, header name, regex on the body or cookie name
+  scope: CaptureScopeSchema,
+  enabled: z.boolean(),
+});
+
 /**
  * Saved request schema
+ * Request variables are local to the request and override every other scope.
  */
 export const SavedRequestSchema = z.object({
   id: z.string().uuid(),
@@ -143,6 +309,11 @@ export const SavedRequestSchema = z.object({
   headers: z.array(HeaderSchema),
   body: RequestBodySchema,
   auth: AuthConfigSchema.nullable(),
+  variables: z.array(VariableSchema).default([]),
+  preRequestScript: z.string().max(100000).default(''), // JavaScript, '' = none
+  testScript: z.string().max(100000).default(''), // JavaScript run on the response, '' = none
+  assertions: z.array(AssertionSchema).default([]),
+  captures: z.array(CaptureSchema).default([]),
   timeout: z.number().int().min(0).max(300000), // 0 = no timeout, max 5 min
   collectionId: z.string().uuid(),
   folderId: z.string().uuid().nullable(),
@@ -173,6 +344,15 @@ export const RequestErrorSchema = z
   })
   .nullable();
 
+/**
+ * Result of one np.test() in a request's test script, or of one assertion
+ */
+export const TestResultSchema = z.object({
+  name: z.string(),
+  passed: z.boolean(),
+  error: z.string().nullable(), // Why it failed, null when passed
+});
+
 /**
  * History entry schema - immutable record of sent request/response
  */
@@ -186,7 +366,17 @@ export const HistoryEntrySchema = z.object({
     url: z.string(),
     headers: z.array(HeaderSchema),
     body: z.string().nullable(),
-    authType: z.enum(['none', 'bearer', 'api-key']),
+    authType: z.enum([
+      'none',
+      'bearer',
+      'api-key',
+      'basic',
+      'digest',
+      'oauth2',
+      'aws-sigv4',
+      'hmac',
+      'jwt',
+    ]),
   }),
 
   // Response data
@@ -207,6 +397,64 @@ export const HistoryEntrySchema = z.object({
   // Metadata
   environmentId: z.string().uuid().nullable(),
   savedRequestId: z.string().uuid().nullable(),
+
+  // Values generated for {{$dynamic}} variables (absent on entries older than them)
+  dynamicVariables: z.array(z.object({ name: z.string(), value: z.string() })).optional(),
+
+  // Results of the request's assertions and test script (absent on entries older than them)
+  assertions: z.array(TestResultSchema).optional(),
+  tests: z.array(TestResultSchema).optional(),
+});
+
+/**
+ * State of a collection run
+ */
+export const RunStatusSchema = z.enum(['running', 'passed', 'failed', 'cancelled']);
+
+/**
+ * Outcome of one request in a collection run
+ */
+export const RunResultSchema = z.object({
+  requestId: z.string().uuid(),
+  name: z.string(),
+  folder: z.string(), // Folder path, e.g. 'Users / Admin' ('' = collection root)
+  iteration: z.number().int().min(1),
+  method: HttpMethodSchema,
+  url: z.string(), // Resolved URL, secret values put back as their {{references}}
+  status: z.number().int(), // 0 = no response
+  statusText: z.string(),
+  time: z.number().nonnegative(), // ms
+  size: z.number().int().nonnegative(),
+  error: z.string().nullable(), // Why it was not sent, or why its scripts failed
+  assertions: z.array(TestResultSchema),
+  tests: z.array(TestResultSchema),
+  passed: z.boolean(), // Sent without error and every assertion and test passed
+});
+
+/**
+ * Data file of a data-driven run: one row per iteration, columns as variables
+ */
+export const RunDataSchema = z.object({
+  fileName: z.string(),
+  rows: z.array(z.record(z.string(), z.string())).min(1).max(1000),
+});
+
+/**
+ * Collection run schema - report of a run of every request of a collection, in order
+ */
+export const CollectionRunSchema = z.object({
+  id: z.string().uuid(),
+  collectionId: z.string().uuid(),
+  collectionName: z.string(),
+  environmentId: z.string().uuid().nullable(),
+  iterations: z.number().int().min(1).max(1000),
+  delay: z.number().int().min(0).max(60000), // ms between requests
+  stopOnFailure: z.boolean(),
+  data: RunDataSchema.nullable(), // Parsed data file, kept so the run can be repeated exactly
+  status: RunStatusSchema,
+  results: z.array(RunResultSchema), // In run order
+  startedAt: z.string().datetime(),
+  finishedAt: z.string().datetime().nullable(), // null while running
 });
 
 // ============================================================================
@@ -222,6 +470,7 @@ export const ProxyRequestSchema = z.object({
   headers: z.record(z.string(), z.string()).optional(),
   body: z.string().nullable().optional(),
   timeout: z.number().int().min(0).max(300000).default(30000),
+  digest: CredentialsSchema.optional(), // Answer a Digest challenge with these credentials
 });
 
 /**
@@ -238,6 +487,35 @@ export const ProxyResponseSchema = z.object({
   error: RequestErrorSchema,
 });
 
+/**
+ * OAuth token request schema - grant exchanged by the proxy
+ */
+export const OAuthTokenRequestSchema = z.object({
+  grantType: z.enum(['client_credentials', 'password', 'authorization_code', 'refresh_token']),
+  tokenUrl: z.string().url(),
+  clientId: z.string(),
+  clientSecret: z.string().optional(),
+  clientAuth: z.enum(['body', 'header']).default('body'),
+  scope: z.string().optional(),
+  username: z.string().optional(), // password
+  password: z.string().optional(), // password
+  code: z.string().optional(), // authorization_code
+  redirectUri: z.string().optional(), // authorization_code
+  codeVerifier: z.string().optional(), // authorization_code with PKCE
+  refreshToken: z.string().optional(), // refresh_token
+});
+
+/**
+ * OAuth token response schema
+ */
+export const OAuthTokenResponseSchema = z.object({
+  accessToken: z.string(),
+  tokenType: z.string(),
+  expiresIn: z.number().nullable(), // Seconds, null if the provider did not say
+  refreshToken: z.string().nullable(),
+  scope: z.string().nullable(),
+});
+
 /**
  * Sync project info schema
  */
@@ -250,6 +528,8 @@ export const SyncProjectInfoSchema = z.object({
 
 /**
  * Sync change schema
+ * Updates list the top-level fields they modified so concurrent edits to
+ * different fields merge; without changedFields the whole entity is replaced
  */
 export const SyncChangeSchema = z.object({
   id: z.string().uuid(),
@@ -257,6 +537,189 @@ export const SyncChangeSchema = z.object({
   entityId: z.string().uuid(),
   operation: z.enum(['create', 'update', 'delete']),
   data: z.unknown().nullable(),
+  changedFields: z.array(z.string()).optional(),
   timestamp: z.string().datetime(),
   clientId: z.string(),
 });
+
+/**
+ * Sync changes response schema
+ */
+export const SyncChangesResponseSchema = z.object({
+  changes: z.array(SyncChangeSchema),
+  cursor: z.number().int().nonnegative(),
+});
+
+/**
+ * Sync push result schema
+ */
+export const SyncPushResultSchema = z.object({
+  accepted: z.number().int().nonnegative(),
+  serverTime: z.string().datetime(),
+});
+
+/**
+ * Sync project snapshot schema
+ */
+export const SyncSnapshotSchema = z.object({
+  environments: z.array(z.unknown()),
+  collections: z.array(z.unknown()),
+  folders: z.array(z.unknown()),
+  requests: z.array(z.unknown()),
+  cursor: z.number().int().nonnegative(),
+});
+
+/**
+ * Sync presence schema - client connected to a project's live channel
+ */
+export const SyncPresenceSchema = z.object({
+  clientId: z.string(),
+  connectedAt: z.string().datetime(),
+});
+
+/**
+ * Sync live message schema - pushed by the server over the live channel
+ */
+export const SyncLiveMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('changes'),
+    changes: z.array(SyncChangeSchema),
+    cursor: z.number().int().nonnegative(),
+  }),
+  z.object({
+    type: z.literal('presence'),
+    clients: z.array(SyncPresenceSchema),
+  }),
+]);
+
+/**
+ * Outbox entry schema - local change waiting to be pushed to a sync project
+ */
+export const OutboxEntrySchema = SyncChangeSchema.extend({
+  projectId: z.string().uuid(),
+});
+
+/**
+ * Sync project connection schema - a project this client has joined
+ */
+export const SyncProjectConnectionSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  token: z.string(),
+  clientId: z.string(),
+  cursor: z.number().int().nonnegative().nullable(), // Sequence number of the last pulled change
+  lastSyncedAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  syncSecrets: z.boolean().optional(), // Share secret values (excluded by default)
+  needsRejoin: z.boolean().optional(), // Token expired; sync stops until the project is joined again
+});
+
+/**
+ * Sync conflict schema - concurrent edits to the same fields of an entity
+ * Local values are kept until the user resolves the conflict
+ */
+export const SyncConflictSchema = z.object({
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  entityType: z.enum(['environment', 'collection', 'folder', 'request']),
+  entityId: z.string().uuid(),
+  entityName: z.string(),
+  fields: z.array(z.string()),
+  local: z.record(z.string(), z.unknown()),
+  remote: z.record(z.string(), z.unknown()),
+  remoteClientId: z.string(),
+  remoteTimestamp: z.string().datetime(),
+  createdAt: z.string().datetime(),
+});
+
+// ============================================================================
+// Export Schemas (Neo-Postman file format, shared with the headless runner)
+// ============================================================================
+
+/**
+ * Folder of an exported collection
+ * Ids only link folders and requests within the file; imports generate new ones.
+ */
+export const FolderExportSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(100),
+  parentFolderId: z.string().nullable().default(null),
+  auth: AuthConfigSchema.nullable().default(null), // null = inherit
+  preRequestScript: z.string().max(100000).default(''),
+  sortOrder: z.number().int().nonnegative().default(0),
+});
+
+/**
+ * Saved request of an exported collection
+ */
+export const RequestExportSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(200),
+  method: HttpMethodSchema,
+  url: z.string().min(1).max(2000),
+  headers: z.array(HeaderSchema).default([]),
+  body: RequestBodySchema.default(null),
+  auth: AuthConfigSchema.nullable().default(null), // null = inherit
+  variables: z.array(VariableSchema).default([]),
+  preRequestScript: z.string().max(100000).default(''),
+  testScript: z.string().max(100000).default(''),
+  assertions: z.array(AssertionSchema).default([]),
+  captures: z.array(CaptureSchema).default([]),
+  timeout: z.number().int().min(0).max(300000).default(30000),
+  folderId: z.string().nullable().default(null), // null = collection root
+  sortOrder: z.number().int().nonnegative().default(0),
+});
+
+/**
+ * Collection in the Neo-Postman export format, with its folders and requests
+ * Secret variable values are exported empty.
+ */
+export const CollectionExportSchema = z.object({
+  format: z.literal('neo-postman'),
+  version: z.literal(1),
+  type: z.literal('collection'),
+  collection: z.object({
+    name: z.string().min(1).max(100),
+    description: z.string().max(1000).default(''),
+    auth: AuthConfigSchema.nullable().default(null),
+    variables: z.array(VariableSchema).default([]),
+    preRequestScript: z.string().max(100000).default(''),
+  }),
+  folders: z.array(FolderExportSchema).default([]),
+  requests: z.array(RequestExportSchema).default([]),
+});
+
+/**
+ * Environment in the Neo-Postman export format
+ */
+export const EnvironmentExportSchema = z.object({
+  format: z.literal('neo-postman'),
+  version: z.literal(1),
+  type: z.literal('environment'),
+  environment: z.object({
+    name: z.string().min(1).max(100),
+    variables: z.array(VariableSchema).default([]),
+  }),
+});
+
+/**
+ * Every collection and environment plus the global variables
+ * Collections and environments are complete exports, usable on their own.
+ */
+export const WorkspaceExportSchema = z.object({
+  format: z.literal('neo-postman'),
+  version: z.literal(1),
+  type: z.literal('workspace'),
+  collections: z.array(CollectionExportSchema).default([]),
+  environments: z.array(EnvironmentExportSchema).default([]),
+  globals: z.array(VariableSchema).default([]),
+});
+
+/**
+ * Any Neo-Postman export file
+ */
+export const NeoPostmanExportSchema = z.discriminatedUnion('type', [
+  CollectionExportSchema,
+  EnvironmentExportSchema,
+  WorkspaceExportSchema,
+]);
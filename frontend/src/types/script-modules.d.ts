@@ -0,0 +1,8 @@
+/**
+ * `?script` imports - a module bundled into one classic script, as its source text
+ * (see the inline-script plugin in vite.config.ts)
+ */
+declare module '*?script' {
+  const source: string;
+  export default source;
+}
@@ -1,10 +1,42 @@
 import { defineConfig } from 'vitest/config';
+import { build, type Plugin, type Rollup } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
 
+/**
+ * `?script` imports: the module bundled with its imports into one classic script,
+ * exported as its source text. The script sandbox runs it from a blob URL, where
+ * module imports cannot be loaded.
+ */
+function inlineScript(): Plugin {
+  return {
+    name: 'inline-script',
+    async load(id) {
+      const [file, query] = id.split('?');
+      if (query !== 'script' || !file) return null;
+
+      const result = await build({
+        configFile: false,
+        logLevel: 'silent',
+        build: {
+          write: false,
+          lib: { entry: file, formats: ['iife'], name: 'script' },
+        },
+      });
+      // Not watching, so one output per format
+      const [{ output }] = (Array.isArray(result) ? result : [result]) as Rollup.RollupOutput[];
+      const [chunk] = output;
+      for (const module of Object.keys(chunk.modules)) {
+        this.addWatchFile(module);
+      }
+      return `export default ${JSON.stringify(chunk.code)};`;
+    },
+  };
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), inlineScript()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
@@ -16,6 +48,8 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:8000',
         changeOrigin: true,
+        // Sync live channel
+        ws: true,
       },
     },
   },